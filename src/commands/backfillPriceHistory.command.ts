@@ -0,0 +1,27 @@
+/**
+ * Command giving the products created before the price history existed their first
+ * entry, with their current costs and prices effective from their creation date, so the
+ * price list as of a date knows their prices. Products with entries are left as they are.
+ *
+ * Usage: npm run prices:backfill
+ */
+import 'reflect-metadata';
+import Container from 'typedi';
+import colorTxt from 'ansi-colors';
+import { log } from 'console';
+import PriceHistoryService from '@/modules/catalog/productCatalog/priceHistory/priceHistory.service';
+import { PrismaService } from '@/database/prisma/prisma.service';
+
+async function main() {
+  const backfilled = await Container.get(PriceHistoryService).backfill();
+  log(colorTxt.green(`✔ ${backfilled} products backfilled`));
+}
+
+main()
+  .catch((e) => {
+    log(colorTxt.red(`x Price history backfill error ${e}`));
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await Container.get(PrismaService).disconnect();
+  });
@@ -0,0 +1,77 @@
+/**
+ * Command copying the stored files from one storage driver to another, before changing
+ * `STORAGE_DRIVER`. Both drivers are configured by the `STORAGE_*` variables. Files
+ * already in the target are skipped, unless `--overwrite` is given, so an interrupted
+ * migration can be run again. The source is left untouched.
+ *
+ * Usage: npm run storage:migrate -- --from local --to s3 [--overwrite]
+ */
+import 'reflect-metadata';
+import colorTxt from 'ansi-colors';
+import { log } from 'console';
+import { createStorageDriver } from '@/core/storage/storage.service';
+import {
+  STORAGE_DRIVER_NAMES,
+  StorageDriverName,
+} from '@/core/storage/storage.types';
+
+/**
+ * Reads the value of an option of the command line.
+ */
+function option(name: string) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+  const from = option('from') as StorageDriverName;
+  const to = option('to') as StorageDriverName;
+  const overwrite = process.argv.includes('--overwrite');
+  if (
+    !STORAGE_DRIVER_NAMES.includes(from) ||
+    !STORAGE_DRIVER_NAMES.includes(to)
+  ) {
+    throw new Error(
+      `--from and --to must be one of ${STORAGE_DRIVER_NAMES.join(', ')}`
+    );
+  }
+  if (from === to) {
+    throw new Error('--from and --to must be different drivers');
+  }
+
+  const source = createStorageDriver(from);
+  const target = createStorageDriver(to);
+  let copied = 0;
+  let skipped = 0;
+  const failed: string[] = [];
+
+  for await (const key of source.list()) {
+    try {
+      if (!overwrite && (await target.exists(key))) {
+        skipped++;
+        continue;
+      }
+      // The target deduces the content type from the extension, as the source did
+      await target.put(key, await source.get(key));
+      copied++;
+    } catch (error) {
+      log(`File ${key} not copied:`, error);
+      failed.push(key);
+    }
+  }
+
+  log(colorTxt.green(`✔ ${copied} files copied from ${from} to ${to}`));
+  if (skipped > 0) {
+    log(colorTxt.cyan(`- ${skipped} files already in ${to} skipped`));
+  }
+  if (failed.length > 0) {
+    log(colorTxt.yellow(`! ${failed.length} files failed:`));
+    failed.forEach((key) => log(`  - ${key}`));
+    process.exitCode = 1;
+  }
+}
+
+main().catch((e) => {
+  log(colorTxt.red(`x Storage migration error ${e}`));
+  process.exitCode = 1;
+});
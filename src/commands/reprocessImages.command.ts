@@ -0,0 +1,34 @@
+/**
+ * Command regenerating the variants of the stored images (categories, suppliers and
+ * products), after a change of the sizes or formats in `core/constants/images.ts` or
+ * for images uploaded before variants existed.
+ *
+ * Usage: npm run images:reprocess
+ */
+import 'reflect-metadata';
+import Container from 'typedi';
+import colorTxt from 'ansi-colors';
+import { log } from 'console';
+import FilesService from '@/modules/files/files.service';
+import { PrismaService } from '@/database/prisma/prisma.service';
+
+async function main() {
+  const { processed, failed } =
+    await Container.get(FilesService).reprocessImages();
+
+  log(colorTxt.green(`✔ ${processed} images reprocessed`));
+  if (failed.length > 0) {
+    log(colorTxt.yellow(`! ${failed.length} images failed:`));
+    failed.forEach((file) => log(`  - ${file}`));
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((e) => {
+    log(colorTxt.red(`x Image reprocessing error ${e}`));
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await Container.get(PrismaService).disconnect();
+  });
@@ -31,7 +31,13 @@ const corsOptions: cors.CorsOptions = {
   },
   credentials: true, // Allow credentials (e.g., cookies, authorization headers) to be included in requests
   optionsSuccessStatus: 200, // Use HTTP status 200 for successful preflight requests instead of the default 204
-  allowedHeaders: ['Content-Type', 'Authorization'], // List of allowed headers in the requests
+  allowedHeaders: [
+    'Content-Type',
+    'Authorization',
+    'X-API-Key',
+    'X-CSRF-Token',
+  ], // List of allowed headers in the requests
+  exposedHeaders: ['X-Impersonated-By'], // Headers readable by the client (flags impersonated sessions)
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'], // List of allowed HTTP methods
 };
 
@@ -16,6 +16,8 @@ import { parseAllowedOrigins } from '@/core/utils/cors.util'; // Utility functio
 import { EnvConfig } from './types'; // Importing the type definition for environment configuration
 import { ProfileName } from '@prisma/client'; // Importing the ProfileName type from Prisma client
 import { log } from 'console'; // Importing the logging utility
+import { z } from 'zod'; // Importing zod to validate the settings limited to a set of values
+import { STORAGE_DRIVER_NAMES } from '@/core/storage/storage.types'; // Importing the names of the storage drivers
 
 // Configuration object with strongly typed properties
 const config: EnvConfig = {
@@ -46,11 +48,18 @@ const config: EnvConfig = {
   app: {
     host: env.APP_URL_HOST ?? 'localhost', // Host for the application
     port: (env.APP_URL_PORT && parseInt(env.APP_URL_PORT, 10)) || 8080, // Port with a default of 8080
+    publicUrl: env.APP_PUBLIC_URL ?? 'http://localhost:8080', // Public base URL used in emailed links
   },
 
   // Password-related configuration
   pwd: {
-    pwdLength: parseInt(env.PWD_LENGTH ?? '') ?? 8, // Minimum password length, default is 8
+    pwdLength: parseInt(env.PWD_LENGTH ?? '8', 10) || 8, // Minimum password length, default is 8
+    maxLength: parseInt(env.PWD_MAX_LENGTH ?? '72', 10) || 72, // Maximum length, bcrypt ignores the bytes after 72
+    requireLowercase: env.PWD_REQUIRE_LOWERCASE !== 'false', // At least one lowercase letter
+    requireUppercase: env.PWD_REQUIRE_UPPERCASE !== 'false', // At least one uppercase letter
+    requireDigit: env.PWD_REQUIRE_DIGIT !== 'false', // At least one digit
+    requireSymbol: env.PWD_REQUIRE_SYMBOL !== 'false', // At least one character that is neither a letter nor a digit
+    historySize: parseInt(env.PWD_HISTORY_SIZE ?? '5', 10) || 0, // Previous passwords that cannot be reused, besides the current one
   },
 
   // SSL/TLS configuration
@@ -80,27 +89,127 @@ const config: EnvConfig = {
     secretApp: env.JWT_SECRET_APP ?? '', // Secret for app-related tokens
     expiredIn: env.JWT_EXPIRED_IN ?? '24h', // Expiration time for access tokens
     refreshToken: env.JWT_REFRESH_TOKEN_SECRET ?? '', // Secret for refresh tokens
-    refreshExpiresIn: env.JWT_REFRSH_EXPIRED_IN ?? '1d', // Expiration time for refresh tokens
+    refreshExpiresIn:
+      env.JWT_REFRESH_EXPIRED_IN ?? env.JWT_REFRSH_EXPIRED_IN ?? '1d', // Sliding refresh window of browser sessions (the misspelled name is still read)
     accessToken: env.JWT_ACCESS_TOKEN_SECRET ?? '', // Secret for access tokens
-    mobileExpiredIn: env.JWT_MOBILE_EXPIRED_IN ?? '30d', // Expiration for mobile-specific tokens
-    maxConnexions: parseInt(env.JWT_MAX_CONNEXION ?? '') ?? 2, // Maximum allowed simultaneous connections
+    mobileExpiredIn: env.JWT_MOBILE_EXPIRED_IN ?? '30d', // Sliding refresh window of mobile sessions
+    browserSessionMaxAge: env.JWT_BROWSER_SESSION_MAX_AGE ?? '7d', // Browser sessions end after this, even if refreshed
+    mobileSessionMaxAge: env.JWT_MOBILE_SESSION_MAX_AGE ?? '180d', // Mobile sessions end after this, even if refreshed
+    maxConnexions: parseInt(env.JWT_MAX_CONNEXION ?? '2', 10) || 2, // Maximum allowed simultaneous connections
+    emailVerificationExpiresIn: env.JWT_EMAIL_VERIFICATION_EXPIRED_IN ?? '1d', // Lifetime of email verification links
+    twoFactorChallengeExpiresIn: env.JWT_2FA_CHALLENGE_EXPIRED_IN ?? '5m', // Time allowed to enter the second factor after the password
+    signingAlgorithm: env.JWT_SIGNING_ALGORITHM ?? 'RS256', // Default algorithm of the access token keys created by a rotation
+    keyRingSyncInterval: env.JWT_KEY_RING_SYNC_INTERVAL ?? '1m', // Reload frequency of the key ring, also the delay before a new key signs tokens
+  },
+
+  // Access token revocation list configuration
+  tokenRevocation: {
+    syncInterval: env.TOKEN_REVOCATION_SYNC_INTERVAL ?? '30s', // Delay before revocations made by other instances are seen
+    purgeInterval: env.TOKEN_REVOCATION_PURGE_INTERVAL ?? '1h', // Frequency of the removal of expired entries
+  },
+
+  // Cookie transport of refresh tokens for browser clients
+  authCookie: {
+    refreshName: env.AUTH_COOKIE_REFRESH_NAME ?? 'mdg_refresh', // HttpOnly cookie holding the refresh token
+    csrfName: env.AUTH_COOKIE_CSRF_NAME ?? 'mdg_csrf', // Readable cookie holding the double-submit CSRF token
+    secure: env.AUTH_COOKIE_SECURE !== 'false', // Only send the cookies over HTTPS (localhost is accepted by browsers)
+    sameSite:
+      (env.AUTH_COOKIE_SAME_SITE as 'strict' | 'lax' | 'none') ?? 'strict', // SameSite policy of both cookies
   },
 
   // OTP (One-Time Password) configuration
   otp: {
-    expiredIn: env.OTP_EXPIRED_IN ?? '3min', // OTP expiration time
+    expiredIn: env.OTP_EXPIRED_IN ?? '3m', // OTP expiration time
     hashSecret: env.OTP_HASH_SECRET ?? '', // Secret for hashing OTPs
+    maxAttempts: parseInt(env.OTP_MAX_ATTEMPTS ?? '5', 10) || 5, // Failed attempts allowed before a code is locked
+  },
+
+  // Two-factor authentication (TOTP) configuration
+  twoFactor: {
+    issuer: env.TWO_FACTOR_ISSUER ?? 'MDG', // Name displayed by authenticator applications
+    recoveryCodesCount:
+      parseInt(env.TWO_FACTOR_RECOVERY_CODES ?? '10', 10) || 10, // Recovery codes generated at enrollment
+  },
+
+  // Sign-in brute-force protection configuration
+  loginProtection: {
+    maxFailures: parseInt(env.LOGIN_MAX_FAILURES ?? '5', 10) || 5, // Failures per username before lockout
+    ipMaxFailures: parseInt(env.LOGIN_IP_MAX_FAILURES ?? '20', 10) || 20, // Failures per IP address before lockout
+    failureWindow: env.LOGIN_FAILURE_WINDOW ?? '15m', // Failures older than this are forgotten
+    lockoutDuration: env.LOGIN_LOCKOUT_DURATION ?? '15m', // Duration of a lockout
+    delayBaseMs: parseInt(env.LOGIN_DELAY_BASE_MS ?? '500', 10) || 500, // First delay, doubled at each new failure
+    delayMaxMs: parseInt(env.LOGIN_DELAY_MAX_MS ?? '8000', 10) || 8000, // Maximum delay applied before answering
+  },
+
+  // Scheduled product price changes configuration
+  priceSchedule: {
+    applyInterval: env.PRICE_SCHEDULE_APPLY_INTERVAL ?? '1m', // Interval between two checks for due price changes
+  },
+
+  // Pricing rules configuration
+  pricingRules: {
+    repriceInterval: env.PRICING_RULES_REPRICE_INTERVAL ?? '1h', // Interval between two repricings following the validity periods of the rules
+  },
+
+  // File storage configuration
+  storage: {
+    driver: z
+      .enum(STORAGE_DRIVER_NAMES, {
+        message: `STORAGE_DRIVER must be one of ${STORAGE_DRIVER_NAMES.join(', ')}`,
+      })
+      .parse(env.STORAGE_DRIVER || 'local'), // Where uploaded files are stored: 'local' (disk) or 's3' (S3-compatible service, such as MinIO)
+    signedUrlExpiresIn: env.STORAGE_SIGNED_URL_EXPIRED_IN ?? '15m', // Default lifetime of the signed URLs of stored files
+    local: {
+      root: env.STORAGE_LOCAL_ROOT ?? 'storage/uploads/default', // Directory of the files, relative to the application root
+      signingSecret: env.STORAGE_LOCAL_SIGNING_SECRET ?? '', // Secret of the signed URLs, derived from the crypto secret key when empty
+    },
+    s3: {
+      bucket: env.STORAGE_S3_BUCKET ?? '', // Bucket of the files
+      region: env.STORAGE_S3_REGION ?? 'us-east-1', // Region of the bucket
+      endpoint: env.STORAGE_S3_ENDPOINT ?? '', // Endpoint of S3-compatible services (e.g. http://localhost:9000 for MinIO), AWS when empty
+      accessKeyId: env.STORAGE_S3_ACCESS_KEY_ID ?? '', // Access key, the default AWS credential chain when empty
+      secretAccessKey: env.STORAGE_S3_SECRET_ACCESS_KEY ?? '', // Secret of the access key
+      forcePathStyle: env.STORAGE_S3_FORCE_PATH_STYLE === 'true', // Use path-style URLs (bucket in the path), required by MinIO
+    },
+  },
+
+  // Audit log configuration
+  audit: {
+    retention: env.AUDIT_LOG_RETENTION ?? '365d', // Audit entries older than this are purged
+    purgeInterval: env.AUDIT_LOG_PURGE_INTERVAL ?? '1d', // Interval between two purges
+  },
+
+  // Admin impersonation configuration
+  impersonation: {
+    expiresIn: env.IMPERSONATION_EXPIRED_IN ?? '15m', // Lifetime of the access token issued to impersonate a user
+  },
+
+  // Suspicious sign-in alerts configuration
+  signInAlert: {
+    lookback: env.SIGN_IN_ALERT_LOOKBACK ?? '90d', // Sessions older than this are not compared with a new sign-in
+    reportLinkExpiresIn: env.SIGN_IN_REPORT_LINK_EXPIRED_IN ?? '7d', // Lifetime of the "this wasn't me" link
+  },
+
+  // API keys configuration
+  apiKey: {
+    expiredIn: env.API_KEY_EXPIRED_IN ?? '365d', // Lifetime of a key issued without an explicit expiry
   },
 
   // Bcrypt configuration
   bcrypt: {
-    saltRounds: parseInt(env.BCRYPT_SALTROUNDS ?? '') ?? 10, // Number of bcrypt salt rounds for hashing passwords
+    saltRounds: parseInt(env.BCRYPT_SALTROUNDS ?? '10', 10) || 10, // Number of bcrypt salt rounds for hashing passwords
   },
 
   // Rate limiter configuration
   rateLimiter: {
     max: env.RATE_LIMIT_MAX ?? '100', // Maximum requests allowed per window
     window: env.RATE_LIMIT_WINDOW ?? '15', // Time window in minutes for rate limiting
+    resendVerificationMax: env.RATE_LIMIT_RESEND_VERIFICATION_MAX ?? '3', // Verification emails allowed per window
+    resendVerificationWindow: env.RATE_LIMIT_RESEND_VERIFICATION_WINDOW ?? '60', // Window in minutes for verification emails
+    passwordResetMax: env.RATE_LIMIT_PASSWORD_RESET_MAX ?? '5', // Password reset requests allowed per window
+    passwordResetWindow: env.RATE_LIMIT_PASSWORD_RESET_WINDOW ?? '60', // Window in minutes for password reset requests
+    signInReportMax: env.RATE_LIMIT_SIGN_IN_REPORT_MAX ?? '10', // "This wasn't me" page views and reports allowed per window
+    signInReportWindow: env.RATE_LIMIT_SIGN_IN_REPORT_WINDOW ?? '60', // Window in minutes for sign-in reports
   },
 
   // Debugging configuration
@@ -111,11 +220,11 @@ const config: EnvConfig = {
 
   // Default user configuration
   defaultUser: {
-    name: env.DEFAULT_USER_NAME ?? 'Birewa', // Default user name
-    contact: env.DEFAULT_USER_CONTACT ?? '22870478925', // Default user contact
-    password: env.DEFAULT_USER_PASSWORD ?? 'secret', // Default user password
-    email: env.DEFAULT_USER_EMAIL ?? 'amonaaudrey16@gmail.com', // Default user email
-    profiles: (env.DEFAULT_USER_PROFILES as ProfileName) ?? 'ADMIN', // Default user profile
+    name: env.DEFAULT_USER_NAME || 'Birewa', // Default user name (empty values fall back to the defaults)
+    contact: env.DEFAULT_USER_CONTACT || '22870478925', // Default user contact
+    password: env.DEFAULT_USER_PASSWORD || 'Mdg-Dev#2024', // Default user password, must follow the password policy (PWD_*)
+    email: env.DEFAULT_USER_EMAIL || 'amonaaudrey16@gmail.com', // Default user email
+    profiles: (env.DEFAULT_USER_PROFILES as ProfileName) || 'ADMIN', // Default user profile
   },
 };
 
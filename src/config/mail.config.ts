@@ -11,9 +11,13 @@ const mailConfig = {
   },
   smtp: {
     service: env.EMAIL_SMTP_SERVICE ?? 'gmail',
+    host: env.EMAIL_SMTP_HOST ?? 'smtp.gmail.com',
+    port: parseInt(env.EMAIL_SMTP_PORT ?? '587', 10),
     user: env.EMAIL_SMTP_USER ?? 'admin',
     password: env.EMAIL_SMTP_PASSWORD ?? '',
   },
+  from:
+    env.EMAIL_FROM ?? '"Measured Dry Goods" <no-reply@measureddrygoods.com>',
   oauth: {
     clientId: env.EMAIL_OAUTH_CLIENT_ID ?? '',
     clientSecret: env.EMAIL_OAUTH_CLIENT_SECRET ?? '',
@@ -6,3 +6,9 @@ export const ALLOWED_FILE_TYPES = ['jpg', 'jpeg', 'png', 'pdf', 'mp4', 'mp3'];
 
 // List of allowed MIME types to validate file content
 export const MIME_TYPES = ['image/', 'application/pdf', 'video/', 'audio/'];
+
+// Maximum size of an imported spreadsheet set to 5 MB (in bytes)
+export const LIMIT_SPREADSHEET_FILE_SIZE = 1024 * 1024 * 5; // 5 MB
+
+// Extensions of the spreadsheets accepted by imports
+export const SPREADSHEET_FILE_TYPES = ['csv', 'xlsx'];
@@ -26,6 +26,11 @@ export default {
         scheme: 'bearer',
         bearerFormat: 'JWT', // For JSON Web Tokens
       },
+      apiKeyAuth: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'X-API-Key', // For partner integrations
+      },
     },
   },
   paths: {}, // Paths (routes) will be dynamically added
@@ -1,6 +1,7 @@
 // types.d.ts
 
 import { ProfileName } from '@prisma/client';
+import { StorageDriverName } from '@/core/storage/storage.types';
 
 // Global Environment Configuration export Interface
 export interface EnvConfig {
@@ -17,7 +18,18 @@ export interface EnvConfig {
   api: ApiConfig;
   cors: CorsConfig;
   jwt: JwtConfig;
+  tokenRevocation: TokenRevocationConfig;
+  authCookie: AuthCookieConfig;
   otp: OtpConfig;
+  twoFactor: TwoFactorConfig;
+  loginProtection: LoginProtectionConfig;
+  signInAlert: SignInAlertConfig;
+  impersonation: ImpersonationConfig;
+  audit: AuditConfig;
+  priceSchedule: PriceScheduleConfig;
+  pricingRules: PricingRulesConfig;
+  storage: StorageConfig;
+  apiKey: ApiKeyConfig;
   bcrypt: BcryptConfig;
   rateLimiter: RateLimiterConfig;
   debug: DebugConfig;
@@ -34,11 +46,18 @@ export interface CryptoConfig {
 export interface AppConfig {
   host: string;
   port: number;
+  publicUrl: string;
 }
 
 // Password configuration
 export interface PwdConfig {
   pwdLength: number;
+  maxLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  historySize: number;
 }
 
 // SSL configuration
@@ -71,13 +90,106 @@ export interface JwtConfig {
   refreshExpiresIn: string;
   accessToken: string; // Typo correction
   mobileExpiredIn: string;
+  browserSessionMaxAge: string;
+  mobileSessionMaxAge: string;
   maxConnexions: number;
+  emailVerificationExpiresIn: string;
+  twoFactorChallengeExpiresIn: string;
+  signingAlgorithm: string;
+  keyRingSyncInterval: string;
+}
+
+// Access token revocation configuration
+export interface TokenRevocationConfig {
+  syncInterval: string;
+  purgeInterval: string;
+}
+
+// Refresh token cookie configuration
+export interface AuthCookieConfig {
+  refreshName: string;
+  csrfName: string;
+  secure: boolean;
+  sameSite: 'strict' | 'lax' | 'none';
 }
 
 // OTP configuration
 export interface OtpConfig {
   expiredIn: string;
   hashSecret: string;
+  maxAttempts: number;
+}
+
+// Two-factor authentication configuration
+export interface TwoFactorConfig {
+  issuer: string;
+  recoveryCodesCount: number;
+}
+
+// Sign-in brute-force protection configuration
+export interface LoginProtectionConfig {
+  maxFailures: number;
+  ipMaxFailures: number;
+  failureWindow: string;
+  lockoutDuration: string;
+  delayBaseMs: number;
+  delayMaxMs: number;
+}
+
+// Scheduled product price changes configuration
+export interface PriceScheduleConfig {
+  applyInterval: string;
+}
+
+// Pricing rules configuration
+export interface PricingRulesConfig {
+  repriceInterval: string;
+}
+
+// File storage configuration
+export interface StorageConfig {
+  driver: StorageDriverName;
+  signedUrlExpiresIn: string;
+  local: LocalStorageConfig;
+  s3: S3StorageConfig;
+}
+
+// Local disk storage configuration
+export interface LocalStorageConfig {
+  root: string;
+  signingSecret: string;
+}
+
+// S3-compatible storage configuration
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+}
+
+// Audit log configuration
+export interface AuditConfig {
+  retention: string;
+  purgeInterval: string;
+}
+
+// Admin impersonation configuration
+export interface ImpersonationConfig {
+  expiresIn: string;
+}
+
+// Suspicious sign-in alerts configuration
+export interface SignInAlertConfig {
+  lookback: string;
+  reportLinkExpiresIn: string;
+}
+
+// API keys configuration
+export interface ApiKeyConfig {
+  expiredIn: string;
 }
 
 // Bcrypt configuration
@@ -89,6 +201,12 @@ export interface BcryptConfig {
 export interface RateLimiterConfig {
   max: string;
   window: string;
+  resendVerificationMax: string;
+  resendVerificationWindow: string;
+  passwordResetMax: string;
+  passwordResetWindow: string;
+  signInReportMax: string;
+  signInReportWindow: string;
 }
 
 // Debug configuration
@@ -0,0 +1,94 @@
+// Passwords refused whatever the policy, compared in lowercase.
+// Built from the most frequent entries of public password leaks.
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456',
+  '123456789',
+  '12345678',
+  '1234567890',
+  '12345',
+  '1234567',
+  '123123',
+  '111111',
+  '000000',
+  '654321',
+  '666666',
+  '121212',
+  '112233',
+  '123321',
+  '987654321',
+  '11111111',
+  '88888888',
+  '1q2w3e4r',
+  '1q2w3e4r5t',
+  '1qaz2wsx',
+  'qwerty',
+  'qwerty123',
+  'qwertyuiop',
+  'azerty',
+  'azerty123',
+  'azertyuiop',
+  'asdfghjkl',
+  'zxcvbnm',
+  'password',
+  'password1',
+  'password123',
+  'p@ssw0rd',
+  'p@ssword',
+  'passw0rd',
+  'motdepasse',
+  'motdepasse1',
+  'motdepasse123',
+  'admin',
+  'admin123',
+  'admin1234',
+  'administrator',
+  'root',
+  'toor',
+  'secret',
+  'secret123',
+  'welcome',
+  'welcome1',
+  'welcome123',
+  'bienvenue',
+  'bienvenue1',
+  'letmein',
+  'changeme',
+  'iloveyou',
+  'jetaime',
+  'monkey',
+  'dragon',
+  'master',
+  'sunshine',
+  'princess',
+  'football',
+  'baseball',
+  'soleil',
+  'doudou',
+  'chouchou',
+  'loulou',
+  'marseille',
+  'abc123',
+  'abcd1234',
+  'aa123456',
+  'a123456',
+  'qwe123',
+  'test',
+  'test123',
+  'test1234',
+  'guest',
+  'default',
+  'user',
+  'login',
+  'access',
+  'shadow',
+  'superman',
+  'batman',
+  'trustno1',
+  'starwars',
+  'whatever',
+  'freedom',
+  'hello123',
+  'michael',
+  'charlie',
+  'jordan23',
+]);
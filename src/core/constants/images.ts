@@ -1,4 +1,25 @@
-export const IMAGE_DIRECTORY_PREFIX = `storage/uploads/default/`;
 export const CATEGORY_IMAGE_DIRECTORY = `categories`;
 export const SUBCATEGORY_IMAGE_DIRECTORY = `subcategories`;
 export const SUPPLIER_IMAGE_DIRECTORY = `suppliers`;
+export const PRODUCT_IMAGE_DIRECTORY = `products`;
+
+// Widths of the resized variants generated for uploaded images
+export const IMAGE_VARIANT_SIZES = {
+  thumbnail: 160,
+  medium: 640,
+  large: 1280,
+} as const;
+
+// Formats generated for each variant, besides the format of the original
+export const IMAGE_VARIANT_FORMATS = ['webp', 'avif'] as const;
+
+// Formats an original is kept in, the others being converted to PNG
+export const IMAGE_ORIGINAL_FORMATS = ['jpeg', 'png', 'webp', 'avif'];
+
+// Every format a variant can have
+export const IMAGE_ALL_VARIANT_FORMATS = [
+  ...new Set([...IMAGE_VARIANT_FORMATS, ...IMAGE_ORIGINAL_FORMATS]),
+];
+
+// Formats accepted for product images, detected from the content of the file
+export const RASTER_IMAGE_FORMATS = ['jpeg', 'png', 'webp', 'avif', 'gif'];
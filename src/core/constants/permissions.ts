@@ -0,0 +1,55 @@
+import { ProfileName } from '@prisma/client';
+
+/**
+ * Catalog of the permissions checked by `requirePermission`.
+ * Keys follow the `<resource>:<action>` convention.
+ */
+export const PERMISSIONS = {
+  'catalog:read':
+    'Read catalog references (products, categories, origins, suppliers, tags, units)',
+  'catalog:write': 'Create, update and delete catalog references',
+  'product:write': 'Create, update and delete products',
+  'margin:write': 'Create, update and delete margin levels',
+  'recipe:read': 'Read recipes and their ingredients, steps and categories',
+  'recipe:write': 'Create, update and delete recipes',
+  'recipe:approve': 'Approve recipes',
+  'conversion:read': 'Read volume conversions and convert recipes',
+  'conversion:write': 'Create and delete volume conversions',
+  'stock:read': 'Read inventories',
+  'stock:adjust': 'Create inventories and adjust stock',
+  'user:manage': 'Manage user accounts, their roles and their sessions',
+  'user:impersonate':
+    'Act as another user for support, every request being recorded',
+  'twofactor:manage':
+    'Enable and disable the second sign-in factor of the own account',
+  'permission:manage': 'Edit the permissions granted to each role',
+  'apikey:manage': 'Issue and revoke the API keys of partners',
+  'signingkey:manage': 'Rotate the keys signing authentication tokens',
+  'audit:read': 'Read the audit log of the changes made through the API',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+// Permissions that can be granted to partner API keys
+export const API_KEY_SCOPES: Permission[] = ['catalog:read', 'stock:read'];
+
+// Role holding every permission, its set cannot be edited
+export const SUPER_ROLE: ProfileName = 'ADMIN';
+
+// Permission sets seeded for the other roles, editable through the permissions API
+export const DEFAULT_ROLE_PERMISSIONS: Record<
+  Exclude<ProfileName, 'ADMIN'>,
+  Permission[]
+> = {
+  CATALOG_EDITOR: [
+    'catalog:read',
+    'catalog:write',
+    'product:write',
+    'recipe:read',
+    'recipe:write',
+    'conversion:read',
+  ],
+  WAREHOUSE_OPERATOR: ['catalog:read', 'stock:read', 'stock:adjust'],
+  CUSTOMER: [],
+  PARTNER: [],
+};
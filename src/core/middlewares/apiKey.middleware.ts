@@ -0,0 +1,98 @@
+/**
+ * apiKey.middleware.ts
+ *
+ * This middleware authenticates partner integrations with the API key sent in
+ * the `X-API-Key` header. On success, `req.user` is populated with the same shape
+ * as `verifyJWT` (id, username, roles, email), plus:
+ * - `permissions`: the scopes of the key, checked by `requirePermission`;
+ * - `authType`: `'apiKey'`, and `apiKeyId`.
+ *
+ * Key functionalities:
+ * - `verifyApiKey`: requires a valid API key.
+ * - `verifyJWTOrApiKey`: uses the API key when the header is present, otherwise falls back to `verifyJWT`.
+ *
+ * Usage example:
+ * ```typescript
+ * router.get('/list', verifyJWTOrApiKey, requirePermission('catalog:read'), handler);
+ * ```
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import Container from 'typedi';
+import { log } from 'console';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import verifyJWT from './jwt.middleware';
+import ApiKeysService from '@/modules/apiKeys/apiKeys.service';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Middleware for verifying the API key of the `X-API-Key` header.
+ *
+ * @param {Request} req - The HTTP request object
+ * @param {Response} res - The HTTP response object
+ * @param {NextFunction} next - The next middleware function
+ * @returns {Promise<void>}
+ */
+export const verifyApiKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const key = req.headers[API_KEY_HEADER];
+
+    if (typeof key !== 'string' || !key.trim()) {
+      const response = ApiResponse.http401({
+        message: 'API key is missing',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+      return;
+    }
+
+    const ipAddress = (req as any).clientInfo?.ipAddress ?? req.ip ?? 'unknown';
+    const apiKey = await Container.get(ApiKeysService).authenticate(
+      key.trim(),
+      ipAddress
+    );
+
+    // Same shape as the user attached by verifyJWT
+    (req as any).user = {
+      id: apiKey.user.id,
+      username: apiKey.user.username,
+      roles: apiKey.user.profiles,
+      email: apiKey.user.email,
+      permissions: apiKey.scopes,
+      authType: 'apiKey',
+      apiKeyId: apiKey.id,
+    };
+
+    next();
+  } catch (err) {
+    log(err);
+
+    const response = ApiResponse.http401({
+      message: (err as Error).message || 'Invalid API key',
+    });
+    res.status(response.httpStatusCode).json(response.data);
+  }
+};
+
+/**
+ * Middleware accepting either an API key or a JWT.
+ *
+ * @param {Request} req - The HTTP request object
+ * @param {Response} res - The HTTP response object
+ * @param {NextFunction} next - The next middleware function
+ * @returns {Promise<void> | void}
+ */
+export const verifyJWTOrApiKey = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> | void => {
+  if (req.headers[API_KEY_HEADER] !== undefined) {
+    return verifyApiKey(req, res, next);
+  }
+  return verifyJWT(req, res, next);
+};
@@ -0,0 +1,41 @@
+/**
+ * csrf.middleware.ts
+ *
+ * This middleware protects the routes that accept the refresh token from its
+ * HttpOnly cookie. Since browsers attach cookies automatically, such requests must
+ * also carry the CSRF token of the readable cookie in the `X-CSRF-Token` header
+ * (double-submit pattern).
+ *
+ * Requests sending the refresh token in the body (mobile clients) do not rely on
+ * cookies and are not checked.
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import AuthCookieUtil from '@/core/utils/authCookie.util';
+
+/**
+ * Middleware enforcing the double-submit CSRF check for cookie-based requests.
+ *
+ * @param {Request} req - The HTTP request object
+ * @param {Response} res - The HTTP response object
+ * @param {NextFunction} next - The next middleware function
+ * @returns {void}
+ */
+export const csrfProtection = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const usesCookie = !req.body?.token && !!AuthCookieUtil.readRefreshToken(req);
+
+  if (usesCookie && !AuthCookieUtil.isCsrfTokenValid(req)) {
+    const response = ApiResponse.http403({
+      message: 'Invalid or missing CSRF token',
+    });
+    res.status(response.httpStatusCode).json(response.data);
+    return;
+  }
+
+  next();
+};
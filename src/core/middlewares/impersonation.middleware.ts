@@ -0,0 +1,38 @@
+/**
+ * impersonation.middleware.ts
+ *
+ * This middleware protects the routes an admin must not use while impersonating a user,
+ * even when writes are allowed: credentials and sessions belong to the user alone.
+ *
+ * Usage example:
+ * ```typescript
+ * router.post('/change-password', verifyJWT, forbidImpersonation, handler);
+ * ```
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import ApiResponse from '@/core/utils/apiResponse.util';
+
+/**
+ * Middleware refusing requests authenticated with an impersonation token.
+ * Must be placed after `verifyJWT`.
+ *
+ * @param {Request} req - The HTTP request object
+ * @param {Response} res - The HTTP response object
+ * @param {NextFunction} next - The next middleware function
+ */
+export const forbidImpersonation = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  if ((req as any).user?.impersonator) {
+    const response = ApiResponse.http403({
+      message: 'This action is not available while impersonating a user',
+    });
+    res.status(response.httpStatusCode).json(response.data);
+    return;
+  }
+
+  next();
+};
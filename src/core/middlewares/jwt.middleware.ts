@@ -10,15 +10,24 @@
  * Key functionalities:
  * - Validates the presence of the Authorization header.
  * - Extracts and verifies the JWT.
+ * - Rejects tokens revoked before their expiration (logout, revoked session...).
  * - Decodes the token and attaches user data to the request.
+ * - On impersonation tokens, exposes the admin identity, flags the response with the
+ *   `X-Impersonated-By` header, records the request and refuses writes on read-only sessions.
  * - Handles errors related to token verification, such as expiration or invalid format.
  */
 
-import config from '@/config';
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
+import JwtUtil from '../utils/jwt.util';
 import ApiResponse from '../utils/apiResponse.util';
 import { log } from 'console';
+import { AccessTokenPayload } from '../types';
+import Container from 'typedi';
+import TokenRevocationService from '@/modules/adminAuth/tokenRevocation.service';
+import ImpersonationService from '@/modules/adminAuth/impersonation.service';
+
+// Methods allowed during read-only impersonation sessions
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
 
 /**
  * Middleware for verifying JWT token in the authorization header.
@@ -27,13 +36,13 @@ import { log } from 'console';
  * @param {Request} req - The HTTP request object
  * @param {Response} res - The HTTP response object
  * @param {NextFunction} next - The next middleware function
- * @returns {Promise<void> | void}
+ * @returns {Promise<void>}
  */
-const verifyJWT = (
+const verifyJWT = async (
   req: Request,
   res: Response,
   next: NextFunction
-): Promise<void> | void => {
+): Promise<void> => {
   try {
     // Retrieve the Authorization header
     const authHeader = String(req.headers.authorization);
@@ -62,8 +71,18 @@ const verifyJWT = (
       return;
     }
 
-    // Verify the JWT using the secret key
-    const decoded = jwt.verify(token, config.jwt.accessToken);
+    // Verify the JWT with the matching key of the key ring
+    const decoded = JwtUtil.verifyAccessToken(token);
+
+    // Reject tokens revoked before their expiration
+    const jti = (decoded as any).jti as string | undefined;
+    if (jti && (await Container.get(TokenRevocationService).isRevoked(jti))) {
+      const response = ApiResponse.http401({
+        message: 'Token has been revoked',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+      return;
+    }
 
     // Extract user information from the decoded token
     const profiles = (decoded as any).profiles as string;
@@ -72,11 +91,43 @@ const verifyJWT = (
       username: (decoded as any).username,
       roles: profiles.split(','),
       email: (decoded as any).email,
+      sessionId: (decoded as any).sid as string | undefined,
     };
 
     // Attach the user information to the request object
     (req as any).user = user;
 
+    // Impersonation token: the admin acts as the user
+    const act = (decoded as any).act as AccessTokenPayload['act'];
+    const imp = (decoded as any).imp as AccessTokenPayload['imp'];
+    if (act && imp) {
+      Object.assign(user, {
+        impersonator: { id: act.sub, username: act.username },
+        impersonation: imp,
+      });
+      res.setHeader('X-Impersonated-By', act.username);
+
+      // Record the request once its response is sent, refused ones included
+      res.on('finish', () => {
+        Container.get(ImpersonationService)
+          .recordRequest(imp.id, {
+            method: req.method,
+            path: req.originalUrl,
+            statusCode: res.statusCode,
+            ipAddress: (req as any).clientInfo?.ipAddress ?? req.ip ?? '',
+          })
+          .catch(log);
+      });
+
+      if (imp.readOnly && !SAFE_METHODS.includes(req.method)) {
+        const response = ApiResponse.http403({
+          message: 'Impersonated sessions are read-only',
+        });
+        res.status(response.httpStatusCode).json(response.data);
+        return;
+      }
+    }
+
     // Proceed to the next middleware or route handler
     next();
   } catch (err: any) {
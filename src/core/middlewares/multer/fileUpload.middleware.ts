@@ -8,27 +8,39 @@
  * - `uploadVideoFiles`: Middleware for uploading a single video file.
  * - `uploadAudioFiles`: Middleware for uploading a single audio file.
  * - `uploadMixedFiles`: Middleware for uploading a mix of image, video, and PDF files with set limits for each type.
+ * - `uploadSpreadsheetFile`: Middleware for uploading a single CSV or XLSX file, kept in memory.
+ *
+ * Every middleware keeps the request context (`RequestContextUtil`), lost in the stream
+ * callbacks of multer, so the audit log still knows who makes the changes.
  */
 
-import { uploadFiles } from './multer'; // Importing the file upload configuration
+import { uploadFiles, uploadSpreadsheets } from './multer'; // Importing the file upload configurations
+import { keepRequestContext } from '../requestContext.middleware'; // Restores the request context after parsing
 
 // Middleware to upload a single image file
-export const uploadImageFile = uploadFiles.single('image');
+export const uploadImageFile = keepRequestContext(uploadFiles.single('image'));
 
 // Middleware to upload multiple image files (up to 5 images)
-export const uploadImageFiles = uploadFiles.fields([
-  { name: 'images', maxCount: 5 },
-]);
+export const uploadImageFiles = keepRequestContext(
+  uploadFiles.fields([{ name: 'images', maxCount: 5 }])
+);
 
 // Middleware to upload a single video file
-export const uploadVideoFiles = uploadFiles.single('video');
+export const uploadVideoFiles = keepRequestContext(uploadFiles.single('video'));
 
 // Middleware to upload a single audio file
-export const uploadAudioFiles = uploadFiles.single('audio');
+export const uploadAudioFiles = keepRequestContext(uploadFiles.single('audio'));
 
 // Middleware to upload multiple files (images, videos, and PDFs) with set limits
-export const uploadMixedFiles = uploadFiles.fields([
-  { name: 'images', maxCount: 5 },
-  { name: 'videos', maxCount: 3 },
-  { name: 'pdf', maxCount: 1 },
-]);
+export const uploadMixedFiles = keepRequestContext(
+  uploadFiles.fields([
+    { name: 'images', maxCount: 5 },
+    { name: 'videos', maxCount: 3 },
+    { name: 'pdf', maxCount: 1 },
+  ])
+);
+
+// Middleware to upload a single spreadsheet (CSV or XLSX) to import
+export const uploadSpreadsheetFile = keepRequestContext(
+  uploadSpreadsheets.single('file')
+);
@@ -3,69 +3,27 @@
  * It defines the storage options, file filtering logic, and shared upload configuration.
  *
  * Key functionalities:
- * - Configures disk storage for file uploads, ensuring files are saved in the correct directory
- *   with a unique name to avoid conflicts.
- * - Ensures that the target directory exists or creates it if necessary.
+ * - Keeps uploaded files in memory, the services storing them through `StorageService`
+ *   in the configured storage (local disk or S3-compatible service).
  * - Filters files based on their MIME type to only allow specific file types (images, PDFs, videos, and audio).
  * - Sets the file size limit to prevent excessively large files from being uploaded.
+ * - Keeps imported spreadsheets (CSV, XLSX) in memory, as they are parsed and not stored.
  *
  * This setup ensures secure and organized file uploads, allowing only allowed file types and sizes.
  */
 
 import multer from 'multer'; // Importing the 'multer' library for handling file uploads
 import path from 'path'; // Importing the 'path' module for handling file paths
-import appRootPath from 'app-root-path'; // Importing the root path of the application
 import { Request } from 'express'; // Importing the 'Request' type from Express
-import { ensureDirectoryExists } from '@/core/utils/fileSystem.util'; // Importing a utility function to ensure the directory exists
-import { LIMIT_FILE_SIZE, MIME_TYPES } from '@/config/multer.config'; // Importing the file size limit and allowed MIME types
-import { IMAGE_DIRECTORY_PREFIX } from '@/core/constants/images'; // Importing the image directory prefix
+import {
+  LIMIT_FILE_SIZE,
+  LIMIT_SPREADSHEET_FILE_SIZE,
+  MIME_TYPES,
+  SPREADSHEET_FILE_TYPES,
+} from '@/config/multer.config'; // Importing the file size limits and allowed file types
 
-// Configuring the file storage options for Multer
-export const storage = multer.diskStorage({
-  // Setting the destination for the uploaded files
-  destination: async (
-    req: Request,
-    file: Express.Multer.File,
-    cb: (error: Error | null, destination: string) => void
-  ) => {
-    try {
-      const folderName = req.params.folderName;
-      if (!folderName) {
-        return cb(new Error('Folder name is missing in the request'), '');
-      }
-
-      const filesDirPath = appRootPath.resolve(
-        `${IMAGE_DIRECTORY_PREFIX}${folderName}`
-      );
-
-      // Ensuring the directory exists before saving files
-      await ensureDirectoryExists(filesDirPath);
-      cb(null, filesDirPath);
-    } catch (error) {
-      cb(
-        new Error(`Error setting storage path: ${(error as Error).message}`),
-        ''
-      );
-    }
-  },
-  // Setting the filename for the uploaded files
-  filename: (
-    req: Request,
-    file: Express.Multer.File,
-    cb: (error: Error | null, filename: string) => void
-  ) => {
-    try {
-      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
-      const fileExtension = path.extname(file.originalname);
-      if (!fileExtension) {
-        return cb(new Error('Unable to determine file extension'), '');
-      }
-      cb(null, uniqueSuffix + fileExtension);
-    } catch (error) {
-      cb(new Error(`Error setting file name: ${(error as Error).message}`), '');
-    }
-  },
-});
+// Configuring the file storage options for Multer, the files being stored by the services
+export const storage = multer.memoryStorage();
 
 // File filtering function to check allowed file types (used in all upload middlewares)
 export const fileFilter = (
@@ -97,3 +55,28 @@ export const uploadFiles = multer({
     fileSize: LIMIT_FILE_SIZE, // Setting the file size limit
   },
 });
+
+// File filtering function accepting spreadsheets by extension, their MIME type varying between clients
+export const spreadsheetFilter = (
+  req: Request,
+  file: Express.Multer.File,
+  cb: multer.FileFilterCallback
+) => {
+  const extension = path.extname(file.originalname).slice(1).toLowerCase();
+  if (SPREADSHEET_FILE_TYPES.includes(extension)) {
+    cb(null, true); // Accept the file
+  } else {
+    cb(
+      new Error('Unsupported file type. Only CSV and XLSX files are allowed.')
+    );
+  }
+};
+
+// Multer configuration for spreadsheet imports, kept in memory
+export const uploadSpreadsheets = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: spreadsheetFilter,
+  limits: {
+    fileSize: LIMIT_SPREADSHEET_FILE_SIZE, // Setting the file size limit
+  },
+});
@@ -0,0 +1,88 @@
+/**
+ * permission.middleware.ts
+ *
+ * This middleware implements permission-based access control. The roles of the
+ * authenticated user (set by `verifyJWT`) are resolved into permissions using the
+ * role → permissions mapping stored in the database, then checked against the
+ * permissions required by the route.
+ *
+ * Key functionalities:
+ * - Ensures the user is authenticated.
+ * - Resolves and attaches the user's permissions to `req.user.permissions`.
+ * - Requests authenticated with an API key are limited to the scopes of the key.
+ * - Responds with 403 when one of the required permissions is missing.
+ *
+ * Usage example:
+ * ```typescript
+ * router.post('/create', verifyJWT, requirePermission('stock:adjust'), handler);
+ * ```
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import Container from 'typedi';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import { Permission } from '@/core/constants/permissions';
+import PermissionsService from '@/modules/permissions/permissions.service';
+
+/**
+ * Middleware requiring every given permission.
+ *
+ * @param {Permission[]} requiredPermissions - Permissions needed to access the resource.
+ * @returns Middleware function to enforce permission-based access control.
+ */
+export const requirePermission = (...requiredPermissions: Permission[]) => {
+  return async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      const user = (req as any).user;
+      if (!user) {
+        const response = ApiResponse.http403({
+          message: "You don't have the right permission",
+        });
+        res.status(response.httpStatusCode).json(response.data);
+        return;
+      }
+
+      // API keys carry their own scopes, users get the permissions of their roles
+      const permissions: Set<string> =
+        user.authType === 'apiKey'
+          ? new Set(user.permissions)
+          : await Container.get(PermissionsService).permissionsForRoles(
+              user.roles ?? []
+            );
+      user.permissions = [...permissions];
+
+      const allowed = requiredPermissions.every((permission) =>
+        permissions.has(permission)
+      );
+      if (!allowed) {
+        const response = ApiResponse.http403({
+          message: "You don't have the right permission",
+        });
+        res.status(response.httpStatusCode).json(response.data);
+        return;
+      }
+
+      next();
+    } catch (error) {
+      // Handle unexpected errors
+      const response = ApiResponse.http500('', {
+        message: (error as Error).message || 'Internal Server Error',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  };
+};
+
+/**
+ * Checks a permission already resolved by `requirePermission` on the current request.
+ *
+ * @param {Request} req - The HTTP request object.
+ * @param {Permission} permission - The permission to check.
+ * @returns {boolean} `true` if the authenticated user holds the permission.
+ */
+export const hasPermission = (req: Request, permission: Permission) =>
+  ((req as any).user?.permissions ?? []).includes(permission);
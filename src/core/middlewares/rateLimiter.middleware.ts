@@ -12,12 +12,32 @@
  *
  */
 
-import rateLimit from 'express-rate-limit';
+import rateLimit, { Options } from 'express-rate-limit';
 import { NextFunction, Request, Response } from 'express';
 
 import logger from '@/core/utils/logger.util';
 import config from '@/config';
 
+/**
+ * Custom handler for rate limit violations, shared by every limiter of this file.
+ * Logs the event and responds with the limiter's configured message.
+ */
+const onLimitReached = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  options: Options
+) => {
+  // Log the rate limit violation for debugging and monitoring
+  logger.error(
+    `Too many requests: ${options.message.message}\t${req.method}\t${req.url}\t${req.headers.origin}`,
+    'errLog.log'
+  );
+
+  // Respond with the rate limit violation message
+  res.status(options.statusCode).send(options.message);
+};
+
 /**
  * Rate limiter middleware to control the number of requests from a single client.
  *
@@ -42,16 +62,7 @@ export const rateLimiter = rateLimit({
   },
 
   // Custom handler for rate limit violations
-  handler: (req: Request, res: Response, next: NextFunction, options) => {
-    // Log the rate limit violation for debugging and monitoring
-    logger.error(
-      `Too many requests: ${options.message.message}\t${req.method}\t${req.url}\t${req.headers.origin}`,
-      'errLog.log'
-    );
-
-    // Respond with the rate limit violation message
-    res.status(options.statusCode).send(options.message);
-  },
+  handler: onLimitReached,
 
   // Include standard rate limit headers in the response
   standardHeaders: true,
@@ -59,3 +70,50 @@ export const rateLimiter = rateLimit({
   // Disable legacy rate limit headers
   legacyHeaders: false,
 });
+
+/**
+ * Dedicated rate limiter for the resend-verification endpoint.
+ * Kept separate from the global limiter so that verification emails
+ * cannot be used to flood a mailbox even when the global quota is not reached.
+ */
+export const resendVerificationRateLimiter = rateLimit({
+  windowMs: parseInt(config.rateLimiter.resendVerificationWindow) * 60 * 1000,
+  max: parseInt(config.rateLimiter.resendVerificationMax),
+  message: {
+    message: 'Too many verification emails requested, please try again later.',
+  },
+  handler: onLimitReached,
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * Dedicated rate limiter for the forgot/reset password endpoints.
+ * Limits how many codes can be requested and tried from a single client.
+ */
+export const passwordResetRateLimiter = rateLimit({
+  windowMs: parseInt(config.rateLimiter.passwordResetWindow) * 60 * 1000,
+  max: parseInt(config.rateLimiter.passwordResetMax),
+  message: {
+    message: 'Too many password reset attempts, please try again later.',
+  },
+  handler: onLimitReached,
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * Dedicated rate limiter for the "this wasn't me" links of sign-in alerts.
+ * Kept apart from the password reset limiter, so that reporting a sign-in does not
+ * use up the quota needed to reset the password right after.
+ */
+export const signInReportRateLimiter = rateLimit({
+  windowMs: parseInt(config.rateLimiter.signInReportWindow) * 60 * 1000,
+  max: parseInt(config.rateLimiter.signInReportMax),
+  message: {
+    message: 'Too many sign-in reports, please try again later.',
+  },
+  handler: onLimitReached,
+  standardHeaders: true,
+  legacyHeaders: false,
+});
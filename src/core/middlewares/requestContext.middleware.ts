@@ -0,0 +1,33 @@
+/**
+ * requestContext.middleware.ts
+ *
+ * Opens the request context read by `RequestContextUtil` for the rest of the request.
+ * Must be registered after the body parsers: their stream callbacks do not keep the
+ * asynchronous context. Middlewares parsing the body later (multer uploads) are wrapped
+ * with `keepRequestContext` for the same reason.
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import RequestContextUtil from '../utils/requestContext.util';
+
+export const requestContextMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  RequestContextUtil.run({ request: req }, next);
+};
+
+/**
+ * Wraps a middleware whose callbacks lose the asynchronous context, so the next handlers
+ * run in the context of the request again.
+ * @param middleware - The middleware to wrap.
+ */
+export const keepRequestContext =
+  (middleware: RequestHandler): RequestHandler =>
+  (req, res, next) => {
+    const context = RequestContextUtil.current();
+    middleware(req, res, (error?: unknown) =>
+      context ? RequestContextUtil.run(context, () => next(error)) : next(error)
+    );
+  };
@@ -0,0 +1,171 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import appRootPath from 'app-root-path';
+import LocalStorageDriver from '../localStorage.driver';
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {
+    api: { prefix: '/api' },
+    app: { publicUrl: 'https://shop.test/' },
+    crypto: { cryptoSecretKey: 'crypto-secret-key' },
+    storage: { local: { root: 'storage/uploads/test', signingSecret: '' } },
+  },
+}));
+
+describe('LocalStorageDriver', () => {
+  let directory: string;
+  let driver: LocalStorageDriver;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'local-storage-'));
+    // The root is resolved from the application root
+    driver = new LocalStorageDriver({
+      root: path.relative(appRootPath.path, directory),
+      signingSecret: '',
+    });
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('files', () => {
+    it('stores, reads and deletes a file', async () => {
+      await driver.put('products/photo.png', Buffer.from('content'));
+
+      expect(fs.existsSync(path.join(directory, 'products/photo.png'))).toBe(
+        true
+      );
+      expect(await driver.exists('products/photo.png')).toBe(true);
+      expect((await driver.get('products/photo.png')).toString()).toBe(
+        'content'
+      );
+
+      await driver.delete('products/photo.png');
+      expect(await driver.exists('products/photo.png')).toBe(false);
+    });
+
+    it('streams a file with its content type and size', async () => {
+      await driver.put('products/photo.webp', Buffer.from('webp content'));
+
+      const file = await driver.stream('products/photo.webp');
+      const chunks: Buffer[] = [];
+      for await (const chunk of file.stream) {
+        chunks.push(chunk as Buffer);
+      }
+
+      expect(file.contentType).toBe('image/webp');
+      expect(file.size).toBe(12);
+      expect(Buffer.concat(chunks).toString()).toBe('webp content');
+    });
+
+    it('reports missing files by their key', async () => {
+      await expect(driver.get('products/missing.png')).rejects.toThrow(
+        'File products/missing.png not found'
+      );
+      await expect(driver.stream('products')).rejects.toThrow(
+        'File products not found'
+      );
+      await expect(driver.delete('products/missing.png')).resolves.toBe(
+        undefined
+      );
+    });
+
+    it('rejects the keys leading out of the root directory', async () => {
+      await expect(
+        driver.put('../outside.png', Buffer.from('content'))
+      ).rejects.toThrow('Invalid storage key ../outside.png');
+      await expect(driver.get('products/../../outside.png')).rejects.toThrow(
+        'Invalid storage key'
+      );
+      await expect(driver.signedUrl('../outside.png', 60)).rejects.toThrow(
+        'Invalid storage key'
+      );
+    });
+
+    it('lists the stored keys, under a prefix when given', async () => {
+      await driver.put('categories/a.png', Buffer.from('a'));
+      await driver.put('suppliers/b.png', Buffer.from('b'));
+
+      const keys: string[] = [];
+      for await (const key of driver.list()) {
+        keys.push(key);
+      }
+      const categoryKeys: string[] = [];
+      for await (const key of driver.list('categories/')) {
+        categoryKeys.push(key);
+      }
+
+      expect(keys.sort()).toEqual([
+        'categories/a.png',
+        'products/photo.webp',
+        'suppliers/b.png',
+      ]);
+      expect(categoryKeys).toEqual(['categories/a.png']);
+    });
+  });
+
+  describe('signed URLs', () => {
+    /**
+     * Returns the key, expiry date and signature of a signed URL.
+     */
+    function paramsOf(url: string) {
+      const { searchParams } = new URL(url);
+      return {
+        key: searchParams.get('key')!,
+        expires: Number(searchParams.get('expires')),
+        signature: searchParams.get('signature')!,
+      };
+    }
+
+    it('points to the signed route of the API', async () => {
+      const url = new URL(await driver.signedUrl('products/photo.webp', 60));
+
+      expect(`${url.origin}${url.pathname}`).toBe(
+        'https://shop.test/api/v1/assets/signed'
+      );
+      expect(url.searchParams.get('key')).toBe('products/photo.webp');
+    });
+
+    it('accepts its own signature until the expiry date', async () => {
+      const { key, expires, signature } = paramsOf(
+        await driver.signedUrl('products/photo.webp', 60)
+      );
+
+      expect(driver.verify(key, expires, signature)).toBe(true);
+      expect(driver.verify('products/other.webp', expires, signature)).toBe(
+        false
+      );
+      expect(driver.verify(key, expires + 1, signature)).toBe(false);
+      expect(driver.verify(key, expires, signature.slice(1))).toBe(false);
+    });
+
+    it('refuses expired URLs', async () => {
+      const { key, expires, signature } = paramsOf(
+        await driver.signedUrl('products/photo.webp', -1)
+      );
+
+      expect(driver.verify(key, expires, signature)).toBe(false);
+    });
+
+    it('signs with a key of its own, not with the crypto secret key', async () => {
+      const withCryptoKey = new LocalStorageDriver({
+        root: path.relative(appRootPath.path, directory),
+        signingSecret: 'crypto-secret-key',
+      });
+      const withSecret = new LocalStorageDriver({
+        root: path.relative(appRootPath.path, directory),
+        signingSecret: 'storage-signing-secret',
+      });
+      const { key, expires, signature } = paramsOf(
+        await driver.signedUrl('products/photo.webp', 60)
+      );
+
+      expect(withCryptoKey.verify(key, expires, signature)).toBe(false);
+      expect(withSecret.verify(key, expires, signature)).toBe(false);
+    });
+  });
+});
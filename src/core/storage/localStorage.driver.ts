@@ -0,0 +1,174 @@
+/**
+ * localStorage.driver.ts
+ *
+ * Storage of the files on the local disk, under the directory `config.storage.local.root`.
+ *
+ * Rules:
+ * - A key is a path relative to the root, and keys leading out of it are rejected.
+ * - Signed URLs point to the `/assets/signed` route, which serves the file while the
+ *   expiry date is not passed and the HMAC signature of the key and date is valid.
+ * - The signatures use `STORAGE_LOCAL_SIGNING_SECRET`, or else a key derived from the
+ *   crypto secret key with HKDF.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import fsPromises from 'fs/promises';
+import path from 'path';
+import appRootPath from 'app-root-path';
+import config from '@/config';
+import { ensureDirectoryExists } from '@/core/utils/fileSystem.util';
+import ApiUrlUtil from '@/core/utils/apiUrl.util';
+import { contentTypeOf, StorageDriver, StoredFile } from './storage.types';
+
+export default class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+  private readonly root: string;
+  private readonly signingSecret: string | Buffer;
+
+  constructor(options = config.storage.local) {
+    this.root = appRootPath.resolve(options.root);
+    this.signingSecret =
+      options.signingSecret ||
+      // A key of its own, so the encryption key is not used for signing too
+      Buffer.from(
+        crypto.hkdfSync(
+          'sha256',
+          config.crypto.cryptoSecretKey,
+          '',
+          'storage-signed-urls',
+          32
+        )
+      );
+  }
+
+  // The content type is deduced from the extension when the file is read
+  async put(key: string, data: Buffer) {
+    const filePath = this.pathOf(key);
+    await ensureDirectoryExists(path.dirname(filePath));
+    await fsPromises.writeFile(filePath, data);
+  }
+
+  async get(key: string) {
+    try {
+      return await fsPromises.readFile(this.pathOf(key));
+    } catch (error) {
+      throw this.readError(key, error);
+    }
+  }
+
+  async stream(key: string): Promise<StoredFile> {
+    const filePath = this.pathOf(key);
+    try {
+      const stats = await fsPromises.stat(filePath);
+      if (!stats.isFile()) {
+        throw new Error(`File ${key} not found`);
+      }
+      return {
+        stream: fs.createReadStream(filePath),
+        contentType: contentTypeOf(key),
+        size: stats.size,
+      };
+    } catch (error) {
+      throw this.readError(key, error);
+    }
+  }
+
+  async exists(key: string) {
+    try {
+      return (await fsPromises.stat(this.pathOf(key))).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string) {
+    await fsPromises.rm(this.pathOf(key), { force: true });
+  }
+
+  async signedUrl(key: string, expiresIn: number) {
+    this.pathOf(key); // Rejects the keys leading out of the root directory
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    return ApiUrlUtil.url('assets/signed', {
+      key,
+      expires: String(expires),
+      signature: this.sign(key, expires),
+    });
+  }
+
+  async *list(prefix = '') {
+    const walk = async function* (directory: string): AsyncGenerator<string> {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fsPromises.readdir(directory, { withFileTypes: true });
+      } catch {
+        return; // Nothing stored yet
+      }
+      for (const entry of entries) {
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+          yield* walk(entryPath);
+        } else if (entry.isFile()) {
+          yield entryPath;
+        }
+      }
+    };
+
+    for await (const filePath of walk(this.root)) {
+      const key = path.relative(this.root, filePath).split(path.sep).join('/');
+      if (key.startsWith(prefix)) {
+        yield key;
+      }
+    }
+  }
+
+  /**
+   * Tells whether a signed URL is valid and not expired.
+   * @param key - The key of the file.
+   * @param expires - The expiry date of the URL, in seconds since the epoch.
+   * @param signature - The signature of the URL.
+   */
+  verify(key: string, expires: number, signature: string) {
+    if (!Number.isInteger(expires) || expires * 1000 < Date.now()) {
+      return false;
+    }
+    const expected = Buffer.from(this.sign(key, expires));
+    const given = Buffer.from(signature);
+    return (
+      expected.length === given.length &&
+      crypto.timingSafeEqual(expected, given)
+    );
+  }
+
+  /**
+   * Signs a key and an expiry date.
+   */
+  private sign(key: string, expires: number) {
+    return crypto
+      .createHmac('sha256', this.signingSecret)
+      .update(`${key}:${expires}`)
+      .digest('base64url');
+  }
+
+  /**
+   * Returns the absolute path of a key.
+   * @throws Error if the key leads out of the root directory.
+   */
+  private pathOf(key: string) {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key ${key}`);
+    }
+    return filePath;
+  }
+
+  /**
+   * Reports missing files by their key, without the path of the root directory.
+   */
+  private readError(key: string, error: unknown) {
+    const code = (error as NodeJS.ErrnoException).code;
+    return code === 'ENOENT' || code === 'EISDIR'
+      ? new Error(`File ${key} not found`)
+      : error;
+  }
+}
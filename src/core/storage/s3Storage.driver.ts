@@ -0,0 +1,154 @@
+/**
+ * s3Storage.driver.ts
+ *
+ * Storage of the files in a bucket of Amazon S3 or of an S3-compatible service, such as
+ * MinIO, which can stand in for S3 during development and tests.
+ *
+ * Rules:
+ * - A key is the key of the object in the bucket.
+ * - Services other than AWS are reached through `config.storage.s3.endpoint`, most of
+ *   them (MinIO included) requiring path-style URLs.
+ * - Signed URLs are presigned GET requests, served by the service itself.
+ */
+
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Readable } from 'stream';
+import config from '@/config';
+import {
+  contentTypeOf,
+  PutOptions,
+  StorageDriver,
+  StoredFile,
+} from './storage.types';
+
+export default class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor(options = config.storage.s3) {
+    if (!options.bucket) {
+      throw new Error('The s3 storage driver requires STORAGE_S3_BUCKET');
+    }
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint || undefined,
+      forcePathStyle: options.forcePathStyle,
+      // Without keys, the default AWS credential chain applies (environment, IAM role...)
+      credentials: options.accessKeyId
+        ? {
+            accessKeyId: options.accessKeyId,
+            secretAccessKey: options.secretAccessKey,
+          }
+        : undefined,
+    });
+  }
+
+  async put(key: string, data: Buffer, options: PutOptions = {}) {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: data,
+        ContentType: options.contentType ?? contentTypeOf(key),
+      })
+    );
+  }
+
+  async get(key: string) {
+    const { stream } = await this.stream(key);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async stream(key: string): Promise<StoredFile> {
+    try {
+      const object = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      return {
+        // The SDK returns a Node.js stream when running on Node.js
+        stream: object.Body as Readable,
+        contentType: object.ContentType ?? contentTypeOf(key),
+        size: object.ContentLength,
+      };
+    } catch (error) {
+      throw this.isNotFound(error) ? new Error(`File ${key} not found`) : error;
+    }
+  }
+
+  async exists(key: string) {
+    try {
+      await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key })
+      );
+      return true;
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string) {
+    // Deleting a missing object succeeds
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key })
+    );
+  }
+
+  signedUrl(key: string, expiresIn: number) {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      { expiresIn }
+    );
+  }
+
+  async *list(prefix = '') {
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix || undefined,
+          ContinuationToken: continuationToken,
+        })
+      );
+      for (const object of page.Contents ?? []) {
+        if (object.Key) {
+          yield object.Key;
+        }
+      }
+      continuationToken = page.IsTruncated
+        ? page.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+  }
+
+  /**
+   * Tells whether an error of the service reports a missing object.
+   */
+  private isNotFound(error: unknown) {
+    return (
+      error instanceof S3ServiceException &&
+      (error.name === 'NoSuchKey' ||
+        error.name === 'NotFound' ||
+        error.$metadata.httpStatusCode === 404)
+    );
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * storage.service.ts
+ *
+ * This file defines the StorageService class, through which the application stores its
+ * files, whatever the backend: it delegates to the driver selected by `config.storage.driver`.
+ *
+ * Moving the stored files from one driver to another is done by `npm run storage:migrate`.
+ */
+
+import { Service } from 'typedi';
+import config from '@/config';
+import DateUtil from '@/core/utils/date.util';
+import LocalStorageDriver from './localStorage.driver';
+import S3StorageDriver from './s3Storage.driver';
+import { PutOptions, StorageDriver, StorageDriverName } from './storage.types';
+
+/**
+ * Creates a driver, configured by `config.storage`.
+ * @param name - The name of the driver.
+ * @throws Error if the driver is unknown or not configured.
+ */
+export function createStorageDriver(name: StorageDriverName): StorageDriver {
+  switch (name) {
+    case 'local':
+      return new LocalStorageDriver();
+    case 's3':
+      return new S3StorageDriver();
+    default:
+      throw new Error(`Unknown storage driver "${name}"`);
+  }
+}
+
+@Service()
+export default class StorageService {
+  readonly driver = createStorageDriver(config.storage.driver);
+
+  /**
+   * Returns the key of a file.
+   * @param directory - The directory of the file (e.g. `products`).
+   * @param fileName - The name of the file.
+   */
+  key(directory: string, fileName: string) {
+    return `${directory}/${fileName}`;
+  }
+
+  put(key: string, data: Buffer, options?: PutOptions) {
+    return this.driver.put(key, data, options);
+  }
+
+  get(key: string) {
+    return this.driver.get(key);
+  }
+
+  stream(key: string) {
+    return this.driver.stream(key);
+  }
+
+  exists(key: string) {
+    return this.driver.exists(key);
+  }
+
+  delete(key: string) {
+    return this.driver.delete(key);
+  }
+
+  /**
+   * Returns a URL giving read access to a file for a limited time.
+   * @param key - The key of the file.
+   * @param expiresIn - The lifetime of the URL in seconds, `config.storage.signedUrlExpiresIn` by default.
+   */
+  signedUrl(key: string, expiresIn?: number) {
+    return this.driver.signedUrl(
+      key,
+      expiresIn ??
+        DateUtil.parseDurationToMilliseconds(
+          config.storage.signedUrlExpiresIn
+        ) / 1000
+    );
+  }
+}
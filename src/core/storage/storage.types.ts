@@ -0,0 +1,68 @@
+import { Readable } from 'stream';
+import path from 'path';
+
+export const STORAGE_DRIVER_NAMES = ['local', 's3'] as const;
+
+export type StorageDriverName = (typeof STORAGE_DRIVER_NAMES)[number];
+
+// Content of a stored file, read as a stream
+export interface StoredFile {
+  stream: Readable;
+  contentType: string;
+  size?: number; // In bytes, when known
+}
+
+export interface PutOptions {
+  contentType?: string; // Deduced from the extension of the key when missing
+}
+
+/**
+ * Operations every storage backend provides. Files are identified by keys made of a
+ * directory and a file name (`products/1736000000000-42.jpg`).
+ */
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+
+  // Stores a file, replacing the one with the same key
+  put(key: string, data: Buffer, options?: PutOptions): Promise<void>;
+
+  // Reads a whole file, throwing if it does not exist
+  get(key: string): Promise<Buffer>;
+
+  // Opens a file as a stream, throwing if it does not exist
+  stream(key: string): Promise<StoredFile>;
+
+  exists(key: string): Promise<boolean>;
+
+  // Deletes a file, doing nothing if it does not exist
+  delete(key: string): Promise<void>;
+
+  // Returns a URL giving read access to a file for `expiresIn` seconds
+  signedUrl(key: string, expiresIn: number): Promise<string>;
+
+  // Lists the keys of the stored files, under a prefix when given
+  list(prefix?: string): AsyncIterable<string>;
+}
+
+// Content types of the stored files, by extension
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  mp4: 'video/mp4',
+  mp3: 'audio/mpeg',
+};
+
+/**
+ * Deduces the content type of a file from the extension of its key.
+ * @param key - The key of the file.
+ */
+export function contentTypeOf(key: string) {
+  const extension = path.extname(key).slice(1).toLowerCase();
+  return CONTENT_TYPES[extension] ?? 'application/octet-stream';
+}
@@ -1,6 +1,7 @@
 export type UserLogin = {
   username: string;
   password: string;
+  client_type?: 'mobile' | 'browser'; // Lifetime policy requested for the session
 };
 
 export type AccessTokenPayload = {
@@ -8,12 +9,33 @@ export type AccessTokenPayload = {
   profiles: string;
   username: string;
   email: string;
+  sid?: string; // Session (token family) the token was issued for
+  act?: { sub: string; username: string }; // Admin acting as the user, on impersonation tokens
+  imp?: { id: string; readOnly: boolean }; // Impersonation session, on impersonation tokens
 };
 
 export type RefreshTokenPayload = {
   userId: string;
   profiles: string;
 };
+
+export type EmailVerificationTokenPayload = {
+  userId: string;
+  email: string;
+  purpose: 'email-verification';
+};
+
+export type TwoFactorChallengePayload = {
+  userId: string;
+  purpose: '2fa-challenge';
+};
+
+export type SignInReportPayload = {
+  userId: string;
+  familyId: number;
+  purpose: 'sign-in-report';
+};
+
 export type ClientInfo = {
   ipAddress: string; // Adresse IP du client
   userAgent: string; // User-Agent de la requête
@@ -0,0 +1,148 @@
+import { describe, expect, it } from '@jest/globals';
+import sharp from 'sharp';
+import ImageUtil, { ImageVariants } from '../image.util';
+
+/**
+ * Returns the variants of `photo.jpg`, in WebP, AVIF and the given original format.
+ */
+function variantsOf(
+  sizes: (keyof ImageVariants['sizes'])[],
+  format = 'jpeg'
+): ImageVariants {
+  const widths = { thumbnail: 160, medium: 640, large: 1280 };
+  return {
+    width: 2000,
+    height: 1000,
+    format,
+    sizes: Object.fromEntries(
+      sizes.map((size) => [
+        size,
+        {
+          width: widths[size],
+          height: widths[size] / 2,
+          files: Object.fromEntries(
+            ['webp', 'avif', format].map((variantFormat) => [
+              variantFormat,
+              `photo-${size}.${variantFormat}`,
+            ])
+          ),
+        },
+      ])
+    ) as ImageVariants['sizes'],
+  };
+}
+
+/**
+ * Generates an image of the given size and format.
+ */
+function image(width: number, height: number, format: keyof sharp.FormatEnum) {
+  return sharp({
+    create: { width, height, channels: 3, background: '#c0392b' },
+  })
+    .toFormat(format)
+    .toBuffer();
+}
+
+describe('ImageUtil', () => {
+  describe('nearestVariant', () => {
+    const variants = variantsOf(['thumbnail', 'medium', 'large']);
+
+    it('picks the smallest size at least as wide as requested', () => {
+      expect(ImageUtil.nearestVariant(variants, 100, ['webp'])).toBe(
+        'photo-thumbnail.webp'
+      );
+      expect(ImageUtil.nearestVariant(variants, 160, ['webp'])).toBe(
+        'photo-thumbnail.webp'
+      );
+      expect(ImageUtil.nearestVariant(variants, 161, ['webp'])).toBe(
+        'photo-medium.webp'
+      );
+    });
+
+    it('picks the widest size for wider requests', () => {
+      expect(ImageUtil.nearestVariant(variants, 4000, ['webp'])).toBe(
+        'photo-large.webp'
+      );
+    });
+
+    it('picks the first available format by preference', () => {
+      expect(ImageUtil.nearestVariant(variants, 640, ['png', 'avif'])).toBe(
+        'photo-medium.avif'
+      );
+      expect(ImageUtil.nearestVariant(variants, 640, ['jpeg', 'webp'])).toBe(
+        'photo-medium.jpeg'
+      );
+    });
+
+    it('falls back to the smaller sizes, from the widest down', () => {
+      const partial = variantsOf(['thumbnail', 'medium']);
+      expect(ImageUtil.nearestVariant(partial, 1000, ['webp'])).toBe(
+        'photo-medium.webp'
+      );
+    });
+
+    it('returns null when no variant has an acceptable format', () => {
+      expect(ImageUtil.nearestVariant(variants, 640, ['gif'])).toBeNull();
+      expect(
+        ImageUtil.nearestVariant(variantsOf([]), 640, ['webp'])
+      ).toBeNull();
+    });
+  });
+
+  describe('rasterFormat', () => {
+    it('detects the raster formats from the content', async () => {
+      for (const format of ['jpeg', 'png', 'webp', 'avif', 'gif'] as const) {
+        expect(await ImageUtil.rasterFormat(await image(8, 8, format))).toBe(
+          format
+        );
+      }
+    });
+
+    it('refuses vector images, other formats and other content', async () => {
+      const svg = Buffer.from(
+        '<svg xmlns="http://www.w3.org/2000/svg" width="8" height="8"><script>alert(1)</script></svg>'
+      );
+      expect(await ImageUtil.rasterFormat(svg)).toBeNull();
+      expect(
+        await ImageUtil.rasterFormat(await image(8, 8, 'tiff'))
+      ).toBeNull();
+      expect(
+        await ImageUtil.rasterFormat(Buffer.from('not an image'))
+      ).toBeNull();
+    });
+  });
+
+  describe('process', () => {
+    it('generates every size in WebP, AVIF and the original format without enlarging', async () => {
+      const processed = await ImageUtil.process(
+        'photo.png',
+        await image(800, 400, 'png')
+      );
+
+      expect(processed?.original).toBeNull();
+      expect(processed?.variants).toMatchObject({
+        width: 800,
+        height: 400,
+        format: 'png',
+      });
+      expect(processed?.variants.sizes.medium).toEqual({
+        width: 640,
+        height: 320,
+        files: {
+          webp: 'photo-medium.webp',
+          avif: 'photo-medium.avif',
+          png: 'photo-medium.png',
+        },
+      });
+      expect(processed?.variants.sizes.large.width).toBe(800);
+      expect(processed?.files).toHaveLength(9);
+    });
+
+    it('keeps vector images as they are', async () => {
+      const svg = Buffer.from(
+        '<svg xmlns="http://www.w3.org/2000/svg" width="8" height="8"/>'
+      );
+      expect(await ImageUtil.process('logo.svg', svg)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import crypto from 'crypto';
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import jwt from 'jsonwebtoken';
+import JwtUtil from '../jwt.util';
+import KeyRingUtil, { RingKey } from '../keyRing.util';
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {
+    jwt: {
+      accessToken: 'access-secret',
+      refreshToken: 'refresh-secret',
+      secretUser: 'user-secret',
+      secretAdmin: 'admin-secret',
+      expiredIn: '15m',
+      refreshExpiresIn: '1d',
+      emailVerificationExpiresIn: '1d',
+      twoFactorChallengeExpiresIn: '5m',
+    },
+    signInAlert: { reportLinkExpiresIn: '7d' },
+  },
+}));
+
+const payload = {
+  userId: 'user-1',
+  username: 'partner',
+  email: 'partner@example.com',
+  profiles: 'PARTNER',
+};
+
+/**
+ * Returns a new Ed25519 key of the ring, already signing access tokens.
+ */
+function ed25519Key(kid: string): RingKey {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519', {
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+  return {
+    kid,
+    use: 'ACCESS',
+    algorithm: 'EdDSA',
+    signingKey: privateKey,
+    verificationKey: publicKey,
+    notBefore: new Date(Date.now() - 1000),
+    verifyUntil: null,
+  };
+}
+
+describe('JwtUtil with EdDSA keys', () => {
+  afterEach(() => {
+    KeyRingUtil.load([], {});
+  });
+
+  it('signs access tokens verifiable with the published OKP key', () => {
+    const key = ed25519Key('ed-1');
+    KeyRingUtil.load([key], {});
+
+    const token = JwtUtil.generateToken(payload);
+    const [header, body, signature] = token.split('.') as [
+      string,
+      string,
+      string,
+    ];
+    const jwk = crypto.createPublicKey(key.verificationKey).export({
+      format: 'jwk',
+    });
+
+    expect(jwt.decode(token, { complete: true })?.header).toEqual({
+      alg: 'EdDSA',
+      typ: 'JWT',
+      kid: 'ed-1',
+    });
+    expect(jwk).toMatchObject({ kty: 'OKP', crv: 'Ed25519' });
+    expect(
+      crypto.verify(
+        null,
+        Buffer.from(`${header}.${body}`),
+        crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+        Buffer.from(signature, 'base64url')
+      )
+    ).toBe(true);
+  });
+
+  it('verifies its own tokens with the expiry of the lifetime', () => {
+    KeyRingUtil.load([ed25519Key('ed-1')], {});
+
+    const decoded = JwtUtil.verifyAccessToken(JwtUtil.generateToken(payload));
+
+    expect(decoded).toMatchObject(payload);
+    expect(decoded.exp - decoded.iat).toBe(15 * 60);
+  });
+
+  it('refuses tampered, expired or HMAC-signed tokens', () => {
+    const key = ed25519Key('ed-1');
+    KeyRingUtil.load([key], {});
+    const [header, , signature] = JwtUtil.generateToken(payload).split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ ...payload, profiles: 'ADMIN' })
+    ).toString('base64url');
+
+    expect(() =>
+      JwtUtil.verifyAccessToken(`${header}.${forged}.${signature}`)
+    ).toThrow(jwt.JsonWebTokenError);
+    expect(() =>
+      JwtUtil.verifyAccessToken(JwtUtil.generateToken(payload, -1))
+    ).toThrow(jwt.TokenExpiredError);
+    expect(() =>
+      JwtUtil.verifyAccessToken(
+        jwt.sign(payload, key.verificationKey, { keyid: 'ed-1' })
+      )
+    ).toThrow('invalid algorithm');
+  });
+});
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import KeyRingUtil, { KeyUse, RingKey } from '../keyRing.util';
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Returns a key of the ring, its dates given in hours from now.
+ */
+function ringKey(
+  kid: string,
+  notBefore: number,
+  verifyUntil: number | null = null,
+  use: KeyUse = 'ACCESS'
+): RingKey {
+  return {
+    kid,
+    use,
+    algorithm: 'HS256',
+    signingKey: `${kid}-secret`,
+    verificationKey: `${kid}-secret`,
+    notBefore: new Date(Date.now() + notBefore * HOUR),
+    verifyUntil:
+      verifyUntil === null ? null : new Date(Date.now() + verifyUntil * HOUR),
+  };
+}
+
+describe('KeyRingUtil', () => {
+  beforeEach(() => {
+    KeyRingUtil.load([], {});
+  });
+
+  describe('signingKey', () => {
+    it('signs with the most recent key already valid', () => {
+      KeyRingUtil.load(
+        [ringKey('old', -48, 24), ringKey('current', -1), ringKey('next', 2)],
+        {}
+      );
+      expect(KeyRingUtil.signingKey('ACCESS')?.kid).toBe('current');
+    });
+
+    it('does not sign with a key past its verification date', () => {
+      KeyRingUtil.load([ringKey('retired', -48, -1)], {});
+      expect(KeyRingUtil.signingKey('ACCESS')).toBeNull();
+    });
+
+    it('only signs with the keys of the requested use', () => {
+      KeyRingUtil.load([ringKey('refresh', -1, null, 'REFRESH')], {});
+      expect(KeyRingUtil.signingKey('ACCESS')).toBeNull();
+      expect(KeyRingUtil.signingKey('REFRESH')?.kid).toBe('refresh');
+    });
+
+    it('returns null when the ring is empty, to use the static secret', () => {
+      expect(KeyRingUtil.signingKey('ACCESS')).toBeNull();
+    });
+  });
+
+  describe('verificationKey', () => {
+    it('finds a key by its kid, even if it does not sign yet', () => {
+      KeyRingUtil.load([ringKey('current', -1), ringKey('next', 2)], {});
+      expect(KeyRingUtil.verificationKey('ACCESS', 'next')?.kid).toBe('next');
+    });
+
+    it('rejects unknown kids, other uses and expired keys', () => {
+      KeyRingUtil.load(
+        [ringKey('retired', -48, -1), ringKey('refresh', -1, null, 'REFRESH')],
+        {}
+      );
+      expect(KeyRingUtil.verificationKey('ACCESS', 'missing')).toBeNull();
+      expect(KeyRingUtil.verificationKey('ACCESS', 'refresh')).toBeNull();
+      expect(KeyRingUtil.verificationKey('ACCESS', 'retired')).toBeNull();
+    });
+  });
+
+  describe('verificationKeys', () => {
+    it('lists the keys of a use still verifying tokens', () => {
+      KeyRingUtil.load(
+        [
+          ringKey('retired', -48, -1),
+          ringKey('rotated', -24, 24),
+          ringKey('current', -1),
+          ringKey('next', 2),
+          ringKey('refresh', -1, null, 'REFRESH'),
+        ],
+        {}
+      );
+      expect(
+        KeyRingUtil.verificationKeys('ACCESS').map((key) => key.kid)
+      ).toEqual(['next', 'current', 'rotated']);
+    });
+  });
+
+  describe('acceptsLegacy', () => {
+    it('accepts tokens without kid while no end date is set', () => {
+      expect(KeyRingUtil.acceptsLegacy('ACCESS')).toBe(true);
+    });
+
+    it('accepts tokens without kid until the end date of their use', () => {
+      KeyRingUtil.load([], {
+        ACCESS: new Date(Date.now() - HOUR),
+        REFRESH: new Date(Date.now() + HOUR),
+      });
+      expect(KeyRingUtil.acceptsLegacy('ACCESS')).toBe(false);
+      expect(KeyRingUtil.acceptsLegacy('REFRESH')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import PasswordPolicyUtil, { passwordSchema } from '../passwordPolicy.util';
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {
+    pwd: {
+      pwdLength: 10,
+      maxLength: 72,
+      requireLowercase: true,
+      requireUppercase: true,
+      requireDigit: true,
+      requireSymbol: true,
+      historySize: 5,
+    },
+  },
+}));
+
+describe('PasswordPolicyUtil', () => {
+  describe('violations', () => {
+    it('accepts a password following every rule', () => {
+      expect(PasswordPolicyUtil.violations('Mdg-Dev#2024')).toEqual([]);
+    });
+
+    it('refuses a password shorter than the minimum length', () => {
+      expect(PasswordPolicyUtil.violations('Ab1-cd')).toEqual([
+        'The password must contain at least 10 characters',
+      ]);
+    });
+
+    it('measures the maximum length in bytes', () => {
+      // 24 characters of 3 bytes each: 72 bytes, then 75 bytes
+      const password = 'Aa1-' + 'é'.repeat(4) + '€'.repeat(20);
+      expect(PasswordPolicyUtil.violations(password)).toEqual([]);
+      expect(PasswordPolicyUtil.violations(password + '€')).toEqual([
+        'The password must not exceed 72 bytes',
+      ]);
+    });
+
+    it('lists every missing character class', () => {
+      expect(PasswordPolicyUtil.violations('abcdefghijk')).toEqual([
+        'The password must contain an uppercase letter',
+        'The password must contain a digit',
+        'The password must contain a symbol',
+      ]);
+      expect(PasswordPolicyUtil.violations('ABCDEFGHIJ1!')).toEqual([
+        'The password must contain a lowercase letter',
+      ]);
+    });
+
+    it('counts letters of any alphabet, and not them as symbols', () => {
+      expect(PasswordPolicyUtil.violations('Élève-été12')).toEqual([]);
+      expect(PasswordPolicyUtil.violations('Élèveétéé12')).toEqual([
+        'The password must contain a symbol',
+      ]);
+    });
+
+    it('refuses common passwords whatever their case', () => {
+      expect(PasswordPolicyUtil.violations('PASSWORD123')).toContain(
+        'This password is too common'
+      );
+    });
+  });
+
+  describe('assertValid', () => {
+    it('throws with the broken rules', () => {
+      expect(() => PasswordPolicyUtil.assertValid('Short-1')).toThrow(
+        'The password must contain at least 10 characters'
+      );
+      expect(() => PasswordPolicyUtil.assertValid('short-one')).toThrow(
+        'The password must contain an uppercase letter, The password must contain a digit'
+      );
+    });
+
+    it('does nothing for a valid password', () => {
+      expect(() =>
+        PasswordPolicyUtil.assertValid('Mdg-Dev#2024')
+      ).not.toThrow();
+    });
+  });
+
+  describe('passwordSchema', () => {
+    it('reports each broken rule as an issue', () => {
+      const result = passwordSchema.safeParse('lowercase-only');
+      expect(result.success).toBe(false);
+      expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+        'The password must contain an uppercase letter',
+        'The password must contain a digit',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { SessionLifetimePolicy } from '@prisma/client';
+import { ClientInfo } from '@/core/types';
+import SessionLifetimeUtil from '../sessionLifetime.util';
+
+jest.mock('@/config', () => ({
+  __esModule: true,
+  default: {
+    jwt: {
+      refreshExpiresIn: '30m',
+      browserSessionMaxAge: '12h',
+      mobileExpiredIn: '30d',
+      mobileSessionMaxAge: '90d',
+    },
+  },
+}));
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/**
+ * Returns client metadata as detected for the given client type.
+ */
+function clientOf(clientType: string) {
+  return { clientType } as ClientInfo;
+}
+
+describe('SessionLifetimeUtil', () => {
+  describe('resolvePolicy', () => {
+    it('gives mobile applications the MOBILE policy', () => {
+      expect(SessionLifetimeUtil.resolvePolicy(clientOf('mobile app'))).toBe(
+        SessionLifetimePolicy.MOBILE
+      );
+    });
+
+    it('gives browsers and unknown clients the BROWSER policy', () => {
+      expect(SessionLifetimeUtil.resolvePolicy(clientOf('browser'))).toBe(
+        SessionLifetimePolicy.BROWSER
+      );
+      expect(SessionLifetimeUtil.resolvePolicy(clientOf(''))).toBe(
+        SessionLifetimePolicy.BROWSER
+      );
+    });
+
+    it('lets the client_type sent at sign-in override the detection', () => {
+      expect(
+        SessionLifetimeUtil.resolvePolicy(clientOf('browser'), 'mobile')
+      ).toBe(SessionLifetimePolicy.MOBILE);
+      expect(
+        SessionLifetimeUtil.resolvePolicy(clientOf('mobile app'), 'browser')
+      ).toBe(SessionLifetimePolicy.BROWSER);
+    });
+
+    it('ignores an unknown client_type', () => {
+      expect(
+        SessionLifetimeUtil.resolvePolicy(clientOf('mobile app'), 'desktop')
+      ).toBe(SessionLifetimePolicy.MOBILE);
+    });
+  });
+
+  describe('limits', () => {
+    it('returns the refresh window of each policy', () => {
+      expect(
+        SessionLifetimeUtil.refreshWindow(SessionLifetimePolicy.BROWSER)
+      ).toBe(30 * MINUTE);
+      expect(
+        SessionLifetimeUtil.refreshWindow(SessionLifetimePolicy.MOBILE)
+      ).toBe(30 * DAY);
+    });
+
+    it('returns the maximum age of each policy', () => {
+      expect(SessionLifetimeUtil.maxAge(SessionLifetimePolicy.BROWSER)).toBe(
+        12 * 60 * MINUTE
+      );
+      expect(SessionLifetimeUtil.maxAge(SessionLifetimePolicy.MOBILE)).toBe(
+        90 * DAY
+      );
+    });
+
+    it('returns the longest refresh window of all policies', () => {
+      expect(SessionLifetimeUtil.longestRefreshWindow()).toBe(30 * DAY);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Utility class building the paths and URLs of the API routes.
+ *
+ * `API_PREFIX` may be given with or without slashes (`api`, `/api`, `/api/`): the routes
+ * are mounted on `basePath()` and every link to them is built here, so they always match.
+ *
+ * Example Usage:
+ *
+ * ApiUrlUtil.basePath(); // Output: "/api"
+ * ApiUrlUtil.path('assets/products/1.png'); // Output: "/api/v1/assets/products/1.png"
+ * ApiUrlUtil.url('customer-auth/verify-email', { token }); // Output: "https://shop.example/api/v1/customer-auth/verify-email?token=..."
+ */
+
+import config from '@/config';
+
+// Version of the API the routes are mounted under (see server/routes.ts)
+const API_VERSION = 'v1';
+
+export default class ApiUrlUtil {
+  /**
+   * Returns the path the API routes are mounted on.
+   */
+  static basePath() {
+    const prefix = config.api.prefix.replace(/^\/+|\/+$/g, '');
+    return prefix ? `/${prefix}` : '';
+  }
+
+  /**
+   * Returns the path of a route of the API.
+   * @param route - The route, under the version (e.g. `admin-auth/report-sign-in`).
+   */
+  static path(route: string) {
+    return `${ApiUrlUtil.basePath()}/${API_VERSION}/${route.replace(/^\/+/, '')}`;
+  }
+
+  /**
+   * Returns the absolute URL of a route of the API, for the links sent by email.
+   * @param route - The route, under the version.
+   * @param query - The parameters of the query string.
+   */
+  static url(route: string, query?: Record<string, string>) {
+    const search = query ? `?${new URLSearchParams(query)}` : '';
+    return `${config.app.publicUrl.replace(/\/+$/, '')}${ApiUrlUtil.path(route)}${search}`;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * authCookie.util.ts
+ *
+ * Utility class for the cookie transport of refresh tokens, used by browser clients
+ * so the refresh token is never readable from JavaScript.
+ *
+ * - The refresh token is stored in an HttpOnly, Secure, SameSite cookie scoped to the
+ *   admin auth routes, so it is only sent to `/refresh` and `/sign-out`.
+ * - A random CSRF token is stored in a readable cookie and returned in the response body.
+ *   Requests using the refresh cookie must echo it in the `X-CSRF-Token` header
+ *   (double-submit pattern, checked by `csrfProtection`).
+ *
+ * Clients that keep sending the refresh token in the body (mobile apps) are not affected.
+ */
+
+import crypto from 'crypto';
+import { CookieOptions, Request, Response } from 'express';
+import config from '@/config';
+import DateUtil from './date.util';
+import JwtUtil from './jwt.util';
+import ApiUrlUtil from './apiUrl.util';
+
+const settings = config.authCookie;
+
+// The refresh cookie is only sent to the admin auth routes
+const REFRESH_COOKIE_PATH = ApiUrlUtil.path('admin-auth');
+
+export type TokenTransport = 'body' | 'cookie';
+
+export default class AuthCookieUtil {
+  /**
+   * Reads the transport requested at sign-in (`body` by default).
+   * @param req - The HTTP request object.
+   */
+  static requestedTransport(req: Request): TokenTransport {
+    return req.body?.transport === 'cookie' ? 'cookie' : 'body';
+  }
+
+  /**
+   * Returns the refresh token sent in the cookie, if any.
+   * @param req - The HTTP request object.
+   */
+  static readRefreshToken(req: Request): string | undefined {
+    return req.cookies?.[settings.refreshName];
+  }
+
+  /**
+   * Stores the refresh token and a new CSRF token in cookies.
+   * @param res - The HTTP response object.
+   * @param refreshToken - The refresh token to store.
+   * @returns The CSRF token, to be returned in the response body.
+   */
+  static setSessionCookies(res: Response, refreshToken: string): string {
+    const csrfToken = crypto.randomBytes(32).toString('hex');
+
+    // The cookies live as long as the refresh token, whose lifetime depends on the session
+    const expiresAt = JwtUtil.decodeToken(refreshToken)?.exp;
+    const maxAge = expiresAt
+      ? expiresAt * 1000 - Date.now()
+      : DateUtil.parseDurationToMilliseconds(config.jwt.refreshExpiresIn);
+
+    res.cookie(settings.refreshName, refreshToken, {
+      ...AuthCookieUtil.baseOptions(),
+      httpOnly: true,
+      path: REFRESH_COOKIE_PATH,
+      maxAge,
+    });
+    res.cookie(settings.csrfName, csrfToken, {
+      ...AuthCookieUtil.baseOptions(),
+      httpOnly: false, // Read by the client to fill the X-CSRF-Token header
+      path: '/',
+      maxAge,
+    });
+
+    return csrfToken;
+  }
+
+  /**
+   * Moves the refresh token of a session payload (`{ tokens: { accessToken, refreshToken } }`)
+   * to the cookies. Payloads without tokens (e.g. a 2FA challenge) are returned as is.
+   * @param res - The HTTP response object.
+   * @param payload - The payload returned by the sign-in flow.
+   * @returns The payload without the refresh token, with the CSRF token added.
+   */
+  static applyCookieTransport<T extends object>(res: Response, payload: T) {
+    if (!('tokens' in payload)) {
+      return payload;
+    }
+
+    const { tokens, ...rest } = payload as T & {
+      tokens: { accessToken: string; refreshToken: string };
+    };
+    const csrfToken = AuthCookieUtil.setSessionCookies(
+      res,
+      tokens.refreshToken
+    );
+    return {
+      ...rest,
+      tokens: { accessToken: tokens.accessToken },
+      csrfToken,
+    };
+  }
+
+  /**
+   * Removes both session cookies.
+   * @param res - The HTTP response object.
+   */
+  static clearSessionCookies(res: Response) {
+    res.clearCookie(settings.refreshName, {
+      ...AuthCookieUtil.baseOptions(),
+      httpOnly: true,
+      path: REFRESH_COOKIE_PATH,
+    });
+    res.clearCookie(settings.csrfName, {
+      ...AuthCookieUtil.baseOptions(),
+      path: '/',
+    });
+  }
+
+  /**
+   * Checks the double-submit CSRF token in constant time.
+   * @param req - The HTTP request object.
+   * @returns `true` if the header matches the CSRF cookie.
+   */
+  static isCsrfTokenValid(req: Request): boolean {
+    const cookieToken = req.cookies?.[settings.csrfName];
+    const headerToken = req.headers['x-csrf-token'];
+    if (typeof cookieToken !== 'string' || typeof headerToken !== 'string') {
+      return false;
+    }
+
+    const expected = Buffer.from(cookieToken);
+    const candidate = Buffer.from(headerToken);
+    return (
+      expected.length > 0 &&
+      expected.length === candidate.length &&
+      crypto.timingSafeEqual(expected, candidate)
+    );
+  }
+
+  private static baseOptions(): CookieOptions {
+    return { secure: settings.secure, sameSite: settings.sameSite };
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * image.util.ts
+ *
+ * Processing of uploaded images with sharp.
+ *
+ * Rules:
+ * - The original is rotated according to its EXIF orientation and re-encoded without
+ *   metadata, only when it carries any, so reprocessing does not degrade it.
+ * - Each size of `IMAGE_VARIANT_SIZES` is generated as `<name>-<size>.<format>`, in the
+ *   formats of `IMAGE_VARIANT_FORMATS` and in the format of the original. Images are
+ *   never enlarged.
+ * - Vector images are kept as they are, without variants.
+ * - Files are read and written by the caller, through `StorageService`.
+ */
+
+import sharp from 'sharp';
+import path from 'path';
+import {
+  IMAGE_ALL_VARIANT_FORMATS,
+  IMAGE_ORIGINAL_FORMATS,
+  IMAGE_VARIANT_FORMATS,
+  IMAGE_VARIANT_SIZES,
+  RASTER_IMAGE_FORMATS,
+} from '@/core/constants/images';
+
+export type ImageSize = keyof typeof IMAGE_VARIANT_SIZES;
+
+// Metadata of the variants of an image, stored on its record
+export type ImageVariants = {
+  width: number;
+  height: number;
+  format: string;
+  sizes: Record<
+    ImageSize,
+    { width: number; height: number; files: Record<string, string> }
+  >;
+};
+
+// Result of the processing of an image
+export interface ProcessedImage {
+  original: Buffer | null; // Re-encoded original, null when it is kept as uploaded
+  files: { fileName: string; format: string; data: Buffer }[]; // Variant files
+  variants: ImageVariants;
+}
+
+export default class ImageUtil {
+  /**
+   * Normalizes an image and generates its variants.
+   * @param fileName - The file name of the original.
+   * @param input - The content of the original.
+   * @returns The files to store, or null for images that are not processed (vector images).
+   * @throws Error if the content is not a readable image.
+   */
+  static async process(
+    fileName: string,
+    input: Buffer
+  ): Promise<ProcessedImage | null> {
+    const metadata = await sharp(input).metadata();
+    const detected = ImageUtil.formatOf(metadata);
+    if (!detected || detected === 'svg') {
+      return null;
+    }
+    const format = IMAGE_ORIGINAL_FORMATS.includes(detected) ? detected : 'png';
+
+    const hasMetadata =
+      !!metadata.exif || !!metadata.iptc || !!metadata.xmp || !!metadata.icc;
+    const original = hasMetadata
+      ? await sharp(input)
+          .rotate()
+          .toFormat(format as keyof sharp.FormatEnum)
+          .toBuffer({ resolveWithObject: true })
+      : null;
+    const source = original?.data ?? input;
+
+    const files: ProcessedImage['files'] = [];
+    const sizes = {} as ImageVariants['sizes'];
+    for (const [size, width] of Object.entries(IMAGE_VARIANT_SIZES) as [
+      ImageSize,
+      number,
+    ][]) {
+      const names: Record<string, string> = {};
+      let info: sharp.OutputInfo | undefined;
+      for (const variantFormat of new Set([...IMAGE_VARIANT_FORMATS, format])) {
+        const variant = await sharp(source)
+          .rotate()
+          .resize({ width, withoutEnlargement: true })
+          .toFormat(variantFormat as keyof sharp.FormatEnum)
+          .toBuffer({ resolveWithObject: true });
+        info = variant.info;
+        const variantName = ImageUtil.variantFileName(
+          fileName,
+          size,
+          variantFormat
+        );
+        names[variantFormat] = variantName;
+        files.push({
+          fileName: variantName,
+          format: variantFormat,
+          data: variant.data,
+        });
+      }
+      sizes[size] = { width: info!.width, height: info!.height, files: names };
+    }
+
+    return {
+      original: original?.data ?? null,
+      files,
+      variants: {
+        width: original?.info.width ?? metadata.width ?? 0,
+        height: original?.info.height ?? metadata.height ?? 0,
+        format,
+        sizes,
+      },
+    };
+  }
+
+  /**
+   * Detects the format of an image from its content.
+   * @param input - The content of the image.
+   * @returns The format, or null if the content is not an image of `RASTER_IMAGE_FORMATS`.
+   */
+  static async rasterFormat(input: Buffer): Promise<string | null> {
+    const metadata = await sharp(input)
+      .metadata()
+      .catch(() => null);
+    const format = metadata && ImageUtil.formatOf(metadata);
+    return format && RASTER_IMAGE_FORMATS.includes(format) ? format : null;
+  }
+
+  /**
+   * Returns the file name of a variant.
+   * @param fileName - The file name of the original.
+   * @param size - The size of the variant.
+   * @param format - The format of the variant.
+   */
+  static variantFileName(fileName: string, size: ImageSize, format: string) {
+    const base = path.basename(fileName, path.extname(fileName));
+    return `${base}-${size}.${format}`;
+  }
+
+  /**
+   * Returns the file names every variant of an image can have, to remove them.
+   * @param fileName - The file name of the original.
+   */
+  static variantFileNames(fileName: string): string[] {
+    return (Object.keys(IMAGE_VARIANT_SIZES) as ImageSize[]).flatMap((size) =>
+      IMAGE_ALL_VARIANT_FORMATS.map((format) =>
+        ImageUtil.variantFileName(fileName, size, format)
+      )
+    );
+  }
+
+  /**
+   * Finds the variant of an image closest to a requested width: the smallest one at
+   * least as wide, or else the widest one, in the first available format.
+   * @param variants - The variants stored on the record of the image.
+   * @param width - The requested width.
+   * @param formats - The acceptable formats, by preference.
+   * @returns The file name of the variant, or null if the image has none.
+   */
+  static nearestVariant(
+    variants: ImageVariants,
+    width: number,
+    formats: string[]
+  ): string | null {
+    const sizes = (Object.entries(IMAGE_VARIANT_SIZES) as [ImageSize, number][])
+      .filter(([size]) => variants.sizes?.[size])
+      .sort(([, a], [, b]) => a - b);
+    const wideEnough = sizes.findIndex(([, size]) => size >= width);
+    // Sizes from the best match, then the smaller ones from the widest down
+    const candidates =
+      wideEnough === -1
+        ? [...sizes].reverse()
+        : [...sizes.slice(wideEnough), ...sizes.slice(0, wideEnough).reverse()];
+
+    for (const [size] of candidates) {
+      const files = variants.sizes[size].files;
+      const format = formats.find((format) => files[format]);
+      if (format) {
+        return files[format]!;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Returns the format of an image, sharp reporting AVIF images as HEIF with AV1 compression.
+   */
+  private static formatOf(metadata: sharp.Metadata) {
+    return metadata.format === 'heif' && metadata.compression === 'av1'
+      ? 'avif'
+      : metadata.format;
+  }
+}
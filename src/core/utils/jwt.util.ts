@@ -2,23 +2,42 @@
  * JwtUtil: Utility class for handling JSON Web Tokens (JWT).
  * This class provides methods to generate and verify both access and refresh tokens.
  * It also includes functionality for adding a unique identifier (jti) and a timestamp (lat) to the token payload.
+ * Access and refresh tokens are signed with the current key of the key ring (see `KeyRingUtil`) and carry
+ * its `kid` header; the static secrets of `config.jwt` are used until the ring holds a key.
+ * `jsonwebtoken` does not support EdDSA, so tokens of Ed25519 keys are signed and verified with `crypto`.
  *
  * Methods:
  * - generateToken: Generates an access token for user authentication.
  * - generateRefreshToken: Generates a refresh token to obtain a new access token.
  * - verifyAccessToken: Verifies the validity of an access token.
  * - verifyRefreshToken: Verifies the validity of a refresh token.
+ * - generateEmailVerificationToken: Generates the signed token embedded in email verification links.
+ * - verifyEmailVerificationToken: Verifies an email verification token.
+ * - generateTwoFactorChallengeToken: Generates the short-lived token exchanged for a session once the second factor is checked.
+ * - verifyTwoFactorChallengeToken: Verifies a two-factor challenge token.
+ * - generateSignInReportToken: Generates the token of the "this wasn't me" link of sign-in alerts.
+ * - verifySignInReportToken: Verifies a sign-in report token.
  *
  * Dependencies:
  * - jsonwebtoken (jwt): For creating and verifying JWTs.
  * - uuid (v4): For generating unique identifiers for each token.
  * - config: Configuration object that contains secrets and expiration times.
+ * - KeyRingUtil: The signing keys loaded from the database.
  */
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid'; // Importation de la fonction v4 pour générer des UUIDs
 
 import config from '@/config';
-import { AccessTokenPayload, RefreshTokenPayload } from '../types';
+import {
+  AccessTokenPayload,
+  EmailVerificationTokenPayload,
+  RefreshTokenPayload,
+  SignInReportPayload,
+  TwoFactorChallengePayload,
+} from '../types';
+import DateUtil from './date.util';
+import KeyRingUtil, { KeyUse, RingKey } from './keyRing.util';
 
 // Getting env variables
 const env = config.jwt;
@@ -26,6 +45,11 @@ const accessTokenSecret = env.accessToken;
 const refreshTokenSecret = env.refreshToken;
 const expiresIn = env.expiredIn;
 const refreshExpiresIn = env.refreshExpiresIn;
+const userTokenSecret = env.secretUser;
+const emailVerificationExpiresIn = env.emailVerificationExpiresIn;
+const adminTokenSecret = env.secretAdmin;
+const twoFactorChallengeExpiresIn = env.twoFactorChallengeExpiresIn;
+const signInReportExpiresIn = config.signInAlert.reportLinkExpiresIn;
 
 export default class JwtUtil {
   /**
@@ -33,13 +57,18 @@ export default class JwtUtil {
    * Adds the current timestamp (lat) and a unique identifier (jti) to the payload.
    *
    * @param payload - The data to be included in the access token.
+   * @param lifetime - The lifetime of the token (duration string or seconds), `expiredIn` by default.
    * @returns The generated access token.
    */
-  static generateToken(payload: AccessTokenPayload): string {
-    return jwt.sign(
+  static generateToken(
+    payload: AccessTokenPayload,
+    lifetime: string | number = expiresIn
+  ): string {
+    return JwtUtil.signWithKeyRing(
       { ...payload, lat: Math.floor(Date.now() / 1000), jti: uuidv4() },
+      'ACCESS',
       accessTokenSecret,
-      { expiresIn }
+      lifetime
     );
   }
 
@@ -48,15 +77,18 @@ export default class JwtUtil {
    * Adds the current timestamp (lat) and a unique identifier (jti) to the payload.
    *
    * @param payload - The data to be included in the refresh token.
+   * @param lifetime - The lifetime of the token (duration string or seconds), `refreshExpiresIn` by default.
    * @returns The generated refresh token.
    */
-  static generateRefreshToken(payload: RefreshTokenPayload): string {
-    return jwt.sign(
+  static generateRefreshToken(
+    payload: RefreshTokenPayload,
+    lifetime: string | number = refreshExpiresIn
+  ): string {
+    return JwtUtil.signWithKeyRing(
       { ...payload, lat: Math.floor(Date.now() / 1000), jti: uuidv4() },
+      'REFRESH',
       refreshTokenSecret,
-      {
-        expiresIn: refreshExpiresIn,
-      }
+      lifetime
     );
   }
 
@@ -68,7 +100,18 @@ export default class JwtUtil {
    * @throws Will throw an error if the token is invalid or expired.
    */
   static verifyAccessToken(token: string): any {
-    return jwt.verify(token, accessTokenSecret);
+    return JwtUtil.verifyWithKeyRing(token, 'ACCESS', accessTokenSecret);
+  }
+
+  /**
+   * Decodes a token without verifying it, to read claims of a token issued by this API.
+   *
+   * @param token - The token to decode.
+   * @returns The decoded payload, or null if the token is malformed.
+   */
+  static decodeToken(token: string): jwt.JwtPayload | null {
+    const decoded = jwt.decode(token);
+    return typeof decoded === 'object' ? decoded : null;
   }
 
   /**
@@ -79,6 +122,214 @@ export default class JwtUtil {
    * @throws Will throw an error if the token is invalid or expired.
    */
   static verifyRefreshToken(token: string): any {
-    return jwt.verify(token, refreshTokenSecret);
+    return JwtUtil.verifyWithKeyRing(token, 'REFRESH', refreshTokenSecret);
+  }
+
+  /**
+   * Generates the token embedded in email verification links.
+   * Signed with the user secret so it can never be used as an access token.
+   *
+   * @param payload - The user id and email address being verified.
+   * @returns The generated verification token.
+   */
+  static generateEmailVerificationToken(
+    payload: EmailVerificationTokenPayload
+  ): string {
+    return jwt.sign({ ...payload, jti: uuidv4() }, userTokenSecret, {
+      expiresIn: emailVerificationExpiresIn,
+    });
+  }
+
+  /**
+   * Verifies the validity of an email verification token.
+   *
+   * @param token - The verification token to verify.
+   * @returns The decoded payload of the token if valid.
+   * @throws Will throw an error if the token is invalid, expired or issued for another purpose.
+   */
+  static verifyEmailVerificationToken(
+    token: string
+  ): EmailVerificationTokenPayload {
+    const decoded = jwt.verify(
+      token,
+      userTokenSecret
+    ) as EmailVerificationTokenPayload;
+    if (decoded.purpose !== 'email-verification') {
+      throw new Error('Invalid verification token');
+    }
+    return decoded;
+  }
+
+  /**
+   * Generates the token returned after a correct password when the user has
+   * two-factor authentication enabled. Signed with the admin secret so it can
+   * never be used as an access token.
+   *
+   * @param payload - The id of the user who passed the first factor.
+   * @returns The generated challenge token.
+   */
+  static generateTwoFactorChallengeToken(
+    payload: TwoFactorChallengePayload
+  ): string {
+    return jwt.sign({ ...payload, jti: uuidv4() }, adminTokenSecret, {
+      expiresIn: twoFactorChallengeExpiresIn,
+    });
+  }
+
+  /**
+   * Verifies the validity of a two-factor challenge token.
+   *
+   * @param token - The challenge token to verify.
+   * @returns The decoded payload of the token if valid.
+   * @throws Will throw an error if the token is invalid, expired or issued for another purpose.
+   */
+  static verifyTwoFactorChallengeToken(
+    token: string
+  ): TwoFactorChallengePayload {
+    const decoded = jwt.verify(
+      token,
+      adminTokenSecret
+    ) as TwoFactorChallengePayload;
+    if (decoded.purpose !== '2fa-challenge') {
+      throw new Error('Invalid challenge token');
+    }
+    return decoded;
+  }
+
+  /**
+   * Generates the token embedded in the "this wasn't me" link of sign-in alerts.
+   * Signed with the admin secret so it can never be used as an access token.
+   *
+   * @param payload - The user and the session (token family) being reported.
+   * @returns The generated report token.
+   */
+  static generateSignInReportToken(payload: SignInReportPayload): string {
+    return jwt.sign({ ...payload, jti: uuidv4() }, adminTokenSecret, {
+      expiresIn: signInReportExpiresIn,
+    });
+  }
+
+  /**
+   * Verifies the validity of a sign-in report token.
+   *
+   * @param token - The report token to verify.
+   * @returns The decoded payload of the token if valid.
+   * @throws Will throw an error if the token is invalid, expired or issued for another purpose.
+   */
+  static verifySignInReportToken(token: string): SignInReportPayload {
+    const decoded = jwt.verify(token, adminTokenSecret) as SignInReportPayload;
+    if (decoded.purpose !== 'sign-in-report') {
+      throw new Error('Invalid report token');
+    }
+    return decoded;
+  }
+
+  /**
+   * Signs a token with the current key of the ring, or with the static secret when the ring is empty.
+   */
+  private static signWithKeyRing(
+    payload: object,
+    use: KeyUse,
+    legacySecret: string,
+    lifetime: string | number
+  ): string {
+    const key = KeyRingUtil.signingKey(use);
+    if (!key) {
+      return jwt.sign(payload, legacySecret, { expiresIn: lifetime });
+    }
+    if (key.algorithm === 'EdDSA') {
+      return JwtUtil.signEdDSA(payload, key, lifetime);
+    }
+
+    return jwt.sign(payload, key.signingKey, {
+      algorithm: key.algorithm,
+      keyid: key.kid,
+      expiresIn: lifetime,
+    });
+  }
+
+  /**
+   * Verifies a token with the key named by its `kid` header. The algorithm is the one of
+   * the key, never the one announced by the token.
+   */
+  private static verifyWithKeyRing(
+    token: string,
+    use: KeyUse,
+    legacySecret: string
+  ): any {
+    const decoded = jwt.decode(token, { complete: true });
+    const kid = decoded?.header.kid;
+
+    if (!kid) {
+      if (!KeyRingUtil.acceptsLegacy(use)) {
+        throw new jwt.JsonWebTokenError('invalid signature');
+      }
+      return jwt.verify(token, legacySecret, { algorithms: ['HS256'] });
+    }
+
+    const key = KeyRingUtil.verificationKey(use, kid);
+    if (!key) {
+      throw new jwt.JsonWebTokenError('invalid signature');
+    }
+    if (key.algorithm === 'EdDSA') {
+      if (decoded.header.alg !== 'EdDSA') {
+        throw new jwt.JsonWebTokenError('invalid algorithm');
+      }
+      return JwtUtil.verifyEdDSA(token, key);
+    }
+    return jwt.verify(token, key.verificationKey, {
+      algorithms: [key.algorithm],
+    });
+  }
+
+  /**
+   * Signs a token with an Ed25519 key, with the `iat` and `exp` claims set by `jwt.sign`.
+   */
+  private static signEdDSA(
+    payload: object,
+    key: RingKey,
+    lifetime: string | number
+  ): string {
+    const iat = Math.floor(Date.now() / 1000);
+    const exp =
+      iat +
+      (typeof lifetime === 'number'
+        ? lifetime
+        : DateUtil.parseDurationToMilliseconds(lifetime) / 1000);
+    const encode = (part: object) =>
+      Buffer.from(JSON.stringify(part)).toString('base64url');
+
+    const content = `${encode({ alg: 'EdDSA', typ: 'JWT', kid: key.kid })}.${encode({ ...payload, iat, exp })}`;
+    const signature = crypto.sign(null, Buffer.from(content), key.signingKey);
+    return `${content}.${signature.toString('base64url')}`;
+  }
+
+  /**
+   * Verifies a token signed with an Ed25519 key, throwing the errors of `jwt.verify`.
+   */
+  private static verifyEdDSA(token: string, key: RingKey): any {
+    const [header, payload, signature] = token.split('.');
+    const valid =
+      signature !== undefined &&
+      crypto.verify(
+        null,
+        Buffer.from(`${header}.${payload}`),
+        key.verificationKey,
+        Buffer.from(signature, 'base64url')
+      );
+    if (!valid) {
+      throw new jwt.JsonWebTokenError('invalid signature');
+    }
+
+    const claims = JSON.parse(
+      Buffer.from(payload as string, 'base64url').toString()
+    );
+    if (typeof claims.exp === 'number' && Date.now() / 1000 >= claims.exp) {
+      throw new jwt.TokenExpiredError(
+        'jwt expired',
+        new Date(claims.exp * 1000)
+      );
+    }
+    return claims;
   }
 }
@@ -0,0 +1,97 @@
+/**
+ * keyRing.util.ts
+ *
+ * In-memory key ring used by `JwtUtil` to sign and verify access and refresh tokens.
+ * The keys are stored in the database and loaded here by `SigningKeysService`, so
+ * signing and verifying stay synchronous.
+ *
+ * Rules:
+ * - New tokens are signed with the most recent key whose `notBefore` has passed.
+ * - A token is verified with the key named by its `kid` header, as long as the key
+ *   is not past its `verifyUntil` date.
+ * - Tokens without `kid` were signed with the static secrets of `config.jwt`. They are
+ *   accepted while the ring has no key for their use, then until `legacyVerifyUntil`.
+ */
+
+export type KeyUse = 'ACCESS' | 'REFRESH';
+export type KeyAlgorithm = 'HS256' | 'RS256' | 'ES256' | 'EdDSA';
+
+export interface RingKey {
+  kid: string;
+  use: KeyUse;
+  algorithm: KeyAlgorithm;
+  signingKey: string; // HMAC secret or private key (PEM)
+  verificationKey: string; // HMAC secret or public key (PEM)
+  notBefore: Date;
+  verifyUntil: Date | null;
+}
+
+export default class KeyRingUtil {
+  private static keys: RingKey[] = [];
+  private static legacyVerifyUntil: Partial<Record<KeyUse, Date>> = {};
+
+  /**
+   * Replaces the keys of the ring.
+   * @param keys - The keys loaded from the database.
+   * @param legacyVerifyUntil - For each use, the date until which tokens without `kid` are accepted.
+   */
+  static load(
+    keys: RingKey[],
+    legacyVerifyUntil: Partial<Record<KeyUse, Date>>
+  ) {
+    KeyRingUtil.keys = [...keys].sort(
+      (a, b) => b.notBefore.getTime() - a.notBefore.getTime()
+    );
+    KeyRingUtil.legacyVerifyUntil = legacyVerifyUntil;
+  }
+
+  /**
+   * Returns the key signing new tokens, or null to use the static secret.
+   * @param use - The kind of token to sign.
+   */
+  static signingKey(use: KeyUse): RingKey | null {
+    const now = Date.now();
+    return (
+      KeyRingUtil.keys.find(
+        (key) =>
+          key.use === use &&
+          key.notBefore.getTime() <= now &&
+          (!key.verifyUntil || key.verifyUntil.getTime() > now)
+      ) ?? null
+    );
+  }
+
+  /**
+   * Returns the key verifying a token, or null if it is unknown or no longer valid.
+   * @param use - The kind of token to verify.
+   * @param kid - The `kid` header of the token.
+   */
+  static verificationKey(use: KeyUse, kid: string): RingKey | null {
+    const key = KeyRingUtil.keys.find((k) => k.use === use && k.kid === kid);
+    if (!key || (key.verifyUntil && key.verifyUntil.getTime() <= Date.now())) {
+      return null;
+    }
+    return key;
+  }
+
+  /**
+   * Returns the keys still verifying tokens, including the ones not signing yet.
+   * @param use - The kind of token.
+   */
+  static verificationKeys(use: KeyUse): RingKey[] {
+    const now = Date.now();
+    return KeyRingUtil.keys.filter(
+      (key) =>
+        key.use === use && (!key.verifyUntil || key.verifyUntil.getTime() > now)
+    );
+  }
+
+  /**
+   * Tells whether tokens signed with the static secret of `config.jwt` are still accepted.
+   * @param use - The kind of token.
+   */
+  static acceptsLegacy(use: KeyUse): boolean {
+    const until = KeyRingUtil.legacyVerifyUntil[use];
+    return !until || until.getTime() > Date.now();
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * otp.util.ts
+ *
+ * Utility class for generating and verifying numeric one-time codes (OTP).
+ * Codes are never stored in clear: only an HMAC-SHA256 digest keyed with
+ * `config.otp.hashSecret` is persisted, and comparisons are made in constant time.
+ *
+ * Usage examples:
+ * - `OtpUtil.generateCode()`: Returns a random 6-digit code such as "048213".
+ * - `OtpUtil.hashCode('048213')`: Returns the digest to store in the database.
+ * - `OtpUtil.compareCode('048213', digest)`: Returns `true` if the code matches the digest.
+ */
+
+import crypto from 'crypto';
+import config from '@/config';
+
+export default class OtpUtil {
+  /**
+   * Generates a random numeric code using a cryptographically secure generator.
+   * @param length - The number of digits of the code (6 by default).
+   * @returns The generated code, left-padded with zeros.
+   */
+  static generateCode(length: number = 6): string {
+    return crypto
+      .randomInt(0, 10 ** length)
+      .toString()
+      .padStart(length, '0');
+  }
+
+  /**
+   * Hashes a code with the OTP secret.
+   * @param code - The clear code.
+   * @returns The hexadecimal HMAC-SHA256 digest of the code.
+   */
+  static hashCode(code: string): string {
+    return crypto
+      .createHmac('sha256', config.otp.hashSecret)
+      .update(code)
+      .digest('hex');
+  }
+
+  /**
+   * Compares a clear code with a stored digest in constant time.
+   * @param code - The clear code submitted by the user.
+   * @param hash - The stored digest.
+   * @returns `true` if the code matches the digest, `false` otherwise.
+   */
+  static compareCode(code: string, hash: string): boolean {
+    const candidate = Buffer.from(OtpUtil.hashCode(code), 'hex');
+    const expected = Buffer.from(hash, 'hex');
+
+    return (
+      candidate.length === expected.length &&
+      crypto.timingSafeEqual(candidate, expected)
+    );
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * passwordPolicy.util.ts
+ *
+ * Utility class checking passwords against the policy configured in `config.pwd`:
+ * minimum and maximum length, required character classes and a denylist of common
+ * passwords. The reuse of previous passwords is checked by `PasswordHistoryService`,
+ * which needs the database.
+ *
+ * Usage examples:
+ * - `PasswordPolicyUtil.violations('secret')`: Returns the rules the password breaks.
+ * - `password: passwordSchema` in a zod object: Refuses passwords breaking the policy.
+ */
+
+import { z } from 'zod';
+import config from '@/config';
+import { COMMON_PASSWORDS } from '../constants/commonPasswords';
+
+const policy = config.pwd;
+
+export default class PasswordPolicyUtil {
+  /**
+   * Lists the rules of the policy broken by a password.
+   * @param password - The clear password.
+   * @returns The messages of the broken rules, empty when the password is accepted.
+   */
+  static violations(password: string): string[] {
+    const violations: string[] = [];
+
+    if (password.length < policy.pwdLength) {
+      violations.push(
+        `The password must contain at least ${policy.pwdLength} characters`
+      );
+    }
+    if (Buffer.byteLength(password, 'utf8') > policy.maxLength) {
+      violations.push(`The password must not exceed ${policy.maxLength} bytes`);
+    }
+    if (policy.requireLowercase && !/\p{Ll}/u.test(password)) {
+      violations.push('The password must contain a lowercase letter');
+    }
+    if (policy.requireUppercase && !/\p{Lu}/u.test(password)) {
+      violations.push('The password must contain an uppercase letter');
+    }
+    if (policy.requireDigit && !/\d/.test(password)) {
+      violations.push('The password must contain a digit');
+    }
+    if (policy.requireSymbol && !/[^\p{L}\p{N}]/u.test(password)) {
+      violations.push('The password must contain a symbol');
+    }
+    if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+      violations.push('This password is too common');
+    }
+
+    return violations;
+  }
+
+  /**
+   * Throws if a password breaks the policy.
+   * @param password - The clear password.
+   * @throws Error listing the broken rules.
+   */
+  static assertValid(password: string) {
+    const violations = PasswordPolicyUtil.violations(password);
+    if (violations.length > 0) {
+      throw new Error(violations.join(', '));
+    }
+  }
+}
+
+// Zod schema of a new password, to be used in the payloads setting a password
+export const passwordSchema = z.string().superRefine((password, ctx) => {
+  for (const message of PasswordPolicyUtil.violations(password)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  }
+});
@@ -0,0 +1,17 @@
+/**
+ * pricing.util.ts
+ *
+ * Utility class for the price computations shared by the catalog services.
+ */
+
+export default class PricingUtil {
+  /**
+   * Computes a selling price from a cost and a margin level.
+   * @param cost - The cost (e.g. per gram).
+   * @param margin - The margin percentage.
+   * @returns The cost increased by the margin.
+   */
+  static applyMargin(cost: number, margin: number): number {
+    return cost + (cost * margin) / 100;
+  }
+}
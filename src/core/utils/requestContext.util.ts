@@ -0,0 +1,70 @@
+/**
+ * requestContext.util.ts
+ *
+ * Keeps the HTTP request being handled available to the code it calls, without passing
+ * it through every service. Used by the audit Prisma extension to know who makes a change.
+ *
+ * The context is opened by `requestContextMiddleware` and follows the asynchronous calls
+ * of the request (AsyncLocalStorage). Outside of a request (scheduled jobs, seeders),
+ * `current()` returns undefined.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request } from 'express';
+
+export interface RequestActor {
+  id: string;
+  username: string;
+  impersonatorId: string | null;
+}
+
+export interface RequestContext {
+  request: Request;
+}
+
+export default class RequestContextUtil {
+  private static readonly storage = new AsyncLocalStorage<RequestContext>();
+
+  /**
+   * Runs a function inside the context of a request.
+   * @param context - The context of the request.
+   * @param callback - The function to run.
+   */
+  static run<T>(context: RequestContext, callback: () => T): T {
+    return RequestContextUtil.storage.run(context, callback);
+  }
+
+  /**
+   * Returns the context of the request being handled, if any.
+   */
+  static current(): RequestContext | undefined {
+    return RequestContextUtil.storage.getStore();
+  }
+
+  /**
+   * Returns the user authenticated on the request being handled (set by `verifyJWT`
+   * or `verifyApiKey`), or null outside of an authenticated request.
+   */
+  static actor(): RequestActor | null {
+    const user = (RequestContextUtil.current()?.request as any)?.user;
+    if (!user) {
+      return null;
+    }
+    return {
+      id: user.id,
+      username: user.username,
+      impersonatorId: user.impersonator?.id ?? null,
+    };
+  }
+
+  /**
+   * Returns the IP address of the client making the request being handled.
+   */
+  static ipAddress(): string | null {
+    const request = RequestContextUtil.current()?.request;
+    if (!request) {
+      return null;
+    }
+    return (request as any).clientInfo?.ipAddress ?? request.ip ?? null;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * scheduler.util.ts
+ *
+ * Utility class for running maintenance jobs at a fixed interval inside the API
+ * process (purges, scheduled updates...). Jobs are registered once at startup by
+ * `Server.bootstrap`; a failing run is logged and does not stop the next ones.
+ *
+ * Usage example:
+ * - `SchedulerUtil.every('purge-revoked-tokens', '1h', () => service.purgeExpired())`
+ */
+
+import logger from './logger.util';
+import DateUtil from './date.util';
+
+export default class SchedulerUtil {
+  private static readonly timers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Runs a job at a fixed interval. Registering a name twice replaces the previous job.
+   * @param name - The name of the job, used in logs.
+   * @param interval - The interval between two runs (e.g. '30s', '1h').
+   * @param job - The job to run.
+   */
+  static every(name: string, interval: string, job: () => Promise<unknown>) {
+    SchedulerUtil.cancel(name);
+
+    let running = false;
+    const timer = setInterval(async () => {
+      // Skip the run if the previous one is not finished
+      if (running) {
+        return;
+      }
+      running = true;
+      try {
+        await job();
+      } catch (error) {
+        logger.error(
+          `Scheduled job ${name} failed: ${(error as Error).message}`
+        );
+      } finally {
+        running = false;
+      }
+    }, DateUtil.parseDurationToMilliseconds(interval));
+
+    // Scheduled jobs must not keep the process alive on shutdown
+    timer.unref();
+    SchedulerUtil.timers.set(name, timer);
+  }
+
+  /**
+   * Stops a job.
+   * @param name - The name of the job.
+   */
+  static cancel(name: string) {
+    const timer = SchedulerUtil.timers.get(name);
+    if (timer) {
+      clearInterval(timer);
+      SchedulerUtil.timers.delete(name);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * sessionLifetime.util.ts
+ *
+ * Utility class choosing the lifetime policy of a session and exposing its limits.
+ *
+ * - BROWSER sessions get a short sliding refresh window (`config.jwt.refreshExpiresIn`)
+ *   and end after `config.jwt.browserSessionMaxAge`.
+ * - MOBILE sessions get a long sliding refresh window (`config.jwt.mobileExpiredIn`)
+ *   and end after `config.jwt.mobileSessionMaxAge`.
+ *
+ * Each refresh issues a refresh token valid for the window, without going past the
+ * maximum age of the session.
+ */
+
+import { SessionLifetimePolicy } from '@prisma/client';
+import config from '@/config';
+import { ClientInfo } from '../types';
+import DateUtil from './date.util';
+
+// Client type reported by the device detector for native applications
+const MOBILE_APP_CLIENT_TYPE = 'mobile app';
+
+export default class SessionLifetimeUtil {
+  /**
+   * Chooses the policy of a new session.
+   * @param clientInfo - Client metadata detected from the request.
+   * @param clientType - The `client_type` sent at sign-in, which takes precedence over the detection.
+   */
+  static resolvePolicy(
+    clientInfo: ClientInfo,
+    clientType?: string
+  ): SessionLifetimePolicy {
+    if (clientType === 'mobile') {
+      return SessionLifetimePolicy.MOBILE;
+    }
+    if (clientType === 'browser') {
+      return SessionLifetimePolicy.BROWSER;
+    }
+    return clientInfo?.clientType === MOBILE_APP_CLIENT_TYPE
+      ? SessionLifetimePolicy.MOBILE
+      : SessionLifetimePolicy.BROWSER;
+  }
+
+  /**
+   * Returns the sliding refresh window of a policy, in milliseconds.
+   */
+  static refreshWindow(policy: SessionLifetimePolicy): number {
+    return DateUtil.parseDurationToMilliseconds(
+      policy === SessionLifetimePolicy.MOBILE
+        ? config.jwt.mobileExpiredIn
+        : config.jwt.refreshExpiresIn
+    );
+  }
+
+  /**
+   * Returns the maximum age of a session of a policy, in milliseconds.
+   */
+  static maxAge(policy: SessionLifetimePolicy): number {
+    return DateUtil.parseDurationToMilliseconds(
+      policy === SessionLifetimePolicy.MOBILE
+        ? config.jwt.mobileSessionMaxAge
+        : config.jwt.browserSessionMaxAge
+    );
+  }
+
+  /**
+   * Returns the longest refresh window of all policies, in milliseconds.
+   */
+  static longestRefreshWindow(): number {
+    return Math.max(
+      ...Object.values(SessionLifetimePolicy).map((policy) =>
+        SessionLifetimeUtil.refreshWindow(policy)
+      )
+    );
+  }
+}
@@ -0,0 +1,429 @@
+/**
+ * audit.extension.ts
+ *
+ * Prisma client extension recording every create, update and delete in the `AuditLog`
+ * table: action, entity type and id, changed fields before and after, actor and client
+ * IP address. The actor is read from the request being handled (`RequestContextUtil`);
+ * changes made outside of a request (scheduled jobs, seeders) have no actor.
+ *
+ * Rules:
+ * - Updates only record the fields that changed, and are skipped when nothing did.
+ * - Secrets (password hashes, TOTP and signing secrets...) are replaced by a placeholder.
+ * - Authentication internals written on every sign-in or request are not recorded (API
+ *   keys are recorded by `ApiKeysService` when issued or revoked).
+ * - Inside an interactive transaction, the previous state is read and the entry written
+ *   through the transaction: the entry is rolled back with the change, and no other
+ *   connection of the pool is taken. The transaction client is put in context by
+ *   `withTransactionContext`, so every query made during the callback is taken as part of
+ *   the transaction. Batch transactions (`$transaction([...])`) cannot take more queries,
+ *   their entries are written apart.
+ * - Outside of an interactive transaction, a failure to write the entry is logged and does
+ *   not fail the change itself. Inside one, it fails the transaction.
+ * - Bulk changes of more than `BULK_SNAPSHOT_LIMIT` rows are recorded as a single entry
+ *   holding the filter, instead of one entry per row.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { AuditAction, Prisma, PrismaClient } from '@prisma/client';
+import { log } from 'console';
+import RequestContextUtil from '@/core/utils/requestContext.util';
+
+// Models written on every sign-in or request, and the audit trails themselves
+const NON_AUDITED_MODELS = new Set<string>([
+  'ApiKey',
+  'AuditLog',
+  'ImpersonationRequest',
+  'LoginAttempt',
+  'LoginThrottle',
+  'PasswordHistory',
+  'PasswordResetCode',
+  'RefreshToken',
+  'RevokedAccessToken',
+  'TokenFamily',
+  'TwoFactorRecoveryCode',
+]);
+
+// Fields whose value is never copied into the audit log
+const REDACTED_FIELDS = new Set<string>([
+  'password',
+  'passwordHash',
+  'twoFactorSecret',
+  'keyHash',
+  'secret',
+  'codeHash',
+]);
+const REDACTED = '[REDACTED]';
+
+// Fields changing on every update, left out of the diff
+const IGNORED_FIELDS = new Set<string>(['updatedAt', 'twoFactorLastUsedStep']);
+
+// Rows read before a bulk change; above, only the filter of the change is recorded
+const BULK_SNAPSHOT_LIMIT = 500;
+
+// Client of the interactive transaction whose callback is running
+const transactionStorage = new AsyncLocalStorage<PrismaClient>();
+
+type Row = Record<string, unknown>;
+
+interface AuditEntry {
+  action: AuditAction;
+  entityId: string | null;
+  before: Row | null;
+  after: Row | null;
+}
+
+// Primary key and scalar fields of each model
+const models = new Map(
+  Prisma.dmmf.datamodel.models.map((model) => [
+    model.name,
+    {
+      idField: model.fields.find((field) => field.isId)?.name ?? 'id',
+      scalarFields: model.fields
+        .filter((field) => field.kind === 'scalar' || field.kind === 'enum')
+        .map((field) => field.name),
+    },
+  ])
+);
+
+const delegateName = (model: string) =>
+  model.charAt(0).toLowerCase() + model.slice(1);
+
+/**
+ * Returns a JSON-safe copy of the scalar fields of a row, secrets redacted.
+ */
+const snapshot = (model: string, row: Row): Row => {
+  const copy: Row = {};
+  for (const field of models.get(model)?.scalarFields ?? Object.keys(row)) {
+    if (!(field in row)) {
+      continue;
+    }
+    copy[field] = REDACTED_FIELDS.has(field) ? REDACTED : row[field];
+  }
+  return JSON.parse(JSON.stringify(copy));
+};
+
+/**
+ * Returns the fields that differ between two snapshots, or null if none does.
+ */
+const diff = (
+  before: Row,
+  after: Row
+): Pick<AuditEntry, 'before' | 'after'> | null => {
+  const changedBefore: Row = {};
+  const changedAfter: Row = {};
+  for (const field of Object.keys(after)) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+    const changed =
+      REDACTED_FIELDS.has(field) && field in before
+        ? after[field] !== REDACTED || before[field] !== REDACTED
+        : JSON.stringify(before[field]) !== JSON.stringify(after[field]);
+    if (changed) {
+      changedBefore[field] = before[field] ?? null;
+      changedAfter[field] = after[field];
+    }
+  }
+  return Object.keys(changedAfter).length > 0
+    ? { before: changedBefore, after: changedAfter }
+    : null;
+};
+
+const entityId = (model: string, row: Row | null | undefined) => {
+  const id = row?.[models.get(model)?.idField ?? 'id'];
+  return id === undefined || id === null ? null : String(id);
+};
+
+/**
+ * Adds every scalar field to a `select`, so the result holds the whole entity.
+ */
+const withScalars = (model: string, args: any) => {
+  if (!args?.select) {
+    return args;
+  }
+  const select = { ...args.select };
+  for (const field of models.get(model)?.scalarFields ?? []) {
+    select[field] = true;
+  }
+  return { ...args, select };
+};
+
+/**
+ * Removes from a result the fields added by `withScalars`.
+ */
+const asSelected = (args: any, result: any) => {
+  if (!args?.select || !result) {
+    return result;
+  }
+  const keep = (row: Row) =>
+    Object.fromEntries(
+      Object.entries(row).filter(([field]) => args.select[field])
+    );
+  return Array.isArray(result) ? result.map(keep) : keep(result);
+};
+
+/**
+ * Wraps a client so that the callback of its interactive transactions runs with the
+ * transaction client in context, where the audit hooks find it. Batch transactions are
+ * passed through.
+ */
+export const withTransactionContext = <T extends object>(client: T): T =>
+  new Proxy(client, {
+    get(target, property) {
+      if (property !== '$transaction') {
+        return Reflect.get(target, property);
+      }
+      const $transaction = (target as any).$transaction;
+      return (input: unknown, options?: unknown) =>
+        typeof input === 'function'
+          ? $transaction.call(
+              target,
+              (transaction: PrismaClient) =>
+                transactionStorage.run(transaction, () => input(transaction)),
+              options
+            )
+          : $transaction.call(target, input, options);
+    },
+  });
+
+export const auditExtension = Prisma.defineExtension((client) => {
+  const base = client as unknown as PrismaClient;
+
+  /**
+   * Returns the client of the interactive transaction being run, if any.
+   */
+  const currentTransaction = () => transactionStorage.getStore() ?? null;
+  const delegate = (db: PrismaClient, model: string) =>
+    (db as any)[delegateName(model)];
+
+  const record = async (
+    transaction: PrismaClient | null,
+    model: string,
+    entries: (AuditEntry | null)[]
+  ) => {
+    const data = entries.filter((entry): entry is AuditEntry => !!entry);
+    if (data.length === 0) {
+      return;
+    }
+
+    try {
+      const actor = RequestContextUtil.actor();
+      const ipAddress = RequestContextUtil.ipAddress();
+      await (transaction ?? base).auditLog.createMany({
+        data: data.map((entry) => ({
+          action: entry.action,
+          entityType: model,
+          entityId: entry.entityId,
+          before: (entry.before ?? Prisma.DbNull) as Prisma.InputJsonValue,
+          after: (entry.after ?? Prisma.DbNull) as Prisma.InputJsonValue,
+          actorId: actor?.id ?? null,
+          actorUsername: actor?.username ?? null,
+          impersonatorId: actor?.impersonatorId ?? null,
+          ipAddress,
+        })),
+      });
+    } catch (error) {
+      log('Audit log write failed:', error);
+      if (transaction) {
+        // The database aborted the transaction, the change cannot commit
+        throw error;
+      }
+    }
+  };
+
+  const created = (model: string, row: Row): AuditEntry => ({
+    action: 'CREATE',
+    entityId: entityId(model, row),
+    before: null,
+    after: snapshot(model, row),
+  });
+
+  const updated = (
+    model: string,
+    previous: Row,
+    row: Row
+  ): AuditEntry | null => {
+    const changes = diff(snapshot(model, previous), snapshot(model, row));
+    return (
+      changes && {
+        action: 'UPDATE',
+        entityId: entityId(model, row),
+        ...changes,
+      }
+    );
+  };
+
+  const deleted = (model: string, row: Row): AuditEntry => ({
+    action: 'DELETE',
+    entityId: entityId(model, row),
+    before: snapshot(model, row),
+    after: null,
+  });
+
+  /**
+   * Returns the single entry of a bulk change, the filter in place of the rows.
+   */
+  const bulk = (
+    action: AuditAction,
+    model: string,
+    where: unknown,
+    data: Row | null
+  ): AuditEntry => ({
+    action,
+    entityId: null,
+    before: { where: JSON.parse(JSON.stringify(where ?? {})) },
+    after: data && snapshot(model, data),
+  });
+
+  return client.$extends({
+    name: 'audit',
+    query: {
+      $allModels: {
+        async create(params) {
+          const { model, args, query } = params;
+          const transaction = currentTransaction();
+          if (NON_AUDITED_MODELS.has(model)) {
+            return query(args);
+          }
+          const result = await query(withScalars(model, args));
+          await record(transaction, model, [created(model, result as Row)]);
+          return asSelected(args, result);
+        },
+
+        async createMany(params) {
+          const { model, args, query } = params;
+          const transaction = currentTransaction();
+          const result = await query(args);
+          if (!NON_AUDITED_MODELS.has(model)) {
+            const rows = [args.data].flat() as Row[];
+            await record(
+              transaction,
+              model,
+              rows.map((row) => created(model, row))
+            );
+          }
+          return result;
+        },
+
+        async createManyAndReturn(params) {
+          const { model, args, query } = params;
+          const transaction = currentTransaction();
+          if (NON_AUDITED_MODELS.has(model)) {
+            return query(args);
+          }
+          const result = await query(withScalars(model, args));
+          await record(
+            transaction,
+            model,
+            (result as Row[]).map((row) => created(model, row))
+          );
+          return asSelected(args, result);
+        },
+
+        async update(params) {
+          const { model, args, query } = params;
+          const transaction = currentTransaction();
+          if (NON_AUDITED_MODELS.has(model)) {
+            return query(args);
+          }
+          const previous = await delegate(
+            transaction ?? base,
+            model
+          ).findUnique({
+            where: args.where,
+          });
+          const result = await query(withScalars(model, args));
+          await record(transaction, model, [
+            previous
+              ? updated(model, previous, result as Row)
+              : created(model, result as Row),
+          ]);
+          return asSelected(args, result);
+        },
+
+        async upsert(params) {
+          const { model, args, query } = params;
+          const transaction = currentTransaction();
+          if (NON_AUDITED_MODELS.has(model)) {
+            return query(args);
+          }
+          const previous = await delegate(
+            transaction ?? base,
+            model
+          ).findUnique({
+            where: args.where,
+          });
+          const result = await query(withScalars(model, args));
+          await record(transaction, model, [
+            previous
+              ? updated(model, previous, result as Row)
+              : created(model, result as Row),
+          ]);
+          return asSelected(args, result);
+        },
+
+        async updateMany(params) {
+          const { model, args, query } = params;
+          const transaction = currentTransaction();
+          if (NON_AUDITED_MODELS.has(model)) {
+            return query(args);
+          }
+          const previous: Row[] = await delegate(
+            transaction ?? base,
+            model
+          ).findMany({
+            where: args.where,
+            take: BULK_SNAPSHOT_LIMIT + 1,
+          });
+          const result = await query(args);
+          // The new state is the data applied to each row (atomic operations kept as is)
+          await record(
+            transaction,
+            model,
+            previous.length > BULK_SNAPSHOT_LIMIT
+              ? [bulk('UPDATE', model, args.where, args.data as Row)]
+              : previous.map((row) =>
+                  updated(model, row, { ...row, ...(args.data as Row) })
+                )
+          );
+          return result;
+        },
+
+        async delete(params) {
+          const { model, args, query } = params;
+          const transaction = currentTransaction();
+          if (NON_AUDITED_MODELS.has(model)) {
+            return query(args);
+          }
+          const result = await query(withScalars(model, args));
+          await record(transaction, model, [deleted(model, result as Row)]);
+          return asSelected(args, result);
+        },
+
+        async deleteMany(params) {
+          const { model, args, query } = params;
+          const transaction = currentTransaction();
+          if (NON_AUDITED_MODELS.has(model)) {
+            return query(args);
+          }
+          const previous: Row[] = await delegate(
+            transaction ?? base,
+            model
+          ).findMany({
+            where: args?.where,
+            take: BULK_SNAPSHOT_LIMIT + 1,
+          });
+          const result = await query(args);
+          await record(
+            transaction,
+            model,
+            previous.length > BULK_SNAPSHOT_LIMIT
+              ? [bulk('DELETE', model, args?.where, null)]
+              : previous.map((row) => deleted(model, row))
+          );
+          return result;
+        },
+      },
+    },
+  });
+});
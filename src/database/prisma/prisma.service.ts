@@ -14,6 +14,15 @@
 import { Service } from 'typedi';
 import { Prisma, PrismaClient } from '@prisma/client';
 import { log } from 'console';
+import {
+  auditExtension,
+  withTransactionContext,
+} from './extensions/audit.extension';
+
+// Client passed to interactive transactions (`this.db.$transaction(async (tx) => ...)`)
+export type TransactionClient = Parameters<
+  Parameters<ReturnType<PrismaService['getClient']>['$transaction']>[0]
+>[0];
 
 /**
  * The PrismaService class provides an extended Prisma client with validation logic.
@@ -28,12 +37,13 @@ export class PrismaService {
   }
 
   /**
-   * Extends the Prisma client with custom validation logic.
+   * Extends the Prisma client with custom validation logic and the audit log
+   * of every create, update and delete.
    * @returns {PrismaClient} An extended Prisma client instance.
    */
   getExtendedClient() {
-    const xPrisma = new PrismaClient();
-    return xPrisma;
+    const xPrisma = new PrismaClient().$extends(auditExtension);
+    return withTransactionContext(xPrisma);
   }
 
   /**
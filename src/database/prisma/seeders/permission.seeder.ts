@@ -0,0 +1,21 @@
+import { PrismaClient, ProfileName } from '@prisma/client'; // Prisma types for database schema
+import { DEFAULT_ROLE_PERMISSIONS } from '@/core/constants/permissions';
+
+/**
+ * This function seeds the database with the default permission set of each role.
+ * Existing grants are kept, so permissions edited through the API are not reset.
+ */
+export async function seedDefaultRolePermissions(prismaService: PrismaClient) {
+  const data = Object.entries(DEFAULT_ROLE_PERMISSIONS).flatMap(
+    ([role, permissions]) =>
+      permissions.map((permission) => ({
+        role: role as ProfileName,
+        permission,
+      }))
+  );
+
+  await prismaService.rolePermission.createMany({
+    data,
+    skipDuplicates: true, // Keep the grants that already exist
+  });
+}
@@ -10,6 +10,7 @@ import { log } from 'console';
 import { seedDefaultUnits } from './unit.seeder';
 import { createOrFindDefaultUser } from './user.seeder';
 import { seedDefaultWareHouse } from './warehouse.seeder';
+import { seedDefaultRolePermissions } from './permission.seeder';
 
 const prisma = new PrismaClient();
 
@@ -18,7 +19,9 @@ async function main() {
     await seedDefaultUnits(prisma);
     await createOrFindDefaultUser(prisma);
     await seedDefaultWareHouse(prisma);
+    await seedDefaultRolePermissions(prisma);
   } else if (config.isStage) {
+    await seedDefaultRolePermissions(prisma);
     log('Good update');
   }
 }
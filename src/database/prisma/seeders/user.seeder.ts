@@ -1,5 +1,6 @@
 import config from '@/config'; // Application configuration (e.g., default user credentials)
 import BcryptUtil from '@/core/utils/bcrypt.util'; // Utility for hashing passwords
+import PasswordPolicyUtil from '@/core/utils/passwordPolicy.util'; // Password policy checks
 import { PrismaClient, ProfileName } from '@prisma/client'; // Prisma types for database schema
 
 // Get the Prisma service instance from the container
@@ -7,22 +8,37 @@ import { PrismaClient, ProfileName } from '@prisma/client'; // Prisma types for
 
 /**
  * This function ensures that a default user exists in the database.
- * If the user does not exist, it creates one with the default configuration from the `config` file.
+ * If the user does not exist, it creates one with the default configuration from the `config` file,
+ * provided the default password follows the password policy.
  * If the user exists, no update is performed.
  */
 export async function createOrFindDefaultUser(prismaService: PrismaClient) {
-  const defaultUser = await prismaService.user.upsert({
+  const existingUser = await prismaService.user.findUnique({
     where: {
       username: config.defaultUser.name, // Check for an existing user by username
     },
-    update: {}, // If the user exists, no update is performed
-    create: {
+  });
+  if (existingUser) {
+    return existingUser; // If the user exists, no update is performed
+  }
+
+  // The default account must not be weaker than the accounts created afterwards
+  const violations = PasswordPolicyUtil.violations(config.defaultUser.password);
+  if (violations.length > 0) {
+    throw new Error(
+      `DEFAULT_USER_PASSWORD does not follow the password policy: ${violations.join(', ')}`
+    );
+  }
+
+  const defaultUser = await prismaService.user.create({
+    data: {
       username: config.defaultUser.name, // Use default username from configuration
       password: await BcryptUtil.hashPassword(config.defaultUser.password), // Hash the default password
       email: config.defaultUser.email, // Set the default email address
       profiles: config.defaultUser.profiles.split(',') as ProfileName[], // Set the default profiles
+      email_verified_at: new Date(), // The default user does not go through email verification
     },
   });
 
-  return defaultUser; // Return the created or found default user
+  return defaultUser; // Return the created default user
 }
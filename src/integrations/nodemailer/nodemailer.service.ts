@@ -3,6 +3,7 @@ import ejs from 'ejs';
 import path from 'path';
 import { MailServiceInterface, MailOptions } from './nodemailer.types';
 import { log } from 'console';
+import mailConfig from '@/config/mail.config';
 
 export class MailService implements MailServiceInterface {
   private transporter: Transporter;
@@ -13,11 +14,13 @@ export class MailService implements MailServiceInterface {
 
   async sendMail(options: MailOptions): Promise<void> {
     try {
-      // Résolution du chemin du template EJS
+      // Résolution du chemin du template EJS (src/views/mail)
       const templatePath = path.join(
         __dirname,
         '..',
-        'templates',
+        '..',
+        'views',
+        'mail',
         `${options.templateName}.ejs`
       );
 
@@ -28,7 +31,7 @@ export class MailService implements MailServiceInterface {
       )) as string;
 
       const mailOptions = {
-        from: options.from || '"Your Name" <your-email@example.com>',
+        from: options.from || mailConfig.from,
         to: options.to,
         subject: options.subject,
         html, // Le contenu HTML est maintenant typé en `string`
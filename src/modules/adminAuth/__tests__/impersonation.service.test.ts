@@ -0,0 +1,75 @@
+import 'reflect-metadata';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import PermissionsService from '../../permissions/permissions.service';
+import ImpersonationService from '../impersonation.service';
+import TokenRevocationService from '../tokenRevocation.service';
+
+const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
+
+const sessions = [
+  {
+    id: 'imp-1',
+    accessTokenJti: 'jti-1',
+    expiresAt,
+    actorId: 'admin-1',
+    targetId: 'user-1',
+  },
+  {
+    id: 'imp-2',
+    accessTokenJti: 'jti-2',
+    expiresAt,
+    actorId: 'admin-2',
+    targetId: 'user-1',
+  },
+];
+
+describe('ImpersonationService.endForUser', () => {
+  const revoke = jest.fn(async () => undefined);
+  const findMany = jest.fn<(args: object) => Promise<typeof sessions>>();
+  const updateMany = jest.fn(async () => ({ count: 2 }));
+  const impersonationService = new ImpersonationService(
+    {
+      getClient: () => ({ impersonationSession: { findMany, updateMany } }),
+    } as unknown as PrismaService,
+    { revoke } as unknown as TokenRevocationService,
+    {} as PermissionsService
+  );
+
+  beforeEach(() => {
+    revoke.mockClear();
+    updateMany.mockClear();
+    findMany.mockReset();
+  });
+
+  it('revokes the access tokens of the running sessions and ends them', async () => {
+    findMany.mockResolvedValue(sessions);
+
+    expect(await impersonationService.endForUser('user-1')).toBe(2);
+
+    expect(findMany).toHaveBeenCalledWith({
+      where: {
+        OR: [{ targetId: 'user-1' }, { actorId: 'user-1' }],
+        endedAt: null,
+        expiresAt: { gt: expect.any(Date) },
+      },
+    });
+    expect(revoke).toHaveBeenCalledWith([
+      { jti: 'jti-1', expiresAt, userId: 'user-1' },
+      { jti: 'jti-2', expiresAt, userId: 'user-1' },
+    ]);
+    expect(updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['imp-1', 'imp-2'] } },
+      data: { endedAt: expect.any(Date) },
+    });
+  });
+
+  it('does nothing without running session', async () => {
+    findMany.mockResolvedValue([]);
+
+    expect(await impersonationService.endForUser('user-1')).toBe(0);
+
+    expect(revoke).not.toHaveBeenCalled();
+    expect(updateMany).not.toHaveBeenCalled();
+  });
+});
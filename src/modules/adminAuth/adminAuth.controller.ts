@@ -1,16 +1,28 @@
 import { UserLogin } from '@/core/types';
 import AdminAuthService from './adminAuth.service';
+import PasswordResetService from './passwordReset.service';
+import SignInReportService from './signInReport.service';
+import { PasswordChange, PasswordReset } from './adminAuth.types';
 import ApiResponse from '@/core/utils/apiResponse.util';
+import AuthCookieUtil from '@/core/utils/authCookie.util';
 import { Request, Response } from 'express';
 import { Service } from 'typedi';
 import { log } from 'console';
+import ejs from 'ejs';
+import path from 'path';
 
 @Service()
 export default class AdminAuthController {
-  constructor(private readonly adminAuthService: AdminAuthService) {}
+  constructor(
+    private readonly adminAuthService: AdminAuthService,
+    private readonly passwordResetService: PasswordResetService,
+    private readonly signInReportService: SignInReportService
+  ) {}
 
   /**
    * Handles the admin sign-in process.
+   * With `transport: 'cookie'` in the body, the refresh token is set in an HttpOnly
+   * cookie instead of being returned, and a CSRF token is returned.
    *
    * @param {Request} req - The HTTP request object containing the login data in the body.
    * @param {Response} res - The HTTP response object.
@@ -27,7 +39,11 @@ export default class AdminAuthController {
         (req as any).clientInfo
       );
 
-      const response = ApiResponse.http200(payload);
+      const response = ApiResponse.http200(
+        AuthCookieUtil.requestedTransport(req) === 'cookie'
+          ? AuthCookieUtil.applyCookieTransport(res, payload)
+          : payload
+      );
       res.status(response.httpStatusCode).json(response.data);
     } catch (error) {
       log(error);
@@ -40,23 +56,41 @@ export default class AdminAuthController {
 
   /**
    * Refreshes the admin authentication token.
+   * The token is read from the body, or from the refresh cookie when the body has none;
+   * in that case the new refresh token and a new CSRF token are set in the cookies.
    *
-   * @param {Request} req - The HTTP request object containing the current token in the body.
+   * @param {Request} req - The HTTP request object containing the current token in the body or cookie.
    * @param {Response} res - The HTTP response object.
    * @returns {Promise<void>} Resolves with a new token payload if successful.
    */
   async refresh(req: Request, res: Response): Promise<void> {
+    const fromCookie = !req.body?.token;
+
     try {
       log('Refresh Token Request Received');
 
-      const data: { token: string } = req.body;
+      const token: string =
+        req.body?.token ?? AuthCookieUtil.readRefreshToken(req);
 
-      const payload = await this.adminAuthService.refreshToken(data.token);
+      const payload = await this.adminAuthService.refreshToken(token);
 
-      const response = ApiResponse.http200(payload);
+      const response = ApiResponse.http200(
+        fromCookie
+          ? {
+              accessToken: payload.accessToken,
+              csrfToken: AuthCookieUtil.setSessionCookies(
+                res,
+                payload.refreshToken
+              ),
+            }
+          : payload
+      );
       res.status(response.httpStatusCode).json(response.data);
     } catch (error) {
       log(error);
+      if (fromCookie) {
+        AuthCookieUtil.clearSessionCookies(res);
+      }
       const response = ApiResponse.http401({
         message: (error as Error).message || 'Token refresh failed.',
       });
@@ -67,7 +101,7 @@ export default class AdminAuthController {
   /**
    * Logs the admin out by invalidating the provided token.
    *
-   * @param {Request} req - The HTTP request object containing the token in the body.
+   * @param {Request} req - The HTTP request object containing the token in the body or cookie.
    * @param {Response} res - The HTTP response object.
    * @returns {Promise<void>} Resolves when the token is successfully invalidated.
    */
@@ -75,9 +109,13 @@ export default class AdminAuthController {
     try {
       log('Logout Request Received');
 
-      const data: { token: string } = req.body;
+      const token: string =
+        req.body?.token ?? AuthCookieUtil.readRefreshToken(req);
+      if (!req.body?.token) {
+        AuthCookieUtil.clearSessionCookies(res);
+      }
 
-      const payload = await this.adminAuthService.logout(data.token);
+      const payload = await this.adminAuthService.logout(token);
 
       const response = ApiResponse.http200(payload);
       res.status(response.httpStatusCode).json(response.data);
@@ -120,9 +158,12 @@ export default class AdminAuthController {
     try {
       log('Gat All Active Sessions Request Received');
 
-      const userId = (req as any).user.id;
+      const { id: userId, sessionId } = (req as any).user;
 
-      const payload = await this.adminAuthService.getActiveSessions(userId);
+      const payload = await this.adminAuthService.getActiveSessions(
+        userId,
+        sessionId
+      );
 
       const response = ApiResponse.http200(payload);
       res.status(response.httpStatusCode).json(response.data);
@@ -134,4 +175,157 @@ export default class AdminAuthController {
       res.status(response.httpStatusCode).json(response.data);
     }
   }
+
+  /**
+   * Emails a one-time reset code to the account owning the given address.
+   *
+   * @param {Request} req - The HTTP request object containing the email in the body.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Always resolves with the same message, whether the account exists or not.
+   */
+  async forgotPassword(req: Request, res: Response): Promise<void> {
+    try {
+      log('Forgot Password Request Received');
+
+      const data: { email: string } = req.body;
+
+      await this.passwordResetService.requestReset(data.email);
+
+      const response = ApiResponse.http200({
+        message:
+          'If an account exists for this address, a reset code has been sent.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message: (error as Error).message || 'Password reset request failed.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Replaces the password of a user with the one-time code received by email.
+   *
+   * @param {Request} req - The HTTP request object containing the email, code and new password.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves once the password is replaced and all sessions are closed.
+   */
+  async resetPassword(req: Request, res: Response): Promise<void> {
+    try {
+      log('Reset Password Request Received');
+
+      const data: PasswordReset = req.body;
+
+      const payload = await this.passwordResetService.resetPassword(data);
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message: (error as Error).message || 'Password reset failed.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Changes the password of the authenticated user and closes their other sessions.
+   *
+   * @param {Request} req - The HTTP request object containing the current and the new password.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves when the password is changed.
+   */
+  async changePassword(req: Request, res: Response): Promise<void> {
+    try {
+      log('Change Password Request Received');
+
+      const { id: userId, sessionId } = (req as any).user;
+      const data: PasswordChange = req.body;
+
+      const payload = await this.adminAuthService.changePassword(
+        userId,
+        sessionId,
+        data
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message: (error as Error).message || 'Password change failed.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Shows the confirmation page of the "this wasn't me" link of a sign-in alert.
+   * Opening the link changes nothing, the page posts the token to `reportSignIn`.
+   *
+   * @param {Request} req - The HTTP request object containing the token in the query string.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves when the page is sent.
+   */
+  async reportSignInPage(req: Request, res: Response): Promise<void> {
+    const token = String(req.query.token ?? '');
+    try {
+      this.signInReportService.verifyReportToken(token);
+      res.status(200).send(await this.renderReportPage('confirm', token));
+    } catch (error) {
+      log(error);
+      res.status(400).send(await this.renderReportPage('invalid'));
+    }
+  }
+
+  /**
+   * Reports a sign-in: closes every session and emails a password reset code.
+   * Answers with a page to the form of `reportSignInPage`, and with JSON otherwise.
+   *
+   * @param {Request} req - The HTTP request object containing the token in the body.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves when the sessions are closed.
+   */
+  async reportSignIn(req: Request, res: Response): Promise<void> {
+    let state: 'done' | 'invalid';
+    let response;
+    try {
+      log('Report Sign-In Request Received');
+
+      await this.signInReportService.reportSignIn(String(req.body.token ?? ''));
+
+      state = 'done';
+      response = ApiResponse.http200({
+        message:
+          'All your sessions have been closed. A password reset code has been sent by email.',
+      });
+    } catch (error) {
+      log(error);
+      state = 'invalid';
+      response = ApiResponse.http400({
+        message: (error as Error).message || 'Reporting the sign-in failed.',
+      });
+    }
+
+    res.status(response.httpStatusCode).format({
+      json: () => res.json(response.data),
+      html: async () => res.send(await this.renderReportPage(state)),
+      default: () => res.json(response.data),
+    });
+  }
+
+  /**
+   * Renders the page of the "this wasn't me" link.
+   * @param state - What the page shows: the confirmation form, the result or an invalid link.
+   * @param token - The token posted by the confirmation form.
+   */
+  private renderReportPage(state: 'confirm' | 'done' | 'invalid', token = '') {
+    return ejs.renderFile(
+      path.join(__dirname, '..', '..', 'views', 'pages', 'report-sign-in.ejs'),
+      { state, token }
+    );
+  }
 }
@@ -1,12 +1,26 @@
 import express from 'express';
 import AdminAuthController from './adminAuth.controller';
+import TwoFactorController from './twoFactor.controller';
+import LoginProtectionController from './loginProtection.controller';
+import SessionsController from './sessions.controller';
+import ImpersonationController from './impersonation.controller';
 import Container from 'typedi';
 import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
 import verifyJWT from '@/core/middlewares/jwt.middleware';
-import { rbacMiddleware } from '@/core/middlewares/rbac.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
+import { forbidImpersonation } from '@/core/middlewares/impersonation.middleware';
+import { csrfProtection } from '@/core/middlewares/csrf.middleware';
+import {
+  passwordResetRateLimiter,
+  signInReportRateLimiter,
+} from '@/core/middlewares/rateLimiter.middleware';
 
 // Get the instance of AdminAuthController from the container
 const adminAuthController = Container.get(AdminAuthController);
+const twoFactorController = Container.get(TwoFactorController);
+const loginProtectionController = Container.get(LoginProtectionController);
+const sessionsController = Container.get(SessionsController);
+const impersonationController = Container.get(ImpersonationController);
 
 // Create a new express router
 const router = express.Router();
@@ -18,10 +32,14 @@ prefixRoutes(router, '/admin-auth');
 router.post('/sign-in', (req, res) => adminAuthController.signIn(req, res));
 
 // Route for refreshing the authentication token (POST request)
-router.post('/refresh', (req, res) => adminAuthController.refresh(req, res));
+router.post('/refresh', csrfProtection, (req, res) =>
+  adminAuthController.refresh(req, res)
+);
 
 // Route for logging out the admin (DELETE request)
-router.delete('/sign-out', (req, res) => adminAuthController.logout(req, res));
+router.delete('/sign-out', csrfProtection, (req, res) =>
+  adminAuthController.logout(req, res)
+);
 
 // Route for logging out the admin from all sessions (DELETE request)
 router.delete('/close-all-sessions', (req, res) =>
@@ -31,8 +49,138 @@ router.delete('/close-all-sessions', (req, res) =>
 router.get(
   '/all-active-sessions',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('user:manage'),
   (req, res) => adminAuthController.getActiveSessions(req, res)
 );
+
+// Route for listing the sessions of the authenticated user (GET request)
+router.get('/sessions', verifyJWT, (req, res) =>
+  sessionsController.sessions(req, res)
+);
+
+// Route for renaming one of the sessions of the authenticated user (PATCH request)
+router.patch(
+  '/sessions/:sessionId',
+  verifyJWT,
+  forbidImpersonation,
+  (req, res) => sessionsController.renameSession(req, res)
+);
+
+// Route for revoking one of the sessions of the authenticated user (DELETE request)
+router.delete(
+  '/sessions/:sessionId',
+  verifyJWT,
+  forbidImpersonation,
+  (req, res) => sessionsController.revokeSession(req, res)
+);
+
+// Route for requesting a password reset code by email (POST request)
+router.post('/forgot-password', passwordResetRateLimiter, (req, res) =>
+  adminAuthController.forgotPassword(req, res)
+);
+
+// Route for resetting the password with the emailed code (POST request)
+router.post('/reset-password', passwordResetRateLimiter, (req, res) =>
+  adminAuthController.resetPassword(req, res)
+);
+
+// Route for changing the password of the authenticated user (POST request)
+router.post('/change-password', verifyJWT, forbidImpersonation, (req, res) =>
+  adminAuthController.changePassword(req, res)
+);
+
+// Route for the confirmation page of the "this wasn't me" link of sign-in alerts (GET request)
+router.get('/report-sign-in', signInReportRateLimiter, (req, res) =>
+  adminAuthController.reportSignInPage(req, res)
+);
+
+// Route for reporting a sign-in with the token of the link (POST request)
+router.post('/report-sign-in', signInReportRateLimiter, (req, res) =>
+  adminAuthController.reportSignIn(req, res)
+);
+
+// Route for completing a sign-in with the second factor (POST request)
+router.post('/verify-2fa', (req, res) => twoFactorController.verify(req, res));
+
+// Route for starting the two-factor enrollment (POST request)
+router.post(
+  '/2fa/setup',
+  verifyJWT,
+  requirePermission('twofactor:manage'),
+  (req, res) => twoFactorController.setup(req, res)
+);
+
+// Route for confirming the two-factor enrollment with a first code (POST request)
+router.post(
+  '/2fa/confirm',
+  verifyJWT,
+  requirePermission('twofactor:manage'),
+  (req, res) => twoFactorController.confirm(req, res)
+);
+
+// Route for disabling two-factor authentication with a fresh code (DELETE request)
+router.delete(
+  '/2fa',
+  verifyJWT,
+  requirePermission('twofactor:manage'),
+  (req, res) => twoFactorController.disable(req, res)
+);
+
+// Route for starting to impersonate a user (POST request)
+router.post(
+  '/impersonate',
+  verifyJWT,
+  requirePermission('user:impersonate'),
+  (req, res) => impersonationController.start(req, res)
+);
+
+// Route for listing impersonation sessions (GET request)
+router.get(
+  '/impersonations',
+  verifyJWT,
+  requirePermission('user:impersonate'),
+  (req, res) => impersonationController.impersonations(req, res)
+);
+
+// Route for ending an impersonation session (DELETE request)
+router.delete(
+  '/impersonations/:impersonationId',
+  verifyJWT,
+  requirePermission('user:impersonate'),
+  (req, res) => impersonationController.end(req, res)
+);
+
+// Route for reviewing the requests made during an impersonation session (GET request)
+router.get(
+  '/impersonations/:impersonationId/requests',
+  verifyJWT,
+  requirePermission('user:impersonate'),
+  (req, res) => impersonationController.requests(req, res)
+);
+
+// Route for reviewing sign-in lockouts (GET request)
+router.get(
+  '/lockouts',
+  verifyJWT,
+  requirePermission('user:manage'),
+  (req, res) => loginProtectionController.lockouts(req, res)
+);
+
+// Route for clearing a sign-in lockout (DELETE request)
+router.delete(
+  '/lockouts/:lockoutId',
+  verifyJWT,
+  requirePermission('user:manage'),
+  (req, res) => loginProtectionController.clearLockout(req, res)
+);
+
+// Route for reviewing recorded sign-in attempts (GET request)
+router.get(
+  '/login-attempts',
+  verifyJWT,
+  requirePermission('user:manage'),
+  (req, res) => loginProtectionController.loginAttempts(req, res)
+);
+
 // Export the configured router
 export default router;
@@ -3,7 +3,10 @@
  *
  * This file defines the AdminAuthService class, which provides methods for handling
  * user authentication and session management, including signing in, refreshing tokens,
- * retrieving active sessions, and logging out.
+ * listing, renaming and revoking sessions, and logging out.
+ *
+ * A session is a token family. Its `family` identifier is set in the `sid` claim of the
+ * access tokens, which lets a user recognise the session they are using.
  *
  * Dependencies:
  * - Prisma ORM for database operations
@@ -11,7 +14,7 @@
  * - Bcrypt for password hashing and verification
  * - TypeDI for dependency injection
  * - Lodash for object manipulation
- * - Configuration, logging, and date utilities
+ * - Configuration, logging and session lifetime utilities
  */
 
 import {
@@ -27,78 +30,194 @@ import BcryptUtil from '../../core/utils/bcrypt.util';
 import _ from 'lodash';
 import config from '@/config';
 import JwtUtil from '@/core/utils/jwt.util';
-import DateUtil from '@/core/utils/date.util';
 import { log } from 'console';
-import { Prisma } from '@prisma/client';
+import { Prisma, TokenFamily, User } from '@prisma/client';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import LoginProtectionService from './loginProtection.service';
+import TokenRevocationService from './tokenRevocation.service';
+import SessionLifetimeUtil from '@/core/utils/sessionLifetime.util';
+import SessionAlertService from './sessionAlert.service';
+import PasswordHistoryService from './passwordHistory.service';
+import ImpersonationService from './impersonation.service';
+import {
+  PasswordChange,
+  passwordChangeSchema,
+  SessionRename,
+  sessionRenameSchema,
+} from './adminAuth.types';
+
+// Session fields exposed to users, never the family identifier nor the tokens
+const sessionFields = [
+  'id',
+  'label',
+  'deviceType',
+  'deviceBrand',
+  'deviceModel',
+  'osName',
+  'osVersion',
+  'clientName',
+  'clientType',
+  'clientVersion',
+  'lifetimePolicy',
+  'ipAddress',
+  'userAgent',
+  'acceptLang',
+  'createdAt',
+  'lastUsedAt',
+] as const;
 
 @Service()
 export default class AdminAuthService extends ServiceDefinition {
+  // Hash compared when the username is unknown, computed once
+  private static dummyHash: Promise<string> | null = null;
+
+  constructor(
+    prismaService: PrismaService,
+    private readonly loginProtectionService: LoginProtectionService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly sessionAlertService: SessionAlertService,
+    private readonly passwordHistoryService: PasswordHistoryService,
+    private readonly impersonationService: ImpersonationService
+  ) {
+    super(prismaService);
+    // Computed ahead so the first unknown username is not slower than the others
+    AdminAuthService.getDummyHash().catch(log);
+  }
+
   /**
    * Handles user login by verifying credentials, generating tokens, and returning session data.
-   * @param data - The user login credentials (username and password).
+   * When the user has two-factor authentication enabled, no session is opened: a short-lived
+   * challenge token is returned instead, to be exchanged on `/admin-auth/verify-2fa`.
+   * @param data - The user login credentials (username and password), and the optional `client_type`.
    * @param clientInfo - Client metadata (IP address, user agent, etc.).
-   * @returns An object containing access and refresh tokens along with user data.
+   * @returns An object containing access and refresh tokens along with user data, or the 2FA challenge.
    */
   async signIn(data: UserLogin, clientInfo: ClientInfo) {
     try {
-      const cleanData = data;
+      const username = String(data?.username ?? '');
+      const password = String(data?.password ?? '');
+      const invalidCredentialsError = new Error(
+        'Username or password incorrect'
+      );
+
+      // Refuse locked usernames/IPs and slow down repeated failures
+      await this.loginProtectionService.guard(username, clientInfo);
 
       // Find the user by username
-      const user = await this.db.user.findFirstOrThrow({
-        where: { username: cleanData.username },
+      const user = await this.db.user.findFirst({
+        where: { username },
       });
 
-      if (!user) {
-        throw new Error('Username or password incorrect');
-      }
+      // Always run a bcrypt comparison so the response time does not reveal
+      // whether the username exists
+      const isPwdCorrect = await BcryptUtil.comparePassword(
+        password,
+        user?.password ?? (await AdminAuthService.getDummyHash())
+      );
 
-      // Validate the user's password
-      if (user.password && cleanData.password) {
-        const isPwdCorrect = await BcryptUtil.comparePassword(
-          cleanData.password,
-          user.password
+      if (!user || !password || !isPwdCorrect) {
+        await this.loginProtectionService.recordFailure(
+          username,
+          clientInfo,
+          'INVALID_CREDENTIALS',
+          user?.id
         );
-        if (!isPwdCorrect) {
-          throw new Error('Username or password incorrect');
-        }
+        throw invalidCredentialsError;
       }
 
-      // Prepare token payloads
-      const accessTokenPayload: AccessTokenPayload = {
-        userId: user.id,
-        username: user.username,
-        email: user.email,
-        profiles: user.profiles.join(),
-      };
-
-      const tokenFamilyCreateData: Prisma.TokenFamilyUncheckedCreateInput = {
-        family: uuidv4(),
-        ...clientInfo,
-        userId: user.id,
-      };
+      await this.loginProtectionService.recordSuccess(
+        username,
+        clientInfo,
+        user.id
+      );
 
-      const tokenFamily = await this.createTokenFamily(tokenFamilyCreateData);
+      // Self-registered customers must verify their email before signing in
+      if (user.profiles.includes('CUSTOMER') && !user.email_verified_at) {
+        throw new Error('Please verify your email address before signing in');
+      }
 
-      const refreshTokenPayload: RefreshTokenPayload = {
-        userId: user.id,
-        profiles: user.profiles.join(),
-      };
+      // Accounts managed from the users module
+      if (!user.isActive) {
+        throw new Error('This account has been deactivated');
+      }
+      if (user.passwordResetRequired) {
+        throw new Error(
+          'A password reset is required, please use the code sent by email'
+        );
+      }
 
-      // Generate tokens
-      const userData = _.omit(user, ['password', 'profile']);
-      const accessToken = JwtUtil.generateToken(accessTokenPayload);
-      const refreshToken = await this.generateRefreshToken(
-        null,
-        tokenFamily.id,
-        refreshTokenPayload
-      );
+      // The password alone is not enough when a second factor is enrolled
+      if (user.twoFactorEnabledAt) {
+        const challengeToken = JwtUtil.generateTwoFactorChallengeToken({
+          userId: user.id,
+          purpose: '2fa-challenge',
+        });
+        return { twoFactorRequired: true, challengeToken };
+      }
 
-      return { tokens: { accessToken, refreshToken }, userData };
+      return await this.openSession(user, clientInfo, data.client_type);
     } catch (error) {
       throw this.handleError(error);
     }
   }
 
+  /**
+   * Opens a new session for an authenticated user: creates a token family
+   * and issues the first access and refresh tokens.
+   * @param user - The authenticated user.
+   * @param clientInfo - Client metadata (IP address, user agent, etc.).
+   * @param clientType - The `client_type` sent at sign-in (`mobile` or `browser`), chosen from
+   * `clientInfo` when absent. It sets the lifetime policy of the session.
+   * @returns An object containing access and refresh tokens along with user data.
+   */
+  async openSession(user: User, clientInfo: ClientInfo, clientType?: string) {
+    const tokenFamilyCreateData: Prisma.TokenFamilyUncheckedCreateInput = {
+      family: uuidv4(),
+      ...clientInfo,
+      lifetimePolicy: SessionLifetimeUtil.resolvePolicy(clientInfo, clientType),
+      userId: user.id,
+    };
+
+    const tokenFamily = await this.createTokenFamily(
+      user,
+      tokenFamilyCreateData
+    );
+
+    // Warn the user of a sign-in from an unusual device or network, without delaying it
+    this.sessionAlertService.checkSignIn(user, tokenFamily).catch(log);
+
+    // Prepare token payloads
+    const accessTokenPayload: AccessTokenPayload = {
+      userId: user.id,
+      username: user.username,
+      email: user.email,
+      profiles: user.profiles.join(),
+      sid: tokenFamily.family,
+    };
+
+    const refreshTokenPayload: RefreshTokenPayload = {
+      userId: user.id,
+      profiles: user.profiles.join(),
+    };
+
+    // Generate tokens
+    const userData = _.omit(user, [
+      'password',
+      'profile',
+      'twoFactorSecret',
+      'twoFactorLastUsedStep',
+    ]);
+    const accessToken = JwtUtil.generateToken(accessTokenPayload);
+    const refreshToken = await this.generateRefreshToken(
+      null,
+      tokenFamily,
+      refreshTokenPayload,
+      accessToken
+    );
+
+    return { tokens: { accessToken, refreshToken }, userData };
+  }
+
   /**
    * Handles refreshing tokens by validating the refresh token and generating new ones.
    * @param refreshToken - The refresh token to validate and replace.
@@ -117,24 +236,31 @@ export default class AdminAuthService extends ServiceDefinition {
         where: { id: decoded.userId },
       });
 
-      if (!foundAdminUser) {
+      if (!foundAdminUser?.isActive) {
         throw new Error('Unauthorized');
       }
 
       // Generate new tokens
-      const newRefreshToken = await this.generateRefreshToken(
-        tokenRecord.id,
-        tokenRecord.familyId,
-        decoded
-      );
-
       const accessToken = JwtUtil.generateToken({
         userId: foundAdminUser.id,
         username: foundAdminUser.username,
         email: foundAdminUser.email,
         profiles: foundAdminUser.profiles.join(),
+        sid: tokenRecord.family.family,
+      });
+
+      await this.db.tokenFamily.update({
+        where: { id: tokenRecord.familyId },
+        data: { lastUsedAt: new Date() },
       });
 
+      const newRefreshToken = await this.generateRefreshToken(
+        tokenRecord.id,
+        tokenRecord.family,
+        decoded,
+        accessToken
+      );
+
       return { accessToken, refreshToken: newRefreshToken };
     } catch (error) {
       throw new Error('Error ' + (error as Error).message);
@@ -144,13 +270,12 @@ export default class AdminAuthService extends ServiceDefinition {
   /**
    * Retrieves all active sessions for a given user.
    * @param userId - The ID of the user.
+   * @param currentSessionId - The `sid` of the session making the request, if any.
    * @returns A list of active sessions.
    */
-  async getActiveSessions(userId: string) {
+  async getActiveSessions(userId: string, currentSessionId?: string) {
     try {
-      const activeSessions = await this.db.tokenFamily.findMany({
-        where: { userId, status: 'ACTIVE' },
-      });
+      const activeSessions = await this.sessions(userId, currentSessionId);
       return { activeSessions };
     } catch (error) {
       throw new Error(
@@ -159,6 +284,71 @@ export default class AdminAuthService extends ServiceDefinition {
     }
   }
 
+  /**
+   * Lists the active sessions of a user with their device and client data,
+   * most recently used first.
+   * @param userId - The ID of the user.
+   * @param currentSessionId - The `sid` of the session making the request, marked as `current`.
+   * @returns The sessions, without any token.
+   */
+  async sessions(userId: string, currentSessionId?: string) {
+    try {
+      const tokenFamilies = await this.db.tokenFamily.findMany({
+        where: { userId, status: 'ACTIVE' },
+        orderBy: [{ lastUsedAt: { sort: 'desc', nulls: 'last' } }],
+      });
+
+      return tokenFamilies.map((tokenFamily) => ({
+        ..._.pick(tokenFamily, sessionFields),
+        current: tokenFamily.family === currentSessionId,
+      }));
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Gives a name to one of the active sessions of a user.
+   * @param userId - The ID of the user owning the session.
+   * @param sessionId - The ID of the session (token family).
+   * @param data - The new label.
+   * @returns The renamed session.
+   */
+  async renameSession(userId: string, sessionId: number, data: SessionRename) {
+    try {
+      const cleanData = sessionRenameSchema.parse(data);
+      const session = await this.findActiveSession(userId, sessionId);
+
+      const renamed = await this.db.tokenFamily.update({
+        where: { id: session.id },
+        data: { label: cleanData.label },
+      });
+
+      return _.pick(renamed, sessionFields);
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Revokes one of the active sessions of a user. Its refresh tokens and the
+   * access tokens issued with them stop working immediately.
+   * @param userId - The ID of the user owning the session.
+   * @param sessionId - The ID of the session (token family).
+   * @returns A boolean indicating success.
+   */
+  async revokeSession(userId: string, sessionId: number) {
+    try {
+      const session = await this.findActiveSession(userId, sessionId);
+      await this.revokeTokenFamily(session.id);
+      log(`Session ${session.id} of user ${userId} revoked`);
+
+      return true;
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
   /**
    * Logs out a single session by revoking the specified refresh token.
    * @param refreshToken - The refresh token to revoke.
@@ -188,7 +378,8 @@ export default class AdminAuthService extends ServiceDefinition {
   }
 
   /**
-   * Logs out all sessions for a user by revoking all active token families.
+   * Logs out all sessions for a user by revoking all active token families, and ends
+   * the impersonation sessions in which the user is the target or the admin.
    * @param userId - The ID of the user.
    * @returns A boolean indicating success.
    */
@@ -202,6 +393,7 @@ export default class AdminAuthService extends ServiceDefinition {
       for (const activeFamily of activeFamilies) {
         await this.revokeTokenFamily(activeFamily.id);
       }
+      await this.impersonationService.endForUser(userId);
 
       return true;
     } catch (error) {
@@ -211,12 +403,96 @@ export default class AdminAuthService extends ServiceDefinition {
     }
   }
 
+  /**
+   * Changes the password of a signed-in user after checking the current one.
+   * Every other session is revoked; the session making the request stays open.
+   * @param userId - The ID of the user.
+   * @param currentSessionId - The `sid` of the session making the request.
+   * @param data - The current password and the new one.
+   * @returns A boolean indicating success.
+   */
+  async changePassword(
+    userId: string,
+    currentSessionId: string | undefined,
+    data: PasswordChange
+  ) {
+    try {
+      const cleanData = passwordChangeSchema.parse(data);
+
+      const user = await this.db.user.findUniqueOrThrow({
+        where: { id: userId },
+      });
+
+      const isPwdCorrect = await BcryptUtil.comparePassword(
+        cleanData.currentPassword,
+        user.password
+      );
+      if (!isPwdCorrect) {
+        throw new Error('Current password incorrect');
+      }
+
+      await this.passwordHistoryService.assertNotReused(
+        user,
+        cleanData.newPassword
+      );
+      await this.db.$transaction((tx) =>
+        this.passwordHistoryService.replacePassword(
+          tx,
+          user,
+          cleanData.newPassword
+        )
+      );
+
+      const otherFamilies = await this.db.tokenFamily.findMany({
+        where: {
+          userId,
+          status: 'ACTIVE',
+          ...(currentSessionId && { family: { not: currentSessionId } }),
+        },
+      });
+      for (const tokenFamily of otherFamilies) {
+        await this.revokeTokenFamily(tokenFamily.id);
+      }
+      log(`Password changed for user ${userId}`);
+
+      return true;
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Returns a bcrypt hash of a random value, used to spend the same time on
+   * unknown usernames as on real accounts.
+   */
+  private static getDummyHash(): Promise<string> {
+    AdminAuthService.dummyHash ??= BcryptUtil.hashPassword(uuidv4());
+    return AdminAuthService.dummyHash;
+  }
+
+  /**
+   * Finds an active session of a user.
+   * @throws Error if the session does not exist, is revoked or belongs to another user.
+   */
+  private async findActiveSession(userId: string, sessionId: number) {
+    const session = await this.db.tokenFamily.findFirst({
+      where: { id: sessionId, userId, status: 'ACTIVE' },
+    });
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    return session;
+  }
+
   /**
    * Creates a new token family and revokes old ones if the maximum number of connections is exceeded.
+   * The user is notified by email of the session closed to make room for the new one.
+   * @param user - The user opening the session.
    * @param data - The data to create a token family.
    * @returns The newly created token family.
    */
   private async createTokenFamily(
+    user: User,
     data: Prisma.TokenFamilyUncheckedCreateInput
   ) {
     try {
@@ -226,14 +502,25 @@ export default class AdminAuthService extends ServiceDefinition {
       });
 
       // Check if there are active families and if their count exceeds the max allowed
+      let evictedFamily: TokenFamily | null = null;
       if (activeFamilies && activeFamilies.length >= config.jwt.maxConnexions) {
         // Revoke the oldest family if necessary
         if (activeFamilies[0]) {
-          await this.revokeTokenFamily(activeFamilies[0].id);
+          evictedFamily = activeFamilies[0];
+          await this.revokeTokenFamily(evictedFamily.id);
         }
       }
 
-      return await this.db.tokenFamily.create({ data });
+      const tokenFamily = await this.db.tokenFamily.create({ data });
+
+      if (evictedFamily) {
+        // The new session is open whether the notification is sent or not
+        this.sessionAlertService
+          .sendEvictionNotice(user, evictedFamily, tokenFamily)
+          .catch(log);
+      }
+
+      return tokenFamily;
     } catch (error) {
       throw new Error(
         'Error creating token family: ' + (error as Error).message
@@ -242,18 +529,36 @@ export default class AdminAuthService extends ServiceDefinition {
   }
 
   /**
-   * Revokes a token family and all associated tokens.
+   * Revokes a token family and all associated tokens, including the access tokens
+   * issued with them that have not expired yet.
    * @param familyId - The ID of the token family to revoke.
    */
   private async revokeTokenFamily(familyId: number) {
     try {
       log('Revoke token family');
 
-      await this.db.tokenFamily.update({
+      const tokenFamily = await this.db.tokenFamily.update({
         where: { id: familyId },
         data: { status: 'REVOKED' },
       });
 
+      const issuedAccessTokens = await this.db.refreshToken.findMany({
+        where: {
+          familyId,
+          accessTokenJti: { not: null },
+          accessTokenExpiresAt: { gt: new Date() },
+        },
+        select: { accessTokenJti: true, accessTokenExpiresAt: true },
+      });
+
+      await this.tokenRevocationService.revoke(
+        issuedAccessTokens.map((token) => ({
+          jti: token.accessTokenJti as string,
+          expiresAt: token.accessTokenExpiresAt as Date,
+          userId: tokenFamily.userId,
+        }))
+      );
+
       // Revoke all associated refresh tokens
       await this.db.refreshToken.updateMany({
         where: { familyId },
@@ -275,6 +580,7 @@ export default class AdminAuthService extends ServiceDefinition {
     try {
       const adminToken = await this.db.refreshToken.findUnique({
         where: { token: refreshToken },
+        include: { family: true },
       });
 
       if (!adminToken) {
@@ -283,6 +589,13 @@ export default class AdminAuthService extends ServiceDefinition {
 
       if (adminToken.status !== 'ACTIVE') {
         await this.revokeTokenFamily(adminToken.familyId);
+
+        // A replaced token used while its session is still open has been copied
+        if (adminToken.family.status === 'ACTIVE') {
+          this.sessionAlertService
+            .alertTokenReuse(adminToken.family)
+            .catch(log);
+        }
         throw new Error('Token is revoked or expired');
       }
 
@@ -301,17 +614,30 @@ export default class AdminAuthService extends ServiceDefinition {
 
   /**
    * Generates a new refresh token and revokes the parent token if specified.
+   * The token is valid for the refresh window of the lifetime policy of the family,
+   * without going past the maximum age of the session.
    * @param parentTokenId - The ID of the parent token to revoke.
-   * @param familyId - The ID of the token family.
+   * @param tokenFamily - The token family.
    * @param payload - The refresh token payload.
+   * @param accessToken - The access token issued alongside, revoked with the family.
    * @returns A new refresh token.
    */
   private async generateRefreshToken(
     parentTokenId: number | null,
-    familyId: number,
-    payload: RefreshTokenPayload
+    tokenFamily: TokenFamily,
+    payload: RefreshTokenPayload,
+    accessToken: string
   ): Promise<string> {
     try {
+      const now = Date.now();
+      const sessionEnd =
+        tokenFamily.createdAt.getTime() +
+        SessionLifetimeUtil.maxAge(tokenFamily.lifetimePolicy);
+      if (sessionEnd <= now) {
+        await this.revokeTokenFamily(tokenFamily.id);
+        throw new Error('Session expired, please sign in again');
+      }
+
       if (parentTokenId) {
         await this.db.refreshToken.update({
           where: { id: parentTokenId },
@@ -324,17 +650,30 @@ export default class AdminAuthService extends ServiceDefinition {
         profiles: payload.profiles,
       };
 
-      const newRefreshToken = JwtUtil.generateRefreshToken(newPayload);
-      const expiresAt = DateUtil.getDateToInterval(
-        DateUtil.parseDurationToMilliseconds(config.jwt.refreshExpiresIn)
+      // Sliding window, capped by the maximum age of the session
+      const expiresAt = new Date(
+        Math.min(
+          now + SessionLifetimeUtil.refreshWindow(tokenFamily.lifetimePolicy),
+          sessionEnd
+        )
       );
+      const newRefreshToken = JwtUtil.generateRefreshToken(
+        newPayload,
+        Math.floor((expiresAt.getTime() - now) / 1000)
+      );
+
+      const accessTokenContent = JwtUtil.decodeToken(accessToken);
 
       await this.db.refreshToken.create({
         data: {
           token: newRefreshToken,
           parentTokenId,
-          familyId,
+          familyId: tokenFamily.id,
           expiresAt,
+          accessTokenJti: accessTokenContent?.jti ?? null,
+          accessTokenExpiresAt: accessTokenContent?.exp
+            ? new Date(accessTokenContent.exp * 1000)
+            : null,
         },
       });
 
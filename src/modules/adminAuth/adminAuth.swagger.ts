@@ -15,7 +15,8 @@ const authDocs = {
       },
       responses: {
         200: {
-          description: 'Connexion réussie',
+          description:
+            'Connexion réussie, ou jeton de challenge si la double authentification est activée',
         },
         401: {
           description: "Échec de l'autorisation",
@@ -33,8 +34,18 @@ const authDocs = {
     post: {
       summary: 'Rafraîchir le jeton',
       tags: ['Admin Auth'],
+      parameters: [
+        {
+          name: 'X-CSRF-Token',
+          in: 'header',
+          required: false,
+          description:
+            'Obligatoire lorsque le jeton de rafraîchissement est lu depuis le cookie',
+          schema: { type: 'string' },
+        },
+      ],
       requestBody: {
-        required: true,
+        required: false,
         content: {
           'application/json': {
             schema: {
@@ -50,6 +61,9 @@ const authDocs = {
         401: {
           description: "Échec de l'autorisation",
         },
+        403: {
+          description: 'Jeton CSRF manquant ou invalide',
+        },
       },
     },
   },
@@ -57,8 +71,18 @@ const authDocs = {
     delete: {
       summary: 'Déconnexion',
       tags: ['Admin Auth'],
+      parameters: [
+        {
+          name: 'X-CSRF-Token',
+          in: 'header',
+          required: false,
+          description:
+            'Obligatoire lorsque le jeton de rafraîchissement est lu depuis le cookie',
+          schema: { type: 'string' },
+        },
+      ],
       requestBody: {
-        required: true,
+        required: false,
         content: {
           'application/json': {
             schema: {
@@ -74,14 +98,478 @@ const authDocs = {
       },
     },
   },
+  '/admin-auth/forgot-password': {
+    post: {
+      summary: 'Demander un code de réinitialisation du mot de passe',
+      tags: ['Admin Auth'],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              $ref: '#/components/schemas/ForgotPasswordRequest',
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          description: 'Demande prise en compte',
+        },
+        429: {
+          description: 'Trop de demandes',
+        },
+      },
+    },
+  },
+  '/admin-auth/reset-password': {
+    post: {
+      summary: 'Réinitialiser le mot de passe avec le code reçu',
+      tags: ['Admin Auth'],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              $ref: '#/components/schemas/ResetPasswordRequest',
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          description:
+            'Mot de passe réinitialisé, toutes les sessions sont fermées',
+        },
+        400: {
+          description: 'Code invalide, expiré ou verrouillé',
+        },
+        429: {
+          description: 'Trop de tentatives',
+        },
+      },
+    },
+  },
+  '/admin-auth/verify-2fa': {
+    post: {
+      summary: 'Valider la connexion avec le second facteur',
+      tags: ['Admin Auth'],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              $ref: '#/components/schemas/VerifyTwoFactorRequest',
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          description: 'Connexion réussie',
+        },
+        401: {
+          description: 'Code ou jeton de challenge invalide',
+        },
+      },
+    },
+  },
+  '/admin-auth/2fa/setup': {
+    post: {
+      summary: "Démarrer l'activation de la double authentification",
+      tags: ['Admin Auth'],
+      security: [{ bearerAuth: [] }],
+      responses: {
+        200: {
+          description: 'Secret et URI otpauth à scanner',
+        },
+        400: {
+          description: 'Double authentification déjà activée',
+        },
+      },
+    },
+  },
+  '/admin-auth/2fa/confirm': {
+    post: {
+      summary: "Confirmer l'activation avec un premier code",
+      tags: ['Admin Auth'],
+      security: [{ bearerAuth: [] }],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              $ref: '#/components/schemas/TwoFactorCodeRequest',
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          description: 'Double authentification activée, codes de secours',
+        },
+        400: {
+          description: 'Code invalide',
+        },
+      },
+    },
+  },
+  '/admin-auth/2fa': {
+    delete: {
+      summary: 'Désactiver la double authentification',
+      tags: ['Admin Auth'],
+      security: [{ bearerAuth: [] }],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              $ref: '#/components/schemas/TwoFactorCodeRequest',
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          description: 'Double authentification désactivée',
+        },
+        400: {
+          description: 'Code invalide',
+        },
+      },
+    },
+  },
+  '/admin-auth/change-password': {
+    post: {
+      summary: 'Changer mon mot de passe',
+      description:
+        'Le nouveau mot de passe doit respecter la politique de mots de passe et différer des derniers utilisés. Les autres sessions sont fermées, la session courante reste ouverte.',
+      tags: ['Admin Auth'],
+      security: [{ bearerAuth: [] }],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/PasswordChangeRequest' },
+          },
+        },
+      },
+      responses: {
+        200: { description: 'Mot de passe changé' },
+        400: {
+          description:
+            'Mot de passe actuel incorrect, politique non respectée ou mot de passe déjà utilisé',
+        },
+        403: { description: 'Action interdite pendant une impersonation' },
+      },
+    },
+  },
+  '/admin-auth/report-sign-in': {
+    get: {
+      summary: 'Page de confirmation d’un signalement (« ce n’était pas moi »)',
+      description:
+        'Lien envoyé par email lors d’une connexion depuis un appareil ou un réseau inconnu, ou d’une réutilisation de jeton. Affiche une page HTML demandant de confirmer le signalement, sans rien modifier.',
+      tags: ['Admin Auth'],
+      parameters: [
+        {
+          name: 'token',
+          in: 'query',
+          required: true,
+          schema: { type: 'string' },
+        },
+      ],
+      responses: {
+        200: { description: 'Page de confirmation' },
+        400: { description: 'Lien invalide ou expiré' },
+        429: { description: 'Trop de signalements' },
+      },
+    },
+    post: {
+      summary: 'Signaler une connexion suspecte (« ce n’était pas moi »)',
+      description:
+        'Ferme toutes les sessions et envoie un code de réinitialisation du mot de passe. Répond par une page HTML au formulaire de confirmation, et en JSON sinon.',
+      tags: ['Admin Auth'],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['token'],
+              properties: { token: { type: 'string' } },
+            },
+          },
+        },
+      },
+      responses: {
+        200: { description: 'Sessions fermées, code envoyé par email' },
+        400: { description: 'Lien invalide ou expiré' },
+        429: { description: 'Trop de signalements' },
+      },
+    },
+  },
+  '/admin-auth/sessions': {
+    get: {
+      summary: 'Lister mes sessions actives',
+      description:
+        'Appareil, système et client de chaque session. La session utilisée par la requête est marquée `current`.',
+      tags: ['Admin Auth'],
+      security: [{ bearerAuth: [] }],
+      responses: {
+        200: { description: 'Liste des sessions' },
+      },
+    },
+  },
+  '/admin-auth/sessions/{sessionId}': {
+    patch: {
+      summary: 'Renommer une de mes sessions',
+      tags: ['Admin Auth'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        {
+          name: 'sessionId',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/SessionRenameRequest' },
+          },
+        },
+      },
+      responses: {
+        200: { description: 'Session renommée' },
+        400: { description: 'Session introuvable ou erreur de validation' },
+        403: { description: 'Action interdite pendant une impersonation' },
+      },
+    },
+    delete: {
+      summary: 'Révoquer une de mes sessions',
+      tags: ['Admin Auth'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        {
+          name: 'sessionId',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      responses: {
+        200: { description: 'Session révoquée' },
+        400: { description: 'Session introuvable' },
+        403: { description: 'Action interdite pendant une impersonation' },
+      },
+    },
+  },
+  '/admin-auth/impersonate': {
+    post: {
+      summary: 'Se connecter en tant qu’un utilisateur',
+      description:
+        'Délivre un jeton d’accès de courte durée, sans jeton de rafraîchissement, pour l’utilisateur cible. Le jeton porte la claim `act` avec l’identité de l’administrateur. La session est en lecture seule sauf si `allowWrite` est vrai, chaque requête est journalisée et les réponses portent l’en-tête `X-Impersonated-By`.',
+      tags: ['Admin Auth'],
+      security: [{ bearerAuth: [] }],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/ImpersonationStartRequest' },
+          },
+        },
+      },
+      responses: {
+        201: { description: 'Jeton d’impersonation délivré' },
+        400: {
+          description:
+            'Utilisateur introuvable, inactif, administrateur, soi-même ou détenant des permissions non détenues',
+        },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+  '/admin-auth/impersonations': {
+    get: {
+      summary: 'Lister les sessions d’impersonation',
+      tags: ['Admin Auth'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        { name: 'page', in: 'query', schema: { type: 'integer' } },
+        { name: 'pageSize', in: 'query', schema: { type: 'integer' } },
+        { name: 'actorId', in: 'query', schema: { type: 'string' } },
+        { name: 'targetId', in: 'query', schema: { type: 'string' } },
+      ],
+      responses: {
+        200: { description: 'Page de sessions d’impersonation' },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+  '/admin-auth/impersonations/{impersonationId}': {
+    delete: {
+      summary: 'Terminer une session d’impersonation',
+      description: 'Le jeton de la session est révoqué immédiatement.',
+      tags: ['Admin Auth'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        {
+          name: 'impersonationId',
+          in: 'path',
+          required: true,
+          schema: { type: 'string' },
+        },
+      ],
+      responses: {
+        200: { description: 'Session terminée' },
+        400: { description: 'Session introuvable' },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+  '/admin-auth/impersonations/{impersonationId}/requests': {
+    get: {
+      summary: 'Consulter les requêtes d’une session d’impersonation',
+      tags: ['Admin Auth'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        {
+          name: 'impersonationId',
+          in: 'path',
+          required: true,
+          schema: { type: 'string' },
+        },
+        { name: 'page', in: 'query', schema: { type: 'integer' } },
+        { name: 'pageSize', in: 'query', schema: { type: 'integer' } },
+      ],
+      responses: {
+        200: { description: 'Page de requêtes journalisées' },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+  '/admin-auth/lockouts': {
+    get: {
+      summary: 'Lister les verrouillages de connexion',
+      tags: ['Admin Auth'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        { name: 'page', in: 'query', schema: { type: 'integer' } },
+        { name: 'pageSize', in: 'query', schema: { type: 'integer' } },
+        {
+          name: 'all',
+          in: 'query',
+          description: 'Inclure les compteurs non verrouillés',
+          schema: { type: 'boolean' },
+        },
+      ],
+      responses: {
+        200: { description: 'Page de verrouillages' },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+  '/admin-auth/lockouts/{lockoutId}': {
+    delete: {
+      summary: 'Lever un verrouillage de connexion',
+      tags: ['Admin Auth'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        {
+          name: 'lockoutId',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      responses: {
+        200: { description: 'Verrouillage levé' },
+        400: { description: 'Verrouillage introuvable' },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+  '/admin-auth/login-attempts': {
+    get: {
+      summary: 'Lister les tentatives de connexion',
+      tags: ['Admin Auth'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        { name: 'page', in: 'query', schema: { type: 'integer' } },
+        { name: 'pageSize', in: 'query', schema: { type: 'integer' } },
+        { name: 'username', in: 'query', schema: { type: 'string' } },
+        { name: 'ipAddress', in: 'query', schema: { type: 'string' } },
+        {
+          name: 'outcome',
+          in: 'query',
+          schema: {
+            type: 'string',
+            enum: [
+              'SUCCESS',
+              'INVALID_CREDENTIALS',
+              'INVALID_TWO_FACTOR',
+              'LOCKED',
+            ],
+          },
+        },
+      ],
+      responses: {
+        200: { description: 'Page de tentatives' },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+};
+
+const clientTypeProperty = {
+  type: 'string',
+  enum: ['browser', 'mobile'],
+  description:
+    'Politique de durée de la session : fenêtre de rafraîchissement courte pour les navigateurs, longue pour les applications mobiles. Détectée depuis le User-Agent si absent.',
 };
 
 const authSchemas = {
+  PasswordChangeRequest: {
+    type: 'object',
+    properties: {
+      currentPassword: { type: 'string', example: 'Ancien#Secret1' },
+      newPassword: { type: 'string', example: 'Nouveau#Secret2' },
+    },
+    required: ['currentPassword', 'newPassword'],
+  },
+  ImpersonationStartRequest: {
+    type: 'object',
+    properties: {
+      userId: { type: 'string', format: 'uuid' },
+      reason: {
+        type: 'string',
+        example: 'Ticket #1234 : le client ne voit pas ses commandes',
+      },
+      allowWrite: { type: 'boolean', default: false },
+    },
+    required: ['userId', 'reason'],
+  },
+  SessionRenameRequest: {
+    type: 'object',
+    properties: {
+      label: { type: 'string', example: 'PC du bureau' },
+    },
+    required: ['label'],
+  },
   AdminSignInRequest: {
     type: 'object',
     properties: {
       username: { type: 'string', example: 'Birewa' },
       password: { type: 'string', example: 'secret' },
+      transport: {
+        type: 'string',
+        enum: ['body', 'cookie'],
+        description:
+          'cookie : le jeton de rafraîchissement est placé dans un cookie HttpOnly et un jeton CSRF est renvoyé',
+      },
+      client_type: clientTypeProperty,
     },
     required: ['username', 'password'],
   },
@@ -105,6 +593,43 @@ const authSchemas = {
     },
     required: ['token'],
   },
+  ForgotPasswordRequest: {
+    type: 'object',
+    properties: {
+      email: { type: 'string', example: 'jdoe@example.com' },
+    },
+    required: ['email'],
+  },
+  ResetPasswordRequest: {
+    type: 'object',
+    properties: {
+      email: { type: 'string', example: 'jdoe@example.com' },
+      code: { type: 'string', example: '048213' },
+      password: { type: 'string', example: 'Nouveau#Secret2' },
+    },
+    required: ['email', 'code', 'password'],
+  },
+  VerifyTwoFactorRequest: {
+    type: 'object',
+    properties: {
+      challengeToken: {
+        type: 'string',
+        example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ...',
+      },
+      code: { type: 'string', example: '123456' },
+      recoveryCode: { type: 'string', example: 'a1b2c-3d4e5' },
+      transport: { type: 'string', enum: ['body', 'cookie'] },
+      client_type: clientTypeProperty,
+    },
+    required: ['challengeToken'],
+  },
+  TwoFactorCodeRequest: {
+    type: 'object',
+    properties: {
+      code: { type: 'string', example: '123456' },
+    },
+    required: ['code'],
+  },
 };
 
 export default authDocs;
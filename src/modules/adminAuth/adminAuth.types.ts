@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import { passwordSchema } from '@/core/utils/passwordPolicy.util';
+
+// Payload accepted by the reset-password endpoint
+export const passwordResetSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  code: z.string().regex(/^\d{6}$/, 'The code must contain 6 digits'),
+  password: passwordSchema,
+});
+
+export type PasswordReset = z.infer<typeof passwordResetSchema>;
+
+// Payload accepted by the 2FA confirmation and deactivation endpoints
+export const twoFactorCodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'The code must contain 6 digits'),
+});
+
+export type TwoFactorCode = z.infer<typeof twoFactorCodeSchema>;
+
+// Payload accepted by the second sign-in step: an authenticator code or a recovery code
+export const twoFactorVerifySchema = z
+  .object({
+    challengeToken: z.string().min(1),
+    code: z
+      .string()
+      .regex(/^\d{6}$/, 'The code must contain 6 digits')
+      .optional(),
+    recoveryCode: z.string().trim().min(1).optional(),
+    client_type: z.enum(['mobile', 'browser']).optional(),
+  })
+  .refine((data) => data.code || data.recoveryCode, {
+    message: 'A code or a recovery code is required',
+  });
+
+export type TwoFactorVerify = z.infer<typeof twoFactorVerifySchema>;
+
+// Payload accepted when a user renames one of their sessions
+export const sessionRenameSchema = z.object({
+  label: z.string().trim().min(1).max(100),
+});
+
+export type SessionRename = z.infer<typeof sessionRenameSchema>;
+
+// Payload accepted when a signed-in user changes their password
+export const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: passwordSchema,
+});
+
+export type PasswordChange = z.infer<typeof passwordChangeSchema>;
+
+// Payload accepted when an admin starts impersonating a user
+export const impersonationStartSchema = z.object({
+  userId: z.string().uuid(),
+  reason: z.string().trim().min(10).max(500),
+  allowWrite: z.boolean().optional().default(false),
+});
+
+export type ImpersonationStart = z.input<typeof impersonationStartSchema>;
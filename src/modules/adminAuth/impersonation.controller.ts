@@ -0,0 +1,145 @@
+import { Request, Response } from 'express';
+import { log } from 'console';
+import { Prisma } from '@prisma/client';
+import { Service } from 'typedi';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import ImpersonationService from './impersonation.service';
+import { ImpersonationStart } from './adminAuth.types';
+
+@Service()
+export default class ImpersonationController {
+  constructor(private readonly impersonationService: ImpersonationService) {}
+
+  /**
+   * Starts impersonating a user.
+   *
+   * @param {Request} req - The HTTP request object with the target `userId`, the `reason`
+   * and the optional `allowWrite` flag in the body.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the access token of the impersonation session.
+   */
+  async start(req: Request, res: Response): Promise<void> {
+    try {
+      log('Start Impersonation Request Received');
+
+      const { id, username, roles } = (req as any).user;
+      const data: ImpersonationStart = req.body;
+
+      const payload = await this.impersonationService.start(
+        { id, username, roles: roles ?? [] },
+        data
+      );
+
+      const response = ApiResponse.http201(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message: (error as Error).message || 'Starting impersonation failed.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Ends an impersonation session and revokes its token.
+   *
+   * @param {Request} req - The HTTP request object with the `impersonationId` route parameter.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves when the session is ended.
+   */
+  async end(req: Request, res: Response): Promise<void> {
+    try {
+      log('End Impersonation Request Received');
+
+      const payload = await this.impersonationService.end(
+        req.params.impersonationId as string
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message: (error as Error).message || 'Ending impersonation failed.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Lists impersonation sessions.
+   *
+   * @param {Request} req - The HTTP request object. Supported query parameters: `page`, `pageSize`,
+   * `actorId` and `targetId`.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with a page of sessions.
+   */
+  async impersonations(req: Request, res: Response): Promise<void> {
+    try {
+      log('List Impersonations Request Received');
+
+      const page = parseInt(req.query.page as string) || 1;
+      const pageSize = parseInt(req.query.pageSize as string) || 10;
+
+      const filters: Prisma.ImpersonationSessionWhereInput = {};
+      if (req.query.actorId) {
+        filters.actorId = req.query.actorId as string;
+      }
+      if (req.query.targetId) {
+        filters.targetId = req.query.targetId as string;
+      }
+
+      const payload = await this.impersonationService.impersonations(
+        page,
+        pageSize,
+        filters
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while fetching impersonations.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Lists the requests recorded during an impersonation session.
+   *
+   * @param {Request} req - The HTTP request object with the `impersonationId` route parameter.
+   * Supported query parameters: `page` and `pageSize`.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with a page of requests.
+   */
+  async requests(req: Request, res: Response): Promise<void> {
+    try {
+      log('List Impersonation Requests Request Received');
+
+      const page = parseInt(req.query.page as string) || 1;
+      const pageSize = parseInt(req.query.pageSize as string) || 50;
+
+      const payload = await this.impersonationService.requests(
+        req.params.impersonationId as string,
+        page,
+        pageSize
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while fetching impersonation requests.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * impersonation.service.ts
+ *
+ * This file defines the ImpersonationService class, which lets an admin act as another
+ * user to help them (support, troubleshooting).
+ *
+ * Rules:
+ * - The admin gets a short-lived access token (`config.impersonation.expiresIn`) for the
+ *   target user, without refresh token. Its `act` claim carries the admin identity.
+ * - Sessions are read-only unless the admin explicitly allows writes when starting them.
+ * - Admins cannot be impersonated, nor can inactive users, nor users holding
+ *   permissions the admin does not hold.
+ * - Every request made with the token is recorded by `verifyJWT` through `recordRequest`.
+ * - Ending a session revokes its access token immediately. Sessions are also ended when
+ *   every session of the target or of the admin is closed (`AdminAuthService.logoutAll`:
+ *   deactivation, erasure, role change, password reset).
+ */
+
+import { Service } from 'typedi';
+import { Prisma } from '@prisma/client';
+import { log } from 'console';
+import _ from 'lodash';
+import { JwtPayload } from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import config from '@/config';
+import ServiceDefinition from '../definitions/service';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import TokenRevocationService from './tokenRevocation.service';
+import PermissionsService from '../permissions/permissions.service';
+import JwtUtil from '@/core/utils/jwt.util';
+import { AccessTokenPayload } from '@/core/types';
+import {
+  ImpersonationStart,
+  impersonationStartSchema,
+} from './adminAuth.types';
+
+export interface ImpersonationActor {
+  id: string;
+  username: string;
+  roles: string[];
+}
+
+export interface ImpersonatedRequest {
+  method: string;
+  path: string;
+  statusCode: number;
+  ipAddress: string;
+}
+
+// Fields of a session returned by the API, the token identifier stays internal
+const sessionFields = {
+  id: true,
+  reason: true,
+  readOnly: true,
+  expiresAt: true,
+  endedAt: true,
+  createdAt: true,
+} satisfies Prisma.ImpersonationSessionSelect;
+
+@Service()
+export default class ImpersonationService extends ServiceDefinition {
+  constructor(
+    prismaService: PrismaService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly permissionsService: PermissionsService
+  ) {
+    super(prismaService);
+  }
+
+  /**
+   * Starts an impersonation session and issues its access token.
+   * @param actor - The admin starting the session.
+   * @param data - The target user, the reason and whether writes are allowed.
+   * @returns The access token, its expiration and the session.
+   * @throws Error if the target cannot be impersonated.
+   */
+  async start(actor: ImpersonationActor, data: ImpersonationStart) {
+    try {
+      const cleanData = impersonationStartSchema.parse(data);
+
+      if (cleanData.userId === actor.id) {
+        throw new Error('You cannot impersonate yourself');
+      }
+
+      const target = await this.db.user.findUnique({
+        where: { id: cleanData.userId },
+      });
+      if (!target || !target.isActive) {
+        throw new Error('User not found or inactive');
+      }
+      if (target.profiles.includes('ADMIN')) {
+        throw new Error('Admin accounts cannot be impersonated');
+      }
+      // Acting as the target grants its permissions to the admin
+      await this.permissionsService.ensureCanGrant(
+        actor.roles,
+        await this.permissionsService.permissionsForRoles(target.profiles)
+      );
+
+      const id = uuidv4();
+      const readOnly = !cleanData.allowWrite;
+      const payload: AccessTokenPayload = {
+        userId: target.id,
+        username: target.username,
+        email: target.email,
+        profiles: target.profiles.join(),
+        act: { sub: actor.id, username: actor.username },
+        imp: { id, readOnly },
+      };
+      const accessToken = JwtUtil.generateToken(
+        payload,
+        config.impersonation.expiresIn
+      );
+      const { jti, exp } = JwtUtil.decodeToken(accessToken) as JwtPayload;
+      const expiresAt = new Date((exp as number) * 1000);
+
+      const session = await this.db.impersonationSession.create({
+        data: {
+          id,
+          reason: cleanData.reason,
+          readOnly,
+          accessTokenJti: jti as string,
+          expiresAt,
+          actorId: actor.id,
+          targetId: target.id,
+        },
+      });
+      log(
+        `User ${target.id} impersonated by ${actor.id} (session ${session.id})`
+      );
+
+      return {
+        accessToken,
+        expiresAt,
+        impersonation: _.omit(session, 'accessTokenJti'),
+      };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Ends an impersonation session and revokes its access token.
+   * @param impersonationId - The ID of the session.
+   * @returns A boolean indicating success.
+   */
+  async end(impersonationId: string) {
+    try {
+      const session = await this.db.impersonationSession.findUnique({
+        where: { id: impersonationId },
+      });
+      if (!session) {
+        throw new Error('Impersonation session not found');
+      }
+      if (session.endedAt) {
+        return true;
+      }
+
+      await this.tokenRevocationService.revoke([
+        {
+          jti: session.accessTokenJti,
+          expiresAt: session.expiresAt,
+          userId: session.targetId,
+        },
+      ]);
+
+      await this.db.impersonationSession.update({
+        where: { id: impersonationId },
+        data: { endedAt: new Date() },
+      });
+      log(`Impersonation session ${impersonationId} ended`);
+
+      return true;
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Ends the running impersonation sessions of a user, as target or as admin, and
+   * revokes their access tokens.
+   * @param userId - The ID of the user.
+   * @returns The number of ended sessions.
+   */
+  async endForUser(userId: string) {
+    try {
+      const sessions = await this.db.impersonationSession.findMany({
+        where: {
+          OR: [{ targetId: userId }, { actorId: userId }],
+          endedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+      });
+      if (sessions.length === 0) {
+        return 0;
+      }
+
+      await this.tokenRevocationService.revoke(
+        sessions.map((session) => ({
+          jti: session.accessTokenJti,
+          expiresAt: session.expiresAt,
+          userId: session.targetId,
+        }))
+      );
+
+      await this.db.impersonationSession.updateMany({
+        where: { id: { in: sessions.map((session) => session.id) } },
+        data: { endedAt: new Date() },
+      });
+      log(`Impersonation sessions of user ${userId} ended`);
+
+      return sessions.length;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Lists impersonation sessions, most recent first.
+   * @param page - The page number (default: 1).
+   * @param pageSize - The number of sessions per page (default: 10).
+   * @param filters - Optional filters (actor, target).
+   */
+  async impersonations(
+    page: number = 1,
+    pageSize: number = 10,
+    filters: Prisma.ImpersonationSessionWhereInput = {}
+  ) {
+    try {
+      const skip = (page - 1) * pageSize;
+      const userFields = { select: { id: true, username: true } };
+
+      const [total, data] = await this.db.$transaction([
+        this.db.impersonationSession.count({ where: filters }),
+        this.db.impersonationSession.findMany({
+          where: filters,
+          skip,
+          take: pageSize,
+          orderBy: { createdAt: 'desc' },
+          select: {
+            ...sessionFields,
+            actor: userFields,
+            target: userFields,
+            _count: { select: { requests: true } },
+          },
+        }),
+      ]);
+
+      return { data, total, page, pageSize };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Lists the requests recorded during an impersonation session, in chronological order.
+   * @param impersonationId - The ID of the session.
+   * @param page - The page number (default: 1).
+   * @param pageSize - The number of requests per page (default: 50).
+   */
+  async requests(impersonationId: string, page: number = 1, pageSize = 50) {
+    try {
+      const skip = (page - 1) * pageSize;
+      const where = { sessionId: impersonationId };
+
+      const [total, data] = await this.db.$transaction([
+        this.db.impersonationRequest.count({ where }),
+        this.db.impersonationRequest.findMany({
+          where,
+          skip,
+          take: pageSize,
+          orderBy: { createdAt: 'asc' },
+        }),
+      ]);
+
+      return { data, total, page, pageSize };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Records a request made with an impersonation token.
+   * @param impersonationId - The ID of the session.
+   * @param request - The request and the status code of its response.
+   */
+  async recordRequest(impersonationId: string, request: ImpersonatedRequest) {
+    try {
+      await this.db.impersonationRequest.create({
+        data: { ...request, sessionId: impersonationId },
+      });
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import { log } from 'console';
+import { LoginAttemptOutcome, Prisma } from '@prisma/client';
+import { Service } from 'typedi';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import StringUtil from '@/core/utils/string.util';
+import LoginProtectionService from './loginProtection.service';
+
+@Service()
+export default class LoginProtectionController {
+  constructor(
+    private readonly loginProtectionService: LoginProtectionService
+  ) {}
+
+  /**
+   * Lists sign-in lockouts.
+   *
+   * @param {Request} req - The HTTP request object. Supported query parameters: `page`, `pageSize`
+   * and `all` (include the counters that are not locked).
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with a page of lockouts.
+   */
+  async lockouts(req: Request, res: Response): Promise<void> {
+    try {
+      log('List Sign-in Lockouts Request Received');
+
+      const page = parseInt(req.query.page as string) || 1;
+      const pageSize = parseInt(req.query.pageSize as string) || 10;
+      const lockedOnly = req.query.all !== 'true';
+
+      const payload = await this.loginProtectionService.lockouts(
+        page,
+        pageSize,
+        lockedOnly
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while fetching lockouts.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Clears a sign-in lockout.
+   *
+   * @param {Request} req - The HTTP request object with the `lockoutId` route parameter.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves when the lockout is removed.
+   */
+  async clearLockout(req: Request, res: Response): Promise<void> {
+    try {
+      log('Clear Sign-in Lockout Request Received');
+
+      const id = StringUtil.parseAndValidateNumber(
+        req.params.lockoutId as string
+      );
+      if (id === null) {
+        throw Error('Invalid lockoutId parameter');
+      }
+
+      const payload = await this.loginProtectionService.clearLockout(id);
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while clearing the lockout.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Lists recorded sign-in attempts.
+   *
+   * @param {Request} req - The HTTP request object. Supported query parameters: `page`, `pageSize`,
+   * `username`, `ipAddress` and `outcome`.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with a page of attempts.
+   */
+  async loginAttempts(req: Request, res: Response): Promise<void> {
+    try {
+      log('List Sign-in Attempts Request Received');
+
+      const page = parseInt(req.query.page as string) || 1;
+      const pageSize = parseInt(req.query.pageSize as string) || 10;
+
+      const filters: Prisma.LoginAttemptWhereInput = {};
+      if (req.query.username) {
+        filters.username = req.query.username as string;
+      }
+      if (req.query.ipAddress) {
+        filters.ipAddress = req.query.ipAddress as string;
+      }
+      if (req.query.outcome) {
+        const outcome = req.query.outcome as LoginAttemptOutcome;
+        if (!Object.values(LoginAttemptOutcome).includes(outcome)) {
+          throw new Error('Invalid outcome filter');
+        }
+        filters.outcome = outcome;
+      }
+
+      const payload = await this.loginProtectionService.loginAttempts(
+        page,
+        pageSize,
+        filters
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while fetching sign-in attempts.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * loginProtection.service.ts
+ *
+ * This file defines the LoginProtectionService class, which protects the sign-in
+ * flow against brute-force attacks, independently of the global rate limiter.
+ *
+ * Security measures:
+ * - Failures are counted per username and per IP address within `config.loginProtection.failureWindow`.
+ * - Each new failure doubles the delay applied before the next attempt is answered.
+ * - Reaching the failure limit locks the username (or IP address) for `lockoutDuration`.
+ * - Every attempt is recorded with the client information for later review.
+ *
+ * Counters do not depend on the existence of the account, so lockouts and delays
+ * reveal nothing about which usernames are registered.
+ */
+
+import { Service } from 'typedi';
+import {
+  LoginAttemptOutcome,
+  LoginThrottle,
+  LoginThrottleScope,
+  Prisma,
+} from '@prisma/client';
+import { log } from 'console';
+import config from '@/config';
+import ServiceDefinition from '../definitions/service';
+import { ClientInfo } from '@/core/types';
+import DateUtil from '@/core/utils/date.util';
+
+const settings = config.loginProtection;
+
+@Service()
+export default class LoginProtectionService extends ServiceDefinition {
+  /**
+   * Refuses the attempt if the username or the IP address is locked, otherwise
+   * waits for the progressive delay earned by the previous failures.
+   * @param username - The submitted username.
+   * @param clientInfo - Client metadata (IP address, user agent, etc.).
+   * @throws Error if the username or the IP address is locked.
+   */
+  async guard(username: string, clientInfo: ClientInfo) {
+    const throttles = await this.findThrottles(username, clientInfo.ipAddress);
+    const now = new Date();
+
+    if (
+      throttles.some(
+        (throttle) => throttle.lockedUntil && throttle.lockedUntil > now
+      )
+    ) {
+      await this.recordAttempt(username, clientInfo, 'LOCKED');
+      throw new Error('Too many failed attempts, please try again later');
+    }
+
+    const failures = Math.max(
+      0,
+      ...throttles
+        .filter((throttle) => !this.isExpired(throttle))
+        .map((throttle) => throttle.failures)
+    );
+    if (failures > 0) {
+      await this.sleep(
+        Math.min(
+          settings.delayBaseMs * 2 ** (failures - 1),
+          settings.delayMaxMs
+        )
+      );
+    }
+  }
+
+  /**
+   * Records a failed attempt and locks the username or the IP address when its limit is reached.
+   * @param username - The submitted username.
+   * @param clientInfo - Client metadata (IP address, user agent, etc.).
+   * @param outcome - The reason of the failure.
+   * @param userId - The ID of the matching account, if any.
+   */
+  async recordFailure(
+    username: string,
+    clientInfo: ClientInfo,
+    outcome: LoginAttemptOutcome,
+    userId?: string
+  ) {
+    await this.incrementThrottle(
+      'USERNAME',
+      this.normalizeUsername(username),
+      settings.maxFailures
+    );
+    await this.incrementThrottle(
+      'IP',
+      clientInfo.ipAddress,
+      settings.ipMaxFailures
+    );
+    await this.recordAttempt(username, clientInfo, outcome, userId);
+  }
+
+  /**
+   * Records a successful attempt and resets the failures of the username.
+   * The IP address counter is kept so one client cannot spread guesses over accounts.
+   * @param username - The submitted username.
+   * @param clientInfo - Client metadata (IP address, user agent, etc.).
+   * @param userId - The ID of the authenticated account.
+   */
+  async recordSuccess(
+    username: string,
+    clientInfo: ClientInfo,
+    userId: string
+  ) {
+    await this.db.loginThrottle.deleteMany({
+      where: { scope: 'USERNAME', key: this.normalizeUsername(username) },
+    });
+    await this.recordAttempt(username, clientInfo, 'SUCCESS', userId);
+  }
+
+  /**
+   * Lists the sign-in throttles with pagination.
+   * @param lockedOnly - Only return the throttles currently locked.
+   */
+  async lockouts(page: number = 1, pageSize: number = 10, lockedOnly = true) {
+    try {
+      const skip = (page - 1) * pageSize;
+      const where: Prisma.LoginThrottleWhereInput = lockedOnly
+        ? { lockedUntil: { gt: new Date() } }
+        : {};
+
+      const [total, data] = await this.db.$transaction([
+        this.db.loginThrottle.count({ where }),
+        this.db.loginThrottle.findMany({
+          where,
+          skip,
+          take: pageSize,
+          orderBy: { lastFailureAt: 'desc' },
+        }),
+      ]);
+
+      return { data, total, page, pageSize };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Clears a lockout and its failure counter.
+   * @param lockoutId - The ID of the throttle.
+   */
+  async clearLockout(lockoutId: number) {
+    try {
+      const lockout = await this.db.loginThrottle.delete({
+        where: { id: lockoutId },
+      });
+      log(`Sign-in lockout cleared for ${lockout.scope} ${lockout.key}`);
+
+      return true;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Lists the recorded sign-in attempts with pagination, most recent first.
+   */
+  async loginAttempts(
+    page: number = 1,
+    pageSize: number = 10,
+    filters: Prisma.LoginAttemptWhereInput = {}
+  ) {
+    try {
+      const skip = (page - 1) * pageSize;
+
+      const [total, data] = await this.db.$transaction([
+        this.db.loginAttempt.count({ where: filters }),
+        this.db.loginAttempt.findMany({
+          where: filters,
+          skip,
+          take: pageSize,
+          orderBy: { createdAt: 'desc' },
+        }),
+      ]);
+
+      return { data, total, page, pageSize };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  private async findThrottles(username: string, ipAddress: string) {
+    return this.db.loginThrottle.findMany({
+      where: {
+        OR: [
+          { scope: 'USERNAME', key: this.normalizeUsername(username) },
+          { scope: 'IP', key: ipAddress },
+        ],
+      },
+    });
+  }
+
+  private async incrementThrottle(
+    scope: LoginThrottleScope,
+    key: string,
+    maxFailures: number
+  ) {
+    const now = new Date();
+    const windowMs = DateUtil.parseDurationToMilliseconds(
+      settings.failureWindow
+    );
+
+    // Failures older than the window start a new series
+    await this.db.loginThrottle.updateMany({
+      where: {
+        scope,
+        key,
+        lastFailureAt: { lt: new Date(now.getTime() - windowMs) },
+      },
+      data: { failures: 0, lockedUntil: null },
+    });
+    // The increment is atomic, so parallel failures are all counted
+    const throttle = await this.db.loginThrottle.upsert({
+      where: { scope_key: { scope, key } },
+      create: { scope, key, failures: 1, lastFailureAt: now },
+      update: { failures: { increment: 1 }, lastFailureAt: now },
+    });
+
+    if (throttle.failures >= maxFailures) {
+      const lockedUntil = DateUtil.getDateToInterval(
+        DateUtil.parseDurationToMilliseconds(settings.lockoutDuration)
+      );
+      await this.db.loginThrottle.update({
+        where: { id: throttle.id },
+        data: { lockedUntil },
+      });
+      log(
+        `Sign-in locked for ${scope} ${key} until ${lockedUntil.toISOString()}`
+      );
+    }
+  }
+
+  private async recordAttempt(
+    username: string,
+    clientInfo: ClientInfo,
+    outcome: LoginAttemptOutcome,
+    userId?: string
+  ) {
+    await this.db.loginAttempt.create({
+      data: { ...clientInfo, username, outcome, userId },
+    });
+  }
+
+  private isExpired(throttle: LoginThrottle) {
+    const windowMs = DateUtil.parseDurationToMilliseconds(
+      settings.failureWindow
+    );
+    return throttle.lastFailureAt.getTime() + windowMs < Date.now();
+  }
+
+  private normalizeUsername(username: string) {
+    return username.trim().toLowerCase();
+  }
+
+  private sleep(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
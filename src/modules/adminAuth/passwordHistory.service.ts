@@ -0,0 +1,87 @@
+/**
+ * passwordHistory.service.ts
+ *
+ * This file defines the PasswordHistoryService class, which replaces the password of
+ * a user while keeping the hashes of the previous ones, and refuses a new password
+ * equal to the current one or to one of the last `config.pwd.historySize` passwords.
+ *
+ * The other rules of the password policy are checked by `PasswordPolicyUtil`.
+ */
+
+import { Service } from 'typedi';
+import { Prisma, User } from '@prisma/client';
+import config from '@/config';
+import ServiceDefinition from '../definitions/service';
+import { TransactionClient } from '@/database/prisma/prisma.service';
+import BcryptUtil from '@/core/utils/bcrypt.util';
+
+const historySize = config.pwd.historySize;
+
+@Service()
+export default class PasswordHistoryService extends ServiceDefinition {
+  /**
+   * Refuses a password already used recently by the user.
+   * @param user - The user changing their password.
+   * @param password - The new clear password.
+   * @throws Error if the password matches the current one or a recent one.
+   */
+  async assertNotReused(user: User, password: string) {
+    const history = await this.db.passwordHistory.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'desc' },
+      take: historySize,
+    });
+
+    const recentHashes = [
+      user.password,
+      ...history.map((entry) => entry.passwordHash),
+    ];
+    for (const hash of recentHashes) {
+      if (await BcryptUtil.comparePassword(password, hash)) {
+        throw new Error(
+          `The password must differ from your last ${historySize + 1} passwords`
+        );
+      }
+    }
+  }
+
+  /**
+   * Replaces the password of a user and moves the previous hash to the history,
+   * keeping only the entries still needed.
+   * @param tx - The transaction client.
+   * @param user - The user changing their password.
+   * @param password - The new clear password, already checked.
+   * @param data - Other fields of the user to update with the password.
+   */
+  async replacePassword(
+    tx: TransactionClient,
+    user: User,
+    password: string,
+    data: Prisma.UserUpdateInput = {}
+  ) {
+    await tx.user.update({
+      where: { id: user.id },
+      data: { ...data, password: await BcryptUtil.hashPassword(password) },
+    });
+
+    if (historySize <= 0) {
+      return;
+    }
+
+    await tx.passwordHistory.create({
+      data: { userId: user.id, passwordHash: user.password },
+    });
+
+    const expired = await tx.passwordHistory.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'desc' },
+      skip: historySize,
+      select: { id: true },
+    });
+    if (expired.length > 0) {
+      await tx.passwordHistory.deleteMany({
+        where: { id: { in: expired.map((entry) => entry.id) } },
+      });
+    }
+  }
+}
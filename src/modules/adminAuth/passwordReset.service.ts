@@ -0,0 +1,184 @@
+/**
+ * passwordReset.service.ts
+ *
+ * This file defines the PasswordResetService class, which handles the
+ * forgot-password / reset-password flow based on emailed one-time codes.
+ *
+ * Security measures:
+ * - Codes are stored as HMAC digests and expire after `config.otp.expiredIn`.
+ * - Requesting a new code invalidates the previous ones.
+ * - Each code is locked after `config.otp.maxAttempts` failed attempts.
+ * - The new password follows the password policy and cannot be a recent one.
+ * - A successful reset revokes every session of the user.
+ */
+
+import { Service } from 'typedi';
+import { User } from '@prisma/client';
+import { log } from 'console';
+import config from '@/config';
+import ServiceDefinition from '../definitions/service';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import AdminAuthService from './adminAuth.service';
+import PasswordHistoryService from './passwordHistory.service';
+import DateUtil from '@/core/utils/date.util';
+import OtpUtil from '@/core/utils/otp.util';
+import { MailModule } from '@/integrations/nodemailer/nodemailer.module';
+import { PasswordReset, passwordResetSchema } from './adminAuth.types';
+
+@Service()
+export default class PasswordResetService extends ServiceDefinition {
+  constructor(
+    prismaService: PrismaService,
+    private readonly adminAuthService: AdminAuthService,
+    private readonly passwordHistoryService: PasswordHistoryService
+  ) {
+    super(prismaService);
+  }
+
+  /**
+   * Emails a new reset code to the account owning the given address.
+   * Unknown addresses are ignored silently so the endpoint cannot be used
+   * to discover which emails are registered.
+   * @param email - The email address of the account.
+   */
+  async requestReset(email: string) {
+    try {
+      const user = await this.db.user.findUnique({
+        where: {
+          email: String(email ?? '')
+            .trim()
+            .toLowerCase(),
+        },
+      });
+
+      if (user?.isActive) {
+        await this.sendResetCode(user);
+      }
+
+      return true;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Replaces the password of a user after checking the emailed code,
+   * then revokes every active session of the user.
+   * @param data - The email, the received code and the new password.
+   */
+  async resetPassword(data: PasswordReset) {
+    const invalidCodeError = new Error('Invalid or expired code');
+
+    try {
+      const cleanData = passwordResetSchema.parse(data);
+
+      const user = await this.db.user.findUnique({
+        where: { email: cleanData.email },
+      });
+      if (!user?.isActive) {
+        throw invalidCodeError;
+      }
+
+      const resetCode = await this.db.passwordResetCode.findFirst({
+        where: {
+          userId: user.id,
+          consumedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+      if (!resetCode) {
+        throw invalidCodeError;
+      }
+
+      // Each guess takes an attempt atomically, so parallel guesses cannot exceed the limit
+      const { count } = await this.db.passwordResetCode.updateMany({
+        where: {
+          id: resetCode.id,
+          consumedAt: null,
+          attempts: { lt: config.otp.maxAttempts },
+        },
+        data: { attempts: { increment: 1 } },
+      });
+      if (count === 0) {
+        throw new Error('Too many failed attempts, please request a new code');
+      }
+
+      if (!OtpUtil.compareCode(cleanData.code, resetCode.codeHash)) {
+        if (resetCode.attempts + 1 >= config.otp.maxAttempts) {
+          await this.db.passwordResetCode.update({
+            where: { id: resetCode.id },
+            data: { consumedAt: new Date() },
+          });
+          throw new Error(
+            'Too many failed attempts, please request a new code'
+          );
+        }
+        throw invalidCodeError;
+      }
+
+      // The code stays valid if the new password was used recently
+      await this.passwordHistoryService.assertNotReused(
+        user,
+        cleanData.password
+      );
+
+      await this.db.$transaction(async (tx) => {
+        await this.passwordHistoryService.replacePassword(
+          tx,
+          user,
+          cleanData.password,
+          { passwordResetRequired: false }
+        );
+        // A code cannot be used by two parallel resets
+        const consumed = await tx.passwordResetCode.updateMany({
+          where: { id: resetCode.id, consumedAt: null },
+          data: { consumedAt: new Date() },
+        });
+        if (consumed.count === 0) {
+          throw invalidCodeError;
+        }
+      });
+
+      // Every session opened with the old password must be closed
+      await this.adminAuthService.logoutAll(user.id);
+      log(`Password reset for user ${user.id}`);
+
+      return true;
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Invalidates the pending codes of a user, stores a new one and emails it.
+   * @param user - The user requesting the reset.
+   */
+  async sendResetCode(user: User) {
+    const code = OtpUtil.generateCode();
+    const expiresAt = DateUtil.getDateToInterval(
+      DateUtil.parseDurationToMilliseconds(config.otp.expiredIn)
+    );
+
+    await this.db.$transaction([
+      this.db.passwordResetCode.updateMany({
+        where: { userId: user.id, consumedAt: null },
+        data: { consumedAt: new Date() },
+      }),
+      this.db.passwordResetCode.create({
+        data: { userId: user.id, codeHash: OtpUtil.hashCode(code), expiresAt },
+      }),
+    ]);
+
+    await MailModule.getMailService().sendMail({
+      to: user.email,
+      subject: 'Réinitialisation de votre mot de passe',
+      templateName: 'password-reset',
+      templateData: {
+        name: user.username,
+        code,
+        expiresIn: config.otp.expiredIn,
+      },
+    });
+  }
+}
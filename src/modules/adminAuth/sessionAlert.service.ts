@@ -0,0 +1,218 @@
+/**
+ * sessionAlert.service.ts
+ *
+ * This file defines the SessionAlertService class, which emails users about events
+ * affecting their sessions:
+ * - a sign-in from an unknown device, operating system or IP range, compared with the
+ *   sessions opened within `config.signInAlert.lookback`;
+ * - the reuse of a refresh token that was already rotated, a sign of a stolen token;
+ * - the closing of their oldest session when the limit of simultaneous sessions is reached.
+ *
+ * Alerts about suspicious activity carry a one-click "this wasn't me" link, handled by
+ * `SignInReportService`, which closes every session and forces a password reset.
+ */
+
+import net from 'net';
+import { Service } from 'typedi';
+import { TokenFamily, User } from '@prisma/client';
+import config from '@/config';
+import ServiceDefinition from '../definitions/service';
+import DateUtil from '@/core/utils/date.util';
+import JwtUtil from '@/core/utils/jwt.util';
+import ApiUrlUtil from '@/core/utils/apiUrl.util';
+import { MailModule } from '@/integrations/nodemailer/nodemailer.module';
+
+// Number of previous sessions a sign-in is compared with
+const HISTORY_SIZE = 50;
+
+@Service()
+export default class SessionAlertService extends ServiceDefinition {
+  /**
+   * Compares a new session with the recent sessions of the user and sends an alert
+   * when the device, the operating system or the IP range has never been seen.
+   * The first session of a user has nothing to be compared with and raises no alert.
+   * @param user - The user who signed in.
+   * @param tokenFamily - The session just opened.
+   * @returns The reasons of the alert, empty when the sign-in looks familiar.
+   */
+  async checkSignIn(user: User, tokenFamily: TokenFamily) {
+    const since = new Date(
+      Date.now() -
+        DateUtil.parseDurationToMilliseconds(config.signInAlert.lookback)
+    );
+    const previousSessions = await this.db.tokenFamily.findMany({
+      where: {
+        userId: user.id,
+        id: { not: tokenFamily.id },
+        createdAt: { gte: since },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: HISTORY_SIZE,
+    });
+
+    if (previousSessions.length === 0) {
+      return [];
+    }
+
+    const reasons: string[] = [];
+    const isKnown = (key: (session: TokenFamily) => string) =>
+      previousSessions.some((session) => key(session) === key(tokenFamily));
+
+    if (!isKnown(SessionAlertService.deviceKey)) {
+      reasons.push('Nouvel appareil ou navigateur');
+    }
+    if (!isKnown((session) => session.osName)) {
+      reasons.push("Nouveau système d'exploitation");
+    }
+    if (!isKnown((session) => SessionAlertService.ipRange(session.ipAddress))) {
+      reasons.push('Nouvelle adresse IP');
+    }
+
+    if (reasons.length > 0) {
+      await this.sendSuspiciousActivityEmail(
+        user,
+        tokenFamily,
+        'Nouvelle connexion à votre compte',
+        reasons
+      );
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Alerts the user that a refresh token of one of their sessions was used after being
+   * replaced, which means that it was copied.
+   * @param tokenFamily - The session whose token was reused, already revoked.
+   */
+  async alertTokenReuse(tokenFamily: TokenFamily) {
+    const user = await this.db.user.findUnique({
+      where: { id: tokenFamily.userId },
+    });
+    if (!user) {
+      return;
+    }
+
+    await this.sendSuspiciousActivityEmail(
+      user,
+      tokenFamily,
+      'Activité suspecte sur votre compte',
+      ['Réutilisation d’un jeton de session déjà remplacé']
+    );
+  }
+
+  /**
+   * Tells the user which session was closed because the limit of simultaneous
+   * sessions was reached, and which new session caused it.
+   * @param user - The user owning the sessions.
+   * @param evictedFamily - The session closed.
+   * @param newFamily - The session just opened.
+   */
+  async sendEvictionNotice(
+    user: User,
+    evictedFamily: TokenFamily,
+    newFamily: TokenFamily
+  ) {
+    await MailModule.getMailService().sendMail({
+      to: user.email,
+      subject: 'Une de vos sessions a été fermée',
+      templateName: 'session-evicted',
+      templateData: {
+        name: user.username,
+        maxSessions: config.jwt.maxConnexions,
+        evictedSession: SessionAlertService.describeSession(evictedFamily),
+        newSession: SessionAlertService.describeSession(newFamily),
+      },
+    });
+  }
+
+  private async sendSuspiciousActivityEmail(
+    user: User,
+    tokenFamily: TokenFamily,
+    subject: string,
+    reasons: string[]
+  ) {
+    const token = JwtUtil.generateSignInReportToken({
+      userId: user.id,
+      familyId: tokenFamily.id,
+      purpose: 'sign-in-report',
+    });
+
+    const reportUrl = ApiUrlUtil.url('admin-auth/report-sign-in', { token });
+
+    await MailModule.getMailService().sendMail({
+      to: user.email,
+      subject,
+      templateName: 'suspicious-sign-in',
+      templateData: {
+        name: user.username,
+        title: subject,
+        reasons,
+        session: SessionAlertService.describeSession(tokenFamily),
+        reportUrl,
+        expiresIn: config.signInAlert.reportLinkExpiresIn,
+      },
+    });
+  }
+
+  /**
+   * Identifies the device and client of a session.
+   */
+  private static deviceKey(session: TokenFamily) {
+    return [
+      session.deviceType,
+      session.deviceBrand,
+      session.deviceModel,
+      session.clientName,
+    ].join('|');
+  }
+
+  /**
+   * Reduces an IP address to its network: /24 for IPv4, /48 for IPv6.
+   */
+  private static ipRange(ipAddress: string) {
+    // The first address of X-Forwarded-For is the client
+    const ip = (ipAddress.split(',')[0] ?? '').trim().replace(/^::ffff:/, '');
+
+    if (net.isIPv4(ip)) {
+      return ip.split('.').slice(0, 3).join('.');
+    }
+    if (net.isIPv6(ip)) {
+      // Expand the "::" shorthand before keeping the first three groups
+      const [head = '', tail = ''] = ip.split('::');
+      const headGroups = head ? head.split(':') : [];
+      const tailGroups = tail ? tail.split(':') : [];
+      const groups = ip.includes('::')
+        ? [
+            ...headGroups,
+            ...Array(8 - headGroups.length - tailGroups.length).fill('0'),
+            ...tailGroups,
+          ]
+        : headGroups;
+      return groups
+        .slice(0, 3)
+        .map((group) => group.replace(/^0+(?=.)/, '').toLowerCase())
+        .join(':');
+    }
+    return ip;
+  }
+
+  /**
+   * Builds a short human-readable description of the device of a session.
+   */
+  private static describeSession(session: TokenFamily) {
+    const known = (value: string) => value && value !== 'unknown';
+    const device = [session.deviceBrand, session.deviceModel].filter(known);
+    const os = [session.osName, session.osVersion].filter(known);
+    const client = [session.clientName, session.clientVersion].filter(known);
+
+    return {
+      label: session.label,
+      device: device.join(' ') || session.deviceType,
+      os: os.join(' '),
+      client: client.join(' '),
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,105 @@
+import AdminAuthService from './adminAuth.service';
+import { SessionRename } from './adminAuth.types';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import { Request, Response } from 'express';
+import { Service } from 'typedi';
+import { log } from 'console';
+
+/**
+ * Session management, used by the routes of the authenticated user (`/admin-auth/sessions`)
+ * and by the admin routes acting on behalf of a user (`/users/:userId/sessions`).
+ */
+@Service()
+export default class SessionsController {
+  constructor(private readonly adminAuthService: AdminAuthService) {}
+
+  /**
+   * Lists the active sessions, the one making the request being marked as `current`.
+   *
+   * @param {Request} req - The HTTP request object, with the optional `userId` route parameter.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the sessions and their device data.
+   */
+  async sessions(req: Request, res: Response): Promise<void> {
+    try {
+      log('List Sessions Request Received');
+
+      const user = (req as any).user;
+      const payload = req.params.userId
+        ? await this.adminAuthService.sessions(req.params.userId)
+        : await this.adminAuthService.sessions(user.id, user.sessionId);
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message: (error as Error).message || 'Listing sessions failed.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Renames a session.
+   *
+   * @param {Request} req - The HTTP request object with the `sessionId` route parameter and the label in the body.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the renamed session.
+   */
+  async renameSession(req: Request, res: Response): Promise<void> {
+    try {
+      log('Rename Session Request Received');
+
+      const data: SessionRename = req.body;
+      const payload = await this.adminAuthService.renameSession(
+        this.targetUserId(req),
+        Number(req.params.sessionId),
+        data
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message: (error as Error).message || 'Renaming the session failed.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Revokes a session.
+   *
+   * @param {Request} req - The HTTP request object with the `sessionId` route parameter.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves when the session is revoked.
+   */
+  async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      log('Revoke Session Request Received');
+
+      const payload = await this.adminAuthService.revokeSession(
+        this.targetUserId(req),
+        Number(req.params.sessionId)
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message: (error as Error).message || 'Revoking the session failed.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * The user named in the admin routes, otherwise the authenticated user.
+   */
+  private targetUserId(req: Request): string {
+    return req.params.userId ?? (req as any).user.id;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * signInReport.service.ts
+ *
+ * This file defines the SignInReportService class, which handles the "this wasn't me"
+ * links sent by `SessionAlertService`. Reporting a session closes every session of the
+ * user, including the reported one, and forces a password reset.
+ *
+ * Opening a link only shows a confirmation page, so that mail scanners following links do
+ * not close the sessions; the report itself is a POST of the token.
+ * A link can only be used once: the reported session is marked with `reportedAt`.
+ */
+
+import { Service } from 'typedi';
+import { log } from 'console';
+import ServiceDefinition from '../definitions/service';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import JwtUtil from '@/core/utils/jwt.util';
+import UsersService from '../users/users.service';
+
+@Service()
+export default class SignInReportService extends ServiceDefinition {
+  constructor(
+    prismaService: PrismaService,
+    private readonly usersService: UsersService
+  ) {
+    super(prismaService);
+  }
+
+  /**
+   * Handles a "this wasn't me" link.
+   * @param token - The token of the link.
+   * @returns A boolean indicating success.
+   * @throws Error if the link is invalid or expired.
+   */
+  async reportSignIn(token: string) {
+    const payload = this.verifyReportToken(token);
+
+    try {
+      // Mark the session first, so that a second click does nothing
+      const { count } = await this.db.tokenFamily.updateMany({
+        where: {
+          id: payload.familyId,
+          userId: payload.userId,
+          reportedAt: null,
+        },
+        data: { reportedAt: new Date() },
+      });
+      if (count === 0) {
+        return true;
+      }
+
+      // Closes every session, the reported one included, and emails a reset code
+      await this.usersService.requirePasswordReset(payload.userId);
+      log(
+        `Session ${payload.familyId} reported by user ${payload.userId}, password reset forced`
+      );
+
+      return true;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Checks the token of a "this wasn't me" link, without using it.
+   * @param token - The token of the link.
+   * @returns The payload of the token.
+   * @throws Error if the link is invalid or expired.
+   */
+  verifyReportToken(token: string) {
+    try {
+      return JwtUtil.verifySignInReportToken(token);
+    } catch {
+      throw new Error('Invalid or expired link');
+    }
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * tokenRevocation.service.ts
+ *
+ * This file defines the TokenRevocationService class, which keeps the list of access
+ * tokens revoked before their expiration (logout, session revocation, deactivation...).
+ *
+ * Access tokens are identified by their `jti` claim. Revocations are stored in the
+ * database so every instance of the API sees them, and kept in an in-memory cache so
+ * `verifyJWT` does not query the database on each request. The cache is refreshed with
+ * the entries created since the last sync once `config.tokenRevocation.syncInterval`
+ * has elapsed. Entries are purged once the token would have expired anyway.
+ */
+
+import { Service } from 'typedi';
+import { log } from 'console';
+import config from '@/config';
+import ServiceDefinition from '../definitions/service';
+import DateUtil from '@/core/utils/date.util';
+
+export interface RevokedAccessTokenEntry {
+  jti: string;
+  expiresAt: Date;
+  userId?: string | null;
+}
+
+const syncInterval = DateUtil.parseDurationToMilliseconds(
+  config.tokenRevocation.syncInterval
+);
+
+@Service()
+export default class TokenRevocationService extends ServiceDefinition {
+  // Revoked jti -> expiration timestamp (ms)
+  private readonly revoked = new Map<string, number>();
+  // Creation date of the most recent entry loaded from the database
+  private cursor: Date | null = null;
+  private lastSyncAt = 0;
+  private pendingSync: Promise<void> | null = null;
+
+  /**
+   * Revokes access tokens until their expiration.
+   * @param entries - The tokens to revoke.
+   */
+  async revoke(entries: RevokedAccessTokenEntry[]) {
+    const now = Date.now();
+    const active = entries.filter((entry) => entry.expiresAt.getTime() > now);
+
+    if (active.length === 0) {
+      return;
+    }
+
+    try {
+      await this.db.revokedAccessToken.createMany({
+        data: active.map((entry) => ({
+          jti: entry.jti,
+          expiresAt: entry.expiresAt,
+          userId: entry.userId ?? null,
+        })),
+        skipDuplicates: true,
+      });
+
+      for (const entry of active) {
+        this.revoked.set(entry.jti, entry.expiresAt.getTime());
+      }
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Checks whether an access token has been revoked.
+   * @param jti - The identifier of the access token.
+   * @returns True if the token is revoked.
+   */
+  async isRevoked(jti: string): Promise<boolean> {
+    await this.sync();
+
+    const expiresAt = this.revoked.get(jti);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  /**
+   * Removes the entries of tokens that have expired, from the database and the cache.
+   * @returns The number of entries removed from the database.
+   */
+  async purgeExpired() {
+    try {
+      const now = new Date();
+      const { count } = await this.db.revokedAccessToken.deleteMany({
+        where: { expiresAt: { lte: now } },
+      });
+
+      this.evictExpired(now.getTime());
+      log(`Purged ${count} expired revoked access tokens`);
+
+      return count;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Loads the revocations made since the last sync, possibly by another instance.
+   * Concurrent callers share the same query.
+   */
+  private async sync() {
+    if (Date.now() - this.lastSyncAt < syncInterval) {
+      return;
+    }
+
+    this.pendingSync ??= this.loadRevocations().finally(() => {
+      this.pendingSync = null;
+    });
+
+    await this.pendingSync;
+  }
+
+  private async loadRevocations() {
+    const now = new Date();
+    const entries = await this.db.revokedAccessToken.findMany({
+      where: {
+        expiresAt: { gt: now },
+        // Overlap of one interval, for entries committed late by another instance
+        ...(this.cursor && {
+          createdAt: { gte: new Date(this.cursor.getTime() - syncInterval) },
+        }),
+      },
+      select: { jti: true, expiresAt: true, createdAt: true },
+    });
+
+    for (const entry of entries) {
+      this.revoked.set(entry.jti, entry.expiresAt.getTime());
+      if (!this.cursor || entry.createdAt > this.cursor) {
+        this.cursor = entry.createdAt;
+      }
+    }
+
+    this.evictExpired(now.getTime());
+    this.lastSyncAt = now.getTime();
+  }
+
+  private evictExpired(now: number) {
+    for (const [jti, expiresAt] of this.revoked) {
+      if (expiresAt <= now) {
+        this.revoked.delete(jti);
+      }
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import TwoFactorService from './twoFactor.service';
+import { TwoFactorCode, TwoFactorVerify } from './adminAuth.types';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import AuthCookieUtil from '@/core/utils/authCookie.util';
+import { Request, Response } from 'express';
+import { Service } from 'typedi';
+import { log } from 'console';
+
+@Service()
+export default class TwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  /**
+   * Starts the two-factor enrollment of the authenticated admin.
+   *
+   * @param {Request} req - The HTTP request object of the authenticated user.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the secret and the otpauth URI to scan.
+   */
+  async setup(req: Request, res: Response): Promise<void> {
+    try {
+      log('2FA Setup Request Received');
+
+      const userId = (req as any).user.id;
+
+      const payload = await this.twoFactorService.setup(userId);
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message || 'Two-factor authentication setup failed.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Confirms the enrollment with a first authenticator code.
+   *
+   * @param {Request} req - The HTTP request object containing the code in the body.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the recovery codes, shown only once.
+   */
+  async confirm(req: Request, res: Response): Promise<void> {
+    try {
+      log('2FA Confirm Request Received');
+
+      const userId = (req as any).user.id;
+      const data: TwoFactorCode = req.body;
+
+      const payload = await this.twoFactorService.confirm(userId, data);
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'Two-factor authentication confirmation failed.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Disables two-factor authentication after checking a fresh code.
+   *
+   * @param {Request} req - The HTTP request object containing the code in the body.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves when the second factor is removed.
+   */
+  async disable(req: Request, res: Response): Promise<void> {
+    try {
+      log('2FA Disable Request Received');
+
+      const userId = (req as any).user.id;
+      const data: TwoFactorCode = req.body;
+
+      const payload = await this.twoFactorService.disable(userId, data);
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'Disabling two-factor authentication failed.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Completes a sign-in started on `/admin-auth/sign-in` for a user with 2FA enabled.
+   * Accepts the same `transport` option as the sign-in.
+   *
+   * @param {Request} req - The HTTP request object containing the challenge token and the code.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with a token payload if the code is valid.
+   */
+  async verify(req: Request, res: Response): Promise<void> {
+    try {
+      log('2FA Verify Request Received');
+
+      const data: TwoFactorVerify = req.body;
+
+      const payload = await this.twoFactorService.verifyChallenge(
+        data,
+        (req as any).clientInfo
+      );
+
+      const response = ApiResponse.http200(
+        AuthCookieUtil.requestedTransport(req) === 'cookie'
+          ? AuthCookieUtil.applyCookieTransport(res, payload)
+          : payload
+      );
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http401({
+        message: (error as Error).message || 'Two-factor verification failed.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * twoFactor.service.ts
+ *
+ * This file defines the TwoFactorService class, which handles the optional
+ * TOTP (RFC 6238) second factor of admin accounts: enrollment, confirmation,
+ * deactivation and the second sign-in step.
+ *
+ * Security measures:
+ * - The TOTP secret is stored encrypted and is only readable during enrollment.
+ * - A code is accepted at most once (the last used time step is remembered).
+ * - Recovery codes are stored as HMAC digests and can only be used once.
+ * - Disabling the second factor requires a fresh authenticator code.
+ * - Failed second-factor attempts count towards the sign-in lockout.
+ */
+
+import crypto from 'crypto';
+import { Service } from 'typedi';
+import { User } from '@prisma/client';
+import { log } from 'console';
+import config from '@/config';
+import ServiceDefinition from '../definitions/service';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import AdminAuthService from './adminAuth.service';
+import LoginProtectionService from './loginProtection.service';
+import { ClientInfo } from '@/core/types';
+import CryptoUtil from '@/core/utils/crypto.util';
+import JwtUtil from '@/core/utils/jwt.util';
+import OtpUtil from '@/core/utils/otp.util';
+import TotpUtil from '@/core/utils/totp.util';
+import {
+  TwoFactorCode,
+  twoFactorCodeSchema,
+  TwoFactorVerify,
+  twoFactorVerifySchema,
+} from './adminAuth.types';
+
+@Service()
+export default class TwoFactorService extends ServiceDefinition {
+  constructor(
+    prismaService: PrismaService,
+    private readonly adminAuthService: AdminAuthService,
+    private readonly loginProtectionService: LoginProtectionService
+  ) {
+    super(prismaService);
+  }
+
+  /**
+   * Starts the enrollment: generates a new secret and the URI to display as a QR code.
+   * The second factor stays inactive until a first code is confirmed.
+   * @param userId - The ID of the authenticated user.
+   * @returns The base32 secret and its `otpauth://` URI.
+   */
+  async setup(userId: string) {
+    try {
+      const user = await this.db.user.findUniqueOrThrow({
+        where: { id: userId },
+      });
+
+      if (user.twoFactorEnabledAt) {
+        throw new Error('Two-factor authentication is already enabled');
+      }
+
+      const secret = TotpUtil.generateSecret();
+      await this.db.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorSecret: CryptoUtil.encrypt(secret),
+          twoFactorLastUsedStep: null,
+        },
+      });
+
+      return {
+        secret,
+        otpauthUri: TotpUtil.buildOtpAuthUri(
+          secret,
+          user.username,
+          config.twoFactor.issuer
+        ),
+      };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Completes the enrollment with a first authenticator code and issues the recovery codes.
+   * @param userId - The ID of the authenticated user.
+   * @param data - The code displayed by the authenticator application.
+   * @returns The recovery codes, shown only once.
+   */
+  async confirm(userId: string, data: TwoFactorCode) {
+    try {
+      const cleanData = twoFactorCodeSchema.parse(data);
+      const user = await this.db.user.findUniqueOrThrow({
+        where: { id: userId },
+      });
+
+      if (user.twoFactorEnabledAt) {
+        throw new Error('Two-factor authentication is already enabled');
+      }
+      if (!user.twoFactorSecret) {
+        throw new Error('Two-factor authentication setup has not been started');
+      }
+
+      await this.useTotpCode(user, cleanData.code);
+      const recoveryCodes = this.generateRecoveryCodes();
+
+      await this.db.$transaction([
+        this.db.user.update({
+          where: { id: userId },
+          data: { twoFactorEnabledAt: new Date() },
+        }),
+        this.db.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+        this.db.twoFactorRecoveryCode.createMany({
+          data: recoveryCodes.map((code) => ({
+            userId,
+            codeHash: OtpUtil.hashCode(this.normalizeRecoveryCode(code)),
+          })),
+        }),
+      ]);
+      log(`Two-factor authentication enabled for user ${userId}`);
+
+      return { recoveryCodes };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Disables the second factor. A fresh authenticator code is required so a
+   * stolen session alone cannot remove the protection.
+   * @param userId - The ID of the authenticated user.
+   * @param data - The code displayed by the authenticator application.
+   */
+  async disable(userId: string, data: TwoFactorCode) {
+    try {
+      const cleanData = twoFactorCodeSchema.parse(data);
+      const user = await this.db.user.findUniqueOrThrow({
+        where: { id: userId },
+      });
+
+      if (!user.twoFactorEnabledAt) {
+        throw new Error('Two-factor authentication is not enabled');
+      }
+
+      await this.useTotpCode(user, cleanData.code);
+
+      await this.db.$transaction([
+        this.db.user.update({
+          where: { id: userId },
+          data: {
+            twoFactorSecret: null,
+            twoFactorEnabledAt: null,
+            twoFactorLastUsedStep: null,
+          },
+        }),
+        this.db.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      ]);
+      log(`Two-factor authentication disabled for user ${userId}`);
+
+      return true;
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Second sign-in step: exchanges the challenge token returned by `signIn`
+   * and a valid code (or an unused recovery code) for a new session.
+   * @param data - The challenge token and the authenticator or recovery code.
+   * @param clientInfo - Client metadata (IP address, user agent, etc.).
+   * @returns An object containing access and refresh tokens along with user data.
+   */
+  async verifyChallenge(data: TwoFactorVerify, clientInfo: ClientInfo) {
+    try {
+      const cleanData = twoFactorVerifySchema.parse(data);
+
+      let userId: string;
+      try {
+        userId = JwtUtil.verifyTwoFactorChallengeToken(
+          cleanData.challengeToken
+        ).userId;
+      } catch {
+        throw new Error('Invalid or expired challenge, please sign in again');
+      }
+
+      const user = await this.db.user.findUniqueOrThrow({
+        where: { id: userId },
+      });
+      if (!user.twoFactorEnabledAt) {
+        throw new Error('Two-factor authentication is not enabled');
+      }
+
+      // Second-factor guesses count towards the sign-in lockout of the account
+      await this.loginProtectionService.guard(user.username, clientInfo);
+      try {
+        if (cleanData.code) {
+          await this.useTotpCode(user, cleanData.code);
+        } else {
+          await this.useRecoveryCode(user.id, cleanData.recoveryCode as string);
+        }
+      } catch (error) {
+        await this.loginProtectionService.recordFailure(
+          user.username,
+          clientInfo,
+          'INVALID_TWO_FACTOR',
+          user.id
+        );
+        throw error;
+      }
+
+      return await this.adminAuthService.openSession(
+        user,
+        clientInfo,
+        cleanData.client_type
+      );
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Checks an authenticator code against the stored secret and marks its time step as
+   * used. The step is claimed by a conditional update, so a code cannot be replayed,
+   * even by parallel requests.
+   * @param user - The user owning the secret.
+   * @param code - The submitted code.
+   */
+  private async useTotpCode(user: User, code: string) {
+    if (!user.twoFactorSecret) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const timeStep = TotpUtil.verifyCode(
+      CryptoUtil.decrypt(user.twoFactorSecret),
+      code
+    );
+    if (timeStep === null) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    const { count } = await this.db.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [
+          { twoFactorLastUsedStep: null },
+          { twoFactorLastUsedStep: { lt: timeStep } },
+        ],
+      },
+      data: { twoFactorLastUsedStep: timeStep },
+    });
+    if (count === 0) {
+      throw new Error('Invalid two-factor code');
+    }
+  }
+
+  /**
+   * Marks an unused recovery code as used.
+   * @param userId - The ID of the user.
+   * @param code - The submitted recovery code.
+   */
+  private async useRecoveryCode(userId: string, code: string) {
+    const { count } = await this.db.twoFactorRecoveryCode.updateMany({
+      where: {
+        userId,
+        usedAt: null,
+        codeHash: OtpUtil.hashCode(this.normalizeRecoveryCode(code)),
+      },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      throw new Error('Invalid recovery code');
+    }
+  }
+
+  /**
+   * Generates the clear recovery codes, formatted as `xxxxx-xxxxx`.
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: config.twoFactor.recoveryCodesCount }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  /**
+   * Normalizes a recovery code so dashes and case do not matter.
+   */
+  private normalizeRecoveryCode(code: string): string {
+    return code.replace(/[\s-]/g, '').toLowerCase();
+  }
+}
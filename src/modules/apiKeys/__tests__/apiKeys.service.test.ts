@@ -0,0 +1,72 @@
+import 'reflect-metadata';
+import crypto from 'crypto';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import AuditLogsService from '../../auditLogs/auditLogs.service';
+import ApiKeysService from '../apiKeys.service';
+
+const key = 'mdg_0123456789ab.secret';
+
+const storedKey = {
+  id: 'key-1',
+  prefix: 'mdg_0123456789ab',
+  keyHash: crypto.createHash('sha256').update(key).digest('hex'),
+  revokedAt: null,
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  lastUsedAt: null as Date | null,
+  user: { isActive: true, profiles: ['PARTNER'] },
+};
+
+describe('ApiKeysService.authenticate', () => {
+  const update = jest.fn(async () => storedKey);
+  let lastUsedAt: Date | null;
+  let apiKeysService: ApiKeysService;
+
+  beforeEach(() => {
+    update.mockClear();
+    lastUsedAt = null;
+    apiKeysService = new ApiKeysService(
+      {
+        getClient: () => ({
+          apiKey: {
+            findUnique: async () => ({ ...storedKey, lastUsedAt }),
+            update,
+          },
+        }),
+      } as unknown as PrismaService,
+      {} as AuditLogsService
+    );
+  });
+
+  it('records the first use of a key', async () => {
+    await apiKeysService.authenticate(key, '203.0.113.7');
+
+    expect(update).toHaveBeenCalledWith({
+      where: { id: 'key-1' },
+      data: { lastUsedAt: expect.any(Date), lastUsedIp: '203.0.113.7' },
+    });
+  });
+
+  it('does not record the use again within a minute', async () => {
+    lastUsedAt = new Date(Date.now() - 30 * 1000);
+
+    await apiKeysService.authenticate(key, '203.0.113.7');
+
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('records the use again after a minute', async () => {
+    lastUsedAt = new Date(Date.now() - 61 * 1000);
+
+    await apiKeysService.authenticate(key, '203.0.113.7');
+
+    expect(update).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a key whose secret does not match', async () => {
+    await expect(
+      apiKeysService.authenticate('mdg_0123456789ab.other', '203.0.113.7')
+    ).rejects.toThrow('Invalid API key');
+    expect(update).not.toHaveBeenCalled();
+  });
+});
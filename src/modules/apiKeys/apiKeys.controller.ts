@@ -0,0 +1,113 @@
+import { Request, Response } from 'express';
+import { log } from 'console';
+import { Prisma } from '@prisma/client';
+import { Service } from 'typedi';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import ApiKeysService from './apiKeys.service';
+import { ApiKeyCreate } from './apiKeys.types';
+
+@Service()
+export default class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  /**
+   * Lists API keys with pagination.
+   *
+   * @param {Request} req - The HTTP request object. Supported query parameters: `page`, `pageSize`,
+   * `userId` and `active` (only keys neither revoked nor expired).
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with a page of keys, without their secret.
+   */
+  async apiKeys(req: Request, res: Response): Promise<void> {
+    try {
+      log('List API Keys Request Received');
+
+      const page = parseInt(req.query.page as string) || 1;
+      const pageSize = parseInt(req.query.pageSize as string) || 10;
+
+      const filters: Prisma.ApiKeyWhereInput = {};
+      if (req.query.userId) {
+        filters.userId = req.query.userId as string;
+      }
+      if (req.query.active === 'true') {
+        filters.revokedAt = null;
+        filters.expiresAt = { gt: new Date() };
+      }
+
+      const payload = await this.apiKeysService.apiKeys(
+        page,
+        pageSize,
+        filters
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while fetching API keys.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Issues a new API key to a partner user.
+   *
+   * @param {Request} req - The HTTP request object containing the partner, name, scopes and expiry.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the key metadata and the clear key, shown only once.
+   */
+  async createApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      log('Create API Key Request Received');
+
+      const data: ApiKeyCreate = req.body;
+      const payload = await this.apiKeysService.createApiKey(data);
+
+      const response = ApiResponse.http201(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while creating the API key.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Revokes an API key.
+   *
+   * @param {Request} req - The HTTP request object with the `apiKeyId` route parameter.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the revoked key.
+   */
+  async revokeApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      log('Revoke API Key Request Received');
+
+      const payload = await this.apiKeysService.revokeApiKey(
+        req.params.apiKeyId as string
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while revoking the API key.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import router from './apiKeys.routes';
+
+// Define an apiKeysModule object to structure the module
+const apiKeysModule = {
+  // The controller property holds the router with the defined routes from 'apiKeys.routes.ts'
+  controller: router,
+};
+
+// Export the module to be used elsewhere in the application
+export default apiKeysModule;
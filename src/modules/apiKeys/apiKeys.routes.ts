@@ -0,0 +1,39 @@
+import express from 'express';
+import Container from 'typedi';
+import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
+import verifyJWT from '@/core/middlewares/jwt.middleware';
+import ApiKeysController from './apiKeys.controller';
+
+// Get the instance of ApiKeysController from the container
+const apiKeysController = Container.get(ApiKeysController);
+
+// Create a new express router
+const router = express.Router();
+
+// Apply the prefix for all routes under the '/api-keys' path
+prefixRoutes(router, '/api-keys');
+
+// Route for listing API keys (GET request)
+router.get('/', verifyJWT, requirePermission('apikey:manage'), (req, res) =>
+  apiKeysController.apiKeys(req, res)
+);
+
+// Route for issuing an API key to a partner (POST request)
+router.post(
+  '/save',
+  verifyJWT,
+  requirePermission('apikey:manage'),
+  (req, res) => apiKeysController.createApiKey(req, res)
+);
+
+// Route for revoking an API key (PATCH request)
+router.patch(
+  '/:apiKeyId/revoke',
+  verifyJWT,
+  requirePermission('apikey:manage'),
+  (req, res) => apiKeysController.revokeApiKey(req, res)
+);
+
+// Export the configured router
+export default router;
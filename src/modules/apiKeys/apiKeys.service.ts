@@ -0,0 +1,222 @@
+/**
+ * apiKeys.service.ts
+ *
+ * This file defines the ApiKeysService class, which issues, lists and revokes
+ * the API keys used by partner integrations, and authenticates the requests
+ * sent with an `X-API-Key` header.
+ *
+ * Key format: `mdg_<12 hex chars>.<secret>`. The part before the dot is the
+ * visible prefix stored in clear to identify the key; only a SHA-256 digest of
+ * the whole key is stored, the clear key is returned once at creation.
+ *
+ * Keys are written on every authenticated request, so the audit extension leaves them
+ * out; their issuance and revocation are recorded here.
+ */
+
+import crypto from 'crypto';
+import { Service } from 'typedi';
+import { Prisma } from '@prisma/client';
+import { log } from 'console';
+import config from '@/config';
+import ServiceDefinition from '../definitions/service';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import AuditLogsService from '../auditLogs/auditLogs.service';
+import DateUtil from '@/core/utils/date.util';
+import { ApiKeyCreate, apiKeyCreateSchema } from './apiKeys.types';
+
+const KEY_PREFIX = 'mdg_';
+
+// The last use of a key is recorded at most once per interval, not on every request
+const USAGE_RECORD_INTERVAL = 60 * 1000;
+
+// Fields exposed by the API keys API
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdAt: true,
+  userId: true,
+  user: { select: { username: true, email: true } },
+} satisfies Prisma.ApiKeySelect;
+
+@Service()
+export default class ApiKeysService extends ServiceDefinition {
+  constructor(
+    prismaService: PrismaService,
+    private readonly auditLogsService: AuditLogsService
+  ) {
+    super(prismaService);
+  }
+
+  /**
+   * Issues a new key to a partner user.
+   * @param data - The partner, the label, the scopes and the optional expiry of the key.
+   * @returns The stored key metadata and the clear key, shown only once.
+   */
+  async createApiKey(data: ApiKeyCreate) {
+    try {
+      const cleanData = apiKeyCreateSchema.parse(data);
+
+      const user = await this.db.user.findUniqueOrThrow({
+        where: { id: cleanData.userId },
+      });
+      if (!user.isActive || !user.profiles.includes('PARTNER')) {
+        throw new Error('API keys can only be issued to active PARTNER users');
+      }
+
+      const prefix = KEY_PREFIX + crypto.randomBytes(6).toString('hex');
+      const key = `${prefix}.${crypto.randomBytes(24).toString('base64url')}`;
+
+      const apiKey = await this.db.apiKey.create({
+        data: {
+          userId: user.id,
+          name: cleanData.name,
+          prefix,
+          keyHash: this.hashKey(key),
+          scopes: cleanData.scopes,
+          expiresAt:
+            cleanData.expiresAt ??
+            DateUtil.getDateToInterval(
+              DateUtil.parseDurationToMilliseconds(config.apiKey.expiredIn)
+            ),
+        },
+        select: apiKeySelect,
+      });
+      await this.auditLogsService.record({
+        action: 'CREATE',
+        entityType: 'ApiKey',
+        entityId: apiKey.id,
+        details: {
+          name: apiKey.name,
+          prefix,
+          scopes: apiKey.scopes,
+          expiresAt: apiKey.expiresAt.toISOString(),
+          userId: user.id,
+        },
+      });
+      log(`API key ${prefix} issued to user ${user.id}`);
+
+      return { apiKey, key };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  async apiKeys(
+    page: number = 1,
+    pageSize: number = 10,
+    filters: Prisma.ApiKeyWhereInput = {}
+  ) {
+    try {
+      const skip = (page - 1) * pageSize;
+
+      const [total, data] = await this.db.$transaction([
+        this.db.apiKey.count({
+          where: filters,
+        }),
+
+        this.db.apiKey.findMany({
+          where: filters,
+          select: apiKeySelect,
+          skip,
+          take: pageSize,
+          orderBy: { createdAt: 'desc' },
+        }),
+      ]);
+
+      return {
+        data,
+        total,
+        page,
+        pageSize,
+      };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  async revokeApiKey(apiKeyId: string) {
+    try {
+      const apiKey = await this.db.apiKey.update({
+        where: { id: apiKeyId },
+        data: { revokedAt: new Date() },
+        select: apiKeySelect,
+      });
+      await this.auditLogsService.record({
+        action: 'UPDATE',
+        entityType: 'ApiKey',
+        entityId: apiKey.id,
+        details: { revokedAt: apiKey.revokedAt?.toISOString() ?? null },
+      });
+      log(`API key ${apiKey.prefix} revoked`);
+
+      return { apiKey };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Authenticates a request sent with an API key and records its use, at most once
+   * per `USAGE_RECORD_INTERVAL`.
+   * @param key - The clear key read from the `X-API-Key` header.
+   * @param ipAddress - The IP address of the caller.
+   * @returns The key and its owner.
+   * @throws Error if the key is unknown, revoked, expired, or its owner can no longer use it.
+   */
+  async authenticate(key: string, ipAddress: string) {
+    const invalidKeyError = new Error('Invalid API key');
+
+    const prefix = key.split('.')[0] ?? '';
+    const apiKey = await this.db.apiKey.findUnique({
+      where: { prefix },
+      include: { user: true },
+    });
+
+    if (!apiKey) {
+      throw invalidKeyError;
+    }
+
+    const expected = Buffer.from(apiKey.keyHash, 'hex');
+    const candidate = Buffer.from(this.hashKey(key), 'hex');
+    if (!crypto.timingSafeEqual(expected, candidate)) {
+      throw invalidKeyError;
+    }
+
+    if (apiKey.revokedAt) {
+      throw new Error('API key revoked');
+    }
+    if (apiKey.expiresAt < new Date()) {
+      throw new Error('API key expired');
+    }
+    if (!apiKey.user.isActive || !apiKey.user.profiles.includes('PARTNER')) {
+      throw invalidKeyError;
+    }
+
+    const now = new Date();
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() >= USAGE_RECORD_INTERVAL
+    ) {
+      await this.db.apiKey.update({
+        where: { id: apiKey.id },
+        data: { lastUsedAt: now, lastUsedIp: ipAddress },
+      });
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Returns the hexadecimal SHA-256 digest of a key. Keys are random enough
+   * for a fast hash, a slow one would only slow down every partner request.
+   */
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
@@ -0,0 +1,90 @@
+const apiKeysDocs = {
+  '/api-keys': {
+    get: {
+      summary: 'Lister les clés API',
+      tags: ['API Keys'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        { name: 'page', in: 'query', schema: { type: 'integer' } },
+        { name: 'pageSize', in: 'query', schema: { type: 'integer' } },
+        { name: 'userId', in: 'query', schema: { type: 'string' } },
+        {
+          name: 'active',
+          in: 'query',
+          description: 'Uniquement les clés ni révoquées ni expirées',
+          schema: { type: 'boolean' },
+        },
+      ],
+      responses: {
+        200: { description: 'Page de résultats' },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+  '/api-keys/save': {
+    post: {
+      summary: 'Émettre une clé API pour un partenaire',
+      tags: ['API Keys'],
+      security: [{ bearerAuth: [] }],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/ApiKeyCreateRequest' },
+          },
+        },
+      },
+      responses: {
+        201: {
+          description: 'Clé créée, la clé en clair n’est affichée qu’une fois',
+        },
+        400: { description: 'Erreur de validation ou utilisateur non PARTNER' },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+  '/api-keys/{apiKeyId}/revoke': {
+    patch: {
+      summary: 'Révoquer une clé API',
+      tags: ['API Keys'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        {
+          name: 'apiKeyId',
+          in: 'path',
+          required: true,
+          schema: { type: 'string', format: 'uuid' },
+        },
+      ],
+      responses: {
+        200: { description: 'Clé révoquée' },
+        400: { description: 'Clé introuvable' },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+};
+
+const apiKeysSchemas = {
+  ApiKeyCreateRequest: {
+    type: 'object',
+    properties: {
+      userId: { type: 'string', format: 'uuid' },
+      name: { type: 'string', example: 'ERP partenaire' },
+      scopes: {
+        type: 'array',
+        items: { type: 'string', enum: ['catalog:read', 'stock:read'] },
+        example: ['catalog:read'],
+      },
+      expiresAt: {
+        type: 'string',
+        format: 'date-time',
+        example: '2026-12-31T23:59:59.000Z',
+      },
+    },
+    required: ['userId', 'name', 'scopes'],
+  },
+};
+
+export default apiKeysDocs;
+export { apiKeysSchemas };
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { API_KEY_SCOPES, Permission } from '@/core/constants/permissions';
+
+// Payload accepted when an admin issues a key to a partner
+export const apiKeyCreateSchema = z.object({
+  userId: z.string().uuid(),
+  name: z.string().trim().min(1).max(100),
+  scopes: z
+    .array(
+      z
+        .string()
+        .refine((scope) => API_KEY_SCOPES.includes(scope as Permission), {
+          message: `Allowed scopes: ${API_KEY_SCOPES.join(', ')}`,
+        })
+    )
+    .nonempty('At least one scope is required')
+    .transform((scopes) => [...new Set(scopes)]),
+  expiresAt: z.coerce
+    .date()
+    .refine((date) => date > new Date(), {
+      message: 'The expiry must be in the future',
+    })
+    .optional(),
+});
+
+export type ApiKeyCreate = z.infer<typeof apiKeyCreateSchema>;
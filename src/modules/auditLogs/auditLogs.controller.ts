@@ -0,0 +1,108 @@
+import { Request, Response } from 'express';
+import { log } from 'console';
+import { AuditAction, Prisma } from '@prisma/client';
+import { Service } from 'typedi';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import StringUtil from '@/core/utils/string.util';
+import AuditLogsService from './auditLogs.service';
+
+@Service()
+export default class AuditLogsController {
+  constructor(private readonly auditLogsService: AuditLogsService) {}
+
+  /**
+   * Lists audit entries with pagination.
+   *
+   * @param {Request} req - The HTTP request object. Supported query parameters: `page`, `pageSize`,
+   * `actorId`, `entityType`, `entityId`, `action`, `from` and `to` (ISO dates).
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with a page of audit entries.
+   */
+  async auditLogs(req: Request, res: Response): Promise<void> {
+    try {
+      log('List Audit Logs Request Received');
+
+      const page = parseInt(req.query.page as string) || 1;
+      const pageSize = parseInt(req.query.pageSize as string) || 20;
+
+      const filters: Prisma.AuditLogWhereInput = {};
+      if (req.query.actorId) {
+        filters.actorId = req.query.actorId as string;
+      }
+      if (req.query.entityType) {
+        filters.entityType = req.query.entityType as string;
+      }
+      if (req.query.entityId) {
+        filters.entityId = req.query.entityId as string;
+      }
+      if (req.query.action) {
+        const action = req.query.action as AuditAction;
+        if (!Object.values(AuditAction).includes(action)) {
+          throw new Error('Invalid action filter');
+        }
+        filters.action = action;
+      }
+      if (req.query.from || req.query.to) {
+        const from = req.query.from ? new Date(req.query.from as string) : null;
+        const to = req.query.to ? new Date(req.query.to as string) : null;
+        if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+          throw new Error('Invalid date filter');
+        }
+        filters.createdAt = {
+          ...(from && { gte: from }),
+          ...(to && { lte: to }),
+        };
+      }
+
+      const payload = await this.auditLogsService.auditLogs(
+        page,
+        pageSize,
+        filters
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while fetching audit logs.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Retrieves an audit entry by its ID.
+   *
+   * @param {Request} req - The HTTP request object with the `auditLogId` route parameter.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the audit entry.
+   */
+  async auditLog(req: Request, res: Response): Promise<void> {
+    try {
+      log('Get Audit Log Request Received');
+
+      const id = StringUtil.parseAndValidateNumber(
+        req.params.auditLogId as string
+      );
+      if (id === null) {
+        throw Error('Invalid auditLogId parameter');
+      }
+
+      const payload = await this.auditLogsService.auditLog(id);
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while fetching the audit log.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+}
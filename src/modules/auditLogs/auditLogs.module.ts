@@ -0,0 +1,10 @@
+import router from './auditLogs.routes';
+
+// Define an auditLogsModule object to structure the module
+const auditLogsModule = {
+  // The controller property holds the router with the defined routes from 'auditLogs.routes.ts'
+  controller: router,
+};
+
+// Export the module to be used elsewhere in the application
+export default auditLogsModule;
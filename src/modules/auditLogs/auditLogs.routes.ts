@@ -0,0 +1,31 @@
+import express from 'express';
+import Container from 'typedi';
+import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
+import verifyJWT from '@/core/middlewares/jwt.middleware';
+import AuditLogsController from './auditLogs.controller';
+
+// Get the instance of AuditLogsController from the container
+const auditLogsController = Container.get(AuditLogsController);
+
+// Create a new express router
+const router = express.Router();
+
+// Apply the prefix for all routes under the '/audit-logs' path
+prefixRoutes(router, '/audit-logs');
+
+// Route for listing audit entries (GET request)
+router.get('/', verifyJWT, requirePermission('audit:read'), (req, res) =>
+  auditLogsController.auditLogs(req, res)
+);
+
+// Route for retrieving an audit entry (GET request)
+router.get(
+  '/:auditLogId',
+  verifyJWT,
+  requirePermission('audit:read'),
+  (req, res) => auditLogsController.auditLog(req, res)
+);
+
+// Export the configured router
+export default router;
@@ -0,0 +1,120 @@
+/**
+ * auditLogs.service.ts
+ *
+ * This file defines the AuditLogsService class, which reads the audit log written by the
+ * audit Prisma extension (`database/prisma/extensions/audit.extension.ts`), records the
+ * actions that are not a plain change of an entity (e.g. an erasure), and purges the
+ * entries older than `config.audit.retention`.
+ */
+
+import { Service } from 'typedi';
+import { AuditAction, Prisma } from '@prisma/client';
+import { log } from 'console';
+import config from '@/config';
+import ServiceDefinition from '../definitions/service';
+import DateUtil from '@/core/utils/date.util';
+import RequestContextUtil from '@/core/utils/requestContext.util';
+
+export interface AuditRecord {
+  action: AuditAction;
+  entityType: string;
+  entityId: string;
+  details?: Prisma.InputJsonValue; // Stored as the `after` value of the entry
+}
+
+@Service()
+export default class AuditLogsService extends ServiceDefinition {
+  /**
+   * Lists audit entries, most recent first.
+   * @param page - The page number (default: 1).
+   * @param pageSize - The number of entries per page (default: 20).
+   * @param filters - Optional filters (actor, entity, action, period).
+   */
+  async auditLogs(
+    page: number = 1,
+    pageSize: number = 20,
+    filters: Prisma.AuditLogWhereInput = {}
+  ) {
+    try {
+      const skip = (page - 1) * pageSize;
+
+      const [total, data] = await this.db.$transaction([
+        this.db.auditLog.count({ where: filters }),
+        this.db.auditLog.findMany({
+          where: filters,
+          skip,
+          take: pageSize,
+          orderBy: { createdAt: 'desc' },
+        }),
+      ]);
+
+      return { data, total, page, pageSize };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Finds an audit entry by its ID.
+   * @param auditLogId - The ID of the entry.
+   */
+  async auditLog(auditLogId: number) {
+    try {
+      return await this.db.auditLog.findUniqueOrThrow({
+        where: { id: auditLogId },
+      });
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Records an action made by the user of the request being handled.
+   * @param record - The action and the entity it applies to.
+   */
+  async record(record: AuditRecord) {
+    try {
+      const actor = RequestContextUtil.actor();
+      return await this.db.auditLog.create({
+        data: {
+          action: record.action,
+          entityType: record.entityType,
+          entityId: record.entityId,
+          after: record.details ?? Prisma.DbNull,
+          actorId: actor?.id ?? null,
+          actorUsername: actor?.username ?? null,
+          impersonatorId: actor?.impersonatorId ?? null,
+          ipAddress: RequestContextUtil.ipAddress(),
+        },
+      });
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Deletes the entries older than the retention period.
+   * @returns The number of deleted entries.
+   */
+  async purgeExpired() {
+    try {
+      const { count } = await this.db.auditLog.deleteMany({
+        where: {
+          createdAt: {
+            lt: new Date(
+              Date.now() -
+                DateUtil.parseDurationToMilliseconds(config.audit.retention)
+            ),
+          },
+        },
+      });
+      if (count > 0) {
+        log(`${count} audit log entries purged`);
+      }
+
+      return count;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+}
@@ -0,0 +1,65 @@
+const auditLogsDocs = {
+  '/audit-logs': {
+    get: {
+      summary: 'Consulter le journal d’audit',
+      description:
+        'Chaque création, modification et suppression faite via l’API, avec l’auteur, les champs modifiés avant et après, et l’adresse IP du client.',
+      tags: ['Audit Logs'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        { name: 'page', in: 'query', schema: { type: 'integer' } },
+        { name: 'pageSize', in: 'query', schema: { type: 'integer' } },
+        { name: 'actorId', in: 'query', schema: { type: 'string' } },
+        {
+          name: 'entityType',
+          in: 'query',
+          description: 'Modèle de l’entité, par ex. Product',
+          schema: { type: 'string' },
+        },
+        { name: 'entityId', in: 'query', schema: { type: 'string' } },
+        {
+          name: 'action',
+          in: 'query',
+          schema: { type: 'string', enum: ['CREATE', 'UPDATE', 'DELETE'] },
+        },
+        {
+          name: 'from',
+          in: 'query',
+          schema: { type: 'string', format: 'date-time' },
+        },
+        {
+          name: 'to',
+          in: 'query',
+          schema: { type: 'string', format: 'date-time' },
+        },
+      ],
+      responses: {
+        200: { description: 'Page d’entrées du journal' },
+        400: { description: 'Filtre invalide' },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+  '/audit-logs/{auditLogId}': {
+    get: {
+      summary: 'Récupérer une entrée du journal d’audit',
+      tags: ['Audit Logs'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        {
+          name: 'auditLogId',
+          in: 'path',
+          required: true,
+          schema: { type: 'integer' },
+        },
+      ],
+      responses: {
+        200: { description: 'Entrée du journal' },
+        400: { description: 'Entrée introuvable' },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+};
+
+export default auditLogsDocs;
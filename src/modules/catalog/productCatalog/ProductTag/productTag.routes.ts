@@ -2,8 +2,9 @@ import express from 'express';
 import Container from 'typedi';
 import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
 import { ProductTagController } from './productTag.controller';
-import { rbacMiddleware } from '@/core/middlewares/rbac.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
 import verifyJWT from '@/core/middlewares/jwt.middleware';
+import { verifyJWTOrApiKey } from '@/core/middlewares/apiKey.middleware';
 
 const productTagController = Container.get(ProductTagController);
 const productTagsRouter = express.Router();
@@ -11,32 +12,35 @@ prefixRoutes(productTagsRouter, '/tags');
 
 productTagsRouter.get(
   '/list',
-  verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
   (req, res) => productTagController.productTagsList(req, res)
 );
-productTagsRouter.get('/', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
-  productTagController.productTags(req, res)
+productTagsRouter.get(
+  '/',
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
+  (req, res) => productTagController.productTags(req, res)
 );
 productTagsRouter.post(
   '/save',
   verifyJWT,
 
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
 
   (req, res) => productTagController.createProductTag(req, res)
 );
 productTagsRouter.put(
   '/update/:modelId',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
 
   (req, res) => productTagController.updateProductTag(req, res)
 );
 productTagsRouter.delete(
   '/delete',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
   (req, res) => productTagController.deleteProductTag(req, res)
 );
 
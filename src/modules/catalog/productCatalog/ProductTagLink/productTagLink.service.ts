@@ -2,15 +2,31 @@ import ServiceDefinition from '@/modules/definitions/service';
 import { Prisma } from '@prisma/client';
 import { log } from 'console';
 import { Service } from 'typedi';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import PricingRulesService from '../pricing/pricingRules.service';
 
 @Service()
 export default class ProductTagLinkService extends ServiceDefinition {
+  constructor(
+    prismaService: PrismaService,
+    private readonly pricingRulesService: PricingRulesService
+  ) {
+    super(prismaService);
+  }
+
+  // Tag rules can change the prices of the products whose tags change
   async createProductTagLink(data: Prisma.ProductTagLinkUncheckedCreateInput) {
     try {
       const cleanData = data;
       log(cleanData);
-      const productTagLink = await this.db.productTagLink.create({
-        data: cleanData,
+      const productTagLink = await this.db.$transaction(async (tx) => {
+        const productTagLink = await tx.productTagLink.create({
+          data: cleanData,
+        });
+        await this.pricingRulesService.reprice(tx, 'Product tag added', {
+          id: productTagLink.productId,
+        });
+        return productTagLink;
       });
 
       return { productTagLink };
@@ -83,8 +99,13 @@ export default class ProductTagLinkService extends ServiceDefinition {
 
   async deleteProductTagLink(filter: Prisma.ProductTagLinkWhereUniqueInput) {
     try {
-      await this.db.productTagLink.delete({
-        where: filter,
+      await this.db.$transaction(async (tx) => {
+        const productTagLink = await tx.productTagLink.delete({
+          where: filter,
+        });
+        await this.pricingRulesService.reprice(tx, 'Product tag removed', {
+          id: productTagLink.productId,
+        });
       });
 
       return true;
@@ -98,9 +119,18 @@ export default class ProductTagLinkService extends ServiceDefinition {
     filter: Prisma.ProductTagLinkWhereUniqueInput
   ) {
     try {
-      const updatedProductTagLink = await this.db.productTagLink.update({
-        where: filter,
-        data,
+      const updatedProductTagLink = await this.db.$transaction(async (tx) => {
+        const previous = await tx.productTagLink.findUniqueOrThrow({
+          where: filter,
+        });
+        const productTagLink = await tx.productTagLink.update({
+          where: filter,
+          data,
+        });
+        await this.pricingRulesService.reprice(tx, 'Product tag changed', {
+          id: { in: [previous.productId, productTagLink.productId] },
+        });
+        return productTagLink;
       });
 
       return { productTagLink: updatedProductTagLink };
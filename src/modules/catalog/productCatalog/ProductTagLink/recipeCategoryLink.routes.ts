@@ -2,8 +2,9 @@ import express from 'express';
 import Container from 'typedi';
 import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
 
-import { rbacMiddleware } from '@/core/middlewares/rbac.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
 import verifyJWT from '@/core/middlewares/jwt.middleware';
+import { verifyJWTOrApiKey } from '@/core/middlewares/apiKey.middleware';
 
 import { ProductTagLinkController } from './productTagLink.controller';
 
@@ -13,41 +14,41 @@ prefixRoutes(productTagLinksRouter, '/tag-links');
 
 productTagLinksRouter.get(
   '/list',
-  verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
   (req, res) => productTagLinkController.tagLinksList(req, res)
 );
 productTagLinksRouter.get(
   '/product/:modelId',
-  verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
   (req, res) => productTagLinkController.productTagLinksList(req, res)
 );
 productTagLinksRouter.get(
   '/',
-  verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
   (req, res) => productTagLinkController.productTagLinks(req, res)
 );
 productTagLinksRouter.post(
   '/save',
   verifyJWT,
 
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
 
   (req, res) => productTagLinkController.createProductTagLink(req, res)
 );
 productTagLinksRouter.put(
   '/update/:modelId',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
 
   (req, res) => productTagLinkController.updateProductTagLink(req, res)
 );
 productTagLinksRouter.delete(
   '/delete',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
   (req, res) => productTagLinkController.deleteProductTagLink(req, res)
 );
 
@@ -2,8 +2,9 @@ import express from 'express';
 import Container from 'typedi';
 import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
 import { CategoryController } from './category.controller';
-import { rbacMiddleware } from '@/core/middlewares/rbac.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
 import verifyJWT from '@/core/middlewares/jwt.middleware';
+import { verifyJWTOrApiKey } from '@/core/middlewares/apiKey.middleware';
 
 const categoryController = Container.get(CategoryController);
 const categoriesRouter = express.Router();
@@ -11,32 +12,35 @@ prefixRoutes(categoriesRouter, '/categories');
 
 categoriesRouter.get(
   '/list',
-  verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
   (req, res) => categoryController.categoriesList(req, res)
 );
-categoriesRouter.get('/', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
-  categoryController.categories(req, res)
+categoriesRouter.get(
+  '/',
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
+  (req, res) => categoryController.categories(req, res)
 );
 categoriesRouter.post(
   '/save',
   verifyJWT,
 
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
 
   (req, res) => categoryController.createCategory(req, res)
 );
 categoriesRouter.put(
   '/update/:modelId',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
 
   (req, res) => categoryController.updateCategory(req, res)
 );
 categoriesRouter.delete(
   '/delete',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
   (req, res) => categoryController.deleteCategory(req, res)
 );
 
@@ -136,4 +136,69 @@ export class MarginController {
       res.status(response.httpStatusCode).json(response.data);
     }
   }
+
+  async previewMargin(req: Request, res: Response): Promise<void> {
+    try {
+      log('Preview Margin Repricing Request Received');
+
+      const id = StringUtil.parseAndValidateNumber(req.params.modelId);
+
+      if (id === null) {
+        throw Error('Invalid modelId parameter');
+      }
+      const data = req.body;
+
+      const payload = await this.marginService.previewMargin(data, { id });
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while previewing the margin repricing.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  async repricings(req: Request, res: Response): Promise<void> {
+    try {
+      log('List Margin Repricings Request Received');
+
+      const page = parseInt(req.query.page as string) || 1;
+      const pageSize = parseInt(req.query.pageSize as string) || 10;
+
+      const filters: { marginLevelId?: number } = {};
+      if (req.query.marginLevelId) {
+        const marginLevelId = StringUtil.parseAndValidateNumber(
+          req.query.marginLevelId as string
+        );
+        if (marginLevelId === null) {
+          throw Error('Invalid marginLevelId filter');
+        }
+        filters.marginLevelId = marginLevelId;
+      }
+
+      const payload = await this.marginService.repricings(
+        page,
+        pageSize,
+        filters
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while fetching margin repricings.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
 }
@@ -4,32 +4,53 @@ import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
 
 import { MarginController } from './margin.controller';
 import verifyJWT from '@/core/middlewares/jwt.middleware';
-import { rbacMiddleware } from '@/core/middlewares/rbac.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
 
 const marginController = Container.get(MarginController);
 const marginsRouter = express.Router();
 prefixRoutes(marginsRouter, '/margins');
 
-marginsRouter.get('/list', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
-  marginController.marginList(req, res)
+marginsRouter.get(
+  '/list',
+  verifyJWT,
+  requirePermission('catalog:read'),
+  (req, res) => marginController.marginList(req, res)
 );
-marginsRouter.get('/', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
-  marginController.margins(req, res)
+marginsRouter.get(
+  '/',
+  verifyJWT,
+  requirePermission('catalog:read'),
+  (req, res) => marginController.margins(req, res)
 );
-marginsRouter.post('/save', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
-  marginController.createMargin(req, res)
+marginsRouter.get(
+  '/repricings',
+  verifyJWT,
+  requirePermission('catalog:read'),
+  (req, res) => marginController.repricings(req, res)
+);
+marginsRouter.post(
+  '/save',
+  verifyJWT,
+  requirePermission('margin:write'),
+  (req, res) => marginController.createMargin(req, res)
 );
 
 marginsRouter.put(
   '/update/:modelId',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('margin:write'),
   (req, res) => marginController.updateMargin(req, res)
 );
+marginsRouter.post(
+  '/preview/:modelId',
+  verifyJWT,
+  requirePermission('margin:write'),
+  (req, res) => marginController.previewMargin(req, res)
+);
 marginsRouter.delete(
   '/delete',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('margin:write'),
   (req, res) => marginController.deleteMargin(req, res)
 );
 
@@ -1,10 +1,44 @@
 import ServiceDefinition from '@/modules/definitions/service';
-import { Prisma } from '@prisma/client';
+import {
+  PrismaService,
+  TransactionClient,
+} from '@/database/prisma/prisma.service';
+import PriceHistoryService from '../priceHistory/priceHistory.service';
+import PricingService, {
+  PricingContext,
+  pricingProductInclude,
+} from '../pricing/pricing.service';
+import RequestContextUtil from '@/core/utils/requestContext.util';
+import { MarginLevel, Prisma } from '@prisma/client';
 import { log } from 'console';
+import _ from 'lodash';
 import { Service } from 'typedi';
+import { z } from 'zod';
+
+// Margin submitted to preview a repricing
+const marginPreviewSchema = z.object({
+  margin: z
+    .number()
+    .gte(0, { message: 'Margin must be a non-negative number' }),
+});
+
+type RepricedProduct = Prisma.ProductGetPayload<{
+  include: typeof pricingProductInclude;
+}>;
+
+// Repricing every product of a level can take longer than the default 5s
+const REPRICING_TIMEOUT = 60_000;
 
 @Service()
 export default class MarginService extends ServiceDefinition {
+  constructor(
+    prismaService: PrismaService,
+    private readonly priceHistoryService: PriceHistoryService,
+    private readonly pricingService: PricingService
+  ) {
+    super(prismaService);
+  }
+
   async createMargin(data: Prisma.MarginLevelUncheckedCreateInput) {
     try {
       const cleanData = data;
@@ -74,19 +108,199 @@ export default class MarginService extends ServiceDefinition {
     }
   }
 
+  /**
+   * Updates a margin level. When its margin changes, the products of the level whose
+   * prices are not set by a pricing rule are repriced in the same transaction, with an
+   * entry in the price history of each product, and the old and new prices are
+   * recorded in a `MarginRepricing` entry.
+   * @param data - The fields to update.
+   * @param filter - The margin level to update.
+   * @returns The updated margin level and the repricing, if any.
+   */
   async updateMargin(
     data: Prisma.MarginLevelUncheckedUpdateInput,
     filter: Prisma.MarginLevelWhereUniqueInput
   ) {
     try {
-      const margin = await this.db.marginLevel.update({
+      const { margin, repricing } = await this.db.$transaction(
+        async (tx) => {
+          const current = await tx.marginLevel.findUniqueOrThrow({
+            where: filter,
+          });
+          const margin = await tx.marginLevel.update({
+            where: filter,
+            data,
+          });
+
+          if (margin.margin === current.margin) {
+            return { margin, repricing: null };
+          }
+          const repricing = await this.repriceProducts(tx, current, margin);
+
+          return { margin, repricing };
+        },
+        { timeout: REPRICING_TIMEOUT }
+      );
+
+      log('Updated Margin : ', margin);
+      if (repricing) {
+        log(
+          `Margin level ${margin.id} repriced ${repricing.productCount} products`
+        );
+      }
+      return { margin, repricing };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Computes the prices the products of a margin level would get with a new margin,
+   * without saving anything.
+   * @param data - The new margin.
+   * @param filter - The margin level.
+   * @returns The old and new prices of each product whose prices would change.
+   */
+  async previewMargin(
+    data: { margin: number },
+    filter: Prisma.MarginLevelWhereUniqueInput
+  ) {
+    try {
+      const { margin } = marginPreviewSchema.parse(data);
+
+      const marginLevel = await this.db.marginLevel.findUniqueOrThrow({
         where: filter,
-        data,
       });
-      log('Updated Margin : ', margin);
-      return { margin };
+      const products = await this.db.product.findMany({
+        where: { marginLevelId: marginLevel.id },
+        include: pricingProductInclude,
+        orderBy: { name: 'asc' },
+      });
+      const context = await this.pricingService.prepare(this.db, {
+        marginOverrides: { [marginLevel.id]: margin },
+      });
+      const changes = this.priceChanges(products, context);
+
+      return {
+        marginLevel: {
+          id: marginLevel.id,
+          name: marginLevel.name,
+          previousMargin: marginLevel.margin,
+          margin,
+        },
+        productCount: changes.length,
+        changes,
+      };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Lists the repricings triggered by margin changes, most recent first.
+   * @param page - The page number (default: 1).
+   * @param pageSize - The number of repricings per page (default: 10).
+   * @param filters - Optional filters (margin level).
+   */
+  async repricings(
+    page: number = 1,
+    pageSize: number = 10,
+    filters: Prisma.MarginRepricingWhereInput = {}
+  ) {
+    try {
+      const skip = (page - 1) * pageSize;
+
+      const [total, data] = await this.db.$transaction([
+        this.db.marginRepricing.count({ where: filters }),
+        this.db.marginRepricing.findMany({
+          where: filters,
+          skip,
+          take: pageSize,
+          orderBy: { createdAt: 'desc' },
+        }),
+      ]);
+
+      return { data, total, page, pageSize };
     } catch (error) {
       throw this.handleError(error);
     }
   }
+
+  /**
+   * Applies the new margin to every product of a level and records the repricing.
+   */
+  private async repriceProducts(
+    tx: TransactionClient,
+    previous: MarginLevel,
+    marginLevel: MarginLevel
+  ) {
+    const products = await tx.product.findMany({
+      where: { marginLevelId: marginLevel.id },
+      include: pricingProductInclude,
+    });
+    const context = await this.pricingService.prepare(tx);
+    const changes = this.priceChanges(products, context);
+    const note = `Margin level "${marginLevel.name}": ${previous.margin}% -> ${marginLevel.margin}%`;
+
+    for (const change of changes) {
+      const product = await tx.product.update({
+        where: { id: change.productId },
+        data: {
+          pricePerGramWhole: change.pricePerGramWhole.new,
+          pricePerGramGround: change.pricePerGramGround.new,
+        },
+      });
+      await this.priceHistoryService.record(
+        tx,
+        product,
+        'MARGIN_CHANGE',
+        note,
+        change.pricing
+      );
+    }
+
+    return tx.marginRepricing.create({
+      data: {
+        marginLevelId: marginLevel.id,
+        previousMargin: previous.margin,
+        margin: marginLevel.margin,
+        productCount: changes.length,
+        changes: changes.map((change) => _.omit(change, 'pricing')),
+        actorId: RequestContextUtil.actor()?.id ?? null,
+      },
+    });
+  }
+
+  /**
+   * Returns the old and new prices of the products whose prices change.
+   */
+  private priceChanges(products: RepricedProduct[], context: PricingContext) {
+    return products
+      .map((product) => {
+        const pricing = this.pricingService.price(context, {
+          ...product,
+          tagIds: product.productTagLinks.map((link) => link.productTagId),
+        });
+
+        return {
+          productId: product.id,
+          name: product.name,
+          sku: product.sku,
+          pricePerGramWhole: {
+            old: product.pricePerGramWhole,
+            new: pricing.pricePerGramWhole,
+          },
+          pricePerGramGround: {
+            old: product.pricePerGramGround,
+            new: pricing.pricePerGramGround,
+          },
+          pricing,
+        };
+      })
+      .filter(
+        (change) =>
+          change.pricePerGramWhole.old !== change.pricePerGramWhole.new ||
+          change.pricePerGramGround.old !== change.pricePerGramGround.new
+      );
+  }
 }
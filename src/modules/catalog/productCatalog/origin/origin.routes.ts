@@ -3,32 +3,42 @@ import Container from 'typedi';
 import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
 import { OriginController } from './origin.controller';
 import verifyJWT from '@/core/middlewares/jwt.middleware';
-import { rbacMiddleware } from '@/core/middlewares/rbac.middleware';
+import { verifyJWTOrApiKey } from '@/core/middlewares/apiKey.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
 
 const originController = Container.get(OriginController);
 const originsRouter = express.Router();
 prefixRoutes(originsRouter, '/origins');
 
-originsRouter.get('/list', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
-  originController.originsList(req, res)
+originsRouter.get(
+  '/list',
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
+  (req, res) => originController.originsList(req, res)
 );
-originsRouter.get('/', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
-  originController.origins(req, res)
+originsRouter.get(
+  '/',
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
+  (req, res) => originController.origins(req, res)
 );
-originsRouter.post('/save', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
-  originController.createOrigin(req, res)
+originsRouter.post(
+  '/save',
+  verifyJWT,
+  requirePermission('catalog:write'),
+  (req, res) => originController.createOrigin(req, res)
 );
 
 originsRouter.put(
   '/update/:modelId',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
   (req, res) => originController.updateOrigin(req, res)
 );
 originsRouter.delete(
   '/delete',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
   (req, res) => originController.deleteOrigin(req, res)
 );
 
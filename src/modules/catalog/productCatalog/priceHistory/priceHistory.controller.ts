@@ -0,0 +1,121 @@
+import { Request, Response } from 'express';
+import { log } from 'console';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import { Service } from 'typedi';
+import PriceHistoryService from './priceHistory.service';
+import StringUtil from '@/core/utils/string.util';
+import { PriceSchedule } from './priceHistory.types';
+
+@Service()
+export class PriceHistoryController {
+  constructor(private readonly priceHistoryService: PriceHistoryService) {}
+
+  async timeline(req: Request, res: Response): Promise<void> {
+    try {
+      log('Product Price Timeline Request Received');
+
+      const page = parseInt(req.query.page as string) || 1;
+      const pageSize = parseInt(req.query.pageSize as string) || 20;
+
+      const payload = await this.priceHistoryService.timeline(
+        req.params.modelId as string,
+        page,
+        pageSize
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while fetching the price timeline.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  async priceList(req: Request, res: Response): Promise<void> {
+    try {
+      log('Price List Request Received');
+
+      const page = parseInt(req.query.page as string) || 1;
+      const pageSize = parseInt(req.query.pageSize as string) || 50;
+      const asOf = req.query.asOf
+        ? new Date(req.query.asOf as string)
+        : new Date();
+      if (isNaN(asOf.getTime())) {
+        throw Error('Invalid asOf parameter');
+      }
+
+      const payload = await this.priceHistoryService.priceList(
+        asOf,
+        page,
+        pageSize
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while fetching the price list.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  async schedule(req: Request, res: Response): Promise<void> {
+    try {
+      log('Schedule Price Change Request Received');
+
+      const data: PriceSchedule = req.body;
+      const payload = await this.priceHistoryService.schedule(
+        req.params.modelId as string,
+        data
+      );
+
+      const response = ApiResponse.http201(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while scheduling the price change.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  async cancelScheduled(req: Request, res: Response): Promise<void> {
+    try {
+      log('Cancel Scheduled Price Change Request Received');
+
+      const id = StringUtil.parseAndValidateNumber(req.params.modelId);
+      if (id === null) {
+        throw Error('Invalid modelId parameter');
+      }
+
+      const payload = await this.priceHistoryService.cancelScheduled(id);
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while cancelling the scheduled price change.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+}
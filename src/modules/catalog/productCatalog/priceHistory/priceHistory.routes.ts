@@ -0,0 +1,37 @@
+import express from 'express';
+import Container from 'typedi';
+import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
+import verifyJWT from '@/core/middlewares/jwt.middleware';
+import { PriceHistoryController } from './priceHistory.controller';
+
+const priceHistoryController = Container.get(PriceHistoryController);
+const priceHistoryRouter = express.Router();
+prefixRoutes(priceHistoryRouter, '/price-history');
+
+priceHistoryRouter.get(
+  '/price-list',
+  verifyJWT,
+  requirePermission('catalog:read'),
+  (req, res) => priceHistoryController.priceList(req, res)
+);
+priceHistoryRouter.get(
+  '/product/:modelId',
+  verifyJWT,
+  requirePermission('catalog:read'),
+  (req, res) => priceHistoryController.timeline(req, res)
+);
+priceHistoryRouter.post(
+  '/schedule/:modelId',
+  verifyJWT,
+  requirePermission('product:write'),
+  (req, res) => priceHistoryController.schedule(req, res)
+);
+priceHistoryRouter.delete(
+  '/schedule/:modelId',
+  verifyJWT,
+  requirePermission('product:write'),
+  (req, res) => priceHistoryController.cancelScheduled(req, res)
+);
+
+export default priceHistoryRouter;
@@ -0,0 +1,377 @@
+/**
+ * priceHistory.service.ts
+ *
+ * This file defines the PriceHistoryService class, which keeps the costs and prices of
+ * each product over time in `ProductPriceHistory`.
+ *
+ * Rules:
+ * - An entry is written whenever the costs, prices, additional cost or margin level of a
+ *   product change (creation, edition, margin repricing), with the reason and the actor.
+ * - Each entry keeps the explanation of its prices given by `PricingService`.
+ * - A change can be scheduled for a future date. Only the fields it sets are applied, on
+ *   top of the values of the product at that date, so later edits of the other fields
+ *   are kept. Its prices are recomputed with the pricing rules of that date when it is
+ *   applied by the `apply-scheduled-prices` job; the entry then holds the applied values.
+ * - The price list as of a date uses the last applied entry of each product effective
+ *   at that date. Products without such an entry have unknown prices (`null`).
+ * - Products created before the history existed get their first entry from `backfill`
+ *   (`npm run prices:backfill`), effective from their creation date.
+ */
+
+import { Service } from 'typedi';
+import { PriceChangeReason, Prisma, Product } from '@prisma/client';
+import { log } from 'console';
+import _ from 'lodash';
+import ServiceDefinition from '@/modules/definitions/service';
+import {
+  PrismaService,
+  TransactionClient,
+} from '@/database/prisma/prisma.service';
+import RequestContextUtil from '@/core/utils/requestContext.util';
+import {
+  PriceSchedule,
+  priceScheduleSchema,
+  ScheduledPriceChanges,
+} from './priceHistory.types';
+import PricingService, { PricingResult } from '../pricing/pricing.service';
+
+// Fields of a product tracked by the history
+const TRACKED_FIELDS = [
+  'costPerGramWhole',
+  'costPerGramGround',
+  'pricePerGramWhole',
+  'pricePerGramGround',
+  'additionalCost',
+  'marginLevelId',
+] as const;
+
+// Products given their first entry per query by `backfill`
+const BACKFILL_BATCH_SIZE = 500;
+
+// Fields a scheduled change can set
+const SCHEDULABLE_FIELDS = [
+  'costPerGramWhole',
+  'costPerGramGround',
+  'additionalCost',
+  'marginLevelId',
+] as const;
+
+// Fields of an entry returned in the price list
+const PRICE_FIELDS = [
+  ...TRACKED_FIELDS,
+  'margin',
+  'effectiveFrom',
+  'reason',
+] as const;
+
+@Service()
+export default class PriceHistoryService extends ServiceDefinition {
+  constructor(
+    prismaService: PrismaService,
+    private readonly pricingService: PricingService
+  ) {
+    super(prismaService);
+  }
+
+  /**
+   * Tells whether the costs, prices or margin level differ between two states of a product.
+   */
+  static hasPriceChange(before: Product, after: Product): boolean {
+    return TRACKED_FIELDS.some((field) => before[field] !== after[field]);
+  }
+
+  /**
+   * Records the current costs and prices of a product, effective immediately.
+   * @param client - The client to use, a transaction client inside a transaction.
+   * @param product - The product after the change.
+   * @param reason - The cause of the change.
+   * @param note - An optional comment.
+   * @param pricing - The pricing that produced the prices, if known.
+   */
+  async record(
+    client: TransactionClient,
+    product: Product,
+    reason: PriceChangeReason,
+    note?: string,
+    pricing?: PricingResult
+  ) {
+    const marginLevel = await client.marginLevel.findUniqueOrThrow({
+      where: { id: product.marginLevelId },
+    });
+    const now = new Date();
+
+    return client.productPriceHistory.create({
+      data: {
+        ..._.pick(product, TRACKED_FIELDS),
+        margin: marginLevel.margin,
+        reason,
+        note,
+        pricing: pricing?.explanation,
+        effectiveFrom: now,
+        appliedAt: now,
+        actorId: RequestContextUtil.actor()?.id ?? null,
+        productId: product.id,
+      },
+    });
+  }
+
+  /**
+   * Lists the price entries of a product, most recent first, scheduled ones included.
+   * @param productId - The ID of the product.
+   * @param page - The page number (default: 1).
+   * @param pageSize - The number of entries per page (default: 20).
+   */
+  async timeline(productId: string, page: number = 1, pageSize: number = 20) {
+    try {
+      const skip = (page - 1) * pageSize;
+      const where = { productId };
+
+      const [total, data] = await this.db.$transaction([
+        this.db.productPriceHistory.count({ where }),
+        this.db.productPriceHistory.findMany({
+          where,
+          skip,
+          take: pageSize,
+          orderBy: [{ effectiveFrom: 'desc' }, { id: 'desc' }],
+          include: { marginLevel: { select: { name: true } } },
+        }),
+      ]);
+
+      return { data, total, page, pageSize };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Returns the prices of the catalog as of a date.
+   * @param asOf - The date.
+   * @param page - The page number (default: 1).
+   * @param pageSize - The number of products per page (default: 50).
+   */
+  async priceList(asOf: Date, page: number = 1, pageSize: number = 50) {
+    try {
+      const skip = (page - 1) * pageSize;
+      const where: Prisma.ProductWhereInput = { createdAt: { lte: asOf } };
+
+      const [total, products] = await this.db.$transaction([
+        this.db.product.count({ where }),
+        this.db.product.findMany({
+          where,
+          skip,
+          take: pageSize,
+          orderBy: { name: 'asc' },
+          select: {
+            id: true,
+            name: true,
+            sku: true,
+            priceHistory: {
+              where: {
+                appliedAt: { not: null },
+                effectiveFrom: { lte: asOf },
+              },
+              orderBy: [{ effectiveFrom: 'desc' }, { id: 'desc' }],
+              take: 1,
+            },
+          },
+        }),
+      ]);
+
+      const data = products.map(({ priceHistory, ...product }) => ({
+        ...product,
+        prices: priceHistory[0] ? _.pick(priceHistory[0], PRICE_FIELDS) : null,
+      }));
+
+      return { asOf, data, total, page, pageSize };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Schedules a change of the costs or margin level of a product.
+   * @param productId - The ID of the product.
+   * @param data - The effective date and the new values, the others are kept.
+   * @returns The scheduled entry, with the prices computed with the rules of its date.
+   */
+  async schedule(productId: string, data: PriceSchedule) {
+    try {
+      const cleanData = priceScheduleSchema.parse(data);
+
+      const changes: ScheduledPriceChanges = _.pick(
+        cleanData,
+        SCHEDULABLE_FIELDS
+      );
+
+      const product = await this.db.product.findUniqueOrThrow({
+        where: { id: productId },
+      });
+      const marginLevel = await this.db.marginLevel.findUniqueOrThrow({
+        where: { id: changes.marginLevelId ?? product.marginLevelId },
+      });
+
+      // The values shown until the change is applied, with the current product
+      const projected = { ...product, ...changes };
+      const pricing = await this.pricingService.computePrices(
+        this.db,
+        projected,
+        { at: cleanData.effectiveFrom }
+      );
+
+      const entry = await this.db.productPriceHistory.create({
+        data: {
+          ..._.pick(projected, SCHEDULABLE_FIELDS),
+          pricePerGramWhole: pricing.pricePerGramWhole,
+          pricePerGramGround: pricing.pricePerGramGround,
+          margin: marginLevel.margin,
+          changes,
+          reason: 'SCHEDULED',
+          note: cleanData.note,
+          pricing: pricing.explanation,
+          effectiveFrom: cleanData.effectiveFrom,
+          actorId: RequestContextUtil.actor()?.id ?? null,
+          productId,
+        },
+      });
+      log(
+        `Price change of product ${productId} scheduled for ${entry.effectiveFrom.toISOString()}`
+      );
+
+      return { entry };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Cancels a scheduled price change that is not applied yet.
+   * @param entryId - The ID of the scheduled entry.
+   */
+  async cancelScheduled(entryId: number) {
+    try {
+      const { count } = await this.db.productPriceHistory.updateMany({
+        where: { id: entryId, appliedAt: null, cancelledAt: null },
+        data: { cancelledAt: new Date() },
+      });
+      if (count === 0) {
+        throw new Error('Scheduled price change not found or already applied');
+      }
+
+      return true;
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Applies the scheduled changes whose effective date has passed, oldest first.
+   * @returns The number of applied changes.
+   */
+  async applyDue() {
+    const due = await this.db.productPriceHistory.findMany({
+      where: {
+        appliedAt: null,
+        cancelledAt: null,
+        effectiveFrom: { lte: new Date() },
+      },
+      orderBy: [{ effectiveFrom: 'asc' }, { id: 'asc' }],
+    });
+
+    let applied = 0;
+    for (const entry of due) {
+      try {
+        const isApplied = await this.db.$transaction(async (tx) => {
+          // Every instance runs the job: the first one to claim the entry applies it
+          const { count } = await tx.productPriceHistory.updateMany({
+            where: { id: entry.id, appliedAt: null, cancelledAt: null },
+            data: { appliedAt: new Date() },
+          });
+          if (count === 0) {
+            return false;
+          }
+
+          // Entries scheduled before `changes` existed set every field
+          const changes: ScheduledPriceChanges =
+            (entry.changes as ScheduledPriceChanges | null) ??
+            _.pick(entry, SCHEDULABLE_FIELDS);
+          const product = await tx.product.findUniqueOrThrow({
+            where: { id: entry.productId },
+          });
+          const updated = { ...product, ...changes };
+          const marginLevel = await tx.marginLevel.findUniqueOrThrow({
+            where: { id: updated.marginLevelId },
+          });
+          const pricing = await this.pricingService.computePrices(tx, updated);
+          const prices = _.pick(pricing, [
+            'pricePerGramWhole',
+            'pricePerGramGround',
+          ]);
+
+          await tx.product.update({
+            where: { id: entry.productId },
+            data: { ...changes, ...prices },
+          });
+          await tx.productPriceHistory.update({
+            where: { id: entry.id },
+            data: {
+              ..._.pick(updated, SCHEDULABLE_FIELDS),
+              ...prices,
+              margin: marginLevel.margin,
+              pricing: pricing.explanation,
+            },
+          });
+          return true;
+        });
+        if (isApplied) {
+          applied++;
+        }
+      } catch (error) {
+        log(`Scheduled price change ${entry.id} could not be applied:`, error);
+      }
+    }
+
+    if (applied > 0) {
+      log(`${applied} scheduled price changes applied`);
+    }
+    return applied;
+  }
+
+  /**
+   * Gives the products without any entry an entry with their current costs and prices,
+   * effective from their creation date. Products with entries are left as they are, so
+   * running it again does nothing.
+   * @returns The number of backfilled products.
+   */
+  async backfill() {
+    let backfilled = 0;
+    for (;;) {
+      const products = await this.db.product.findMany({
+        where: { priceHistory: { none: {} } },
+        include: { marginLevel: { select: { margin: true } } },
+        orderBy: { id: 'asc' },
+        take: BACKFILL_BATCH_SIZE,
+      });
+      if (products.length === 0) {
+        break;
+      }
+
+      await this.db.productPriceHistory.createMany({
+        data: products.map((product) => ({
+          ..._.pick(product, TRACKED_FIELDS),
+          margin: product.marginLevel.margin,
+          reason: 'CREATION' as const,
+          note: 'Backfilled from the product',
+          effectiveFrom: product.createdAt,
+          appliedAt: product.createdAt,
+          productId: product.id,
+        })),
+      });
+      backfilled += products.length;
+    }
+
+    if (backfilled > 0) {
+      log(`${backfilled} products given their first price entry`);
+    }
+    return backfilled;
+  }
+}
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { Product } from '@prisma/client';
+
+// Payload accepted when scheduling a future price change of a product
+export const priceScheduleSchema = z
+  .object({
+    effectiveFrom: z.coerce.date(),
+    costPerGramWhole: z.number().gte(0).optional(),
+    costPerGramGround: z.number().gte(0).optional(),
+    additionalCost: z.number().gte(0).nullable().optional(),
+    marginLevelId: z.number().int().optional(),
+    note: z.string().trim().max(500).optional(),
+  })
+  .refine((data) => data.effectiveFrom.getTime() > Date.now(), {
+    message: 'The effective date must be in the future',
+    path: ['effectiveFrom'],
+  })
+  .refine(
+    (data) =>
+      data.costPerGramWhole !== undefined ||
+      data.costPerGramGround !== undefined ||
+      data.additionalCost !== undefined ||
+      data.marginLevelId !== undefined,
+    { message: 'At least one cost or the margin level must change' }
+  );
+
+export type PriceSchedule = z.input<typeof priceScheduleSchema>;
+
+// Fields set by a scheduled change, stored on its entry until it is applied
+export type ScheduledPriceChanges = Partial<
+  Pick<
+    Product,
+    | 'costPerGramWhole'
+    | 'costPerGramGround'
+    | 'additionalCost'
+    | 'marginLevelId'
+  >
+>;
@@ -0,0 +1,206 @@
+import 'reflect-metadata';
+import { describe, expect, it } from '@jest/globals';
+import { MarginLevel, PricingRule } from '@prisma/client';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import PricingService, { PricingContext } from '../pricing.service';
+
+// Pricing works on preloaded rules, the database is never reached
+const pricingService = new PricingService({
+  getClient: () => ({}),
+} as unknown as PrismaService);
+
+const product = {
+  id: 'product-1',
+  categoryId: 1,
+  supplierId: 2,
+  originId: 3,
+  marginLevelId: 10,
+  costPerGramWhole: 0.5,
+  costPerGramGround: 2,
+  tagIds: [7],
+};
+
+const marginLevel: MarginLevel = {
+  id: 10,
+  name: 'Standard',
+  margin: 50,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+/**
+ * Returns an active rule for every product and form, with the given overrides.
+ */
+function rule(id: number, overrides: Partial<PricingRule> = {}): PricingRule {
+  return {
+    id,
+    name: `Rule ${id}`,
+    scope: 'ALL',
+    form: 'BOTH',
+    margin: 100,
+    minCost: null,
+    maxCost: null,
+    priority: 0,
+    startsAt: null,
+    endsAt: null,
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    categoryId: null,
+    supplierId: null,
+    originId: null,
+    productTagId: null,
+    productId: null,
+    ...overrides,
+  };
+}
+
+function contextOf(
+  rules: PricingRule[],
+  marginOverrides: Record<number, number> = {}
+): PricingContext {
+  return {
+    rules,
+    marginLevels: new Map([[marginLevel.id, marginLevel]]),
+    marginOverrides,
+  };
+}
+
+describe('PricingService.price', () => {
+  describe('fallback', () => {
+    it('applies the margin level of the product without matching rule', () => {
+      const result = pricingService.price(contextOf([]), product);
+
+      expect(result.pricePerGramWhole).toBe(0.75);
+      expect(result.pricePerGramGround).toBe(3);
+      expect(result.explanation.whole.source).toEqual({
+        type: 'MARGIN_LEVEL',
+        marginLevelId: 10,
+        name: 'Standard',
+      });
+    });
+
+    it('uses the margin overrides of the context', () => {
+      const result = pricingService.price(contextOf([], { 10: 20 }), product);
+
+      expect(result.pricePerGramGround).toBe(2.4);
+      expect(result.explanation.ground.margin).toBe(20);
+    });
+
+    it('throws when the margin level of the product does not exist', () => {
+      expect(() =>
+        pricingService.price(contextOf([]), { ...product, marginLevelId: 99 })
+      ).toThrow('MarginLevel not found');
+    });
+  });
+
+  describe('priority', () => {
+    it('picks the matching rule with the highest priority', () => {
+      const result = pricingService.price(
+        contextOf([
+          rule(1, { scope: 'PRODUCT', productId: 'product-1', margin: 10 }),
+          rule(2, { priority: 5, margin: 30 }),
+        ]),
+        product
+      );
+
+      expect(result.pricePerGramGround).toBe(2.6);
+      expect(result.explanation.ground.source).toMatchObject({
+        type: 'PRICING_RULE',
+        ruleId: 2,
+        priority: 5,
+      });
+    });
+
+    it('breaks ties on the same specificity with the most recent rule', () => {
+      const result = pricingService.price(
+        contextOf([rule(3, { margin: 10 }), rule(4, { margin: 20 })]),
+        product
+      );
+
+      expect(result.explanation.whole.source).toMatchObject({ ruleId: 4 });
+    });
+  });
+
+  describe('specificity', () => {
+    it('prefers product, then tag, then category, supplier or origin, then all', () => {
+      const rules = [
+        rule(1, { scope: 'ALL' }),
+        rule(2, { scope: 'CATEGORY', categoryId: 1 }),
+        rule(3, { scope: 'TAG', productTagId: 7 }),
+        rule(4, { scope: 'PRODUCT', productId: 'product-1' }),
+      ];
+      const winner = (candidates: PricingRule[]) =>
+        pricingService.price(contextOf(candidates), product).explanation.whole
+          .source;
+
+      expect(winner(rules)).toMatchObject({ ruleId: 4, scope: 'PRODUCT' });
+      expect(winner(rules.slice(0, 3))).toMatchObject({ scope: 'TAG' });
+      expect(winner(rules.slice(0, 2))).toMatchObject({ scope: 'CATEGORY' });
+      expect(winner(rules.slice(0, 1))).toMatchObject({ scope: 'ALL' });
+    });
+
+    it('ignores the rules targeting other products', () => {
+      const result = pricingService.price(
+        contextOf([
+          rule(1, { scope: 'CATEGORY', categoryId: 9 }),
+          rule(2, { scope: 'SUPPLIER', supplierId: 9 }),
+          rule(3, { scope: 'ORIGIN', originId: 9 }),
+          rule(4, { scope: 'TAG', productTagId: 9 }),
+          rule(5, { scope: 'PRODUCT', productId: 'product-2' }),
+        ]),
+        product
+      );
+
+      expect(result.explanation.whole.source.type).toBe('MARGIN_LEVEL');
+    });
+
+    it('never matches product rules for a product not created yet', () => {
+      const result = pricingService.price(
+        contextOf([rule(1, { scope: 'PRODUCT', productId: 'product-1' })]),
+        { ...product, id: undefined }
+      );
+
+      expect(result.explanation.whole.source.type).toBe('MARGIN_LEVEL');
+    });
+  });
+
+  describe('forms and tiers', () => {
+    it('prices each form with the rules targeting it', () => {
+      const result = pricingService.price(
+        contextOf([
+          rule(1, { form: 'WHOLE', margin: 20 }),
+          rule(2, { form: 'GROUND', margin: 10 }),
+        ]),
+        product
+      );
+
+      expect(result.explanation.whole.source).toMatchObject({ ruleId: 1 });
+      expect(result.explanation.ground.source).toMatchObject({ ruleId: 2 });
+    });
+
+    it('applies a tier from its minimum cost included to its maximum cost excluded', () => {
+      const rules = [
+        rule(1, { minCost: 0, maxCost: 1, margin: 80 }),
+        rule(2, { minCost: 1, maxCost: 2, margin: 60 }),
+        rule(3, { minCost: 2, margin: 40 }),
+      ];
+      const result = pricingService.price(contextOf(rules), product);
+
+      expect(result.explanation.whole.source).toMatchObject({ ruleId: 1 });
+      expect(result.pricePerGramWhole).toBe(0.9);
+      expect(result.explanation.ground.source).toMatchObject({ ruleId: 3 });
+      expect(result.pricePerGramGround).toBe(2.8);
+    });
+
+    it('falls back to the margin level when no tier contains the cost', () => {
+      const result = pricingService.price(
+        contextOf([rule(1, { minCost: 1, maxCost: 2 })]),
+        product
+      );
+
+      expect(result.explanation.whole.source.type).toBe('MARGIN_LEVEL');
+      expect(result.explanation.ground.source.type).toBe('MARGIN_LEVEL');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import 'reflect-metadata';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import PriceHistoryService from '../../priceHistory/priceHistory.service';
+import PricingService from '../pricing.service';
+import PricingRulesService from '../pricingRules.service';
+
+const productsOf = (from: number, count: number) =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `product-${String(from + index).padStart(3, '0')}`,
+    pricePerGramWhole: 1,
+    pricePerGramGround: 2,
+    productTagLinks: [],
+  }));
+
+describe('PricingRulesService.repriceAll', () => {
+  const prepare = jest.fn(async () => ({}));
+  const price = () => ({ pricePerGramWhole: 1.5, pricePerGramGround: 2 });
+  const record = jest.fn(async () => undefined);
+  const queryRaw = jest.fn<() => Promise<{ acquired: boolean }[]>>();
+  const findMany = jest.fn<(args: object) => Promise<unknown[]>>();
+  const update = jest.fn(async () => ({}));
+  let pricingRulesService: PricingRulesService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    findMany.mockReset();
+    const tx = { $queryRaw: queryRaw, product: { findMany, update } };
+    pricingRulesService = new PricingRulesService(
+      {
+        getClient: () => ({
+          $transaction: async (callback: (client: typeof tx) => unknown) =>
+            callback(tx),
+        }),
+      } as unknown as PrismaService,
+      { prepare, price } as unknown as PricingService,
+      { record } as unknown as PriceHistoryService
+    );
+  });
+
+  it('skips the run while another instance holds the lock', async () => {
+    queryRaw.mockResolvedValue([{ acquired: false }]);
+
+    expect(await pricingRulesService.repriceAll()).toBe(0);
+
+    expect(findMany).not.toHaveBeenCalled();
+  });
+
+  it('reprices the catalog by batches with the rules loaded once', async () => {
+    queryRaw.mockResolvedValue([{ acquired: true }]);
+    findMany
+      .mockResolvedValueOnce(productsOf(0, 200))
+      .mockResolvedValueOnce(productsOf(200, 1));
+
+    expect(await pricingRulesService.repriceAll()).toBe(201);
+
+    expect(prepare).toHaveBeenCalledTimes(1);
+    expect(findMany).toHaveBeenCalledTimes(2);
+    expect(findMany.mock.calls[1]![0]).toMatchObject({
+      where: { id: { gt: 'product-199' } },
+    });
+    expect(record).toHaveBeenCalledTimes(201);
+  });
+});
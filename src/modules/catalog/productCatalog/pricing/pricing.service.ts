@@ -0,0 +1,296 @@
+/**
+ * pricing.service.ts
+ *
+ * This file defines the PricingService class, the single place computing the selling
+ * prices of products from their costs.
+ *
+ * Rules:
+ * - Each form (whole, ground) is priced separately: the candidate rules are the active
+ *   `PricingRule` rows valid at the pricing date, targeting the form (or both), whose
+ *   scope matches the product and whose cost tier contains the cost of the form.
+ * - The candidate with the highest priority wins; on a tie the most specific scope wins
+ *   (product, tag, category/supplier/origin, all), then the most recent rule.
+ * - Without candidate, the margin of the product's `MarginLevel` applies.
+ * - Every price comes with an explanation naming the rule or the margin level used.
+ */
+
+import { Service } from 'typedi';
+import {
+  MarginLevel,
+  PricingRule,
+  PricingRuleScope,
+  Prisma,
+} from '@prisma/client';
+import _ from 'lodash';
+import ServiceDefinition from '@/modules/definitions/service';
+import { TransactionClient } from '@/database/prisma/prisma.service';
+import PricingUtil from '@/core/utils/pricing.util';
+
+export type PriceForm = 'WHOLE' | 'GROUND';
+
+// Fields of a product used to price it
+export interface PricingInput {
+  id?: string;
+  categoryId: number;
+  supplierId: number;
+  originId: number;
+  marginLevelId: number;
+  costPerGramWhole: number;
+  costPerGramGround: number;
+  tagIds?: number[]; // Loaded from the tag links of the product when omitted
+}
+
+export interface PriceExplanation {
+  form: PriceForm;
+  cost: number;
+  margin: number;
+  price: number;
+  source:
+    | {
+        type: 'PRICING_RULE';
+        ruleId: number;
+        name: string;
+        scope: PricingRuleScope;
+        priority: number;
+      }
+    | { type: 'MARGIN_LEVEL'; marginLevelId: number; name: string };
+}
+
+export interface PricingResult {
+  pricePerGramWhole: number;
+  pricePerGramGround: number;
+  explanation: { whole: PriceExplanation; ground: PriceExplanation };
+}
+
+export interface PricingOptions {
+  at?: Date; // Pricing date, now by default
+  marginOverrides?: Record<number, number>; // Margin to use for some levels, by level ID
+  context?: PricingContext; // Rules and margin levels already loaded by `prepare`, to price many products
+}
+
+// Rules and margin levels loaded once to price several products
+export interface PricingContext {
+  rules: PricingRule[];
+  marginLevels: Map<number, MarginLevel>;
+  marginOverrides: Record<number, number>;
+}
+
+// Tie-breaker between rules of the same priority
+const SCOPE_SPECIFICITY: Record<PricingRuleScope, number> = {
+  PRODUCT: 4,
+  TAG: 3,
+  CATEGORY: 2,
+  SUPPLIER: 2,
+  ORIGIN: 2,
+  ALL: 1,
+};
+
+// Tag links loaded with products priced in bulk
+export const pricingProductInclude = {
+  productTagLinks: { select: { productTagId: true } },
+} satisfies Prisma.ProductInclude;
+
+@Service()
+export default class PricingService extends ServiceDefinition {
+  /**
+   * Loads the rules valid at a date and the margin levels.
+   * @param client - The client to use, a transaction client inside a transaction.
+   * @param options - The pricing date and the margin overrides.
+   */
+  async prepare(
+    client: TransactionClient,
+    options: PricingOptions = {}
+  ): Promise<PricingContext> {
+    const at = options.at ?? new Date();
+    const [rules, marginLevels] = await Promise.all([
+      client.pricingRule.findMany({
+        where: {
+          isActive: true,
+          AND: [
+            { OR: [{ startsAt: null }, { startsAt: { lte: at } }] },
+            { OR: [{ endsAt: null }, { endsAt: { gt: at } }] },
+          ],
+        },
+      }),
+      client.marginLevel.findMany(),
+    ]);
+
+    return {
+      rules,
+      marginLevels: new Map(marginLevels.map((level) => [level.id, level])),
+      marginOverrides: options.marginOverrides ?? {},
+    };
+  }
+
+  /**
+   * Prices a product with preloaded rules.
+   * @param context - The rules and margin levels.
+   * @param product - The product, with its tag IDs.
+   * @throws Error if the margin level of the product does not exist.
+   */
+  price(
+    context: PricingContext,
+    product: PricingInput & { tagIds: number[] }
+  ): PricingResult {
+    const whole = this.resolve(
+      context,
+      product,
+      'WHOLE',
+      product.costPerGramWhole
+    );
+    const ground = this.resolve(
+      context,
+      product,
+      'GROUND',
+      product.costPerGramGround
+    );
+
+    return {
+      pricePerGramWhole: whole.price,
+      pricePerGramGround: ground.price,
+      explanation: { whole, ground },
+    };
+  }
+
+  /**
+   * Prices a single product.
+   * @param client - The client to use, a transaction client inside a transaction.
+   * @param product - The product.
+   * @param options - The pricing date and the margin overrides, or the preloaded context.
+   */
+  async computePrices(
+    client: TransactionClient,
+    product: PricingInput,
+    options: PricingOptions = {}
+  ) {
+    const context = options.context ?? (await this.prepare(client, options));
+    const tagIds =
+      product.tagIds ??
+      (product.id
+        ? (
+            await client.productTagLink.findMany({
+              where: { productId: product.id },
+              select: { productTagId: true },
+            })
+          ).map((link) => link.productTagId)
+        : []);
+
+    return this.price(context, { ...product, tagIds });
+  }
+
+  /**
+   * Explains the current prices of a product.
+   * @param productId - The ID of the product.
+   * @returns The stored prices and the prices computed now, with their explanation.
+   */
+  async explain(productId: string) {
+    try {
+      const product = await this.db.product.findUniqueOrThrow({
+        where: { id: productId },
+      });
+      const pricing = await this.computePrices(this.db, product);
+
+      return {
+        product: _.pick(product, [
+          'id',
+          'name',
+          'sku',
+          'pricePerGramWhole',
+          'pricePerGramGround',
+        ]),
+        pricing,
+        upToDate:
+          pricing.pricePerGramWhole === product.pricePerGramWhole &&
+          pricing.pricePerGramGround === product.pricePerGramGround,
+      };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Finds the rule pricing a form of a product, or falls back to its margin level.
+   */
+  private resolve(
+    context: PricingContext,
+    product: PricingInput & { tagIds: number[] },
+    form: PriceForm,
+    cost: number
+  ): PriceExplanation {
+    const rule = context.rules
+      .filter(
+        (rule) =>
+          (rule.form === 'BOTH' || rule.form === form) &&
+          (rule.minCost === null || cost >= rule.minCost) &&
+          (rule.maxCost === null || cost < rule.maxCost) &&
+          this.matches(rule, product)
+      )
+      .sort(
+        (a, b) =>
+          b.priority - a.priority ||
+          SCOPE_SPECIFICITY[b.scope] - SCOPE_SPECIFICITY[a.scope] ||
+          b.id - a.id
+      )[0];
+
+    if (rule) {
+      return {
+        form,
+        cost,
+        margin: rule.margin,
+        price: PricingUtil.applyMargin(cost, rule.margin),
+        source: {
+          type: 'PRICING_RULE',
+          ruleId: rule.id,
+          name: rule.name,
+          scope: rule.scope,
+          priority: rule.priority,
+        },
+      };
+    }
+
+    const marginLevel = context.marginLevels.get(product.marginLevelId);
+    if (!marginLevel) {
+      throw new Error('MarginLevel not found');
+    }
+    const margin =
+      context.marginOverrides[marginLevel.id] ?? marginLevel.margin;
+
+    return {
+      form,
+      cost,
+      margin,
+      price: PricingUtil.applyMargin(cost, margin),
+      source: {
+        type: 'MARGIN_LEVEL',
+        marginLevelId: marginLevel.id,
+        name: marginLevel.name,
+      },
+    };
+  }
+
+  /**
+   * Tells whether the scope of a rule matches a product.
+   */
+  private matches(
+    rule: PricingRule,
+    product: PricingInput & { tagIds: number[] }
+  ): boolean {
+    switch (rule.scope) {
+      case 'ALL':
+        return true;
+      case 'CATEGORY':
+        return rule.categoryId === product.categoryId;
+      case 'SUPPLIER':
+        return rule.supplierId === product.supplierId;
+      case 'ORIGIN':
+        return rule.originId === product.originId;
+      case 'TAG':
+        return (
+          rule.productTagId !== null &&
+          product.tagIds.includes(rule.productTagId)
+        );
+      case 'PRODUCT':
+        return product.id !== undefined && rule.productId === product.id;
+    }
+  }
+}
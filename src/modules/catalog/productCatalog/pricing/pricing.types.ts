@@ -0,0 +1,74 @@
+import { z } from 'zod';
+
+// Target field required by each scope, the others must be empty
+export const SCOPE_TARGETS = {
+  ALL: null,
+  CATEGORY: 'categoryId',
+  SUPPLIER: 'supplierId',
+  ORIGIN: 'originId',
+  TAG: 'productTagId',
+  PRODUCT: 'productId',
+} as const;
+
+const TARGET_FIELDS = [
+  'categoryId',
+  'supplierId',
+  'originId',
+  'productTagId',
+  'productId',
+] as const;
+
+// Fields of a pricing rule, validated together once merged with the stored rule
+const pricingRuleFields = z.object({
+  name: z.string().trim().min(1).max(100),
+  scope: z.enum(['ALL', 'CATEGORY', 'SUPPLIER', 'ORIGIN', 'TAG', 'PRODUCT']),
+  form: z.enum(['BOTH', 'WHOLE', 'GROUND']).default('BOTH'),
+  margin: z
+    .number()
+    .gte(0, { message: 'Margin must be a non-negative number' }),
+  minCost: z.number().gte(0).nullable().optional(),
+  maxCost: z.number().gt(0).nullable().optional(),
+  priority: z.number().int().default(0),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  isActive: z.boolean().default(true),
+  categoryId: z.number().int().nullable().optional(),
+  supplierId: z.number().int().nullable().optional(),
+  originId: z.number().int().nullable().optional(),
+  productTagId: z.number().int().nullable().optional(),
+  productId: z.string().uuid().nullable().optional(),
+});
+
+// Payload accepted when creating a pricing rule
+export const pricingRuleSchema = pricingRuleFields
+  .refine(
+    (data) =>
+      TARGET_FIELDS.every(
+        (field) =>
+          (field === SCOPE_TARGETS[data.scope]) ===
+          (data[field] !== null && data[field] !== undefined)
+      ),
+    {
+      message: 'The rule must target exactly the entity of its scope',
+      path: ['scope'],
+    }
+  )
+  .refine(
+    (data) =>
+      data.minCost === null ||
+      data.minCost === undefined ||
+      data.maxCost === null ||
+      data.maxCost === undefined ||
+      data.minCost < data.maxCost,
+    { message: 'minCost must be lower than maxCost', path: ['maxCost'] }
+  )
+  .refine(
+    (data) => !data.startsAt || !data.endsAt || data.startsAt < data.endsAt,
+    { message: 'startsAt must be before endsAt', path: ['endsAt'] }
+  );
+
+// Payload accepted when updating a pricing rule
+export const pricingRuleUpdateSchema = pricingRuleFields.partial();
+
+export type PricingRuleInput = z.input<typeof pricingRuleSchema>;
+export type PricingRuleUpdate = z.input<typeof pricingRuleUpdateSchema>;
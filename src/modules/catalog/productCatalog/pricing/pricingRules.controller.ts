@@ -0,0 +1,142 @@
+import { Request, Response } from 'express';
+import { log } from 'console';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import { Service } from 'typedi';
+import PricingRulesService from './pricingRules.service';
+import PricingService from './pricing.service';
+import WhereConditionBuilder from '@/core/utils/filter.utils';
+import StringUtil from '@/core/utils/string.util';
+import { PricingRuleInput, PricingRuleUpdate } from './pricing.types';
+
+@Service()
+export class PricingRulesController {
+  constructor(
+    private readonly pricingRulesService: PricingRulesService,
+    private readonly pricingService: PricingService
+  ) {}
+
+  async rules(req: Request, res: Response): Promise<void> {
+    try {
+      log('Filtered List Pricing Rules Request Received');
+
+      const page = parseInt(req.query.page as string) || 1;
+      const pageSize = parseInt(req.query.pageSize as string) || 10;
+      const filters = req.query.filters
+        ? JSON.parse(req.query.filters as string)
+        : {};
+      const allowedFields = ['name', 'margin', 'priority'];
+
+      const whereConditions = WhereConditionBuilder.generateWhereConditions(
+        filters,
+        allowedFields
+      );
+      const payload = await this.pricingRulesService.rules(
+        page,
+        pageSize,
+        whereConditions
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while fetching pricing rules.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  async explain(req: Request, res: Response): Promise<void> {
+    try {
+      log('Explain Product Prices Request Received');
+
+      const payload = await this.pricingService.explain(
+        req.params.modelId as string
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while explaining the product prices.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  async createRule(req: Request, res: Response): Promise<void> {
+    try {
+      log('Create Pricing Rule Request Received');
+
+      const data: PricingRuleInput = req.body;
+      const payload = await this.pricingRulesService.createRule(data);
+
+      const response = ApiResponse.http201(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while creating the pricing rule.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  async updateRule(req: Request, res: Response): Promise<void> {
+    try {
+      log('Update Pricing Rule Request Received');
+
+      const id = StringUtil.parseAndValidateNumber(req.params.modelId);
+      if (id === null) {
+        throw Error('Invalid modelId parameter');
+      }
+      const data: PricingRuleUpdate = req.body;
+
+      const payload = await this.pricingRulesService.updateRule(data, { id });
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while updating the pricing rule.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  async deleteRule(req: Request, res: Response): Promise<void> {
+    try {
+      log('Delete Pricing Rule Request Received');
+
+      const filter = req.body;
+      const payload = await this.pricingRulesService.deleteRule(filter);
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while deleting the pricing rule.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+}
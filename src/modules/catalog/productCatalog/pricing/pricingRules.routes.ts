@@ -0,0 +1,43 @@
+import express from 'express';
+import Container from 'typedi';
+import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
+import verifyJWT from '@/core/middlewares/jwt.middleware';
+import { PricingRulesController } from './pricingRules.controller';
+
+const pricingRulesController = Container.get(PricingRulesController);
+const pricingRulesRouter = express.Router();
+prefixRoutes(pricingRulesRouter, '/pricing-rules');
+
+pricingRulesRouter.get(
+  '/',
+  verifyJWT,
+  requirePermission('catalog:read'),
+  (req, res) => pricingRulesController.rules(req, res)
+);
+pricingRulesRouter.get(
+  '/explain/:modelId',
+  verifyJWT,
+  requirePermission('catalog:read'),
+  (req, res) => pricingRulesController.explain(req, res)
+);
+pricingRulesRouter.post(
+  '/save',
+  verifyJWT,
+  requirePermission('margin:write'),
+  (req, res) => pricingRulesController.createRule(req, res)
+);
+pricingRulesRouter.put(
+  '/update/:modelId',
+  verifyJWT,
+  requirePermission('margin:write'),
+  (req, res) => pricingRulesController.updateRule(req, res)
+);
+pricingRulesRouter.delete(
+  '/delete',
+  verifyJWT,
+  requirePermission('margin:write'),
+  (req, res) => pricingRulesController.deleteRule(req, res)
+);
+
+export default pricingRulesRouter;
@@ -0,0 +1,315 @@
+/**
+ * pricingRules.service.ts
+ *
+ * This file defines the PricingRulesService class, which manages the pricing rules and
+ * keeps the stored prices of the products in line with them.
+ *
+ * Rules:
+ * - Creating, updating or deleting a rule reprices the catalog in the same transaction.
+ * - The `reprice-pricing-rules` job reprices the catalog periodically, so that rules
+ *   entering or leaving their validity period apply without any edition. It reprices by
+ *   batches, each in its own transaction, under an advisory lock: when another instance
+ *   is already repricing, the run is skipped.
+ * - Only products whose prices change are updated, each with an entry `RULE_CHANGE` in
+ *   its price history.
+ */
+
+import { Service } from 'typedi';
+import { Prisma } from '@prisma/client';
+import { log } from 'console';
+import ServiceDefinition from '@/modules/definitions/service';
+import {
+  PrismaService,
+  TransactionClient,
+} from '@/database/prisma/prisma.service';
+import PriceHistoryService from '../priceHistory/priceHistory.service';
+import PricingService, {
+  PricingContext,
+  pricingProductInclude,
+} from './pricing.service';
+import {
+  PricingRuleInput,
+  PricingRuleUpdate,
+  pricingRuleSchema,
+  pricingRuleUpdateSchema,
+} from './pricing.types';
+
+// Repricing the whole catalog can take longer than the default 5s
+const REPRICING_TIMEOUT = 60_000;
+
+// Number of products repriced per transaction by the job
+const REPRICING_BATCH_SIZE = 200;
+
+// Name of the advisory lock held by the job, hashed into its key
+const REPRICING_LOCK = 'reprice-pricing-rules';
+
+// Longest run of the job; the lock is released after it, even if batches remain
+const REPRICING_LOCK_TIMEOUT = 30 * 60_000;
+
+// Names of the targets returned with the rules
+const ruleTargetsInclude = {
+  category: { select: { name: true } },
+  supplier: { select: { name: true } },
+  origin: { select: { country: true } },
+  productTag: { select: { name: true } },
+  product: { select: { name: true, sku: true } },
+} satisfies Prisma.PricingRuleInclude;
+
+@Service()
+export default class PricingRulesService extends ServiceDefinition {
+  constructor(
+    prismaService: PrismaService,
+    private readonly pricingService: PricingService,
+    private readonly priceHistoryService: PriceHistoryService
+  ) {
+    super(prismaService);
+  }
+
+  /**
+   * Lists the pricing rules, highest priority first.
+   * @param page - The page number (default: 1).
+   * @param pageSize - The number of rules per page (default: 10).
+   * @param filters - Optional filters.
+   */
+  async rules(
+    page: number = 1,
+    pageSize: number = 10,
+    filters: Prisma.PricingRuleWhereInput = {}
+  ) {
+    try {
+      const skip = (page - 1) * pageSize;
+
+      const [total, data] = await this.db.$transaction([
+        this.db.pricingRule.count({ where: filters }),
+        this.db.pricingRule.findMany({
+          where: filters,
+          skip,
+          take: pageSize,
+          orderBy: [{ priority: 'desc' }, { id: 'desc' }],
+          include: ruleTargetsInclude,
+        }),
+      ]);
+
+      return { data, total, page, pageSize };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Creates a pricing rule and reprices the catalog.
+   * @param data - The rule.
+   * @returns The rule and the number of repriced products.
+   */
+  async createRule(data: PricingRuleInput) {
+    try {
+      const cleanData = pricingRuleSchema.parse(data);
+
+      const result = await this.db.$transaction(
+        async (tx) => {
+          const rule = await tx.pricingRule.create({ data: cleanData });
+          const repriced = await this.reprice(
+            tx,
+            `Pricing rule "${rule.name}" created`
+          );
+          return { rule, repriced };
+        },
+        { timeout: REPRICING_TIMEOUT }
+      );
+
+      log(
+        `Pricing rule ${result.rule.id} created, ${result.repriced} products repriced`
+      );
+      return result;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Updates a pricing rule and reprices the catalog.
+   * @param data - The fields to update, validated with the stored ones.
+   * @param filter - The rule to update.
+   * @returns The rule and the number of repriced products.
+   */
+  async updateRule(
+    data: PricingRuleUpdate,
+    filter: Prisma.PricingRuleWhereUniqueInput
+  ) {
+    try {
+      const changes = pricingRuleUpdateSchema.parse(data);
+
+      const result = await this.db.$transaction(
+        async (tx) => {
+          const current = await tx.pricingRule.findUniqueOrThrow({
+            where: filter,
+          });
+          const rule = await tx.pricingRule.update({
+            where: filter,
+            data: pricingRuleSchema.parse({ ...current, ...changes }),
+          });
+          const repriced = await this.reprice(
+            tx,
+            `Pricing rule "${rule.name}" updated`
+          );
+          return { rule, repriced };
+        },
+        { timeout: REPRICING_TIMEOUT }
+      );
+
+      log(
+        `Pricing rule ${result.rule.id} updated, ${result.repriced} products repriced`
+      );
+      return result;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Deletes a pricing rule and reprices the catalog.
+   * @param filter - The rule to delete.
+   * @returns The number of repriced products.
+   */
+  async deleteRule(filter: Prisma.PricingRuleWhereUniqueInput) {
+    try {
+      const repriced = await this.db.$transaction(
+        async (tx) => {
+          const rule = await tx.pricingRule.delete({ where: filter });
+          return this.reprice(tx, `Pricing rule "${rule.name}" deleted`);
+        },
+        { timeout: REPRICING_TIMEOUT }
+      );
+
+      log(`Pricing rule deleted, ${repriced} products repriced`);
+      return { repriced };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Reprices the catalog with the rules valid now, by batches.
+   * @returns The number of repriced products, 0 when another instance holds the lock.
+   */
+  async repriceAll() {
+    // The pool may run each query on another connection, so the lock is bound to a
+    // transaction of its own, which holds no row while the batches commit one by one
+    const repriced = await this.db.$transaction(
+      async (lockTx) => {
+        const [lock] = await lockTx.$queryRaw<{ acquired: boolean }[]>`
+          SELECT pg_try_advisory_xact_lock(hashtext(${REPRICING_LOCK})) AS acquired`;
+        if (!lock?.acquired) {
+          log('Pricing rules already being repriced by another instance');
+          return 0;
+        }
+        return this.repriceByBatches('Pricing rules validity period');
+      },
+      { timeout: REPRICING_LOCK_TIMEOUT }
+    );
+
+    if (repriced > 0) {
+      log(`${repriced} products repriced by the pricing rules`);
+    }
+    return repriced;
+  }
+
+  /**
+   * Updates the prices of the products that differ from the rules and records them.
+   * @param client - The client to use, a transaction client inside a transaction.
+   * @param note - The comment of the price history entries.
+   * @param where - The products to reprice, all by default.
+   * @returns The number of repriced products.
+   */
+  async reprice(
+    client: TransactionClient,
+    note: string,
+    where: Prisma.ProductWhereInput = {}
+  ) {
+    const [context, products] = await Promise.all([
+      this.pricingService.prepare(client),
+      client.product.findMany({ where, include: pricingProductInclude }),
+    ]);
+
+    return this.repriceProducts(client, context, products, note);
+  }
+
+  /**
+   * Reprices the catalog in transactions of `REPRICING_BATCH_SIZE` products, the rules
+   * being loaded once.
+   */
+  private async repriceByBatches(note: string) {
+    const context = await this.pricingService.prepare(this.db);
+
+    let repriced = 0;
+    let cursor: string | undefined;
+    do {
+      const batch = await this.db.$transaction(
+        async (tx) => {
+          const products = await tx.product.findMany({
+            where: cursor ? { id: { gt: cursor } } : {},
+            include: pricingProductInclude,
+            orderBy: { id: 'asc' },
+            take: REPRICING_BATCH_SIZE,
+          });
+          return {
+            repriced: await this.repriceProducts(tx, context, products, note),
+            cursor:
+              products.length === REPRICING_BATCH_SIZE
+                ? products[products.length - 1]?.id
+                : undefined,
+          };
+        },
+        { timeout: REPRICING_TIMEOUT }
+      );
+      repriced += batch.repriced;
+      cursor = batch.cursor;
+    } while (cursor);
+
+    return repriced;
+  }
+
+  /**
+   * Updates the prices of the given products that differ from the rules and records them.
+   */
+  private async repriceProducts(
+    client: TransactionClient,
+    context: PricingContext,
+    products: Prisma.ProductGetPayload<{
+      include: typeof pricingProductInclude;
+    }>[],
+    note: string
+  ) {
+    let repriced = 0;
+    for (const { productTagLinks, ...current } of products) {
+      const pricing = this.pricingService.price(context, {
+        ...current,
+        tagIds: productTagLinks.map((link) => link.productTagId),
+      });
+      if (
+        pricing.pricePerGramWhole === current.pricePerGramWhole &&
+        pricing.pricePerGramGround === current.pricePerGramGround
+      ) {
+        continue;
+      }
+
+      const product = await client.product.update({
+        where: { id: current.id },
+        data: {
+          pricePerGramWhole: pricing.pricePerGramWhole,
+          pricePerGramGround: pricing.pricePerGramGround,
+        },
+      });
+      await this.priceHistoryService.record(
+        client,
+        product,
+        'RULE_CHANGE',
+        note,
+        pricing
+      );
+      repriced++;
+    }
+
+    return repriced;
+  }
+}
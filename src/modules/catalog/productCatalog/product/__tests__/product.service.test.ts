@@ -0,0 +1,114 @@
+import 'reflect-metadata';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { MarginLevel, Product } from '@prisma/client';
+import _ from 'lodash';
+import {
+  PrismaService,
+  TransactionClient,
+} from '@/database/prisma/prisma.service';
+import PriceHistoryService from '../../priceHistory/priceHistory.service';
+import PricingService from '../../pricing/pricing.service';
+import ProductImageService from '../productImage.service';
+import ProductService from '../product.service';
+
+const prismaService = { getClient: () => ({}) } as unknown as PrismaService;
+
+const marginLevel: MarginLevel = {
+  id: 10,
+  name: 'Standard',
+  margin: 50,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const stored = {
+  id: 'product-1',
+  name: 'Poivre noir',
+  categoryId: 1,
+  supplierId: 2,
+  originId: 3,
+  marginLevelId: 10,
+  costPerGramWhole: 0.5,
+  costPerGramGround: 2,
+  pricePerGramWhole: 0.75,
+  pricePerGramGround: 3,
+} as Product;
+
+describe('ProductService.modifyProduct', () => {
+  const record = jest.fn(async () => ({}));
+  const productService = new ProductService(
+    prismaService,
+    { record } as unknown as PriceHistoryService,
+    new PricingService(prismaService),
+    {} as ProductImageService
+  );
+  let update: jest.Mock<(args: { data: object }) => Promise<Product>>;
+  let client: TransactionClient;
+
+  beforeEach(() => {
+    record.mockClear();
+    // Like Prisma, the update ignores the undefined fields
+    update = jest.fn(async ({ data }) => ({
+      ...stored,
+      ..._.omitBy(data, _.isUndefined),
+    }));
+    client = {
+      product: { findUniqueOrThrow: async () => stored, update },
+      pricingRule: { findMany: async () => [] },
+      marginLevel: { findMany: async () => [marginLevel] },
+      productTagLink: { findMany: async () => [] },
+    } as unknown as TransactionClient;
+  });
+
+  it('keeps the stored pricing fields omitted by a partial update', async () => {
+    const product = await productService.modifyProduct(
+      client,
+      {
+        name: 'Poivre noir de Kampot',
+        marginLevelId: undefined,
+        costPerGramWhole: undefined,
+        costPerGramGround: undefined,
+        categoryId: undefined,
+      },
+      { id: 'product-1' }
+    );
+
+    expect(product.name).toBe('Poivre noir de Kampot');
+    expect(product.pricePerGramWhole).toBe(0.75);
+    expect(product.pricePerGramGround).toBe(3);
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it('reprices with the submitted pricing fields', async () => {
+    const product = await productService.modifyProduct(
+      client,
+      { costPerGramGround: 4, marginLevelId: undefined },
+      { id: 'product-1' }
+    );
+
+    expect(product.pricePerGramWhole).toBe(0.75);
+    expect(product.pricePerGramGround).toBe(6);
+    expect(record).toHaveBeenCalledTimes(1);
+  });
+
+  it('prices with the given context without loading the rules again', async () => {
+    const findRules = jest.fn(async () => []);
+    const product = await productService.modifyProduct(
+      {
+        ...client,
+        pricingRule: { findMany: findRules },
+      } as unknown as TransactionClient,
+      { costPerGramGround: 4 },
+      { id: 'product-1' },
+      undefined,
+      {
+        rules: [],
+        marginLevels: new Map([[marginLevel.id, marginLevel]]),
+        marginOverrides: { 10: 100 },
+      }
+    );
+
+    expect(findRules).not.toHaveBeenCalled();
+    expect(product.pricePerGramGround).toBe(8);
+  });
+});
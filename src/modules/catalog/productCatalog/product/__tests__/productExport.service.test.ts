@@ -0,0 +1,35 @@
+import 'reflect-metadata';
+import { describe, expect, it } from '@jest/globals';
+import { PassThrough } from 'stream';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import ProductExportService from '../productExport.service';
+
+const products = [
+  { id: 'product-1', name: '=HYPERLINK("http://evil")', additionalCost: -1.5 },
+  { id: 'product-2', name: '@SUM(A1)', additionalCost: 0 },
+  { id: 'product-3', name: 'Poivre noir', additionalCost: 2 },
+];
+
+describe('ProductExportService.exportProducts', () => {
+  const productExportService = new ProductExportService({
+    getClient: () => ({ product: { findMany: async () => products } }),
+  } as unknown as PrismaService);
+
+  it('prefixes text starting with a formula character in CSV', async () => {
+    const output = new PassThrough();
+    const chunks: string[] = [];
+    output.on('data', (chunk: Buffer) => chunks.push(chunk.toString()));
+
+    await productExportService.exportProducts(output, {
+      format: 'csv',
+      columns: ['name', 'additionalCost'],
+      locale: 'en-US',
+    });
+
+    expect(chunks.join('').split('\r\n').slice(1, 4)).toEqual([
+      `"'=HYPERLINK(""http://evil"")",-1.5`,
+      `'@SUM(A1),0`,
+      'Poivre noir,2',
+    ]);
+  });
+});
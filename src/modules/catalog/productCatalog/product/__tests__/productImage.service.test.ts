@@ -0,0 +1,65 @@
+import 'reflect-metadata';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import FilesService from '@/modules/files/files.service';
+import ProductImageService from '../productImage.service';
+
+jest.mock('@/core/utils/image.util', () => ({
+  __esModule: true,
+  default: { rasterFormat: async () => 'png' },
+}));
+
+const file = {
+  originalname: 'poivre.png',
+  buffer: Buffer.from('image'),
+} as Express.Multer.File;
+
+describe('ProductImageService.addImages', () => {
+  const storeImage = jest.fn(async () => null);
+  const removeImages = jest.fn(async () => undefined);
+  const queryRaw = jest.fn(async () => []);
+  const findProduct = jest.fn(async () => ({ name: 'Poivre', images: [] }));
+  const findUniqueOrThrow = jest.fn<() => Promise<object>>();
+  let productImageService: ProductImageService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const tx = {
+      $queryRaw: queryRaw,
+      product: { findUniqueOrThrow: findProduct },
+      productImage: {
+        createMany: async () => ({ count: 1 }),
+        findMany: async () => [],
+      },
+    };
+    productImageService = new ProductImageService(
+      {
+        getClient: () => ({
+          product: { findUniqueOrThrow },
+          $transaction: async (callback: (client: typeof tx) => unknown) =>
+            callback(tx),
+        }),
+      } as unknown as PrismaService,
+      { storeImage, removeImages } as unknown as FilesService
+    );
+  });
+
+  it('stores nothing for a missing product', async () => {
+    findUniqueOrThrow.mockRejectedValue(new Error('No Product found'));
+
+    await expect(
+      productImageService.addImages('product-1', [file])
+    ).rejects.toThrow('No Product found');
+    expect(storeImage).not.toHaveBeenCalled();
+  });
+
+  it('locks the product before reading its images', async () => {
+    findUniqueOrThrow.mockResolvedValue({ id: 'product-1' });
+
+    await productImageService.addImages('product-1', [file]);
+
+    expect(queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      findProduct.mock.invocationCallOrder[0]!
+    );
+  });
+});
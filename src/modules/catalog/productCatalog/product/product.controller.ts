@@ -5,10 +5,18 @@ import { Service } from 'typedi';
 import ProductService from './product.service';
 import StringUtil from '@/core/utils/string.util';
 import WhereConditionBuilder from '@/core/utils/filter.utils';
+import ProductExportService from './productExport.service';
+import { ProductExportQuery } from './productExport.types';
+
+// Fields the product listing and export can be filtered on
+const PRODUCT_FILTER_FIELDS = ['name', 'description'];
 
 @Service()
 export class ProductController {
-  constructor(private readonly productService: ProductService) {}
+  constructor(
+    private readonly productService: ProductService,
+    private readonly productExportService: ProductExportService
+  ) {}
 
   async products(req: Request, res: Response): Promise<void> {
     try {
@@ -20,11 +28,9 @@ export class ProductController {
         ? JSON.parse(req.query.filters as string)
         : {};
 
-      const allowedFields = ['name', 'description'];
-
       const whereConditions = WhereConditionBuilder.generateWhereConditions(
         filters,
-        allowedFields
+        PRODUCT_FILTER_FIELDS
       );
       const payload = await this.productService.products(
         page,
@@ -75,6 +81,50 @@ export class ProductController {
     }
   }
 
+  async exportProducts(req: Request, res: Response): Promise<void> {
+    try {
+      log('Export Products Request Received');
+
+      const filters = req.query.filters
+        ? JSON.parse(req.query.filters as string)
+        : {};
+      const whereConditions = WhereConditionBuilder.generateWhereConditions(
+        filters,
+        PRODUCT_FILTER_FIELDS
+      );
+      const { options, fileName, contentType } =
+        this.productExportService.prepare(req.query as ProductExportQuery);
+
+      res.setHeader('Content-Type', contentType);
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${fileName}"`
+      );
+      res.status(200);
+
+      const count = await this.productExportService.exportProducts(
+        res,
+        options,
+        whereConditions
+      );
+      log(`${count} products exported`);
+    } catch (error) {
+      log(error);
+
+      // Once streaming has started, the client can only see an interrupted download
+      if (res.headersSent) {
+        res.destroy(error as Error);
+        return;
+      }
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while exporting products.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
   async productsList(req: Request, res: Response): Promise<void> {
     try {
       log('Filtered List product  Request Received');
@@ -1,40 +1,103 @@
 import express from 'express';
 import Container from 'typedi';
 import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
-import { rbacMiddleware } from '@/core/middlewares/rbac.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
 import verifyJWT from '@/core/middlewares/jwt.middleware';
+import { verifyJWTOrApiKey } from '@/core/middlewares/apiKey.middleware';
+import {
+  uploadImageFiles,
+  uploadSpreadsheetFile,
+} from '@/core/middlewares/multer/fileUpload.middleware';
 import { ProductController } from './product.controller';
+import { ProductImportController } from './productImport.controller';
+import { ProductImageController } from './productImage.controller';
 
 const productController = Container.get(ProductController);
+const productImportController = Container.get(ProductImportController);
+const productImageController = Container.get(ProductImageController);
 const productRouter = express.Router();
 prefixRoutes(productRouter, '/products');
 
-productRouter.get('/list', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
-  productController.productsList(req, res)
+productRouter.get(
+  '/list',
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
+  (req, res) => productController.productsList(req, res)
+);
+productRouter.get(
+  '/',
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
+  (req, res) => productController.products(req, res)
 );
-productRouter.get('/', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
-  productController.products(req, res)
+productRouter.get(
+  '/export',
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
+  (req, res) => productController.exportProducts(req, res)
 );
 productRouter.get(
   '/details/:modelId',
-  verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
   (req, res) => productController.product(req, res)
 );
-productRouter.post('/save', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
-  productController.createProduct(req, res)
+productRouter.post(
+  '/save',
+  verifyJWT,
+  requirePermission('product:write'),
+  (req, res) => productController.createProduct(req, res)
+);
+productRouter.post(
+  '/import',
+  verifyJWT,
+  requirePermission('product:write'),
+  uploadSpreadsheetFile,
+  (req, res) => productImportController.importProducts(req, res)
 );
 productRouter.put(
   '/update/:modelId',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('product:write'),
   (req, res) => productController.updateProduct(req, res)
 );
 productRouter.delete(
   '/delete',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('product:write'),
   (req, res) => productController.deleteProduct(req, res)
 );
 
+productRouter.post(
+  '/:modelId/images',
+  verifyJWT,
+  requirePermission('product:write'),
+  uploadImageFiles,
+  (req, res) => productImageController.addImages(req, res)
+);
+productRouter.put(
+  '/:modelId/images/order',
+  verifyJWT,
+  requirePermission('product:write'),
+  (req, res) => productImageController.reorderImages(req, res)
+);
+productRouter.put(
+  '/:modelId/images/:imageId/featured',
+  verifyJWT,
+  requirePermission('product:write'),
+  (req, res) => productImageController.featureImage(req, res)
+);
+productRouter.put(
+  '/:modelId/images/:imageId',
+  verifyJWT,
+  requirePermission('product:write'),
+  (req, res) => productImageController.updateAltText(req, res)
+);
+productRouter.delete(
+  '/:modelId/images/:imageId',
+  verifyJWT,
+  requirePermission('product:write'),
+  (req, res) => productImageController.deleteImage(req, res)
+);
+
 export default productRouter;
@@ -2,49 +2,118 @@ import logger from '@/core/utils/logger.util';
 import StringUtil from '@/core/utils/string.util';
 import ServiceDefinition from '@/modules/definitions/service';
 import { Prisma } from '@prisma/client';
+import _ from 'lodash';
 import { log, warn } from 'console';
 import { Service } from 'typedi';
+import {
+  PrismaService,
+  TransactionClient,
+} from '@/database/prisma/prisma.service';
+import PriceHistoryService from '../priceHistory/priceHistory.service';
+import PricingService, {
+  PricingContext,
+  PricingInput,
+} from '../pricing/pricing.service';
+import ProductImageService, {
+  productImagesOrderBy,
+} from './productImage.service';
+
+// Fields of a product the prices depend on
+const PRICING_FIELDS = [
+  'categoryId',
+  'supplierId',
+  'originId',
+  'marginLevelId',
+  'costPerGramWhole',
+  'costPerGramGround',
+] as const;
+
+// Featured image returned with the listed products
+const featuredImageInclude = {
+  images: { where: { isFeatured: true }, take: 1 },
+} satisfies Prisma.ProductInclude;
+
+// Product to create, its SKU and prices being computed
+export type NewProduct = Omit<
+  Prisma.ProductUncheckedCreateInput,
+  'sku' | 'pricePerGramWhole' | 'pricePerGramGround'
+> & { sku?: string };
 
 @Service()
 export default class ProductService extends ServiceDefinition {
+  constructor(
+    prismaService: PrismaService,
+    private readonly priceHistoryService: PriceHistoryService,
+    private readonly pricingService: PricingService,
+    private readonly productImageService: ProductImageService
+  ) {
+    super(prismaService);
+  }
+
   async createProduct(data: Prisma.ProductUncheckedCreateInput) {
     try {
-      const marginLevel = await this.db.marginLevel.findUnique({
-        where: { id: data.marginLevelId },
-      });
-
-      if (!marginLevel) {
-        throw new Error('MarginLevel not found');
-      }
-
-      data.pricePerGramWhole =
-        data.costPerGramWhole +
-        (data.costPerGramWhole * marginLevel.margin) / 100;
-      data.pricePerGramGround =
-        data.costPerGramGround +
-        (data.costPerGramGround * marginLevel.margin) / 100;
-      // Generate the SKU first
-      const sku = await this.generateSKU(
-        data.categoryId,
-        data.originId,
-        data.supplierId,
-        data.isGlutenFree,
-        data.isGMOFree
+      const product = await this.db.$transaction((tx) =>
+        this.insertProduct(tx, data)
       );
 
-      const cleanData = { ...data, sku };
-      log('Created Product', cleanData);
-
-      const product = await this.db.product.create({
-        data: cleanData,
-      });
-
       return { product };
     } catch (error) {
       throw this.handleError(error);
     }
   }
 
+  /**
+   * Creates a product with a generated SKU (unless given) and the prices of the
+   * pricing rules, and records them in the price history.
+   * @param client - The client to use, a transaction client inside a transaction.
+   * @param data - The product.
+   * @param note - An optional comment of the price history entry.
+   * @param pricingContext - The pricing rules already loaded, when creating many products.
+   */
+  async insertProduct(
+    client: TransactionClient,
+    data: NewProduct,
+    note?: string,
+    pricingContext?: PricingContext
+  ) {
+    const pricing = await this.pricingService.computePrices(
+      client,
+      _.pick(data, PRICING_FIELDS),
+      { context: pricingContext }
+    );
+    // Generate the SKU first
+    const sku =
+      data.sku ??
+      (await this.generateSKU(
+        data.categoryId,
+        data.originId,
+        data.supplierId,
+        data.isGlutenFree,
+        data.isGMOFree,
+        client
+      ));
+
+    const cleanData = {
+      ...data,
+      sku,
+      pricePerGramWhole: pricing.pricePerGramWhole,
+      pricePerGramGround: pricing.pricePerGramGround,
+    };
+    log('Created Product', cleanData);
+
+    const product = await client.product.create({
+      data: cleanData,
+    });
+    await this.priceHistoryService.record(
+      client,
+      product,
+      'CREATION',
+      note,
+      pricing
+    );
+    return product;
+  }
+
   async products(
     page: number = 1,
     pageSize: number = 10,
@@ -65,6 +134,7 @@ export default class ProductService extends ServiceDefinition {
           orderBy: { createdAt: 'desc' },
           include: {
             category: true,
+            ...featuredImageInclude,
           },
         }),
       ]);
@@ -94,6 +164,7 @@ export default class ProductService extends ServiceDefinition {
           productTagLinks: {
             include: { productTag: true },
           },
+          images: { orderBy: productImagesOrderBy },
         },
       });
       log('Unique product', product);
@@ -105,7 +176,9 @@ export default class ProductService extends ServiceDefinition {
 
   async productsList() {
     try {
-      const products = await this.db.product.findMany();
+      const products = await this.db.product.findMany({
+        include: featuredImageInclude,
+      });
       log(' Products Fetched successfully');
 
       return { products };
@@ -116,9 +189,14 @@ export default class ProductService extends ServiceDefinition {
 
   async deleteProduct(filter: Prisma.ProductWhereUniqueInput) {
     try {
-      await this.db.product.delete({
+      const product = await this.db.product.delete({
         where: filter,
+        include: { images: { select: { url: true } } },
       });
+      // The images rows are deleted in cascade, their files are not
+      await this.productImageService.removeFiles(
+        product.images.map((image) => image.url)
+      );
 
       log('Product Deleted Successfully');
       return true;
@@ -132,54 +210,11 @@ export default class ProductService extends ServiceDefinition {
     filter: Prisma.ProductWhereUniqueInput
   ) {
     try {
-      if (data.costPerGramWhole || data.costPerGramGround) {
-        const oldProduct = await this.db.product.findUniqueOrThrow({
-          where: filter,
-        });
-        const marginLevel = await this.db.marginLevel.findUnique({
-          where: { id: oldProduct.marginLevelId },
-        });
-
-        if (!marginLevel) {
-          throw new Error('MarginLevel not found');
-        }
-        if (data.costPerGramWhole) {
-          const cost = data.costPerGramWhole as number;
-          data.pricePerGramWhole = cost + (cost * marginLevel.margin) / 100;
-        }
-        if (data.costPerGramGround) {
-          const cost = data.costPerGramGround as number;
-          data.pricePerGramGround = cost + (cost * marginLevel.margin) / 100;
-        }
-      }
-      if (data.marginLevelId) {
-        const marginId = data.marginLevelId as number;
-        const oldProduct = await this.db.product.findUniqueOrThrow({
-          where: filter,
-        });
-        const marginLevel = await this.db.marginLevel.findUnique({
-          where: { id: marginId },
-        });
-
-        if (!marginLevel) {
-          throw new Error('MarginLevel not found');
-        }
-
-        const costPerGramWhole = oldProduct.costPerGramWhole as number;
-        data.pricePerGramWhole =
-          costPerGramWhole + (costPerGramWhole * marginLevel.margin) / 100;
-
-        const costPerGramGround = oldProduct.costPerGramGround as number;
-        data.pricePerGramGround =
-          costPerGramGround + (costPerGramGround * marginLevel.margin) / 100;
-      }
-
       const cleanData = data;
       log(' Product to update', cleanData);
-      const product = await this.db.product.update({
-        where: filter,
-        data: cleanData,
-      });
+      const product = await this.db.$transaction((tx) =>
+        this.modifyProduct(tx, cleanData, filter)
+      );
 
       log('Updated Product : ', product);
       return { product };
@@ -189,12 +224,65 @@ export default class ProductService extends ServiceDefinition {
     }
   }
 
+  /**
+   * Updates a product, recomputes its prices with the pricing rules and records them
+   * in the price history when they change.
+   * @param client - The client to use, a transaction client inside a transaction.
+   * @param data - The fields to update.
+   * @param filter - The product to update.
+   * @param note - An optional comment of the price history entry.
+   * @param pricingContext - The pricing rules already loaded, when updating many products.
+   */
+  async modifyProduct(
+    client: TransactionClient,
+    data: Prisma.ProductUncheckedUpdateInput,
+    filter: Prisma.ProductWhereUniqueInput,
+    note?: string,
+    pricingContext?: PricingContext
+  ) {
+    const previous = await client.product.findUniqueOrThrow({
+      where: filter,
+    });
+    // Prices always follow the pricing rules, whatever the submitted prices. Omitted
+    // fields are undefined in a partial update and must not hide the stored ones.
+    const pricing = await this.pricingService.computePrices(
+      client,
+      {
+        ...previous,
+        ...(_.omitBy(
+          _.pick(data, PRICING_FIELDS),
+          _.isUndefined
+        ) as Partial<PricingInput>),
+      },
+      { context: pricingContext }
+    );
+    const product = await client.product.update({
+      where: filter,
+      data: {
+        ...data,
+        pricePerGramWhole: pricing.pricePerGramWhole,
+        pricePerGramGround: pricing.pricePerGramGround,
+      },
+    });
+    if (PriceHistoryService.hasPriceChange(previous, product)) {
+      await this.priceHistoryService.record(
+        client,
+        product,
+        'UPDATE',
+        note,
+        pricing
+      );
+    }
+    return product;
+  }
+
   async generateSKU(
     categoryId: number,
     originId: number,
     supplierId: number,
     isGlutenFree: boolean = false,
-    isGMOFree: boolean = false
+    isGMOFree: boolean = false,
+    client: TransactionClient = this.db
   ): Promise<string> {
     try {
       // Initialize with fallback values in case of failure
@@ -205,13 +293,13 @@ export default class ProductService extends ServiceDefinition {
       try {
         // Fetch related entities, catching errors for each individually
         [category, origin, supplier] = await Promise.all([
-          this.db.productCategory
+          client.productCategory
             .findUnique({ where: { id: categoryId } })
             .catch(() => null),
-          this.db.origin
+          client.origin
             .findUnique({ where: { id: originId } })
             .catch(() => null),
-          this.db.supplier
+          client.supplier
             .findUnique({ where: { id: supplierId } })
             .catch(() => null),
         ]);
@@ -250,7 +338,7 @@ export default class ProductService extends ServiceDefinition {
       // Count existing products with the same pattern to determine sequence number
       let existingProducts: any[] = [];
       try {
-        existingProducts = await this.db.product.findMany({
+        existingProducts = await client.product.findMany({
           where: {
             sku: {
               startsWith: basePattern,
@@ -301,7 +389,7 @@ export default class ProductService extends ServiceDefinition {
       // Verify uniqueness
       let existingSKU = null;
       try {
-        existingSKU = await this.db.product.findUnique({
+        existingSKU = await client.product.findUnique({
           where: { sku },
         });
       } catch (uniqueCheckError) {
@@ -0,0 +1,378 @@
+/**
+ * productExport.service.ts
+ *
+ * This file defines the ProductExportService class, which exports the products of the
+ * catalog as CSV, XLSX or JSON.
+ *
+ * Rules:
+ * - Products are read by batches and written as they come, so the whole catalog is never
+ *   held in memory. Writes wait for the output to drain.
+ * - Only the relations needed by the requested columns are loaded.
+ * - In CSV, numbers are formatted for the requested locale, and the delimiter is a
+ *   semicolon when the locale uses a decimal comma. XLSX cells keep numeric values, which
+ *   spreadsheets display in the locale of the reader. JSON keeps raw values.
+ * - In CSV and XLSX, text starting with a formula character is prefixed with a quote, so
+ *   spreadsheets never evaluate a name or a description as a formula.
+ */
+
+import { Service } from 'typedi';
+import { Prisma } from '@prisma/client';
+import ExcelJS from 'exceljs';
+import { Writable } from 'stream';
+import { once } from 'events';
+import _ from 'lodash';
+import ServiceDefinition from '@/modules/definitions/service';
+import {
+  ExportColumnKey,
+  ProductExportOptions,
+  ProductExportQuery,
+  productExportSchema,
+} from './productExport.types';
+
+// Number of products read per query
+const EXPORT_BATCH_SIZE = 500;
+
+// Every relation an export can need
+const exportInclude = {
+  category: { select: { name: true } },
+  supplier: { select: { name: true } },
+  origin: { select: { country: true } },
+  marginLevel: { select: { name: true, margin: true } },
+  productTagLinks: { select: { productTag: { select: { name: true } } } },
+  inventory: {
+    select: {
+      quantity: true,
+      availableQuantity: true,
+      reservedQuantity: true,
+      inStock: true,
+    },
+  },
+} satisfies Prisma.ProductInclude;
+
+type ExportedProduct = Prisma.ProductGetPayload<{
+  include: typeof exportInclude;
+}>;
+
+type CellValue = string | number | boolean | Date | null;
+
+interface ExportColumn {
+  header: string;
+  relation?: keyof typeof exportInclude;
+  value: (product: ExportedProduct) => CellValue;
+}
+
+const EXPORT_COLUMNS: Record<ExportColumnKey, ExportColumn> = {
+  id: { header: 'ID', value: (p) => p.id },
+  sku: { header: 'SKU', value: (p) => p.sku },
+  name: { header: 'Name', value: (p) => p.name },
+  description: { header: 'Description', value: (p) => p.description },
+  category: {
+    header: 'Category',
+    relation: 'category',
+    value: (p) => p.category.name,
+  },
+  supplier: {
+    header: 'Supplier',
+    relation: 'supplier',
+    value: (p) => p.supplier.name,
+  },
+  origin: {
+    header: 'Origin',
+    relation: 'origin',
+    value: (p) => p.origin.country,
+  },
+  tags: {
+    header: 'Tags',
+    relation: 'productTagLinks',
+    value: (p) =>
+      p.productTagLinks.map((link) => link.productTag.name).join(' | '),
+  },
+  marginLevel: {
+    header: 'Margin level',
+    relation: 'marginLevel',
+    value: (p) => p.marginLevel.name,
+  },
+  margin: {
+    header: 'Margin (%)',
+    relation: 'marginLevel',
+    value: (p) => p.marginLevel.margin,
+  },
+  costPerGramWhole: {
+    header: 'Cost per gram (whole)',
+    value: (p) => p.costPerGramWhole,
+  },
+  costPerGramGround: {
+    header: 'Cost per gram (ground)',
+    value: (p) => p.costPerGramGround,
+  },
+  additionalCost: {
+    header: 'Additional cost',
+    value: (p) => p.additionalCost,
+  },
+  pricePerGramWhole: {
+    header: 'Price per gram (whole)',
+    value: (p) => p.pricePerGramWhole,
+  },
+  pricePerGramGround: {
+    header: 'Price per gram (ground)',
+    value: (p) => p.pricePerGramGround,
+  },
+  isGlutenFree: { header: 'Gluten free', value: (p) => p.isGlutenFree },
+  isGMOFree: { header: 'GMO free', value: (p) => p.isGMOFree },
+  isActive: { header: 'Active', value: (p) => p.isActive },
+  isFeatured: { header: 'Featured', value: (p) => p.isFeatured },
+  visibility: { header: 'Visibility', value: (p) => p.visibility },
+  stockQuantity: {
+    header: 'Stock quantity',
+    relation: 'inventory',
+    value: (p) => p.inventory?.quantity ?? null,
+  },
+  availableQuantity: {
+    header: 'Available quantity',
+    relation: 'inventory',
+    value: (p) => p.inventory?.availableQuantity ?? null,
+  },
+  reservedQuantity: {
+    header: 'Reserved quantity',
+    relation: 'inventory',
+    value: (p) => p.inventory?.reservedQuantity ?? null,
+  },
+  inStock: {
+    header: 'In stock',
+    relation: 'inventory',
+    value: (p) => p.inventory?.inStock ?? null,
+  },
+  createdAt: { header: 'Created at', value: (p) => p.createdAt },
+  updatedAt: { header: 'Updated at', value: (p) => p.updatedAt },
+};
+
+// Leading characters spreadsheets read as the start of a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Prefixes text that a spreadsheet would evaluate as a formula with a quote.
+ * Numbers are left as is, so negative values keep their sign.
+ */
+function escapeFormula(value: CellValue): CellValue {
+  return typeof value === 'string' && FORMULA_PREFIX.test(value)
+    ? `'${value}`
+    : value;
+}
+
+const CONTENT_TYPES: Record<ProductExportOptions['format'], string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+};
+
+@Service()
+export default class ProductExportService extends ServiceDefinition {
+  /**
+   * Validates the query of an export, before anything is written.
+   * @param query - The format, columns and locale requested.
+   * @returns The options, the file name and the content type of the export.
+   */
+  prepare(query: ProductExportQuery) {
+    const options = productExportSchema.parse(query);
+    const date = new Date().toISOString().slice(0, 10);
+
+    return {
+      options,
+      fileName: `products-${date}.${options.format}`,
+      contentType: CONTENT_TYPES[options.format],
+    };
+  }
+
+  /**
+   * Writes the products matching the filters to an output.
+   * @param output - The stream to write to, usually the HTTP response.
+   * @param options - The options returned by `prepare`.
+   * @param filters - The filters of the paginated listing.
+   * @returns The number of exported products.
+   */
+  async exportProducts(
+    output: Writable,
+    options: ProductExportOptions,
+    filters: Prisma.ProductWhereInput = {}
+  ) {
+    const columns = options.columns.map((key) => EXPORT_COLUMNS[key]);
+    const batches = this.batches(filters, columns);
+
+    switch (options.format) {
+      case 'xlsx':
+        return this.writeXlsx(output, columns, batches);
+      case 'json':
+        return this.writeJson(output, options.columns, columns, batches);
+      default:
+        return this.writeCsv(output, columns, options.locale, batches);
+    }
+  }
+
+  /**
+   * Reads the products by batches, ordered by name.
+   */
+  private async *batches(
+    where: Prisma.ProductWhereInput,
+    columns: ExportColumn[]
+  ): AsyncGenerator<ExportedProduct[]> {
+    const include: Prisma.ProductInclude = _.pick(
+      exportInclude,
+      _.compact(columns.map((column) => column.relation))
+    );
+
+    let cursor: string | undefined;
+    do {
+      // Relations left out are only read by columns that were not selected
+      const products = (await this.db.product.findMany({
+        where,
+        include,
+        orderBy: { name: 'asc' },
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      })) as unknown as ExportedProduct[];
+
+      if (products.length > 0) {
+        yield products;
+      }
+      cursor =
+        products.length === EXPORT_BATCH_SIZE
+          ? products[products.length - 1]?.id
+          : undefined;
+    } while (cursor);
+  }
+
+  /**
+   * Writes the products as CSV, numbers being formatted for the locale.
+   */
+  private async writeCsv(
+    output: Writable,
+    columns: ExportColumn[],
+    locale: string,
+    batches: AsyncGenerator<ExportedProduct[]>
+  ) {
+    const numberFormat = new Intl.NumberFormat(locale, {
+      useGrouping: false,
+      maximumFractionDigits: 6,
+    });
+    const decimal = numberFormat
+      .formatToParts(1.5)
+      .find((part) => part.type === 'decimal')?.value;
+    const delimiter = decimal === ',' ? ';' : ',';
+
+    const cell = (raw: CellValue) => {
+      const value = escapeFormula(raw);
+      const text =
+        value === null
+          ? ''
+          : typeof value === 'number'
+            ? numberFormat.format(value)
+            : value instanceof Date
+              ? value.toISOString()
+              : String(value);
+      return /["\r\n]/.test(text) || text.includes(delimiter)
+        ? `"${text.replace(/"/g, '""')}"`
+        : text;
+    };
+    const line = (values: CellValue[]) =>
+      values.map(cell).join(delimiter) + '\r\n';
+
+    // The byte order mark lets spreadsheets detect UTF-8
+    await this.write(
+      output,
+      '\uFEFF' + line(columns.map((column) => column.header))
+    );
+
+    let count = 0;
+    for await (const products of batches) {
+      await this.write(
+        output,
+        products
+          .map((product) =>
+            line(columns.map((column) => column.value(product)))
+          )
+          .join('')
+      );
+      count += products.length;
+    }
+    output.end();
+    return count;
+  }
+
+  /**
+   * Writes the products as a JSON array of objects keyed by column.
+   */
+  private async writeJson(
+    output: Writable,
+    keys: ExportColumnKey[],
+    columns: ExportColumn[],
+    batches: AsyncGenerator<ExportedProduct[]>
+  ) {
+    await this.write(output, '[');
+
+    let count = 0;
+    for await (const products of batches) {
+      const chunk = products
+        .map((product) =>
+          JSON.stringify(
+            Object.fromEntries(
+              keys.map((key, index) => [key, columns[index]!.value(product)])
+            )
+          )
+        )
+        .join(',');
+      await this.write(output, (count > 0 ? ',' : '') + chunk);
+      count += products.length;
+    }
+
+    await this.write(output, ']');
+    output.end();
+    return count;
+  }
+
+  /**
+   * Writes the products as a single-sheet XLSX workbook.
+   */
+  private async writeXlsx(
+    output: Writable,
+    columns: ExportColumn[],
+    batches: AsyncGenerator<ExportedProduct[]>
+  ) {
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: output,
+      useStyles: true,
+    });
+    const sheet = workbook.addWorksheet('Products');
+    sheet.columns = columns.map((column) => ({
+      header: column.header,
+      width: Math.max(column.header.length + 2, 12),
+    }));
+    sheet.getRow(1).font = { bold: true };
+
+    let count = 0;
+    for await (const products of batches) {
+      for (const product of products) {
+        sheet
+          .addRow(columns.map((column) => escapeFormula(column.value(product))))
+          .commit();
+      }
+      count += products.length;
+    }
+
+    sheet.commit();
+    await workbook.commit();
+    return count;
+  }
+
+  /**
+   * Writes a chunk and waits for the output to drain when its buffer is full.
+   * @throws Error if the output is closed meanwhile (client gone).
+   */
+  private async write(output: Writable, chunk: string) {
+    if (!output.write(chunk)) {
+      await Promise.race([once(output, 'drain'), once(output, 'close')]);
+    }
+    if (output.destroyed) {
+      throw new Error('The export was interrupted');
+    }
+  }
+}
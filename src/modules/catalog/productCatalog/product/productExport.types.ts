@@ -0,0 +1,88 @@
+import { z } from 'zod';
+
+// Columns available in an export, in their default order
+export const EXPORT_COLUMN_KEYS = [
+  'id',
+  'sku',
+  'name',
+  'description',
+  'category',
+  'supplier',
+  'origin',
+  'tags',
+  'marginLevel',
+  'margin',
+  'costPerGramWhole',
+  'costPerGramGround',
+  'additionalCost',
+  'pricePerGramWhole',
+  'pricePerGramGround',
+  'isGlutenFree',
+  'isGMOFree',
+  'isActive',
+  'isFeatured',
+  'visibility',
+  'stockQuantity',
+  'availableQuantity',
+  'reservedQuantity',
+  'inStock',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+export type ExportColumnKey = (typeof EXPORT_COLUMN_KEYS)[number];
+
+// Columns exported when none are requested
+export const DEFAULT_EXPORT_COLUMNS: ExportColumnKey[] = [
+  'sku',
+  'name',
+  'category',
+  'supplier',
+  'origin',
+  'tags',
+  'marginLevel',
+  'costPerGramWhole',
+  'costPerGramGround',
+  'pricePerGramWhole',
+  'pricePerGramGround',
+  'stockQuantity',
+  'isActive',
+];
+
+// Query accepted by the product export
+export const productExportSchema = z.object({
+  format: z.enum(['csv', 'xlsx', 'json']).default('csv'),
+  columns: z
+    .string()
+    .optional()
+    .transform((value) =>
+      value
+        ? value
+            .split(',')
+            .map((column) => column.trim())
+            .filter(Boolean)
+        : [...DEFAULT_EXPORT_COLUMNS]
+    )
+    .pipe(
+      z
+        .array(z.enum(EXPORT_COLUMN_KEYS))
+        .min(1, { message: 'At least one column is required' })
+    ),
+  locale: z
+    .string()
+    .trim()
+    .default('en-US')
+    .refine(
+      (locale) => {
+        try {
+          return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+        } catch {
+          return false;
+        }
+      },
+      { message: 'Unsupported locale' }
+    ),
+});
+
+export type ProductExportQuery = z.input<typeof productExportSchema>;
+export type ProductExportOptions = z.output<typeof productExportSchema>;
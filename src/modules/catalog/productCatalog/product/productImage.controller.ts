@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import { log } from 'console';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import { Service } from 'typedi';
+import ProductImageService from './productImage.service';
+import { ImageAltText, ImageOrder } from './productImage.types';
+
+@Service()
+export class ProductImageController {
+  constructor(private readonly productImageService: ProductImageService) {}
+
+  async addImages(req: Request, res: Response): Promise<void> {
+    try {
+      log('Add Product Images Request Received');
+
+      const files =
+        (req.files as Record<string, Express.Multer.File[]> | undefined)
+          ?.images ?? [];
+      const payload = await this.productImageService.addImages(
+        req.params.modelId as string,
+        files
+      );
+
+      const response = ApiResponse.http201(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while adding the product images.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  async reorderImages(req: Request, res: Response): Promise<void> {
+    try {
+      log('Reorder Product Images Request Received');
+
+      const data: ImageOrder = req.body;
+      const payload = await this.productImageService.reorderImages(
+        req.params.modelId as string,
+        data
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while reordering the product images.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  async featureImage(req: Request, res: Response): Promise<void> {
+    try {
+      log('Feature Product Image Request Received');
+
+      const payload = await this.productImageService.featureImage(
+        req.params.modelId as string,
+        req.params.imageId as string
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while featuring the product image.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  async updateAltText(req: Request, res: Response): Promise<void> {
+    try {
+      log('Update Product Image Request Received');
+
+      const data: ImageAltText = req.body;
+      const payload = await this.productImageService.updateAltText(
+        req.params.modelId as string,
+        req.params.imageId as string,
+        data
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while updating the product image.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  async deleteImage(req: Request, res: Response): Promise<void> {
+    try {
+      log('Delete Product Image Request Received');
+
+      const payload = await this.productImageService.deleteImage(
+        req.params.modelId as string,
+        req.params.imageId as string
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while deleting the product image.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * productImage.service.ts
+ *
+ * This file defines the ProductImageService class, which manages the images of products.
+ *
+ * Rules:
+ * - Only raster images (JPEG, PNG, WebP, AVIF, GIF) are accepted, checked on their content.
+ *   The stored file is named after the detected format, never after the client's file name.
+ * - Uploaded images are appended after the existing ones, and the alternative text
+ *   defaults to the product name. They are stored with their variants by `FilesService`,
+ *   in the configured storage.
+ * - A product with images has exactly one featured image: the first uploaded one, until
+ *   another is featured. Deleting the featured image features the first remaining one.
+ *   Changes to the images of a product lock its row, so concurrent uploads cannot both
+ *   feature their first image.
+ * - Deleting an image, or its product, removes its file and variants from storage.
+ */
+
+import { Service } from 'typedi';
+import { Prisma } from '@prisma/client';
+import path from 'path';
+import { log } from 'console';
+import ServiceDefinition from '@/modules/definitions/service';
+import {
+  PrismaService,
+  TransactionClient,
+} from '@/database/prisma/prisma.service';
+import ImageUtil, { ImageVariants } from '@/core/utils/image.util';
+import ApiUrlUtil from '@/core/utils/apiUrl.util';
+import { PRODUCT_IMAGE_DIRECTORY } from '@/core/constants/images';
+import FilesService from '@/modules/files/files.service';
+import {
+  ImageAltText,
+  ImageOrder,
+  imageAltTextSchema,
+  imageOrderSchema,
+} from './productImage.types';
+
+// Order in which the images of a product are listed
+export const productImagesOrderBy = [
+  { sortOrder: 'asc' as const },
+  { id: 'asc' as const },
+];
+
+@Service()
+export default class ProductImageService extends ServiceDefinition {
+  constructor(
+    prismaService: PrismaService,
+    private readonly filesService: FilesService
+  ) {
+    super(prismaService);
+  }
+
+  /**
+   * Adds uploaded images to a product.
+   * @param productId - The ID of the product.
+   * @param files - The files received by the upload middleware.
+   * @returns The images of the product, in order.
+   */
+  async addImages(productId: string, files: Express.Multer.File[]) {
+    const fileNames: string[] = [];
+    try {
+      if (files.length === 0) {
+        throw new Error('At least one image is required in the "images" field');
+      }
+      // Nothing is encoded nor stored for a missing product
+      await this.db.product.findUniqueOrThrow({
+        where: { id: productId },
+        select: { id: true },
+      });
+      // The format is read from the content, whatever type or name the client gives
+      const formats: string[] = [];
+      for (const file of files) {
+        const format = await ImageUtil.rasterFormat(file.buffer);
+        if (!format) {
+          throw new Error(
+            `${file.originalname}: only JPEG, PNG, WebP, AVIF and GIF images are allowed`
+          );
+        }
+        formats.push(format);
+      }
+
+      const variants: (ImageVariants | null)[] = [];
+      for (const [index, file] of files.entries()) {
+        const fileName = this.uniqueFileName(formats[index]!);
+        fileNames.push(fileName);
+        variants.push(
+          await this.filesService
+            .storeImage(PRODUCT_IMAGE_DIRECTORY, fileName, file.buffer)
+            .catch((error: Error) => {
+              throw new Error(`${file.originalname}: ${error.message}`);
+            })
+        );
+      }
+
+      const images = await this.db.$transaction(async (tx) => {
+        await this.lockProduct(tx, productId);
+        const product = await tx.product.findUniqueOrThrow({
+          where: { id: productId },
+          include: { images: true },
+        });
+        const lastOrder = Math.max(
+          -1,
+          ...product.images.map((image) => image.sortOrder)
+        );
+        const hasFeatured = product.images.some((image) => image.isFeatured);
+
+        await tx.productImage.createMany({
+          data: files.map((file, index) => ({
+            productId,
+            url: this.urlOf(fileNames[index]!),
+            altText: product.name,
+            sortOrder: lastOrder + 1 + index,
+            isFeatured: !hasFeatured && index === 0,
+            variants: variants[index] ?? Prisma.DbNull,
+          })),
+        });
+        return this.listImages(tx, productId);
+      });
+
+      log(`${files.length} images added to product ${productId}`);
+      return { images };
+    } catch (error) {
+      // Nothing refers to the stored files anymore
+      await this.removeFiles(fileNames.map((fileName) => this.urlOf(fileName)));
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Reorders the images of a product.
+   * @param productId - The ID of the product.
+   * @param data - The IDs of all the images of the product, in their new order.
+   * @returns The images of the product, in order.
+   */
+  async reorderImages(productId: string, data: ImageOrder) {
+    try {
+      const { imageIds } = imageOrderSchema.parse(data);
+
+      const images = await this.db.$transaction(async (tx) => {
+        const current = await tx.productImage.findMany({
+          where: { productId },
+          select: { id: true },
+        });
+        if (
+          current.length !== imageIds.length ||
+          current.some((image) => !imageIds.includes(image.id))
+        ) {
+          throw new Error('The order must list every image of the product');
+        }
+
+        for (const [sortOrder, id] of imageIds.entries()) {
+          await tx.productImage.update({
+            where: { id },
+            data: { sortOrder },
+          });
+        }
+        return this.listImages(tx, productId);
+      });
+
+      return { images };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Makes an image the featured image of its product, and the others not.
+   * @param productId - The ID of the product.
+   * @param imageId - The ID of the image.
+   * @returns The images of the product, in order.
+   */
+  async featureImage(productId: string, imageId: string) {
+    try {
+      const images = await this.db.$transaction(async (tx) => {
+        await this.lockProduct(tx, productId);
+        await tx.productImage.findFirstOrThrow({
+          where: { id: imageId, productId },
+        });
+        await tx.productImage.updateMany({
+          where: { productId, isFeatured: true, id: { not: imageId } },
+          data: { isFeatured: false },
+        });
+        await tx.productImage.update({
+          where: { id: imageId },
+          data: { isFeatured: true },
+        });
+        return this.listImages(tx, productId);
+      });
+
+      return { images };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Updates the alternative text of an image.
+   * @param productId - The ID of the product.
+   * @param imageId - The ID of the image.
+   * @param data - The alternative text.
+   */
+  async updateAltText(productId: string, imageId: string, data: ImageAltText) {
+    try {
+      const { altText } = imageAltTextSchema.parse(data);
+
+      await this.db.productImage.findFirstOrThrow({
+        where: { id: imageId, productId },
+      });
+      const image = await this.db.productImage.update({
+        where: { id: imageId },
+        data: { altText: altText || null },
+      });
+
+      return { image };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Deletes an image and its file.
+   * @param productId - The ID of the product.
+   * @param imageId - The ID of the image.
+   * @returns The remaining images of the product, in order.
+   */
+  async deleteImage(productId: string, imageId: string) {
+    try {
+      const { image, images } = await this.db.$transaction(async (tx) => {
+        await this.lockProduct(tx, productId);
+        const image = await tx.productImage.findFirstOrThrow({
+          where: { id: imageId, productId },
+        });
+        await tx.productImage.delete({ where: { id: imageId } });
+
+        const [first] = await this.listImages(tx, productId);
+        if (image.isFeatured && first) {
+          await tx.productImage.update({
+            where: { id: first.id },
+            data: { isFeatured: true },
+          });
+        }
+        return { image, images: await this.listImages(tx, productId) };
+      });
+
+      await this.removeFiles([image.url]);
+      return { images };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Removes stored image files and their variants, ignoring the missing ones.
+   * @param urls - The URLs of the images.
+   */
+  async removeFiles(urls: string[]) {
+    await this.filesService.removeImages(
+      PRODUCT_IMAGE_DIRECTORY,
+      urls.map((url) => path.basename(url))
+    );
+  }
+
+  /**
+   * Locks the row of a product until the end of the transaction, so the changes to its
+   * images, and to the featured one, are made one at a time.
+   */
+  private async lockProduct(tx: TransactionClient, productId: string) {
+    await tx.$queryRaw`SELECT id FROM "Product" WHERE id = ${productId} FOR UPDATE`;
+  }
+
+  /**
+   * Lists the images of a product, in order.
+   */
+  private listImages(client: TransactionClient, productId: string) {
+    return client.productImage.findMany({
+      where: { productId },
+      orderBy: productImagesOrderBy,
+    });
+  }
+
+  /**
+   * Returns the URL serving a stored image file.
+   */
+  private urlOf(fileName: string) {
+    return ApiUrlUtil.path(`assets/${PRODUCT_IMAGE_DIRECTORY}/${fileName}`);
+  }
+
+  /**
+   * Returns a unique name for an uploaded file, with the extension of its format.
+   */
+  private uniqueFileName(format: string) {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
+    return `${uniqueSuffix}.${format}`;
+  }
+}
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+// New order of the images of a product, every image being listed once
+export const imageOrderSchema = z.object({
+  imageIds: z
+    .array(z.string().uuid())
+    .min(1)
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: 'An image is listed several times',
+    }),
+});
+
+// Alternative text of an image, null to clear it
+export const imageAltTextSchema = z.object({
+  altText: z.string().trim().max(250).nullable(),
+});
+
+export type ImageOrder = z.input<typeof imageOrderSchema>;
+export type ImageAltText = z.input<typeof imageAltTextSchema>;
@@ -0,0 +1,45 @@
+import { Request, Response } from 'express';
+import { log } from 'console';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import { Service } from 'typedi';
+import ProductImportService from './productImport.service';
+
+@Service()
+export class ProductImportController {
+  constructor(private readonly productImportService: ProductImportService) {}
+
+  async importProducts(req: Request, res: Response): Promise<void> {
+    try {
+      log('Import Products Request Received');
+
+      if (!req.file) {
+        throw Error('A CSV or XLSX file is required in the "file" field');
+      }
+      const commit = req.query.mode === 'commit';
+
+      const payload = await this.productImportService.importProducts(
+        req.file,
+        commit
+      );
+
+      const response = !commit
+        ? ApiResponse.http200(payload)
+        : payload.committed
+          ? ApiResponse.http201(payload)
+          : ApiResponse.http422(
+              payload,
+              'The file has invalid rows, nothing was imported'
+            );
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while importing products.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+}
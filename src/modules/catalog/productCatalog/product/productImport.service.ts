@@ -0,0 +1,405 @@
+/**
+ * productImport.service.ts
+ *
+ * This file defines the ProductImportService class, which creates or updates products
+ * in bulk from a CSV or XLSX file.
+ *
+ * Rules:
+ * - The first row holds the column headers, mapped to product fields by `IMPORT_COLUMNS`.
+ *   Category, origin, supplier and margin level are given by name.
+ * - A row updates the product with the same SKU, or else with the same name, and
+ *   creates a product otherwise. Importing the same file twice is therefore harmless.
+ * - New products get a generated SKU unless the file gives one, and every product is
+ *   priced by `PricingService`.
+ * - A dry run validates the rows and returns the planned changes without writing.
+ * - A commit imports all the rows in one transaction, and nothing when a row is invalid.
+ */
+
+import { Service } from 'typedi';
+import { Prisma, Product } from '@prisma/client';
+import ExcelJS from 'exceljs';
+import path from 'path';
+import { Readable } from 'stream';
+import { log } from 'console';
+import _ from 'lodash';
+import ServiceDefinition from '@/modules/definitions/service';
+import {
+  PrismaService,
+  TransactionClient,
+} from '@/database/prisma/prisma.service';
+import ProductService, { NewProduct } from './product.service';
+import PricingService, { PricingInput } from '../pricing/pricing.service';
+import {
+  CREATION_REQUIRED_FIELDS,
+  IMPORT_COLUMNS,
+  ProductImportRow,
+  productImportRowSchema,
+} from './productImport.types';
+
+// Largest number of rows accepted in one file
+const MAX_IMPORT_ROWS = 2000;
+
+// Importing a large file can take longer than the default 5s
+const IMPORT_TIMEOUT = 120_000;
+
+// Comment of the price history entries written by an import
+const IMPORT_NOTE = 'Bulk import';
+
+// Non-empty row of the file, `line` being its number in the spreadsheet
+interface SheetRow {
+  line: number;
+  values: Record<string, string>;
+}
+
+type PlannedRow =
+  | { line: number; action: 'create'; data: NewProduct }
+  | {
+      line: number;
+      action: 'update';
+      product: Product;
+      data: Prisma.ProductUncheckedUpdateInput;
+    };
+
+interface RowError {
+  line: number;
+  name: string | null;
+  errors: string[];
+}
+
+// Names of the referenced entities, lowercased, and their IDs
+interface References {
+  categories: Map<string, number[]>;
+  origins: Map<string, number[]>;
+  suppliers: Map<string, number[]>;
+  marginLevels: Map<string, number[]>;
+}
+
+@Service()
+export default class ProductImportService extends ServiceDefinition {
+  constructor(
+    prismaService: PrismaService,
+    private readonly productService: ProductService,
+    private readonly pricingService: PricingService
+  ) {
+    super(prismaService);
+  }
+
+  /**
+   * Validates the rows of a file and, when asked, imports them.
+   * @param file - The uploaded CSV or XLSX file.
+   * @param commit - Whether to write the products, or only to report what would change.
+   * @returns The report: per-row errors, and the products created or updated (or to be).
+   */
+  async importProducts(file: Express.Multer.File, commit: boolean) {
+    try {
+      const { rows, ignoredColumns } = await this.readRows(file);
+      const summary = { total: rows.length, ignoredColumns };
+
+      if (!commit) {
+        const { planned, errors } = await this.plan(this.db, rows);
+        return {
+          committed: false,
+          ...summary,
+          errors,
+          products: await this.preview(planned),
+        };
+      }
+
+      const result = await this.db.$transaction(
+        async (tx) => {
+          const { planned, errors } = await this.plan(tx, rows);
+          if (errors.length > 0) {
+            return { committed: false, errors, products: [] };
+          }
+
+          // The rules are loaded once for the whole file
+          const pricingContext = await this.pricingService.prepare(tx);
+          const products = [];
+          for (const row of planned) {
+            const product =
+              row.action === 'create'
+                ? await this.productService.insertProduct(
+                    tx,
+                    row.data,
+                    IMPORT_NOTE,
+                    pricingContext
+                  )
+                : await this.productService.modifyProduct(
+                    tx,
+                    row.data,
+                    { id: row.product.id },
+                    IMPORT_NOTE,
+                    pricingContext
+                  );
+            products.push({ line: row.line, action: row.action, product });
+          }
+          return { committed: true, errors, products };
+        },
+        { timeout: IMPORT_TIMEOUT }
+      );
+
+      if (result.committed) {
+        log(`${result.products.length} products imported`);
+      }
+      return { ...result, ...summary };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Reads the first sheet of a file into rows keyed by product field.
+   */
+  private async readRows(file: Express.Multer.File) {
+    const workbook = new ExcelJS.Workbook();
+    let sheet: ExcelJS.Worksheet | undefined;
+
+    if (path.extname(file.originalname).toLowerCase() === '.xlsx') {
+      await workbook.xlsx.load(file.buffer as unknown as ArrayBuffer);
+      sheet = workbook.worksheets[0];
+    } else {
+      // Spreadsheets set to a French locale export CSV files separated by semicolons
+      const header = file.buffer.toString('utf8').split(/\r?\n/, 1)[0] ?? '';
+      const delimiter =
+        header.split(';').length > header.split(',').length ? ';' : ',';
+      sheet = await workbook.csv.read(Readable.from(file.buffer), {
+        parserOptions: { delimiter },
+      });
+    }
+    if (!sheet || sheet.rowCount < 2) {
+      throw new Error('The file has no product rows');
+    }
+
+    const columns = new Map<number, string>();
+    const ignoredColumns: string[] = [];
+    sheet.getRow(1).eachCell((cell, column) => {
+      const header = cell.text.trim();
+      const field = IMPORT_COLUMNS[header.toLowerCase().replace(/[\s_-]/g, '')];
+      if (field) {
+        columns.set(column, field);
+      } else if (header) {
+        ignoredColumns.push(header);
+      }
+    });
+    if (![...columns.values()].includes('name')) {
+      throw new Error('The file has no name column');
+    }
+
+    const rows: SheetRow[] = [];
+    sheet.eachRow((row, line) => {
+      if (line === 1) {
+        return;
+      }
+      const values: Record<string, string> = {};
+      columns.forEach((field, column) => {
+        values[field] = row.getCell(column).text.trim();
+      });
+      if (Object.values(values).some((value) => value !== '')) {
+        rows.push({ line, values });
+      }
+    });
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new Error(`The file exceeds ${MAX_IMPORT_ROWS} product rows`);
+    }
+
+    return { rows, ignoredColumns };
+  }
+
+  /**
+   * Validates the rows and decides, for each one, whether it creates or updates a product.
+   * @param client - The client to use, a transaction client inside a transaction.
+   * @param rows - The rows of the file.
+   */
+  private async plan(client: TransactionClient, rows: SheetRow[]) {
+    const references = await this.loadReferences(client);
+    const parsed = rows.map((row) => ({
+      line: row.line,
+      result: productImportRowSchema.safeParse(row.values),
+    }));
+
+    const valid = parsed.flatMap(({ result }) =>
+      result.success ? [result.data] : []
+    );
+    const existing = await client.product.findMany({
+      where: {
+        OR: [
+          { sku: { in: _.compact(valid.map((row) => row.sku)) } },
+          { name: { in: valid.map((row) => row.name) } },
+        ],
+      },
+    });
+    const bySku = new Map(existing.map((product) => [product.sku, product]));
+    const byName = new Map(existing.map((product) => [product.name, product]));
+
+    const nameCounts = _.countBy(valid, (row) => row.name);
+    const skuCounts = _.countBy(_.compact(valid.map((row) => row.sku)));
+
+    const planned: PlannedRow[] = [];
+    const errors: RowError[] = [];
+    for (const { line, result } of parsed) {
+      if (!result.success) {
+        errors.push({
+          line,
+          name: rows.find((row) => row.line === line)?.values.name || null,
+          errors: result.error.issues.map(
+            (issue) => `${issue.path.join('.')}: ${issue.message}`
+          ),
+        });
+        continue;
+      }
+
+      const row = result.data;
+      const rowErrors: string[] = [];
+      if ((nameCounts[row.name] ?? 0) > 1) {
+        rowErrors.push('name: Appears on several rows');
+      }
+      if (row.sku && (skuCounts[row.sku] ?? 0) > 1) {
+        rowErrors.push('sku: Appears on several rows');
+      }
+
+      const product = (row.sku && bySku.get(row.sku)) || byName.get(row.name);
+      const namesake = byName.get(row.name);
+      if (product && namesake && namesake.id !== product.id) {
+        rowErrors.push(`name: Already used by product ${namesake.sku}`);
+      }
+      if (product && row.sku && product.sku !== row.sku) {
+        rowErrors.push(`sku: The product named so has the SKU ${product.sku}`);
+      }
+
+      const referenceIds = this.resolveReferences(row, references, rowErrors);
+      if (!product) {
+        for (const field of CREATION_REQUIRED_FIELDS) {
+          if (row[field] === undefined) {
+            rowErrors.push(`${field}: Required to create a product`);
+          }
+        }
+      }
+
+      if (rowErrors.length > 0) {
+        errors.push({ line, name: row.name, errors: rowErrors });
+        continue;
+      }
+
+      // Empty cells are left out, so the stored values are kept
+      const fields = _.omitBy(
+        {
+          ..._.omit(row, [
+            'sku',
+            'category',
+            'origin',
+            'supplier',
+            'marginLevel',
+          ]),
+          ...referenceIds,
+        },
+        _.isUndefined
+      ) as Omit<ProductImportRow, 'sku'> & Partial<typeof referenceIds>;
+      planned.push(
+        product
+          ? { line, action: 'update', product, data: fields }
+          : {
+              line,
+              action: 'create',
+              data: {
+                ...(fields as NewProduct),
+                isGlutenFree: fields.isGlutenFree ?? false,
+                isGMOFree: fields.isGMOFree ?? false,
+                sku: row.sku,
+              },
+            }
+      );
+    }
+
+    return { planned, errors };
+  }
+
+  /**
+   * Computes the prices the planned rows would give, without writing.
+   */
+  private async preview(planned: PlannedRow[]) {
+    const context = await this.pricingService.prepare(this.db);
+    const products = [];
+    for (const row of planned) {
+      const current = row.action === 'update' ? row.product : null;
+      const input = { ...current, ...row.data } as PricingInput & {
+        name: string;
+      };
+      const pricing = await this.pricingService.computePrices(this.db, input, {
+        context,
+      });
+
+      products.push({
+        line: row.line,
+        action: row.action,
+        id: current?.id ?? null,
+        // The SKU of a new product is generated on commit, unless given
+        sku: row.action === 'create' ? (row.data.sku ?? null) : row.product.sku,
+        name: input.name,
+        pricePerGramWhole: pricing.pricePerGramWhole,
+        pricePerGramGround: pricing.pricePerGramGround,
+      });
+    }
+    return products;
+  }
+
+  /**
+   * Loads the names of the entities a row can reference.
+   */
+  private async loadReferences(client: TransactionClient): Promise<References> {
+    const [categories, origins, suppliers, marginLevels] = await Promise.all([
+      client.productCategory.findMany({ select: { id: true, name: true } }),
+      client.origin.findMany({ select: { id: true, country: true } }),
+      client.supplier.findMany({ select: { id: true, name: true } }),
+      client.marginLevel.findMany({ select: { id: true, name: true } }),
+    ]);
+    const index = (entries: { id: number; name: string }[]) => {
+      const map = new Map<string, number[]>();
+      for (const entry of entries) {
+        const key = entry.name.trim().toLowerCase();
+        map.set(key, [...(map.get(key) ?? []), entry.id]);
+      }
+      return map;
+    };
+
+    return {
+      categories: index(categories),
+      origins: index(origins.map(({ id, country }) => ({ id, name: country }))),
+      suppliers: index(suppliers),
+      marginLevels: index(marginLevels),
+    };
+  }
+
+  /**
+   * Resolves the names of a row to IDs, adding an error for each unknown or ambiguous name.
+   */
+  private resolveReferences(
+    row: ProductImportRow,
+    references: References,
+    errors: string[]
+  ) {
+    const resolve = (
+      field: 'category' | 'origin' | 'supplier' | 'marginLevel',
+      map: Map<string, number[]>
+    ) => {
+      const name = row[field];
+      if (name === undefined) {
+        return undefined;
+      }
+
+      const ids = map.get(name.toLowerCase()) ?? [];
+      if (ids.length === 0) {
+        errors.push(`${field}: "${name}" not found`);
+      } else if (ids.length > 1) {
+        errors.push(`${field}: "${name}" matches several entries`);
+      }
+      return ids.length === 1 ? ids[0] : undefined;
+    };
+
+    return {
+      categoryId: resolve('category', references.categories),
+      originId: resolve('origin', references.origins),
+      supplierId: resolve('supplier', references.suppliers),
+      marginLevelId: resolve('marginLevel', references.marginLevels),
+    };
+  }
+}
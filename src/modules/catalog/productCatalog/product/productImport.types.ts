@@ -0,0 +1,97 @@
+import { VisibilityType } from '@prisma/client';
+import { z } from 'zod';
+
+// Product field filled by each accepted column header, headers being compared
+// without case, spaces, dashes or underscores
+export const IMPORT_COLUMNS: Record<string, string> = {
+  name: 'name',
+  sku: 'sku',
+  description: 'description',
+  glutenfree: 'isGlutenFree',
+  isglutenfree: 'isGlutenFree',
+  gmofree: 'isGMOFree',
+  isgmofree: 'isGMOFree',
+  active: 'isActive',
+  isactive: 'isActive',
+  featured: 'isFeatured',
+  isfeatured: 'isFeatured',
+  visibility: 'visibility',
+  additionalcost: 'additionalCost',
+  costpergramwhole: 'costPerGramWhole',
+  costwhole: 'costPerGramWhole',
+  costpergramground: 'costPerGramGround',
+  costground: 'costPerGramGround',
+  category: 'category',
+  origin: 'origin',
+  supplier: 'supplier',
+  marginlevel: 'marginLevel',
+  margin: 'marginLevel',
+};
+
+// Optional cell, empty cells being ignored
+const blank = (value: unknown) =>
+  typeof value === 'string' && value.trim() === '' ? undefined : value;
+
+const text = z.preprocess(blank, z.string().trim().optional());
+
+const decimal = z.preprocess(
+  (value) => {
+    const cleaned = blank(value);
+    return typeof cleaned === 'string'
+      ? Number(cleaned.replace(',', '.'))
+      : cleaned;
+  },
+  z.number({ invalid_type_error: 'Expected a number' }).gte(0).optional()
+);
+
+const flag = z.preprocess(
+  (value) => {
+    const cleaned = blank(value);
+    if (typeof cleaned !== 'string') {
+      return cleaned;
+    }
+    const normalized = cleaned.toLowerCase();
+    if (['true', 'yes', 'oui', '1', 'x'].includes(normalized)) {
+      return true;
+    }
+    if (['false', 'no', 'non', '0'].includes(normalized)) {
+      return false;
+    }
+    return cleaned;
+  },
+  z.boolean({ invalid_type_error: 'Expected yes or no' }).optional()
+);
+
+// Row of an imported file, once its columns are mapped to product fields
+export const productImportRowSchema = z.object({
+  name: z.preprocess(blank, z.string({ required_error: 'Required' }).trim()),
+  sku: text,
+  description: text,
+  isGlutenFree: flag,
+  isGMOFree: flag,
+  isActive: flag,
+  isFeatured: flag,
+  visibility: z.preprocess((value) => {
+    const cleaned = blank(value);
+    return typeof cleaned === 'string' ? cleaned.trim().toUpperCase() : cleaned;
+  }, z.nativeEnum(VisibilityType).optional()),
+  additionalCost: decimal,
+  costPerGramWhole: decimal,
+  costPerGramGround: decimal,
+  category: text,
+  origin: text,
+  supplier: text,
+  marginLevel: text,
+});
+
+export type ProductImportRow = z.infer<typeof productImportRowSchema>;
+
+// Fields required to create a product, an update keeping the stored values
+export const CREATION_REQUIRED_FIELDS = [
+  'costPerGramWhole',
+  'costPerGramGround',
+  'category',
+  'origin',
+  'supplier',
+  'marginLevel',
+] as const;
@@ -8,6 +8,8 @@ import marginsRouter from './margin/margin.routes';
 import supplierRouter from './supplier/supplier.routes';
 
 import productRouter from './product/product.routes';
+import priceHistoryRouter from './priceHistory/priceHistory.routes';
+import pricingRulesRouter from './pricing/pricingRules.routes';
 import productTagsRouter from './ProductTag/productTag.routes';
 import productTagLinksRouter from './ProductTagLink/recipeCategoryLink.routes';
 
@@ -28,6 +30,8 @@ productCatalogRouter.use('/product-catalog', marginsRouter);
 productCatalogRouter.use('/product-catalog', supplierRouter);
 
 productCatalogRouter.use('/product-catalog', productRouter);
+productCatalogRouter.use('/product-catalog', priceHistoryRouter);
+productCatalogRouter.use('/product-catalog', pricingRulesRouter);
 productCatalogRouter.use('/product-catalog', productTagsRouter);
 productCatalogRouter.use('/product-catalog', productTagLinksRouter);
 
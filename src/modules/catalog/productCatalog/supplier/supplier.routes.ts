@@ -4,23 +4,30 @@ import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
 
 import SupplierController from './supplier.controller';
 
-import { rbacMiddleware } from '@/core/middlewares/rbac.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
 import verifyJWT from '@/core/middlewares/jwt.middleware';
+import { verifyJWTOrApiKey } from '@/core/middlewares/apiKey.middleware';
 
 const supplierController = Container.get(SupplierController);
 const supplierRouter = express.Router();
 prefixRoutes(supplierRouter, '/suppliers');
 
-supplierRouter.get('/list', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
-  supplierController.suppliersList(req, res)
+supplierRouter.get(
+  '/list',
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
+  (req, res) => supplierController.suppliersList(req, res)
 );
-supplierRouter.get('/', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
-  supplierController.suppliers(req, res)
+supplierRouter.get(
+  '/',
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
+  (req, res) => supplierController.suppliers(req, res)
 );
 supplierRouter.post(
   '/save',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
 
   (req, res) => supplierController.createSupplier(req, res)
 );
@@ -28,14 +35,14 @@ supplierRouter.post(
 supplierRouter.put(
   '/update/:modelId',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
 
   (req, res) => supplierController.updateSupplier(req, res)
 );
 supplierRouter.delete(
   '/delete',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
   (req, res) => supplierController.deleteSupplier(req, res)
 );
 
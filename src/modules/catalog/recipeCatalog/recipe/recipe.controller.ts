@@ -6,6 +6,7 @@ import { Service } from 'typedi';
 import WhereConditionBuilder from '@/core/utils/filter.utils';
 import RecipeService from './recipe.service';
 import StringUtil from '@/core/utils/string.util';
+import { hasPermission } from '@/core/middlewares/permission.middleware';
 
 @Service()
 export class RecipeController {
@@ -107,6 +108,12 @@ export class RecipeController {
       data.preparationTime = parseInt(data.preparationTime);
       data.cookingTime = parseInt(data.cookingTime);
       data.servings = parseInt(data.servings);
+      data.isApproved = req.body.isApproved
+        ? StringUtil.parseBool(data.isApproved)
+        : undefined;
+      if (data.isApproved && !hasPermission(req, 'recipe:approve')) {
+        throw Error('You are not allowed to approve recipes');
+      }
       log(data);
       const payload = await this.recipeService.createRecipe(data);
 
@@ -172,6 +179,12 @@ export class RecipeController {
         ? StringUtil.parseBool(data.isPromoAwarded)
         : undefined;
       data.servings = req.body.servings ? parseInt(data.servings) : undefined;
+      if (
+        data.isApproved !== undefined &&
+        !hasPermission(req, 'recipe:approve')
+      ) {
+        throw Error('You are not allowed to approve recipes');
+      }
 
       const payload = await this.recipeService.updateRecipe(data, filter);
 
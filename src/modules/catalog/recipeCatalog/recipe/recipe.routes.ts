@@ -2,44 +2,50 @@ import express from 'express';
 import Container from 'typedi';
 import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
 import { RecipeController } from './recipe.controller';
-import { rbacMiddleware } from '@/core/middlewares/rbac.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
 import verifyJWT from '@/core/middlewares/jwt.middleware';
 
 const recipeController = Container.get(RecipeController);
 const recipesRouter = express.Router();
 prefixRoutes(recipesRouter, '/recipes');
 
-recipesRouter.get('/list', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
-  recipeController.recipesList(req, res)
+recipesRouter.get(
+  '/list',
+  verifyJWT,
+  requirePermission('recipe:read'),
+  (req, res) => recipeController.recipesList(req, res)
 );
-recipesRouter.get('/', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
-  recipeController.recipes(req, res)
+recipesRouter.get(
+  '/',
+  verifyJWT,
+  requirePermission('recipe:read'),
+  (req, res) => recipeController.recipes(req, res)
 );
 recipesRouter.get(
   '/details/:modelId',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:read'),
   (req, res) => recipeController.recipe(req, res)
 );
 recipesRouter.post(
   '/save',
   verifyJWT,
 
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:write'),
 
   (req, res) => recipeController.createRecipe(req, res)
 );
 recipesRouter.put(
   '/update/:modelId',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:write'),
 
   (req, res) => recipeController.updateRecipe(req, res)
 );
 recipesRouter.delete(
   '/delete',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:write'),
   (req, res) => recipeController.deleteRecipe(req, res)
 );
 
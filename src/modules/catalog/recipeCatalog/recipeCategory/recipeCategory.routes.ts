@@ -2,7 +2,7 @@ import express from 'express';
 import Container from 'typedi';
 import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
 import { RecipeCategoryController } from './recipeCategory.controller';
-import { rbacMiddleware } from '@/core/middlewares/rbac.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
 import verifyJWT from '@/core/middlewares/jwt.middleware';
 
 const recipeCategoryController = Container.get(RecipeCategoryController);
@@ -12,34 +12,34 @@ prefixRoutes(recipeCategoriesRouter, '/recipe-categories');
 recipeCategoriesRouter.get(
   '/list',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:read'),
   (req, res) => recipeCategoryController.recipeCategoriesList(req, res)
 );
 recipeCategoriesRouter.get(
   '/',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:read'),
   (req, res) => recipeCategoryController.recipeCategories(req, res)
 );
 recipeCategoriesRouter.post(
   '/save',
   verifyJWT,
 
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:write'),
 
   (req, res) => recipeCategoryController.createRecipeCategory(req, res)
 );
 recipeCategoriesRouter.put(
   '/update/:modelId',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:write'),
 
   (req, res) => recipeCategoryController.updateRecipeCategory(req, res)
 );
 recipeCategoriesRouter.delete(
   '/delete',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:write'),
   (req, res) => recipeCategoryController.deleteRecipeCategory(req, res)
 );
 
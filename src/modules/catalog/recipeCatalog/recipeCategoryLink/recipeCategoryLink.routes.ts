@@ -2,7 +2,7 @@ import express from 'express';
 import Container from 'typedi';
 import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
 
-import { rbacMiddleware } from '@/core/middlewares/rbac.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
 import verifyJWT from '@/core/middlewares/jwt.middleware';
 
 import { RecipeCategoryLinkController } from './recipeCategoryLink.controller';
@@ -16,34 +16,34 @@ prefixRoutes(recipeCategoryLinksRouter, '/recipe-category-links');
 recipeCategoryLinksRouter.get(
   '/list',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:read'),
   (req, res) => recipeCategoryLinkController.recipeCategoryLinksList(req, res)
 );
 recipeCategoryLinksRouter.get(
   '/',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:read'),
   (req, res) => recipeCategoryLinkController.recipeCategoryLinks(req, res)
 );
 recipeCategoryLinksRouter.post(
   '/save',
   verifyJWT,
 
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:write'),
 
   (req, res) => recipeCategoryLinkController.createRecipeCategoryLink(req, res)
 );
 recipeCategoryLinksRouter.put(
   '/update/:modelId',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:write'),
 
   (req, res) => recipeCategoryLinkController.updateRecipeCategoryLink(req, res)
 );
 recipeCategoryLinksRouter.delete(
   '/delete',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:write'),
   (req, res) => recipeCategoryLinkController.deleteRecipeCategoryLink(req, res)
 );
 
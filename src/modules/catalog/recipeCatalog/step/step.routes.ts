@@ -2,38 +2,41 @@ import express from 'express';
 import Container from 'typedi';
 import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
 import { StepController } from './step.controller';
-import { rbacMiddleware } from '@/core/middlewares/rbac.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
 import verifyJWT from '@/core/middlewares/jwt.middleware';
 
 const stepController = Container.get(StepController);
 const stepsRouter = express.Router();
 prefixRoutes(stepsRouter, '/steps');
 
-stepsRouter.get('/list', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
-  stepController.stepsList(req, res)
+stepsRouter.get(
+  '/list',
+  verifyJWT,
+  requirePermission('recipe:read'),
+  (req, res) => stepController.stepsList(req, res)
 );
-stepsRouter.get('/', verifyJWT, rbacMiddleware(['ADMIN']), (req, res) =>
+stepsRouter.get('/', verifyJWT, requirePermission('recipe:read'), (req, res) =>
   stepController.steps(req, res)
 );
 stepsRouter.post(
   '/save',
   verifyJWT,
 
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:write'),
 
   (req, res) => stepController.createStep(req, res)
 );
 stepsRouter.put(
   '/update/:modelId',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:write'),
 
   (req, res) => stepController.updateStep(req, res)
 );
 stepsRouter.delete(
   '/delete',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('recipe:write'),
   (req, res) => stepController.deleteStep(req, res)
 );
 
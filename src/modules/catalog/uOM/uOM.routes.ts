@@ -1,8 +1,9 @@
 import express from 'express';
 import Container from 'typedi';
 import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
-import { rbacMiddleware } from '@/core/middlewares/rbac.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
 import verifyJWT from '@/core/middlewares/jwt.middleware';
+import { verifyJWTOrApiKey } from '@/core/middlewares/apiKey.middleware';
 import { UOMController } from './uOM.controller';
 
 const uOMController = Container.get(UOMController);
@@ -11,32 +12,32 @@ prefixRoutes(unitsOfMeasureRouter, '/us-o-m');
 
 unitsOfMeasureRouter.get(
   '/list',
-  verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
   (req, res) => uOMController.unitsOfMeasureList(req, res)
 );
 unitsOfMeasureRouter.get(
   '/',
-  verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  verifyJWTOrApiKey,
+  requirePermission('catalog:read'),
   (req, res) => uOMController.unitsOfMeasure(req, res)
 );
 unitsOfMeasureRouter.post(
   '/save',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
   (req, res) => uOMController.createUnitOfMeasure(req, res)
 );
 unitsOfMeasureRouter.put(
   '/update/:modelId',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
   (req, res) => uOMController.updateUnitOfService(req, res)
 );
 unitsOfMeasureRouter.delete(
   '/delete',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('catalog:write'),
   (req, res) => uOMController.deleteUnitOfMeasure(req, res)
 );
 
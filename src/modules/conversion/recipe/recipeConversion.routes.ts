@@ -1,7 +1,7 @@
 import express from 'express';
 import Container from 'typedi';
 import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
-import { rbacMiddleware } from '@/core/middlewares/rbac.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
 import verifyJWT from '@/core/middlewares/jwt.middleware';
 import { RecipeConversionController } from './recipeConversion.controller';
 
@@ -12,7 +12,7 @@ prefixRoutes(recipeConversionsRouter, '/recipe');
 recipeConversionsRouter.post(
   '/add',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('conversion:read'),
   (req, res) => recipeConversionController.getRecipe(req, res)
 );
 
@@ -1,7 +1,7 @@
 import express from 'express';
 import Container from 'typedi';
 import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
-import { rbacMiddleware } from '@/core/middlewares/rbac.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
 import verifyJWT from '@/core/middlewares/jwt.middleware';
 import { VolumeConversionController } from './volume.controller';
 
@@ -12,26 +12,26 @@ prefixRoutes(volumeConversionsRouter, '/volume');
 volumeConversionsRouter.get(
   '/list',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('conversion:read'),
   (req, res) => volumeConversionController.volumeConversionsList(req, res)
 );
 volumeConversionsRouter.get(
   '/',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('conversion:read'),
   (req, res) => volumeConversionController.volumeConversions(req, res)
 );
 volumeConversionsRouter.post(
   '/save',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('conversion:write'),
   (req, res) => volumeConversionController.createVolumeConversion(req, res)
 );
 
 volumeConversionsRouter.delete(
   '/delete',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('conversion:write'),
   (req, res) => volumeConversionController.deleteVolumeConversion(req, res)
 );
 
@@ -0,0 +1,83 @@
+import 'reflect-metadata';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { User } from '@prisma/client';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import CustomerAuthService from '../customerAuth.service';
+
+const sendMail = jest.fn<() => Promise<void>>();
+
+jest.mock('@/integrations/nodemailer/nodemailer.module', () => ({
+  MailModule: { getMailService: () => ({ sendMail }) },
+}));
+jest.mock('@/core/utils/jwt.util', () => ({
+  __esModule: true,
+  default: { generateEmailVerificationToken: () => 'verification-token' },
+}));
+
+const user = {
+  id: 'user-1',
+  username: 'jdoe',
+  email: 'jdoe@example.com',
+  password: 'hash',
+  email_verified_at: null,
+} as User;
+
+describe('CustomerAuthService', () => {
+  let findUnique: jest.Mock<() => Promise<User | null>>;
+  let customerAuthService: CustomerAuthService;
+
+  beforeEach(() => {
+    sendMail.mockReset();
+    findUnique = jest.fn<() => Promise<User | null>>();
+    customerAuthService = new CustomerAuthService({
+      getClient: () => ({
+        user: { create: async () => user, findUnique },
+      }),
+    } as unknown as PrismaService);
+  });
+
+  describe('signUp', () => {
+    it('answers without waiting for the verification email', async () => {
+      sendMail.mockReturnValue(new Promise(() => undefined));
+
+      const { userData } = await customerAuthService.signUp({
+        username: 'jdoe',
+        email: 'jdoe@example.com',
+        password: 'Str0ng!Passw0rd',
+      });
+
+      expect(userData).not.toHaveProperty('password');
+      expect(sendMail).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the account when the email cannot be sent', async () => {
+      sendMail.mockRejectedValue(new Error('SMTP unavailable'));
+
+      await expect(
+        customerAuthService.signUp({
+          username: 'jdoe',
+          email: 'jdoe@example.com',
+          password: 'Str0ng!Passw0rd',
+        })
+      ).resolves.toHaveProperty('userData.id', 'user-1');
+    });
+  });
+
+  describe('resendVerification', () => {
+    it('answers the same way for unknown and unverified addresses', async () => {
+      sendMail.mockReturnValue(new Promise(() => undefined));
+
+      findUnique.mockResolvedValue(null);
+      expect(
+        await customerAuthService.resendVerification('nobody@example.com')
+      ).toBe(true);
+      expect(sendMail).not.toHaveBeenCalled();
+
+      findUnique.mockResolvedValue(user);
+      expect(
+        await customerAuthService.resendVerification('JDoe@example.com ')
+      ).toBe(true);
+      expect(sendMail).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { Request, Response } from 'express';
+import { Service } from 'typedi';
+import { log } from 'console';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import CustomerAuthService from './customerAuth.service';
+import { CustomerSignUp } from './customerAuth.types';
+
+@Service()
+export default class CustomerAuthController {
+  constructor(private readonly customerAuthService: CustomerAuthService) {}
+
+  /**
+   * Handles the customer self-registration.
+   *
+   * @param {Request} req - The HTTP request object containing the sign-up data in the body.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the created user if the registration succeeds.
+   */
+  async signUp(req: Request, res: Response): Promise<void> {
+    try {
+      log('Customer Sign Up Request Received');
+
+      const data: CustomerSignUp = req.body;
+
+      const payload = await this.customerAuthService.signUp(data);
+
+      const response = ApiResponse.http201(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message: (error as Error).message || 'Sign up failed.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Verifies the email address carried by the token of a verification link.
+   *
+   * @param {Request} req - The HTTP request object containing the token in the query string.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves once the email address is verified.
+   */
+  async verifyEmail(req: Request, res: Response): Promise<void> {
+    try {
+      log('Verify Email Request Received');
+
+      const token = String(req.query.token ?? '');
+
+      const payload = await this.customerAuthService.verifyEmail(token);
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message: (error as Error).message || 'Email verification failed.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Sends a new verification link to an unverified account.
+   *
+   * @param {Request} req - The HTTP request object containing the email in the body.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Always resolves with the same message, whether the account exists or not.
+   */
+  async resendVerification(req: Request, res: Response): Promise<void> {
+    try {
+      log('Resend Verification Request Received');
+
+      const data: { email: string } = req.body;
+
+      await this.customerAuthService.resendVerification(data.email);
+
+      const response = ApiResponse.http200({
+        message:
+          'If an unverified account exists for this address, a new verification link has been sent.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message || 'Resending the verification failed.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+}
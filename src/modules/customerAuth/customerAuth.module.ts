@@ -0,0 +1,10 @@
+import router from './customerAuth.routes';
+
+// Define a customerAuthModule object to structure the module
+const customerAuthModule = {
+  // The controller property holds the router with the defined routes from 'customerAuth.routes.ts'
+  controller: router,
+};
+
+// Export the module to be used elsewhere in the application
+export default customerAuthModule;
@@ -0,0 +1,30 @@
+import express from 'express';
+import Container from 'typedi';
+import CustomerAuthController from './customerAuth.controller';
+import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
+import { resendVerificationRateLimiter } from '@/core/middlewares/rateLimiter.middleware';
+
+// Get the instance of CustomerAuthController from the container
+const customerAuthController = Container.get(CustomerAuthController);
+
+// Create a new express router
+const router = express.Router();
+
+// Apply the prefix for all routes under the '/customer-auth' path
+prefixRoutes(router, '/customer-auth');
+
+// Route for customer self-registration (POST request)
+router.post('/sign-up', (req, res) => customerAuthController.signUp(req, res));
+
+// Route reached from the link of the verification email (GET request)
+router.get('/verify-email', (req, res) =>
+  customerAuthController.verifyEmail(req, res)
+);
+
+// Route for sending a new verification link, with its own rate limit (POST request)
+router.post('/resend-verification', resendVerificationRateLimiter, (req, res) =>
+  customerAuthController.resendVerification(req, res)
+);
+
+// Export the configured router
+export default router;
@@ -0,0 +1,144 @@
+/**
+ * customerAuth.service.ts
+ *
+ * This file defines the CustomerAuthService class, which handles the public
+ * self-registration of CUSTOMER accounts and the verification of their email address.
+ *
+ * Verification emails are sent in the background, once the account is stored: a mail
+ * failure does not fail the sign-up (the link can be sent again with `resendVerification`),
+ * and the response time does not tell whether an address has an account.
+ *
+ * Dependencies:
+ * - Prisma ORM for database operations
+ * - Bcrypt for password hashing
+ * - JWT utilities for signing the verification links
+ * - Nodemailer integration for sending the verification emails
+ */
+
+import { Service } from 'typedi';
+import { User } from '@prisma/client';
+import _ from 'lodash';
+import { log } from 'console';
+import config from '@/config';
+import ServiceDefinition from '../definitions/service';
+import BcryptUtil from '@/core/utils/bcrypt.util';
+import JwtUtil from '@/core/utils/jwt.util';
+import ApiUrlUtil from '@/core/utils/apiUrl.util';
+import { MailModule } from '@/integrations/nodemailer/nodemailer.module';
+import { CustomerSignUp, customerSignUpSchema } from './customerAuth.types';
+
+@Service()
+export default class CustomerAuthService extends ServiceDefinition {
+  /**
+   * Registers a new CUSTOMER account and emails it a verification link in the background.
+   * The account cannot sign in until the email address has been verified.
+   * @param data - The sign-up payload (username, email and password).
+   * @returns The created user without its password.
+   */
+  async signUp(data: CustomerSignUp) {
+    try {
+      const cleanData = customerSignUpSchema.parse(data);
+
+      const user = await this.db.user.create({
+        data: {
+          username: cleanData.username,
+          email: cleanData.email,
+          password: await BcryptUtil.hashPassword(cleanData.password),
+          profiles: ['CUSTOMER'],
+        },
+      });
+
+      this.sendVerificationEmail(user).catch(log);
+
+      const userData = _.omit(user, ['password']);
+      return { userData };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Marks the email address carried by a verification token as verified.
+   * @param token - The signed token received through the verification link.
+   * @returns An object telling whether the address is verified.
+   */
+  async verifyEmail(token: string) {
+    try {
+      const decoded = JwtUtil.verifyEmailVerificationToken(token);
+
+      const user = await this.db.user.findUnique({
+        where: { id: decoded.userId },
+      });
+
+      // The link is only valid for the address it was issued for
+      if (!user || user.email !== decoded.email) {
+        throw new Error('Invalid verification link');
+      }
+
+      if (!user.email_verified_at) {
+        await this.db.user.update({
+          where: { id: user.id },
+          data: { email_verified_at: new Date() },
+        });
+        log(`Email verified for user ${user.id}`);
+      }
+
+      return { verified: true };
+    } catch (error) {
+      throw new Error('Error verifying email: ' + (error as Error).message);
+    }
+  }
+
+  /**
+   * Sends a new verification link to an unverified account, in the background.
+   * Unknown or already verified addresses are ignored silently so the
+   * endpoint cannot be used to discover which emails are registered.
+   * @param email - The email address of the account.
+   */
+  async resendVerification(email: string) {
+    try {
+      const user = await this.db.user.findUnique({
+        where: {
+          email: String(email ?? '')
+            .trim()
+            .toLowerCase(),
+        },
+      });
+
+      if (user && !user.email_verified_at) {
+        this.sendVerificationEmail(user).catch(log);
+      }
+
+      return true;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Builds the signed verification link of a user and emails it.
+   * @param user - The user whose email address must be verified.
+   */
+  private async sendVerificationEmail(user: User) {
+    const token = JwtUtil.generateEmailVerificationToken({
+      userId: user.id,
+      email: user.email,
+      purpose: 'email-verification',
+    });
+
+    const verificationUrl = ApiUrlUtil.url('customer-auth/verify-email', {
+      token,
+    });
+
+    await MailModule.getMailService().sendMail({
+      to: user.email,
+      subject: 'Confirmez votre adresse email',
+      templateName: 'verify-email',
+      templateData: {
+        name: user.username,
+        verificationUrl,
+        expiresIn: config.jwt.emailVerificationExpiresIn,
+      },
+    });
+  }
+}
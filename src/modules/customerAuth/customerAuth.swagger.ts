@@ -0,0 +1,94 @@
+const customerAuthDocs = {
+  '/customer-auth/sign-up': {
+    post: {
+      summary: "Inscription d'un client",
+      tags: ['Customer Auth'],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              $ref: '#/components/schemas/CustomerSignUpRequest',
+            },
+          },
+        },
+      },
+      responses: {
+        201: {
+          description: 'Compte créé, email de vérification envoyé',
+        },
+        400: {
+          description: 'Erreur de validation',
+        },
+      },
+    },
+  },
+  '/customer-auth/verify-email': {
+    get: {
+      summary: "Vérification de l'adresse email",
+      tags: ['Customer Auth'],
+      parameters: [
+        {
+          name: 'token',
+          in: 'query',
+          required: true,
+          schema: { type: 'string' },
+        },
+      ],
+      responses: {
+        200: {
+          description: 'Adresse email vérifiée',
+        },
+        400: {
+          description: 'Lien invalide ou expiré',
+        },
+      },
+    },
+  },
+  '/customer-auth/resend-verification': {
+    post: {
+      summary: "Renvoyer l'email de vérification",
+      tags: ['Customer Auth'],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              $ref: '#/components/schemas/CustomerResendVerificationRequest',
+            },
+          },
+        },
+      },
+      responses: {
+        200: {
+          description: 'Demande prise en compte',
+        },
+        429: {
+          description: 'Trop de demandes',
+        },
+      },
+    },
+  },
+};
+
+const customerAuthSchemas = {
+  CustomerSignUpRequest: {
+    type: 'object',
+    properties: {
+      username: { type: 'string', example: 'jdoe' },
+      email: { type: 'string', example: 'jdoe@example.com' },
+      password: { type: 'string', example: 'Client#Secret1' },
+    },
+    required: ['username', 'email', 'password'],
+  },
+  CustomerResendVerificationRequest: {
+    type: 'object',
+    properties: {
+      email: { type: 'string', example: 'jdoe@example.com' },
+    },
+    required: ['email'],
+  },
+};
+
+export default customerAuthDocs;
+export { customerAuthSchemas };
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+import { passwordSchema } from '@/core/utils/passwordPolicy.util';
+
+// Payload accepted by the public customer sign-up endpoint
+export const customerSignUpSchema = z.object({
+  username: z.string().trim().min(3).max(50),
+  email: z.string().trim().toLowerCase().email(),
+  password: passwordSchema,
+});
+
+export type CustomerSignUp = z.infer<typeof customerSignUpSchema>;
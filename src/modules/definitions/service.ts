@@ -12,4 +12,12 @@ export default class ServiceDefinition {
   protected handleError(error: any) {
     return this.prismaService.handleError(error);
   }
+
+  // Business rule errors (plain `Error`) keep their message, the others go through `handleError`
+  protected formatError(error: unknown) {
+    if (error instanceof Error && error.constructor === Error) {
+      return error;
+    }
+    return this.handleError(error);
+  }
 }
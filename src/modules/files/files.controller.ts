@@ -1,11 +1,10 @@
-import path from 'path';
-import appRootPath from 'app-root-path';
 import { Request, Response } from 'express';
 import FilesService from './files.service';
-import { IMAGE_DIRECTORY_PREFIX } from '@/core/constants/images';
 import ApiResponse from '@/core/utils/apiResponse.util';
 import { log } from 'console';
 import { Service } from 'typedi';
+import { pipeline } from 'stream';
+import { StoredFile } from '@/core/storage/storage.types';
 @Service()
 export default class FilesController {
   constructor(private filesService: FilesService) {}
@@ -13,28 +12,61 @@ export default class FilesController {
   async getFile(req: Request, res: Response) {
     try {
       log('Files Get Request Received');
-      const directoryPath = appRootPath.resolve(
-        `${IMAGE_DIRECTORY_PREFIX}${req.params.directory}`
+      const file = await this.filesService.resolveFile(
+        req.params.directory as string,
+        req.params.fileRef as string,
+        {
+          size: req.query.size as string | undefined,
+          width: req.query.width as string | undefined,
+          format: req.query.format as string | undefined,
+          accept: req.headers.accept,
+        }
       );
+      // The served format can depend on the formats accepted by the client
+      res.vary('Accept');
+      this.sendFile(res, file);
+    } catch (error) {
+      this.sendNotFound(res, error);
+    }
+  }
 
-      const filePath = path.join(directoryPath, req.params.fileRef as string);
-
-      // Envoie le fichier et gère l'erreur directement via le callback
-      res.sendFile(filePath, (error) => {
-        if (error) {
-          log('Unexpected error', error);
-          const response = ApiResponse.http404({
-            message: (error as Error).message || 'Image not found.',
-          });
-          res.status(response.httpStatusCode).json(response.data);
-        }
+  async getSignedFile(req: Request, res: Response) {
+    try {
+      log('Files Signed Get Request Received');
+      const file = await this.filesService.signedFile({
+        key: req.query.key as string | undefined,
+        expires: req.query.expires as string | undefined,
+        signature: req.query.signature as string | undefined,
       });
+      this.sendFile(res, file);
     } catch (error) {
-      log('Unexpected error', error);
-      const response = ApiResponse.http404({
-        message: (error as Error).message || 'Image not found.',
-      });
-      res.status(response.httpStatusCode).json(response.data);
+      this.sendNotFound(res, error);
+    }
+  }
+
+  /**
+   * Streams a stored file to the response.
+   */
+  private sendFile(res: Response, file: StoredFile) {
+    res.type(file.contentType);
+    // Browsers must not guess another type from the content of a stored file
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    if (file.size !== undefined) {
+      res.setHeader('Content-Length', file.size);
     }
+    pipeline(file.stream, res, (error) => {
+      if (error) {
+        // The headers are sent, the client sees a truncated file
+        log('Unexpected error', error);
+      }
+    });
+  }
+
+  private sendNotFound(res: Response, error: unknown) {
+    log('Unexpected error', error);
+    const response = ApiResponse.http404({
+      message: (error as Error).message || 'Image not found.',
+    });
+    res.status(response.httpStatusCode).json(response.data);
   }
 }
@@ -5,6 +5,7 @@ import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
 import { setDefaultParam } from '@/core/middlewares/setDefaultParam.middleware.';
 import {
   CATEGORY_IMAGE_DIRECTORY,
+  PRODUCT_IMAGE_DIRECTORY,
   SUBCATEGORY_IMAGE_DIRECTORY,
   SUPPLIER_IMAGE_DIRECTORY,
 } from '@/core/constants/images';
@@ -18,6 +19,9 @@ const router = express.Router();
 // Apply the prefix for all routes under the '/admin-auth' path
 prefixRoutes(router, '/assets');
 
+// Route serving the files of the signed URLs of the local storage
+router.get('/signed', (req, res) => filesController.getSignedFile(req, res));
+
 // Route for retrieve all active sessions the authentication token (POST request)
 router.get(
   '/categories/:fileRef',
@@ -34,5 +38,10 @@ router.get(
   setDefaultParam('directory', SUPPLIER_IMAGE_DIRECTORY),
   (req, res) => filesController.getFile(req, res)
 );
+router.get(
+  '/products/:fileRef',
+  setDefaultParam('directory', PRODUCT_IMAGE_DIRECTORY),
+  (req, res) => filesController.getFile(req, res)
+);
 // Export the configured router
 export default router;
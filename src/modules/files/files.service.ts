@@ -1,5 +1,243 @@
 import { Service } from 'typedi';
+import { Prisma } from '@prisma/client';
+import path from 'path';
+import { log } from 'console';
 import ServiceDefinition from '../definitions/service';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import StorageService from '@/core/storage/storage.service';
+import LocalStorageDriver from '@/core/storage/localStorage.driver';
+import { StoredFile } from '@/core/storage/storage.types';
+import {
+  CATEGORY_IMAGE_DIRECTORY,
+  IMAGE_ALL_VARIANT_FORMATS,
+  IMAGE_VARIANT_SIZES,
+  PRODUCT_IMAGE_DIRECTORY,
+  SUPPLIER_IMAGE_DIRECTORY,
+} from '@/core/constants/images';
+import ImageUtil, { ImageSize, ImageVariants } from '@/core/utils/image.util';
+import { ImageRequest, SignedFileRequest } from './files.types';
 
 @Service()
-export default class FilesService extends ServiceDefinition {}
+export default class FilesService extends ServiceDefinition {
+  constructor(
+    prismaService: PrismaService,
+    private readonly storage: StorageService
+  ) {
+    super(prismaService);
+  }
+
+  /**
+   * Opens the file to serve: the original, or the variant nearest to the requested size
+   * in the best accepted format, chosen from the variants stored on the image record.
+   * @param directory - The directory of the image, under the uploads directory.
+   * @param fileRef - The file name of the original.
+   * @param request - The requested size or width, format and the `Accept` header.
+   */
+  async resolveFile(
+    directory: string,
+    fileRef: string,
+    request: ImageRequest = {}
+  ): Promise<StoredFile> {
+    const fileName = path.basename(fileRef);
+
+    const width =
+      request.size && request.size in IMAGE_VARIANT_SIZES
+        ? IMAGE_VARIANT_SIZES[request.size as ImageSize]
+        : parseInt(request.width ?? '', 10) || null;
+    const variants = width && (await this.variantsOf(directory, fileName));
+    if (!width || !variants) {
+      return this.storage.stream(this.storage.key(directory, fileName));
+    }
+
+    const accepted = [
+      IMAGE_ALL_VARIANT_FORMATS.includes(request.format ?? '')
+        ? request.format
+        : undefined,
+      request.accept?.includes('image/avif') ? 'avif' : undefined,
+      request.accept?.includes('image/webp') ? 'webp' : undefined,
+    ].filter((format): format is string => !!format);
+    // Every size has a variant in the format of the original
+    const formats = [...accepted, variants.format];
+
+    const variant = ImageUtil.nearestVariant(variants, width, formats);
+    return this.storage.stream(
+      this.storage.key(directory, variant ?? fileName)
+    );
+  }
+
+  /**
+   * Reads the variants stored on the record of an image.
+   * @param directory - The directory of the image.
+   * @param fileName - The file name of the original.
+   * @returns The variants, or null if the image has none or no record.
+   */
+  private async variantsOf(directory: string, fileName: string) {
+    const imageRef = {
+      OR: [{ imageRef: fileName }, { imageRef: { endsWith: `/${fileName}` } }],
+    };
+    let variants: Prisma.JsonValue | undefined;
+    switch (directory) {
+      case PRODUCT_IMAGE_DIRECTORY:
+        variants = (
+          await this.db.productImage.findFirst({
+            where: { url: { endsWith: `/${fileName}` } },
+            select: { variants: true },
+          })
+        )?.variants;
+        break;
+      case CATEGORY_IMAGE_DIRECTORY:
+        variants = (
+          await this.db.productCategory.findFirst({
+            where: imageRef,
+            select: { imageVariants: true },
+          })
+        )?.imageVariants;
+        break;
+      case SUPPLIER_IMAGE_DIRECTORY:
+        variants = (
+          await this.db.supplier.findFirst({
+            where: imageRef,
+            select: { imageVariants: true },
+          })
+        )?.imageVariants;
+        break;
+    }
+    return (variants ?? null) as ImageVariants | null;
+  }
+
+  /**
+   * Opens the file of a signed URL of the local storage.
+   * @param request - The key, expiry date and signature of the URL.
+   * @throws Error if the URL is invalid or expired.
+   */
+  async signedFile(request: SignedFileRequest): Promise<StoredFile> {
+    const driver = this.storage.driver;
+    if (
+      !(driver instanceof LocalStorageDriver) ||
+      !request.key ||
+      !request.signature ||
+      !driver.verify(request.key, Number(request.expires), request.signature)
+    ) {
+      throw new Error('The link is invalid or expired');
+    }
+    return driver.stream(request.key);
+  }
+
+  /**
+   * Stores an image with its variants.
+   * @param directory - The directory of the image.
+   * @param fileName - The file name of the image.
+   * @param input - The content of the image.
+   * @param stored - Whether the original is already stored, to rewrite it only when normalized.
+   * @returns The variants, or null for images that are not processed (vector images).
+   * @throws Error if the content is not a readable image, or if the storage fails.
+   */
+  async storeImage(
+    directory: string,
+    fileName: string,
+    input: Buffer,
+    stored = false
+  ): Promise<ImageVariants | null> {
+    const processed = await ImageUtil.process(fileName, input).catch(() => {
+      throw new Error('Not a valid image');
+    });
+
+    const original = processed?.original ?? (stored ? null : input);
+    if (original) {
+      await this.storage.put(this.storage.key(directory, fileName), original);
+    }
+    for (const file of processed?.files ?? []) {
+      await this.storage.put(
+        this.storage.key(directory, file.fileName),
+        file.data
+      );
+    }
+    return processed?.variants ?? null;
+  }
+
+  /**
+   * Removes stored images and their variants, ignoring the missing ones.
+   * @param directory - The directory of the images.
+   * @param fileNames - The file names of the originals.
+   */
+  async removeImages(directory: string, fileNames: string[]) {
+    const keys = fileNames.flatMap((fileName) =>
+      [fileName, ...ImageUtil.variantFileNames(fileName)].map((name) =>
+        this.storage.key(directory, name)
+      )
+    );
+    await Promise.all(
+      keys.map((key) =>
+        this.storage
+          .delete(key)
+          .catch((error) => log(`Image file ${key} not removed:`, error))
+      )
+    );
+  }
+
+  /**
+   * Regenerates the variants of every stored category, supplier and product image.
+   * @returns The number of processed images and the files that failed.
+   */
+  async reprocessImages() {
+    let processed = 0;
+    const failed: string[] = [];
+
+    const reprocess = async (
+      directory: string,
+      fileRef: string,
+      save: (variants: ImageVariants | null) => Promise<unknown>
+    ) => {
+      const fileName = path.basename(fileRef);
+      try {
+        const input = await this.storage.get(
+          this.storage.key(directory, fileName)
+        );
+        await save(await this.storeImage(directory, fileName, input, true));
+        processed++;
+      } catch (error) {
+        log(`Image ${directory}/${fileName} not processed:`, error);
+        failed.push(`${directory}/${fileName}`);
+      }
+    };
+
+    const [categories, suppliers, productImages] = await Promise.all([
+      this.db.productCategory.findMany({
+        where: { imageRef: { not: null } },
+        select: { id: true, imageRef: true },
+      }),
+      this.db.supplier.findMany({
+        where: { imageRef: { not: null } },
+        select: { id: true, imageRef: true },
+      }),
+      this.db.productImage.findMany({ select: { id: true, url: true } }),
+    ]);
+
+    for (const { id, imageRef } of categories) {
+      await reprocess(CATEGORY_IMAGE_DIRECTORY, imageRef!, (imageVariants) =>
+        this.db.productCategory.update({
+          where: { id },
+          data: { imageVariants: imageVariants ?? Prisma.DbNull },
+        })
+      );
+    }
+    for (const { id, imageRef } of suppliers) {
+      await reprocess(SUPPLIER_IMAGE_DIRECTORY, imageRef!, (imageVariants) =>
+        this.db.supplier.update({
+          where: { id },
+          data: { imageVariants: imageVariants ?? Prisma.DbNull },
+        })
+      );
+    }
+    for (const { id, url } of productImages) {
+      await reprocess(PRODUCT_IMAGE_DIRECTORY, url, (variants) =>
+        this.db.productImage.update({
+          where: { id },
+          data: { variants: variants ?? Prisma.DbNull },
+        })
+      );
+    }
+
+    return { processed, failed };
+  }
+}
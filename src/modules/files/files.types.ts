@@ -0,0 +1,14 @@
+// Variant of an image requested when serving it
+export interface ImageRequest {
+  size?: string; // Name of a size of `IMAGE_VARIANT_SIZES`, or `original`
+  width?: string; // Wanted width, the nearest variant being served
+  format?: string; // Preferred format (webp, avif, jpeg, png)
+  accept?: string; // `Accept` header of the request
+}
+
+// Query of a signed URL of the local storage
+export interface SignedFileRequest {
+  key?: string; // Key of the file
+  expires?: string; // Expiry date, in seconds since the epoch
+  signature?: string; // HMAC signature of the key and expiry date
+}
@@ -0,0 +1,82 @@
+import 'reflect-metadata';
+import { describe, expect, it } from '@jest/globals';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import PermissionsService from '../permissions.service';
+
+// Role → permissions mapping stored in the database
+const rolePermissions = [
+  { role: 'CATALOG_EDITOR', permission: 'catalog:read' },
+  { role: 'CATALOG_EDITOR', permission: 'catalog:write' },
+  { role: 'WAREHOUSE_OPERATOR', permission: 'catalog:read' },
+  { role: 'WAREHOUSE_OPERATOR', permission: 'stock:adjust' },
+];
+
+const permissionsService = new PermissionsService({
+  getClient: () => ({
+    rolePermission: { findMany: async () => rolePermissions },
+  }),
+} as unknown as PrismaService);
+
+describe('PermissionsService.ensureCanAssignRoles', () => {
+  it('lets an admin grant the roles whose permissions it holds', async () => {
+    await expect(
+      permissionsService.ensureCanAssignRoles(
+        ['CATALOG_EDITOR', 'WAREHOUSE_OPERATOR'],
+        ['CUSTOMER'],
+        ['CUSTOMER', 'WAREHOUSE_OPERATOR']
+      )
+    ).resolves.toBe(undefined);
+  });
+
+  it('refuses a role granting permissions the admin does not hold', async () => {
+    await expect(
+      permissionsService.ensureCanAssignRoles(
+        ['CATALOG_EDITOR'],
+        [],
+        ['WAREHOUSE_OPERATOR']
+      )
+    ).rejects.toThrow('You do not hold the permissions granted: stock:adjust');
+  });
+
+  it('only checks the roles added by the change', async () => {
+    await expect(
+      permissionsService.ensureCanAssignRoles(
+        ['CATALOG_EDITOR'],
+        ['WAREHOUSE_OPERATOR'],
+        ['WAREHOUSE_OPERATOR', 'CATALOG_EDITOR']
+      )
+    ).resolves.toBe(undefined);
+  });
+
+  it('reserves granting and removing ADMIN to ADMINs', async () => {
+    await expect(
+      permissionsService.ensureCanAssignRoles(
+        ['CATALOG_EDITOR'],
+        ['CATALOG_EDITOR'],
+        ['CATALOG_EDITOR', 'ADMIN']
+      )
+    ).rejects.toThrow('Only an ADMIN can grant or remove ADMIN');
+    await expect(
+      permissionsService.ensureCanAssignRoles(
+        ['CATALOG_EDITOR'],
+        ['ADMIN'],
+        ['CUSTOMER']
+      )
+    ).rejects.toThrow('Only an ADMIN can grant or remove ADMIN');
+    await expect(
+      permissionsService.ensureCanAssignRoles(['ADMIN'], [], ['ADMIN'])
+    ).resolves.toBe(undefined);
+  });
+});
+
+describe('PermissionsService.updateRolePermissions', () => {
+  it('refuses to add permissions the admin does not hold', async () => {
+    await expect(
+      permissionsService.updateRolePermissions(
+        'CATALOG_EDITOR',
+        { permissions: ['catalog:read', 'catalog:write', 'user:manage'] },
+        ['CATALOG_EDITOR']
+      )
+    ).rejects.toThrow('You do not hold the permissions granted: user:manage');
+  });
+});
@@ -0,0 +1,97 @@
+import { Request, Response } from 'express';
+import { log } from 'console';
+import { Service } from 'typedi';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import PermissionsService from './permissions.service';
+import { RolePermissions } from './permissions.types';
+
+@Service()
+export default class PermissionsController {
+  constructor(private readonly permissionsService: PermissionsService) {}
+
+  /**
+   * Lists the permissions that can be granted to roles.
+   *
+   * @param {Request} req - The HTTP request object.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the permission catalog.
+   */
+  async permissionsCatalog(req: Request, res: Response): Promise<void> {
+    try {
+      log('Permissions Catalog Request Received');
+
+      const payload = this.permissionsService.permissionsCatalog();
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while fetching permissions.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Lists the permission set of every role.
+   *
+   * @param {Request} req - The HTTP request object.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the roles and their permissions.
+   */
+  async rolesPermissions(req: Request, res: Response): Promise<void> {
+    try {
+      log('Roles Permissions Request Received');
+
+      const payload = await this.permissionsService.rolesPermissions();
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while fetching role permissions.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Replaces the permission set of a role.
+   *
+   * @param {Request} req - The HTTP request object with the `role` route parameter and the `permissions` in the body.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the new permission set of the role.
+   */
+  async updateRolePermissions(req: Request, res: Response): Promise<void> {
+    try {
+      log('Update Role Permissions Request Received');
+
+      const data: RolePermissions = req.body;
+      const payload = await this.permissionsService.updateRolePermissions(
+        req.params.role as string,
+        data,
+        (req as any).user.roles ?? []
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while updating role permissions.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+}
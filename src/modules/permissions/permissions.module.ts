@@ -0,0 +1,10 @@
+import router from './permissions.routes';
+
+// Define a permissionsModule object to structure the module
+const permissionsModule = {
+  // The controller property holds the router with the defined routes from 'permissions.routes.ts'
+  controller: router,
+};
+
+// Export the module to be used elsewhere in the application
+export default permissionsModule;
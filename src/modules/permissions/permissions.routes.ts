@@ -0,0 +1,39 @@
+import express from 'express';
+import Container from 'typedi';
+import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
+import verifyJWT from '@/core/middlewares/jwt.middleware';
+import PermissionsController from './permissions.controller';
+
+// Get the instance of PermissionsController from the container
+const permissionsController = Container.get(PermissionsController);
+
+// Create a new express router
+const router = express.Router();
+
+// Apply the prefix for all routes under the '/permissions' path
+prefixRoutes(router, '/permissions');
+
+// Route for listing the available permissions (GET request)
+router.get('/', verifyJWT, requirePermission('permission:manage'), (req, res) =>
+  permissionsController.permissionsCatalog(req, res)
+);
+
+// Route for listing the permission set of every role (GET request)
+router.get(
+  '/roles',
+  verifyJWT,
+  requirePermission('permission:manage'),
+  (req, res) => permissionsController.rolesPermissions(req, res)
+);
+
+// Route for replacing the permission set of a role (PUT request)
+router.put(
+  '/roles/:role',
+  verifyJWT,
+  requirePermission('permission:manage'),
+  (req, res) => permissionsController.updateRolePermissions(req, res)
+);
+
+// Export the configured router
+export default router;
@@ -0,0 +1,202 @@
+/**
+ * permissions.service.ts
+ *
+ * This file defines the PermissionsService class, which resolves the permissions
+ * granted to a set of roles and lets administrators edit the permission set of each role.
+ *
+ * The role → permissions mapping is read from the `RolePermission` table and kept in
+ * memory; it is reloaded after every change made through this service.
+ * ADMIN is a super role: it holds every permission and its set cannot be edited.
+ *
+ * Nobody can grant more than they hold: a role or permission set can only gain the
+ * permissions of the user making the change, and only an ADMIN can grant or withdraw ADMIN.
+ */
+
+import { Service } from 'typedi';
+import { ProfileName } from '@prisma/client';
+import { log } from 'console';
+import ServiceDefinition from '../definitions/service';
+import {
+  Permission,
+  PERMISSIONS,
+  SUPER_ROLE,
+} from '@/core/constants/permissions';
+import { RolePermissions, rolePermissionsSchema } from './permissions.types';
+
+@Service()
+export default class PermissionsService extends ServiceDefinition {
+  // In-memory copy of the role → permissions mapping, loaded on first use
+  private cache: Map<string, Set<string>> | null = null;
+
+  /**
+   * Returns the catalog of available permissions with their description.
+   */
+  permissionsCatalog() {
+    return {
+      permissions: Object.entries(PERMISSIONS).map(([key, description]) => ({
+        key,
+        description,
+      })),
+    };
+  }
+
+  /**
+   * Returns the permission set of every role.
+   */
+  async rolesPermissions() {
+    try {
+      const cache = await this.loadCache();
+
+      const roles = Object.values(ProfileName).map((role) => ({
+        role,
+        editable: role !== SUPER_ROLE,
+        permissions:
+          role === SUPER_ROLE
+            ? Object.keys(PERMISSIONS)
+            : [...(cache.get(role) ?? [])],
+      }));
+
+      return { roles };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Replaces the permission set of a role.
+   * @param role - The role to edit.
+   * @param data - The complete list of permissions to grant.
+   * @param actorRoles - The roles of the user making the change.
+   */
+  async updateRolePermissions(
+    role: string,
+    data: RolePermissions,
+    actorRoles: string[]
+  ) {
+    try {
+      if (!Object.values(ProfileName).includes(role as ProfileName)) {
+        throw new Error('Unknown role');
+      }
+      if (role === SUPER_ROLE) {
+        throw new Error(`The permissions of ${SUPER_ROLE} cannot be edited`);
+      }
+      const cleanData = rolePermissionsSchema.parse(data);
+
+      const current = (await this.loadCache()).get(role) ?? new Set();
+      await this.ensureCanGrant(
+        actorRoles,
+        cleanData.permissions.filter((permission) => !current.has(permission))
+      );
+
+      await this.db.$transaction([
+        this.db.rolePermission.deleteMany({
+          where: { role: role as ProfileName },
+        }),
+        this.db.rolePermission.createMany({
+          data: cleanData.permissions.map((permission) => ({
+            role: role as ProfileName,
+            permission,
+          })),
+        }),
+      ]);
+
+      this.cache = null;
+      log(`Permissions of ${role} set to ${cleanData.permissions.join()}`);
+
+      return { role, permissions: cleanData.permissions };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Refuses a change of roles granting permissions the actor does not hold, or
+   * granting or withdrawing the super role without holding it.
+   * @param actorRoles - The roles of the user making the change.
+   * @param previousRoles - The roles of the user before the change.
+   * @param roles - The roles of the user after the change.
+   */
+  async ensureCanAssignRoles(
+    actorRoles: string[],
+    previousRoles: string[],
+    roles: string[]
+  ) {
+    const added = roles.filter((role) => !previousRoles.includes(role));
+    const removed = previousRoles.filter((role) => !roles.includes(role));
+    if (
+      [...added, ...removed].includes(SUPER_ROLE) &&
+      !actorRoles.includes(SUPER_ROLE)
+    ) {
+      throw new Error(
+        `Only an ${SUPER_ROLE} can grant or remove ${SUPER_ROLE}`
+      );
+    }
+
+    await this.ensureCanGrant(
+      actorRoles,
+      await this.permissionsForRoles(added)
+    );
+  }
+
+  /**
+   * Refuses to grant permissions the actor does not hold.
+   * @param actorRoles - The roles of the user making the change.
+   * @param permissions - The permissions granted by the change.
+   */
+  async ensureCanGrant(actorRoles: string[], permissions: Iterable<string>) {
+    const held = await this.permissionsForRoles(actorRoles);
+    const missing = [...permissions].filter(
+      (permission) => !held.has(permission)
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `You do not hold the permissions granted: ${missing.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Resolves the permissions granted by a set of roles.
+   * @param roles - The roles of the authenticated user.
+   * @returns The union of the permissions of the roles.
+   */
+  async permissionsForRoles(roles: string[]): Promise<Set<string>> {
+    if (roles.includes(SUPER_ROLE)) {
+      return new Set(Object.keys(PERMISSIONS));
+    }
+
+    const cache = await this.loadCache();
+    const permissions = new Set<string>();
+    for (const role of roles) {
+      cache.get(role)?.forEach((permission) => permissions.add(permission));
+    }
+    return permissions;
+  }
+
+  /**
+   * Checks whether a set of roles grants a permission.
+   * @param roles - The roles of the authenticated user.
+   * @param permission - The required permission.
+   */
+  async hasPermission(roles: string[], permission: Permission) {
+    return (await this.permissionsForRoles(roles)).has(permission);
+  }
+
+  /**
+   * Loads the role → permissions mapping from the database if needed.
+   */
+  private async loadCache() {
+    if (!this.cache) {
+      const rows = await this.db.rolePermission.findMany();
+      const cache = new Map<string, Set<string>>();
+      for (const row of rows) {
+        if (!cache.has(row.role)) {
+          cache.set(row.role, new Set());
+        }
+        cache.get(row.role)?.add(row.permission);
+      }
+      this.cache = cache;
+    }
+    return this.cache;
+  }
+}
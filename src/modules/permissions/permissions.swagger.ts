@@ -0,0 +1,80 @@
+const permissionsDocs = {
+  '/permissions': {
+    get: {
+      summary: 'Lister les permissions disponibles',
+      tags: ['Permissions'],
+      security: [{ bearerAuth: [] }],
+      responses: {
+        200: { description: 'Catalogue des permissions' },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+  '/permissions/roles': {
+    get: {
+      summary: 'Lister les permissions de chaque rôle',
+      tags: ['Permissions'],
+      security: [{ bearerAuth: [] }],
+      responses: {
+        200: { description: 'Rôles et permissions' },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+  '/permissions/roles/{role}': {
+    put: {
+      summary: "Remplacer les permissions d'un rôle",
+      tags: ['Permissions'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        {
+          name: 'role',
+          in: 'path',
+          required: true,
+          schema: {
+            type: 'string',
+            enum: [
+              'CUSTOMER',
+              'PARTNER',
+              'WAREHOUSE_OPERATOR',
+              'CATALOG_EDITOR',
+            ],
+          },
+        },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/RolePermissionsRequest' },
+          },
+        },
+      },
+      responses: {
+        200: { description: 'Permissions du rôle remplacées' },
+        400: {
+          description:
+            'Rôle ou permission inconnu, rôle ADMIN, ou permission accordée sans la détenir',
+        },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+};
+
+const permissionsSchemas = {
+  RolePermissionsRequest: {
+    type: 'object',
+    properties: {
+      permissions: {
+        type: 'array',
+        items: { type: 'string' },
+        example: ['catalog:read', 'stock:read', 'stock:adjust'],
+      },
+    },
+    required: ['permissions'],
+  },
+};
+
+export default permissionsDocs;
+export { permissionsSchemas };
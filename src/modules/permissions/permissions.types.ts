@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { Permission, PERMISSIONS } from '@/core/constants/permissions';
+
+// Payload accepted when an admin replaces the permission set of a role
+export const rolePermissionsSchema = z.object({
+  permissions: z
+    .array(
+      z.string().refine((permission) => permission in PERMISSIONS, {
+        message: 'Unknown permission',
+      })
+    )
+    .transform((permissions) => [...new Set(permissions)] as Permission[]),
+});
+
+export type RolePermissions = z.infer<typeof rolePermissionsSchema>;
@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { log } from 'console';
+import { SigningKeyUse } from '@prisma/client';
+import { Service } from 'typedi';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import SigningKeysService from './signingKeys.service';
+import { SigningKeyRotate } from './signingKeys.types';
+
+@Service()
+export default class SigningKeysController {
+  constructor(private readonly signingKeysService: SigningKeysService) {}
+
+  /**
+   * Lists the signing keys.
+   *
+   * @param {Request} req - The HTTP request object. Supported query parameter: `use` (ACCESS or REFRESH).
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the keys, without their secret.
+   */
+  async signingKeys(req: Request, res: Response): Promise<void> {
+    try {
+      log('List Signing Keys Request Received');
+
+      const use = req.query.use as SigningKeyUse | undefined;
+      const payload = await this.signingKeysService.signingKeys(use);
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while fetching signing keys.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Rotates the signing key of a kind of token.
+   *
+   * @param {Request} req - The HTTP request object containing the use and the optional algorithm.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the new key and the date from which it signs tokens.
+   */
+  async rotate(req: Request, res: Response): Promise<void> {
+    try {
+      log('Rotate Signing Key Request Received');
+
+      const data: SigningKeyRotate = req.body;
+      const payload = await this.signingKeysService.rotate(data);
+
+      const response = ApiResponse.http201(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while rotating the signing key.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Publishes the public keys verifying access tokens as a JSON Web Key Set.
+   *
+   * @param {Request} req - The HTTP request object.
+   * @param {Response} res - The HTTP response object.
+   */
+  jwks(req: Request, res: Response): void {
+    // Verifiers may cache the set until the next reload of the key ring
+    res.set('Cache-Control', 'public, max-age=60');
+    res.status(200).json(this.signingKeysService.jwks());
+  }
+}
@@ -0,0 +1,12 @@
+import router, { wellKnownRouter } from './signingKeys.routes';
+
+// Define a signingKeysModule object to structure the module
+const signingKeysModule = {
+  // The controller property holds the router with the defined routes from 'signingKeys.routes.ts'
+  controller: router,
+  // Public routes served at the root of the application (JWKS)
+  wellKnown: wellKnownRouter,
+};
+
+// Export the module to be used elsewhere in the application
+export default signingKeysModule;
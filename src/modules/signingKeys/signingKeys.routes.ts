@@ -0,0 +1,39 @@
+import express from 'express';
+import Container from 'typedi';
+import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
+import verifyJWT from '@/core/middlewares/jwt.middleware';
+import SigningKeysController from './signingKeys.controller';
+
+// Get the instance of SigningKeysController from the container
+const signingKeysController = Container.get(SigningKeysController);
+
+// Create a new express router
+const router = express.Router();
+
+// Apply the prefix for all routes under the '/signing-keys' path
+prefixRoutes(router, '/signing-keys');
+
+// Route for listing signing keys (GET request)
+router.get('/', verifyJWT, requirePermission('signingkey:manage'), (req, res) =>
+  signingKeysController.signingKeys(req, res)
+);
+
+// Route for rotating the signing key of a kind of token (POST request)
+router.post(
+  '/rotate',
+  verifyJWT,
+  requirePermission('signingkey:manage'),
+  (req, res) => signingKeysController.rotate(req, res)
+);
+
+// Public router serving the JWKS, mounted outside of the API prefix
+export const wellKnownRouter = express.Router();
+
+// Route for the public keys verifying access tokens (GET request)
+wellKnownRouter.get('/.well-known/jwks.json', (req, res) =>
+  signingKeysController.jwks(req, res)
+);
+
+// Export the configured router
+export default router;
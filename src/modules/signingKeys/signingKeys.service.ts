@@ -0,0 +1,227 @@
+/**
+ * signingKeys.service.ts
+ *
+ * This file defines the SigningKeysService class, which manages the key ring used to
+ * sign and verify access and refresh tokens (see `KeyRingUtil`).
+ *
+ * Rotation:
+ * - A rotation creates a new key that starts signing after `config.jwt.keyRingSyncInterval`,
+ *   once every instance of the API has loaded it and can verify its tokens.
+ * - The replaced keys are retired: they keep verifying tokens until the last token they
+ *   signed has expired, so nobody is logged out by a rotation.
+ * - Access token public keys are published as a JWKS at `/.well-known/jwks.json`, so that
+ *   partner services can verify access tokens offline. HMAC keys are never published.
+ *
+ * Secrets and private keys are stored encrypted with `CryptoUtil`.
+ */
+
+import crypto from 'crypto';
+import { z } from 'zod';
+import { Service } from 'typedi';
+import { SigningKey, SigningKeyAlgorithm, SigningKeyUse } from '@prisma/client';
+import { log } from 'console';
+import config from '@/config';
+import ServiceDefinition from '../definitions/service';
+import CryptoUtil from '@/core/utils/crypto.util';
+import DateUtil from '@/core/utils/date.util';
+import KeyRingUtil, { KeyUse } from '@/core/utils/keyRing.util';
+import SessionLifetimeUtil from '@/core/utils/sessionLifetime.util';
+import { SigningKeyRotate, signingKeyRotateSchema } from './signingKeys.types';
+
+const syncInterval = DateUtil.parseDurationToMilliseconds(
+  config.jwt.keyRingSyncInterval
+);
+
+// Lifetime of the tokens signed for each use
+const tokenLifetimes: Record<SigningKeyUse, number> = {
+  ACCESS: DateUtil.parseDurationToMilliseconds(config.jwt.expiredIn),
+  REFRESH: SessionLifetimeUtil.longestRefreshWindow(),
+};
+
+// Fields exposed by the signing keys API, never the secret
+const signingKeySelect = {
+  kid: true,
+  use: true,
+  algorithm: true,
+  publicKey: true,
+  notBefore: true,
+  retiredAt: true,
+  verifyUntil: true,
+  createdAt: true,
+};
+
+@Service()
+export default class SigningKeysService extends ServiceDefinition {
+  /**
+   * Loads the keys still verifying tokens into the key ring.
+   */
+  async loadKeyRing() {
+    try {
+      const now = new Date();
+      const keys = await this.db.signingKey.findMany({
+        where: { OR: [{ verifyUntil: null }, { verifyUntil: { gt: now } }] },
+      });
+
+      // Tokens without kid were signed with the static secrets before the first key
+      const firstKeys = await this.db.signingKey.groupBy({
+        by: ['use'],
+        _min: { notBefore: true },
+      });
+      const legacyVerifyUntil: Partial<Record<KeyUse, Date>> = {};
+      for (const firstKey of firstKeys) {
+        if (firstKey._min.notBefore) {
+          legacyVerifyUntil[firstKey.use] = new Date(
+            firstKey._min.notBefore.getTime() + tokenLifetimes[firstKey.use]
+          );
+        }
+      }
+
+      KeyRingUtil.load(
+        keys.map((key) => this.toRingKey(key)),
+        legacyVerifyUntil
+      );
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Lists the signing keys, most recent first.
+   * @param use - Optional kind of token to filter on.
+   */
+  async signingKeys(use?: SigningKeyUse) {
+    try {
+      return await this.db.signingKey.findMany({
+        where: use ? { use } : {},
+        select: signingKeySelect,
+        orderBy: { notBefore: 'desc' },
+      });
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Creates a new signing key and retires the current ones.
+   * @param data - The kind of token and the optional algorithm of the new key.
+   * @returns The new key, without its secret.
+   */
+  async rotate(data: SigningKeyRotate) {
+    try {
+      const cleanData = signingKeyRotateSchema.parse(data);
+      const use = cleanData.use;
+      const algorithm = cleanData.algorithm ?? this.defaultAlgorithm(use);
+
+      const notBefore = new Date(Date.now() + syncInterval);
+      // Retired keys sign until the new key takes over, their last tokens expire after that
+      const verifyUntil = new Date(notBefore.getTime() + tokenLifetimes[use]);
+
+      const generated = this.generateKey(algorithm);
+
+      const signingKey = await this.db.$transaction(async (tx) => {
+        await tx.signingKey.updateMany({
+          where: { use, retiredAt: null },
+          data: { retiredAt: new Date(), verifyUntil },
+        });
+
+        return tx.signingKey.create({
+          data: {
+            kid: crypto.randomUUID(),
+            use,
+            algorithm,
+            secret: CryptoUtil.encrypt(generated.secret),
+            publicKey: generated.publicKey,
+            notBefore,
+          },
+          select: signingKeySelect,
+        });
+      });
+      log(`Signing key ${signingKey.kid} created for ${use} tokens`);
+
+      await this.loadKeyRing();
+
+      return signingKey;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Builds the JSON Web Key Set of the public keys verifying access tokens.
+   * Keys not signing yet are included, so that verifiers know them in advance.
+   */
+  jwks() {
+    const keys = KeyRingUtil.verificationKeys('ACCESS')
+      .filter((key) => key.algorithm !== 'HS256')
+      .map((key) => ({
+        ...crypto
+          .createPublicKey(key.verificationKey)
+          .export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig',
+      }));
+
+    return { keys };
+  }
+
+  private defaultAlgorithm(use: SigningKeyUse): SigningKeyAlgorithm {
+    // Refresh tokens are only verified by this API, a shared secret is enough
+    if (use === SigningKeyUse.REFRESH) {
+      return SigningKeyAlgorithm.HS256;
+    }
+    return z.nativeEnum(SigningKeyAlgorithm).parse(config.jwt.signingAlgorithm);
+  }
+
+  private generateKey(algorithm: SigningKeyAlgorithm): {
+    secret: string;
+    publicKey: string | null;
+  } {
+    switch (algorithm) {
+      case SigningKeyAlgorithm.RS256: {
+        const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', {
+          modulusLength: 2048,
+          publicKeyEncoding: { type: 'spki', format: 'pem' },
+          privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+        });
+        return { secret: privateKey, publicKey };
+      }
+      case SigningKeyAlgorithm.ES256: {
+        const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', {
+          namedCurve: 'P-256',
+          publicKeyEncoding: { type: 'spki', format: 'pem' },
+          privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+        });
+        return { secret: privateKey, publicKey };
+      }
+      case SigningKeyAlgorithm.EdDSA: {
+        const { publicKey, privateKey } = crypto.generateKeyPairSync(
+          'ed25519',
+          {
+            publicKeyEncoding: { type: 'spki', format: 'pem' },
+            privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+          }
+        );
+        return { secret: privateKey, publicKey };
+      }
+      default:
+        return {
+          secret: crypto.randomBytes(64).toString('base64url'),
+          publicKey: null,
+        };
+    }
+  }
+
+  private toRingKey(key: SigningKey) {
+    const secret = CryptoUtil.decrypt(key.secret);
+    return {
+      kid: key.kid,
+      use: key.use,
+      algorithm: key.algorithm,
+      signingKey: secret,
+      verificationKey: key.publicKey ?? secret,
+      notBefore: key.notBefore,
+      verifyUntil: key.verifyUntil,
+    };
+  }
+}
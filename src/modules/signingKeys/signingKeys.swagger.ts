@@ -0,0 +1,61 @@
+const signingKeysDocs = {
+  '/signing-keys': {
+    get: {
+      summary: 'Lister les clés de signature des jetons',
+      tags: ['Signing Keys'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        {
+          name: 'use',
+          in: 'query',
+          schema: { type: 'string', enum: ['ACCESS', 'REFRESH'] },
+        },
+      ],
+      responses: {
+        200: { description: 'Liste des clés, sans leur secret' },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+  '/signing-keys/rotate': {
+    post: {
+      summary: 'Remplacer la clé de signature d’un type de jeton',
+      description:
+        'La nouvelle clé signe les jetons après le délai de synchronisation (JWT_KEY_RING_SYNC_INTERVAL). Les anciennes clés vérifient leurs jetons jusqu’à leur expiration.',
+      tags: ['Signing Keys'],
+      security: [{ bearerAuth: [] }],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/SigningKeyRotateRequest' },
+          },
+        },
+      },
+      responses: {
+        201: { description: 'Nouvelle clé créée' },
+        400: { description: 'Erreur de validation' },
+        403: { description: 'Permission insuffisante' },
+      },
+    },
+  },
+};
+
+const signingKeysSchemas = {
+  SigningKeyRotateRequest: {
+    type: 'object',
+    properties: {
+      use: { type: 'string', enum: ['ACCESS', 'REFRESH'] },
+      algorithm: {
+        type: 'string',
+        enum: ['HS256', 'RS256', 'ES256', 'EdDSA'],
+        description:
+          'Par défaut JWT_SIGNING_ALGORITHM pour ACCESS et HS256 pour REFRESH. Seules les clés asymétriques sont publiées dans le JWKS.',
+      },
+    },
+    required: ['use'],
+  },
+};
+
+export default signingKeysDocs;
+export { signingKeysSchemas };
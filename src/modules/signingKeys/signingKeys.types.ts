@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import { SigningKeyAlgorithm, SigningKeyUse } from '@prisma/client';
+
+// Payload accepted when an admin rotates the signing key of a kind of token
+export const signingKeyRotateSchema = z.object({
+  use: z.nativeEnum(SigningKeyUse),
+  algorithm: z.nativeEnum(SigningKeyAlgorithm).optional(),
+});
+
+export type SigningKeyRotate = z.infer<typeof signingKeyRotateSchema>;
@@ -1,8 +1,9 @@
 import express from 'express';
 import Container from 'typedi';
 import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
-import { rbacMiddleware } from '@/core/middlewares/rbac.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
 import verifyJWT from '@/core/middlewares/jwt.middleware';
+import { verifyJWTOrApiKey } from '@/core/middlewares/apiKey.middleware';
 
 import { InventoryController } from './stock.controller';
 
@@ -13,13 +14,13 @@ prefixRoutes(inventoryRouter, '/inventory');
 inventoryRouter.post(
   '/create',
   verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  requirePermission('stock:adjust'),
   (req, res) => inventoryController.createInventory(req, res)
 );
 inventoryRouter.get(
   '/get/:modelId',
-  verifyJWT,
-  rbacMiddleware(['ADMIN']),
+  verifyJWTOrApiKey,
+  requirePermission('stock:read'),
   (req, res) => inventoryController.getInventory(req, res)
 );
 
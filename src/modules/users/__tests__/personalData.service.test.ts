@@ -0,0 +1,121 @@
+import 'reflect-metadata';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { Prisma, User } from '@prisma/client';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import AdminAuthService from '../../adminAuth/adminAuth.service';
+import AuditLogsService from '../../auditLogs/auditLogs.service';
+import PersonalDataService from '../personalData.service';
+
+const user = {
+  id: 'user-1',
+  username: 'partner',
+  email: 'partner@example.com',
+  profiles: ['PARTNER'],
+  deactivatedAt: null,
+  erasedAt: null,
+} as unknown as User;
+
+describe('PersonalDataService.erase', () => {
+  const updateAuditLogs = jest.fn<(args: object) => Promise<{ count: number }>>(
+    async () => ({ count: 1 })
+  );
+  const deleteApiKeys = jest.fn(async () => ({ count: 2 }));
+  const record = jest.fn(async () => undefined);
+  let personalDataService: PersonalDataService;
+
+  beforeEach(() => {
+    updateAuditLogs.mockClear();
+    deleteApiKeys.mockClear();
+    record.mockClear();
+
+    const deleteMany = async () => ({ count: 0 });
+    const tx = {
+      recipe: { count: async () => 0 },
+      stockMovement: { updateMany: async () => ({ count: 0 }) },
+      tokenFamily: { deleteMany },
+      passwordResetCode: { deleteMany },
+      passwordHistory: { deleteMany },
+      twoFactorRecoveryCode: { deleteMany },
+      apiKey: {
+        findMany: async () => [{ id: 'key-1' }, { id: 'key-2' }],
+        deleteMany: deleteApiKeys,
+      },
+      loginAttempt: { deleteMany },
+      user: { update: async () => user },
+      auditLog: { updateMany: updateAuditLogs },
+    };
+    const db = {
+      user: { findUniqueOrThrow: async () => user },
+      $transaction: async (callback: (client: typeof tx) => unknown) =>
+        callback(tx),
+    };
+
+    personalDataService = new PersonalDataService(
+      { getClient: () => db } as unknown as PrismaService,
+      { logoutAll: async () => true } as unknown as AdminAuthService,
+      { record } as unknown as AuditLogsService
+    );
+  });
+
+  it('scrubs the identity, the API keys and the IP addresses from the audit log', async () => {
+    await personalDataService.erase('user-1', { reason: 'GDPR request' });
+
+    expect(updateAuditLogs).toHaveBeenCalledWith({
+      where: {
+        OR: [
+          { entityType: 'User', entityId: 'user-1' },
+          { entityType: 'ApiKey', entityId: { in: ['key-1', 'key-2'] } },
+        ],
+      },
+      data: { before: Prisma.DbNull, after: Prisma.DbNull },
+    });
+    expect(updateAuditLogs).toHaveBeenCalledWith({
+      where: { actorId: 'user-1' },
+      data: { actorUsername: null, ipAddress: null },
+    });
+  });
+
+  it('scrubs the deletions of the API keys made by the erasure', async () => {
+    await personalDataService.erase('user-1', { reason: 'GDPR request' });
+
+    // The DELETE entries of the keys are written before the scrub
+    expect(deleteApiKeys.mock.invocationCallOrder[0]).toBeLessThan(
+      updateAuditLogs.mock.invocationCallOrder[0]!
+    );
+  });
+
+  it('records the erasure without personal data', async () => {
+    await personalDataService.erase('user-1', { reason: 'GDPR request' });
+
+    expect(record).toHaveBeenCalledWith({
+      action: 'DELETE',
+      entityType: 'User',
+      entityId: 'user-1',
+      details: {
+        erasure: true,
+        reason: 'GDPR request',
+        recipes: 0,
+        stockMovements: 0,
+      },
+    });
+  });
+
+  it('refuses ADMIN accounts', async () => {
+    personalDataService = new PersonalDataService(
+      {
+        getClient: () => ({
+          user: {
+            findUniqueOrThrow: async () => ({ ...user, profiles: ['ADMIN'] }),
+          },
+        }),
+      } as unknown as PrismaService,
+      {} as AdminAuthService,
+      { record } as unknown as AuditLogsService
+    );
+
+    await expect(
+      personalDataService.erase('user-1', { reason: 'GDPR request' })
+    ).rejects.toThrow('Remove the ADMIN role before erasing');
+    expect(updateAuditLogs).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import { Request, Response } from 'express';
+import { log } from 'console';
+import { Service } from 'typedi';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import PersonalDataService from './personalData.service';
+import { PersonalDataErasure } from './users.types';
+
+/**
+ * Data-subject requests: export and erasure of the personal data of a user.
+ */
+@Service()
+export default class PersonalDataController {
+  constructor(private readonly personalDataService: PersonalDataService) {}
+
+  /**
+   * Exports the data tied to a user as a downloadable file.
+   *
+   * @param {Request} req - The HTTP request object with the `userId` route parameter.
+   * Supported query parameter: `format` (`json` by default, or `zip`).
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the JSON document or the ZIP archive.
+   */
+  async exportPersonalData(req: Request, res: Response): Promise<void> {
+    try {
+      log('Export Personal Data Request Received');
+
+      const userId = req.params.userId as string;
+
+      if (req.query.format === 'zip') {
+        const archive = await this.personalDataService.archive(userId);
+
+        res.setHeader('Content-Type', 'application/zip');
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename="${archive.fileName}"`
+        );
+        res.status(200).send(archive.content);
+        return;
+      }
+
+      const payload = await this.personalDataService.compile(userId);
+
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="personal-data-${userId}.json"`
+      );
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while exporting the personal data.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Erases the personal data of a user.
+   *
+   * @param {Request} req - The HTTP request object with the `userId` route parameter and the reason in the body.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with a summary of the anonymized records.
+   */
+  async erasePersonalData(req: Request, res: Response): Promise<void> {
+    try {
+      log('Erase Personal Data Request Received');
+
+      const data: PersonalDataErasure = req.body;
+      const payload = await this.personalDataService.erase(
+        req.params.userId as string,
+        data
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while erasing the personal data.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+}
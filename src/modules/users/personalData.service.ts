@@ -0,0 +1,246 @@
+/**
+ * personalData.service.ts
+ *
+ * This file defines the PersonalDataService class, used by administrators to honor the
+ * data-subject requests of users: export of their data and erasure.
+ *
+ * Rules:
+ * - The export gathers the profile, the sessions with their device data, the authored
+ *   recipes, the stock movements performed, the sign-in attempts, the API keys and the
+ *   impersonation sessions, as JSON or as a ZIP archive with one file per section.
+ * - The erasure keeps the `User` row so authored recipes keep a valid author, but replaces
+ *   its identity with placeholders and disables it. Stock movements are detached from the
+ *   user. Credentials (password, 2FA, API keys, reset codes) and sessions are deleted.
+ * - Personal values already copied into the audit log are scrubbed (identity, API keys,
+ *   IP addresses of the changes made by the user), and the erasure itself is recorded there.
+ * - ADMIN accounts must lose their role before being erased.
+ */
+
+import { Service } from 'typedi';
+import { Prisma } from '@prisma/client';
+import { log } from 'console';
+import { v4 as uuidv4 } from 'uuid';
+import JSZip from 'jszip';
+import _ from 'lodash';
+import ServiceDefinition from '../definitions/service';
+import { PrismaService } from '@/database/prisma/prisma.service';
+import AdminAuthService from '../adminAuth/adminAuth.service';
+import AuditLogsService from '../auditLogs/auditLogs.service';
+import BcryptUtil from '@/core/utils/bcrypt.util';
+import { PersonalDataErasure, personalDataErasureSchema } from './users.types';
+
+// Secrets and internal identifiers left out of the export
+const userOmitted = ['password', 'twoFactorSecret', 'twoFactorLastUsedStep'];
+const sessionOmitted = ['family', 'userId'];
+
+@Service()
+export default class PersonalDataService extends ServiceDefinition {
+  constructor(
+    prismaService: PrismaService,
+    private readonly adminAuthService: AdminAuthService,
+    private readonly auditLogsService: AuditLogsService
+  ) {
+    super(prismaService);
+  }
+
+  /**
+   * Gathers the data tied to a user.
+   * @param userId - The ID of the user.
+   * @returns One entry per section of the export.
+   */
+  async compile(userId: string) {
+    try {
+      const user = await this.db.user.findUniqueOrThrow({
+        where: { id: userId },
+      });
+
+      const [
+        sessions,
+        recipes,
+        stockMovements,
+        loginAttempts,
+        apiKeys,
+        impersonations,
+      ] = await Promise.all([
+        this.db.tokenFamily.findMany({
+          where: { userId },
+          orderBy: { createdAt: 'asc' },
+        }),
+        this.db.recipe.findMany({
+          where: { userId },
+          include: {
+            ingredients: true,
+            steps: true,
+            categories: { include: { category: true } },
+          },
+          orderBy: { createdAt: 'asc' },
+        }),
+        this.db.stockMovement.findMany({
+          where: { userId },
+          include: {
+            inventory: { select: { productId: true, warehouseId: true } },
+          },
+          orderBy: { createdAt: 'asc' },
+        }),
+        this.db.loginAttempt.findMany({
+          where: { userId },
+          orderBy: { createdAt: 'asc' },
+        }),
+        this.db.apiKey.findMany({
+          where: { userId },
+          orderBy: { createdAt: 'asc' },
+        }),
+        this.db.impersonationSession.findMany({
+          where: { targetId: userId },
+          select: {
+            id: true,
+            reason: true,
+            readOnly: true,
+            createdAt: true,
+            expiresAt: true,
+            endedAt: true,
+          },
+          orderBy: { createdAt: 'asc' },
+        }),
+      ]);
+
+      return {
+        exportedAt: new Date(),
+        profile: _.omit(user, userOmitted),
+        sessions: sessions.map((session) => _.omit(session, sessionOmitted)),
+        recipes,
+        stockMovements,
+        loginAttempts,
+        apiKeys: apiKeys.map((apiKey) => _.omit(apiKey, 'keyHash')),
+        impersonations,
+      };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Builds a ZIP archive of the data tied to a user, with one JSON file per section.
+   * @param userId - The ID of the user.
+   * @returns The name and the content of the archive.
+   */
+  async archive(userId: string) {
+    const data = await this.compile(userId);
+
+    const zip = new JSZip();
+    for (const [section, content] of Object.entries(data)) {
+      zip.file(
+        `${_.kebabCase(section)}.json`,
+        JSON.stringify(content, null, 2)
+      );
+    }
+
+    return {
+      fileName: `personal-data-${userId}.zip`,
+      content: await zip.generateAsync({
+        type: 'nodebuffer',
+        compression: 'DEFLATE',
+      }),
+    };
+  }
+
+  /**
+   * Erases the personal data of a user.
+   * @param userId - The ID of the user.
+   * @param data - The reason of the erasure, kept in the audit log.
+   * @returns The number of recipes kept under the anonymized account and of stock movements detached.
+   * @throws Error if the user is an admin or is already erased.
+   */
+  async erase(userId: string, data: PersonalDataErasure) {
+    try {
+      const { reason } = personalDataErasureSchema.parse(data);
+
+      const user = await this.db.user.findUniqueOrThrow({
+        where: { id: userId },
+      });
+      if (user.erasedAt) {
+        throw new Error('The personal data of this user is already erased');
+      }
+      if (user.profiles.includes('ADMIN')) {
+        throw new Error(
+          'Remove the ADMIN role before erasing the personal data of this user'
+        );
+      }
+
+      // Revokes the access tokens still valid before deleting the sessions
+      await this.adminAuthService.logoutAll(userId);
+      const unusablePassword = await BcryptUtil.hashPassword(uuidv4());
+
+      const summary = await this.db.$transaction(async (tx) => {
+        const recipes = await tx.recipe.count({ where: { userId } });
+        const { count: stockMovements } = await tx.stockMovement.updateMany({
+          where: { userId },
+          data: { userId: null },
+        });
+
+        await tx.tokenFamily.deleteMany({ where: { userId } });
+        await tx.passwordResetCode.deleteMany({ where: { userId } });
+        await tx.passwordHistory.deleteMany({ where: { userId } });
+        await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+        const apiKeys = await tx.apiKey.findMany({
+          where: { userId },
+          select: { id: true },
+        });
+        await tx.apiKey.deleteMany({ where: { userId } });
+        await tx.loginAttempt.deleteMany({ where: { userId } });
+
+        const erasedAt = new Date();
+        await tx.user.update({
+          where: { id: userId },
+          data: {
+            username: `erased-${userId}`,
+            email: `${userId}@erased.invalid`,
+            password: unusablePassword,
+            profiles: [],
+            email_verified_at: null,
+            isActive: false,
+            deactivatedAt: user.deactivatedAt ?? erasedAt,
+            passwordResetRequired: false,
+            twoFactorSecret: null,
+            twoFactorEnabledAt: null,
+            twoFactorLastUsedStep: null,
+            erasedAt,
+          },
+        });
+
+        // The audit log holds copies of the former identity and of the API keys (names,
+        // IP addresses), the deletions above included
+        await tx.auditLog.updateMany({
+          where: {
+            OR: [
+              { entityType: 'User', entityId: userId },
+              {
+                entityType: 'ApiKey',
+                entityId: { in: apiKeys.map((apiKey) => apiKey.id) },
+              },
+            ],
+          },
+          data: { before: Prisma.DbNull, after: Prisma.DbNull },
+        });
+        await tx.auditLog.updateMany({
+          where: { actorId: userId },
+          data: { actorUsername: null, ipAddress: null },
+        });
+
+        return { recipes, stockMovements };
+      });
+
+      await this.auditLogsService.record({
+        action: 'DELETE',
+        entityType: 'User',
+        entityId: userId,
+        details: { erasure: true, reason, ...summary },
+      });
+      log(`Personal data erased for user ${userId}`);
+
+      return summary;
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+}
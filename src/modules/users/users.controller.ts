@@ -0,0 +1,249 @@
+import { Request, Response } from 'express';
+import { log } from 'console';
+import { Prisma, ProfileName } from '@prisma/client';
+import { Service } from 'typedi';
+import ApiResponse from '@/core/utils/apiResponse.util';
+import WhereConditionBuilder from '@/core/utils/filter.utils';
+import UsersService from './users.service';
+import { UserCreate, UserProfiles, UserUpdate } from './users.types';
+
+@Service()
+export default class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  /**
+   * Lists users with pagination.
+   *
+   * @param {Request} req - The HTTP request object. Supported query parameters: `page`, `pageSize`,
+   * `filters` (JSON search on username/email), `profile` and `isActive`.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with a page of users.
+   */
+  async users(req: Request, res: Response): Promise<void> {
+    try {
+      log('Filtered list Users Request Received');
+
+      const page = parseInt(req.query.page as string) || 1;
+      const pageSize = parseInt(req.query.pageSize as string) || 10;
+      const filters = req.query.filters
+        ? JSON.parse(req.query.filters as string)
+        : {};
+      const allowedFields = ['username', 'email'];
+
+      const whereConditions: Prisma.UserWhereInput =
+        WhereConditionBuilder.generateWhereConditions(filters, allowedFields);
+
+      const profile = req.query.profile as string | undefined;
+      if (profile) {
+        if (!Object.values(ProfileName).includes(profile as ProfileName)) {
+          throw new Error('Invalid profile filter');
+        }
+        whereConditions.profiles = { has: profile as ProfileName };
+      }
+      if (req.query.isActive !== undefined) {
+        whereConditions.isActive = req.query.isActive === 'true';
+      }
+
+      const payload = await this.usersService.users(
+        page,
+        pageSize,
+        whereConditions
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message || 'An error occurred while fetching users.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  async user(req: Request, res: Response): Promise<void> {
+    try {
+      log('Get User Request Received');
+
+      const payload = await this.usersService.user(req.params.userId as string);
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while fetching the user.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  async createUser(req: Request, res: Response): Promise<void> {
+    try {
+      log('Create User Request Received');
+
+      const data: UserCreate = req.body;
+      const payload = await this.usersService.createUser(
+        data,
+        (req as any).user.roles ?? []
+      );
+
+      const response = ApiResponse.http201(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while creating the user.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  async updateUser(req: Request, res: Response): Promise<void> {
+    try {
+      log('Update User Request Received');
+
+      const data: UserUpdate = req.body;
+      const payload = await this.usersService.updateUser(
+        req.params.userId as string,
+        data,
+        (req as any).user.roles ?? []
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while updating the user.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Replaces the roles of a user.
+   *
+   * @param {Request} req - The HTTP request object containing the new `profiles` in the body.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the updated user, whose sessions are revoked.
+   */
+  async updateProfiles(req: Request, res: Response): Promise<void> {
+    try {
+      log('Update User Profiles Request Received');
+
+      const data: UserProfiles = req.body;
+      const payload = await this.usersService.updateProfiles(
+        req.params.userId as string,
+        data,
+        (req as any).user.roles ?? []
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while updating the user profiles.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Deactivates a user and revokes all its sessions.
+   *
+   * @param {Request} req - The HTTP request object with the `userId` route parameter.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves with the deactivated user.
+   */
+  async deactivateUser(req: Request, res: Response): Promise<void> {
+    try {
+      log('Deactivate User Request Received');
+
+      const payload = await this.usersService.deactivateUser(
+        req.params.userId as string,
+        (req as any).user.roles ?? []
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while deactivating the user.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  async reactivateUser(req: Request, res: Response): Promise<void> {
+    try {
+      log('Reactivate User Request Received');
+
+      const payload = await this.usersService.reactivateUser(
+        req.params.userId as string,
+        (req as any).user.roles ?? []
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while reactivating the user.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+
+  /**
+   * Forces a user to replace its password with an emailed reset code.
+   *
+   * @param {Request} req - The HTTP request object with the `userId` route parameter.
+   * @param {Response} res - The HTTP response object.
+   * @returns {Promise<void>} Resolves once the sessions are revoked and the code is sent.
+   */
+  async forcePasswordReset(req: Request, res: Response): Promise<void> {
+    try {
+      log('Force Password Reset Request Received');
+
+      const payload = await this.usersService.forcePasswordReset(
+        req.params.userId as string,
+        (req as any).user.roles ?? []
+      );
+
+      const response = ApiResponse.http200(payload);
+      res.status(response.httpStatusCode).json(response.data);
+    } catch (error) {
+      log(error);
+
+      const response = ApiResponse.http400({
+        message:
+          (error as Error).message ||
+          'An error occurred while forcing the password reset.',
+      });
+      res.status(response.httpStatusCode).json(response.data);
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import router from './users.routes';
+
+// Define a usersModule object to structure the module
+const usersModule = {
+  // The controller property holds the router with the defined routes from 'users.routes.ts'
+  controller: router,
+};
+
+// Export the module to be used elsewhere in the application
+export default usersModule;
@@ -0,0 +1,122 @@
+import express from 'express';
+import Container from 'typedi';
+import prefixRoutes from '@/core/middlewares/prefixRoutes.middleware';
+import { requirePermission } from '@/core/middlewares/permission.middleware';
+import verifyJWT from '@/core/middlewares/jwt.middleware';
+import UsersController from './users.controller';
+import SessionsController from '../adminAuth/sessions.controller';
+import PersonalDataController from './personalData.controller';
+import { forbidImpersonation } from '@/core/middlewares/impersonation.middleware';
+
+// Get the instance of UsersController from the container
+const usersController = Container.get(UsersController);
+const sessionsController = Container.get(SessionsController);
+const personalDataController = Container.get(PersonalDataController);
+
+// Create a new express router
+const router = express.Router();
+
+// Apply the prefix for all routes under the '/users' path
+prefixRoutes(router, '/users');
+
+// Route for listing users with pagination and filters (GET request)
+router.get('/', verifyJWT, requirePermission('user:manage'), (req, res) =>
+  usersController.users(req, res)
+);
+
+// Route for creating a user with its roles (POST request)
+router.post('/save', verifyJWT, requirePermission('user:manage'), (req, res) =>
+  usersController.createUser(req, res)
+);
+
+// Route for retrieving a single user (GET request)
+router.get(
+  '/:userId',
+  verifyJWT,
+  requirePermission('user:manage'),
+  (req, res) => usersController.user(req, res)
+);
+
+// Route for editing the username or email of a user (PUT request)
+router.put(
+  '/update/:userId',
+  verifyJWT,
+  requirePermission('user:manage'),
+  (req, res) => usersController.updateUser(req, res)
+);
+
+// Route for replacing the roles of a user (PUT request)
+router.put(
+  '/:userId/profiles',
+  verifyJWT,
+  requirePermission('user:manage'),
+  (req, res) => usersController.updateProfiles(req, res)
+);
+
+// Route for deactivating a user and revoking its sessions (PATCH request)
+router.patch(
+  '/:userId/deactivate',
+  verifyJWT,
+  requirePermission('user:manage'),
+  (req, res) => usersController.deactivateUser(req, res)
+);
+
+// Route for reactivating a user (PATCH request)
+router.patch(
+  '/:userId/reactivate',
+  verifyJWT,
+  requirePermission('user:manage'),
+  (req, res) => usersController.reactivateUser(req, res)
+);
+
+// Route for forcing a password reset (POST request)
+router.post(
+  '/:userId/force-password-reset',
+  verifyJWT,
+  requirePermission('user:manage'),
+  (req, res) => usersController.forcePasswordReset(req, res)
+);
+
+// Route for listing the active sessions of a user (GET request)
+router.get(
+  '/:userId/sessions',
+  verifyJWT,
+  requirePermission('user:manage'),
+  (req, res) => sessionsController.sessions(req, res)
+);
+
+// Route for renaming a session of a user (PATCH request)
+router.patch(
+  '/:userId/sessions/:sessionId',
+  verifyJWT,
+  requirePermission('user:manage'),
+  (req, res) => sessionsController.renameSession(req, res)
+);
+
+// Route for revoking a session of a user (DELETE request)
+router.delete(
+  '/:userId/sessions/:sessionId',
+  verifyJWT,
+  requirePermission('user:manage'),
+  (req, res) => sessionsController.revokeSession(req, res)
+);
+
+// Route for exporting the personal data of a user as JSON or ZIP (GET request)
+router.get(
+  '/:userId/personal-data',
+  verifyJWT,
+  requirePermission('user:manage'),
+  (req, res) => personalDataController.exportPersonalData(req, res)
+);
+
+// Route for erasing the personal data of a user (DELETE request)
+router.delete(
+  '/:userId/personal-data',
+  verifyJWT,
+  forbidImpersonation,
+  requirePermission('user:manage'),
+  (req, res) => personalDataController.erasePersonalData(req, res)
+);
+
+// Export the configured router
+export default router;
@@ -0,0 +1,340 @@
+/**
+ * users.service.ts
+ *
+ * This file defines the UsersService class, used by administrators to manage
+ * accounts: listing, creation, identity and role changes, deactivation and
+ * forced password resets.
+ *
+ * Rules:
+ * - Secrets (password hash, TOTP seed) are never returned.
+ * - Deactivating an account or forcing a reset revokes all its token families.
+ * - The last active ADMIN can neither lose its role nor be deactivated.
+ * - Roles only grant permissions held by the admin assigning them, and ADMIN
+ *   accounts are only managed by ADMINs (see `PermissionsService`).
+ * - Erased accounts (see `PersonalDataService`) cannot be reactivated.
+ */
+
+import { Service } from 'typedi';
+import { Prisma } from '@prisma/client';
+import { log } from 'console';
+import ServiceDefinition from '../definitions/service';
+import {
+  PrismaService,
+  TransactionClient,
+} from '@/database/prisma/prisma.service';
+import AdminAuthService from '../adminAuth/adminAuth.service';
+import PasswordResetService from '../adminAuth/passwordReset.service';
+import PermissionsService from '../permissions/permissions.service';
+import { SUPER_ROLE } from '@/core/constants/permissions';
+import BcryptUtil from '@/core/utils/bcrypt.util';
+import {
+  UserCreate,
+  userCreateSchema,
+  UserProfiles,
+  userProfilesSchema,
+  UserUpdate,
+  userUpdateSchema,
+} from './users.types';
+
+// Two concurrent demotions would each see the other ADMIN still active at a lower
+// isolation level; with serializable transactions, one of them fails instead
+const LAST_ADMIN_TRANSACTION = {
+  isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+};
+
+// Fields exposed by the users API
+const userSelect = {
+  id: true,
+  username: true,
+  email: true,
+  profiles: true,
+  email_verified_at: true,
+  isActive: true,
+  deactivatedAt: true,
+  passwordResetRequired: true,
+  twoFactorEnabledAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+@Service()
+export default class UsersService extends ServiceDefinition {
+  constructor(
+    prismaService: PrismaService,
+    private readonly adminAuthService: AdminAuthService,
+    private readonly passwordResetService: PasswordResetService,
+    private readonly permissionsService: PermissionsService
+  ) {
+    super(prismaService);
+  }
+
+  async users(
+    page: number = 1,
+    pageSize: number = 10,
+    filters: Prisma.UserWhereInput = {}
+  ) {
+    try {
+      const skip = (page - 1) * pageSize;
+
+      const [total, data] = await this.db.$transaction([
+        this.db.user.count({
+          where: filters,
+        }),
+
+        this.db.user.findMany({
+          where: filters,
+          select: userSelect,
+          skip,
+          take: pageSize,
+          orderBy: { createdAt: 'desc' },
+        }),
+      ]);
+
+      return {
+        data,
+        total,
+        page,
+        pageSize,
+      };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  async user(userId: string) {
+    try {
+      const user = await this.db.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: userSelect,
+      });
+
+      return { user };
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Creates an account with its set of roles. Accounts created by an admin
+   * do not go through the email verification of self-registered customers.
+   * @param data - The identity, the initial password and the roles of the user.
+   * @param actorRoles - The roles of the admin creating the account.
+   */
+  async createUser(data: UserCreate, actorRoles: string[]) {
+    try {
+      const cleanData = userCreateSchema.parse(data);
+      await this.permissionsService.ensureCanAssignRoles(
+        actorRoles,
+        [],
+        cleanData.profiles
+      );
+
+      const user = await this.db.user.create({
+        data: {
+          ...cleanData,
+          password: await BcryptUtil.hashPassword(cleanData.password),
+          email_verified_at: new Date(),
+        },
+        select: userSelect,
+      });
+      log(`User created: ${user.id}`);
+
+      return { user };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  async updateUser(userId: string, data: UserUpdate, actorRoles: string[]) {
+    try {
+      const cleanData = userUpdateSchema.parse(data);
+      await this.ensureCanManage(this.db, actorRoles, userId);
+
+      const user = await this.db.user.update({
+        where: { id: userId },
+        data: cleanData,
+        select: userSelect,
+      });
+
+      return { user };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Replaces the roles of a user. Active sessions keep the roles of their
+   * tokens, so they are revoked to apply the change immediately.
+   * @param userId - The ID of the user.
+   * @param data - The new set of roles.
+   * @param actorRoles - The roles of the admin making the change.
+   */
+  async updateProfiles(
+    userId: string,
+    data: UserProfiles,
+    actorRoles: string[]
+  ) {
+    try {
+      const cleanData = userProfilesSchema.parse(data);
+
+      const user = await this.db.$transaction(async (tx) => {
+        const previous = await tx.user.findUniqueOrThrow({
+          where: { id: userId },
+        });
+        await this.permissionsService.ensureCanAssignRoles(
+          actorRoles,
+          previous.profiles,
+          cleanData.profiles
+        );
+        if (!cleanData.profiles.includes('ADMIN')) {
+          await this.ensureNotLastAdmin(tx, userId);
+        }
+
+        return tx.user.update({
+          where: { id: userId },
+          data: { profiles: cleanData.profiles },
+          select: userSelect,
+        });
+      }, LAST_ADMIN_TRANSACTION);
+
+      await this.adminAuthService.logoutAll(userId);
+      log(`Profiles of user ${userId} set to ${cleanData.profiles.join()}`);
+
+      return { user };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Deactivates an account and revokes all its token families.
+   * @param userId - The ID of the user.
+   * @param actorRoles - The roles of the admin making the change.
+   */
+  async deactivateUser(userId: string, actorRoles: string[]) {
+    try {
+      const user = await this.db.$transaction(async (tx) => {
+        await this.ensureCanManage(tx, actorRoles, userId);
+        await this.ensureNotLastAdmin(tx, userId);
+
+        return tx.user.update({
+          where: { id: userId },
+          data: { isActive: false, deactivatedAt: new Date() },
+          select: userSelect,
+        });
+      }, LAST_ADMIN_TRANSACTION);
+
+      await this.adminAuthService.logoutAll(userId);
+      log(`User deactivated: ${userId}`);
+
+      return { user };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  async reactivateUser(userId: string, actorRoles: string[]) {
+    try {
+      await this.ensureCanManage(this.db, actorRoles, userId);
+      const erased = await this.db.user.count({
+        where: { id: userId, erasedAt: { not: null } },
+      });
+      if (erased > 0) {
+        throw new Error('An erased account cannot be reactivated');
+      }
+
+      const user = await this.db.user.update({
+        where: { id: userId },
+        data: { isActive: true, deactivatedAt: null },
+        select: userSelect,
+      });
+
+      return { user };
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Forces an admin-chosen user to reset its password (see `requirePasswordReset`).
+   * @param userId - The ID of the user.
+   * @param actorRoles - The roles of the admin making the change.
+   */
+  async forcePasswordReset(userId: string, actorRoles: string[]) {
+    try {
+      await this.ensureCanManage(this.db, actorRoles, userId);
+    } catch (error) {
+      throw this.formatError(error);
+    }
+    return this.requirePasswordReset(userId);
+  }
+
+  /**
+   * Closes every session of a user and blocks sign-in until the password is
+   * replaced with the reset code sent by email. Also used when the user reports a
+   * sign-in, so no admin is checked here.
+   * @param userId - The ID of the user.
+   */
+  async requirePasswordReset(userId: string) {
+    try {
+      const user = await this.db.user.update({
+        where: { id: userId },
+        data: { passwordResetRequired: true },
+      });
+
+      await this.adminAuthService.logoutAll(userId);
+      await this.passwordResetService.sendResetCode(user);
+      log(`Password reset forced for user ${userId}`);
+
+      return true;
+    } catch (error) {
+      throw this.formatError(error);
+    }
+  }
+
+  /**
+   * Refuses changes to an ADMIN account made by an admin who is not ADMIN.
+   * @param client - The client to use, a transaction client inside a transaction.
+   * @param actorRoles - The roles of the admin making the change.
+   * @param userId - The ID of the user to change.
+   */
+  private async ensureCanManage(
+    client: TransactionClient,
+    actorRoles: string[],
+    userId: string
+  ) {
+    if (actorRoles.includes(SUPER_ROLE)) {
+      return;
+    }
+
+    const user = await client.user.findUniqueOrThrow({ where: { id: userId } });
+    if (user.profiles.includes(SUPER_ROLE)) {
+      throw new Error(
+        `Only an ${SUPER_ROLE} can manage an ${SUPER_ROLE} account`
+      );
+    }
+  }
+
+  /**
+   * Refuses the operation if the given user is the last active ADMIN.
+   * @param tx - The transaction client.
+   * @param userId - The ID of the user losing its ADMIN rights.
+   */
+  private async ensureNotLastAdmin(tx: TransactionClient, userId: string) {
+    const user = await tx.user.findUniqueOrThrow({ where: { id: userId } });
+    if (!user.isActive || !user.profiles.includes('ADMIN')) {
+      return;
+    }
+
+    const otherAdmins = await tx.user.count({
+      where: {
+        id: { not: userId },
+        isActive: true,
+        profiles: { has: 'ADMIN' },
+      },
+    });
+    if (otherAdmins === 0) {
+      throw new Error('The last active ADMIN cannot be removed');
+    }
+  }
+}
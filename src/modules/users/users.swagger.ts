@@ -0,0 +1,330 @@
+const userIdParameter = {
+  name: 'userId',
+  in: 'path',
+  required: true,
+  schema: { type: 'string', format: 'uuid' },
+};
+
+const sessionIdParameter = {
+  name: 'sessionId',
+  in: 'path',
+  required: true,
+  schema: { type: 'integer' },
+};
+
+const usersDocs = {
+  '/users': {
+    get: {
+      summary: 'Lister les utilisateurs',
+      tags: ['Users'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        { name: 'page', in: 'query', schema: { type: 'integer' } },
+        { name: 'pageSize', in: 'query', schema: { type: 'integer' } },
+        {
+          name: 'filters',
+          in: 'query',
+          description: 'Recherche JSON sur username et email',
+          schema: { type: 'string', example: '{"username":"jdoe"}' },
+        },
+        {
+          name: 'profile',
+          in: 'query',
+          schema: {
+            type: 'string',
+            enum: [
+              'ADMIN',
+              'CUSTOMER',
+              'PARTNER',
+              'WAREHOUSE_OPERATOR',
+              'CATALOG_EDITOR',
+            ],
+          },
+        },
+        { name: 'isActive', in: 'query', schema: { type: 'boolean' } },
+      ],
+      responses: {
+        200: { description: 'Page de résultats' },
+        400: { description: 'Filtres invalides' },
+      },
+    },
+  },
+  '/users/save': {
+    post: {
+      summary: 'Créer un utilisateur',
+      tags: ['Users'],
+      security: [{ bearerAuth: [] }],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/UserCreateRequest' },
+          },
+        },
+      },
+      responses: {
+        201: { description: 'Utilisateur créé' },
+        400: {
+          description:
+            'Erreur de validation, ou rôle accordant des permissions non détenues',
+        },
+      },
+    },
+  },
+  '/users/{userId}': {
+    get: {
+      summary: 'Consulter un utilisateur',
+      tags: ['Users'],
+      security: [{ bearerAuth: [] }],
+      parameters: [userIdParameter],
+      responses: {
+        200: { description: 'Utilisateur' },
+        400: { description: 'Utilisateur introuvable' },
+      },
+    },
+  },
+  '/users/update/{userId}': {
+    put: {
+      summary: "Modifier l'identité d'un utilisateur",
+      tags: ['Users'],
+      security: [{ bearerAuth: [] }],
+      parameters: [userIdParameter],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/UserUpdateRequest' },
+          },
+        },
+      },
+      responses: {
+        200: { description: 'Utilisateur modifié' },
+        400: {
+          description:
+            'Erreur de validation, ou compte ADMIN modifié sans être ADMIN',
+        },
+      },
+    },
+  },
+  '/users/{userId}/profiles': {
+    put: {
+      summary: "Remplacer les rôles d'un utilisateur",
+      tags: ['Users'],
+      security: [{ bearerAuth: [] }],
+      parameters: [userIdParameter],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/UserProfilesRequest' },
+          },
+        },
+      },
+      responses: {
+        200: { description: 'Rôles modifiés, sessions révoquées' },
+        400: {
+          description:
+            'Dernier ADMIN actif, rôle accordant des permissions non détenues, ADMIN accordé ou retiré sans être ADMIN, ou erreur de validation',
+        },
+      },
+    },
+  },
+  '/users/{userId}/deactivate': {
+    patch: {
+      summary: 'Désactiver un utilisateur',
+      tags: ['Users'],
+      security: [{ bearerAuth: [] }],
+      parameters: [userIdParameter],
+      responses: {
+        200: { description: 'Utilisateur désactivé, sessions révoquées' },
+        400: { description: 'Dernier ADMIN actif ou utilisateur introuvable' },
+      },
+    },
+  },
+  '/users/{userId}/reactivate': {
+    patch: {
+      summary: 'Réactiver un utilisateur',
+      tags: ['Users'],
+      security: [{ bearerAuth: [] }],
+      parameters: [userIdParameter],
+      responses: {
+        200: { description: 'Utilisateur réactivé' },
+        400: { description: 'Utilisateur introuvable ou effacé' },
+      },
+    },
+  },
+  '/users/{userId}/personal-data': {
+    get: {
+      summary: 'Exporter les données personnelles d’un utilisateur',
+      description:
+        'Profil, sessions avec les données de l’appareil, recettes rédigées, mouvements de stock effectués, tentatives de connexion, clés API et sessions d’impersonation. Document JSON par défaut, ou archive ZIP avec un fichier par section.',
+      tags: ['Users'],
+      security: [{ bearerAuth: [] }],
+      parameters: [
+        userIdParameter,
+        {
+          name: 'format',
+          in: 'query',
+          schema: { type: 'string', enum: ['json', 'zip'], default: 'json' },
+        },
+      ],
+      responses: {
+        200: {
+          description: 'Données exportées',
+          content: {
+            'application/json': {},
+            'application/zip': {
+              schema: { type: 'string', format: 'binary' },
+            },
+          },
+        },
+        400: { description: 'Utilisateur introuvable' },
+      },
+    },
+    delete: {
+      summary: 'Effacer les données personnelles d’un utilisateur',
+      description:
+        'Le compte est conservé anonymisé et désactivé pour que ses recettes gardent un auteur. Les mouvements de stock sont détachés, les identifiants et les sessions supprimés. L’effacement est inscrit au journal d’audit.',
+      tags: ['Users'],
+      security: [{ bearerAuth: [] }],
+      parameters: [userIdParameter],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/PersonalDataErasureRequest' },
+          },
+        },
+      },
+      responses: {
+        200: {
+          description:
+            'Données effacées, avec le nombre de recettes et de mouvements de stock anonymisés',
+        },
+        400: {
+          description: 'Utilisateur introuvable, déjà effacé ou administrateur',
+        },
+        403: { description: 'Action interdite pendant une impersonation' },
+      },
+    },
+  },
+  '/users/{userId}/force-password-reset': {
+    post: {
+      summary: 'Forcer la réinitialisation du mot de passe',
+      tags: ['Users'],
+      security: [{ bearerAuth: [] }],
+      parameters: [userIdParameter],
+      responses: {
+        200: { description: 'Sessions révoquées, code envoyé par email' },
+        400: { description: 'Utilisateur introuvable' },
+      },
+    },
+  },
+  '/users/{userId}/sessions': {
+    get: {
+      summary: 'Lister les sessions actives d’un utilisateur',
+      tags: ['Users'],
+      security: [{ bearerAuth: [] }],
+      parameters: [userIdParameter],
+      responses: {
+        200: { description: 'Liste des sessions' },
+      },
+    },
+  },
+  '/users/{userId}/sessions/{sessionId}': {
+    patch: {
+      summary: 'Renommer une session d’un utilisateur',
+      tags: ['Users'],
+      security: [{ bearerAuth: [] }],
+      parameters: [userIdParameter, sessionIdParameter],
+      requestBody: {
+        required: true,
+        content: {
+          'application/json': {
+            schema: { $ref: '#/components/schemas/SessionRenameRequest' },
+          },
+        },
+      },
+      responses: {
+        200: { description: 'Session renommée' },
+        400: { description: 'Session introuvable ou erreur de validation' },
+      },
+    },
+    delete: {
+      summary: 'Révoquer une session d’un utilisateur',
+      tags: ['Users'],
+      security: [{ bearerAuth: [] }],
+      parameters: [userIdParameter, sessionIdParameter],
+      responses: {
+        200: { description: 'Session révoquée' },
+        400: { description: 'Session introuvable' },
+      },
+    },
+  },
+};
+
+const usersSchemas = {
+  PersonalDataErasureRequest: {
+    type: 'object',
+    properties: {
+      reason: {
+        type: 'string',
+        example: 'Demande d’effacement du client reçue le 12/03',
+      },
+    },
+    required: ['reason'],
+  },
+  UserCreateRequest: {
+    type: 'object',
+    properties: {
+      username: { type: 'string', example: 'jdoe' },
+      email: { type: 'string', example: 'jdoe@example.com' },
+      password: { type: 'string', example: 'Initial#Secret1' },
+      profiles: {
+        type: 'array',
+        items: {
+          type: 'string',
+          enum: [
+            'ADMIN',
+            'CUSTOMER',
+            'PARTNER',
+            'WAREHOUSE_OPERATOR',
+            'CATALOG_EDITOR',
+          ],
+        },
+        example: ['ADMIN'],
+      },
+    },
+    required: ['username', 'email', 'password', 'profiles'],
+  },
+  UserUpdateRequest: {
+    type: 'object',
+    properties: {
+      username: { type: 'string', example: 'jdoe' },
+      email: { type: 'string', example: 'jdoe@example.com' },
+    },
+  },
+  UserProfilesRequest: {
+    type: 'object',
+    properties: {
+      profiles: {
+        type: 'array',
+        items: {
+          type: 'string',
+          enum: [
+            'ADMIN',
+            'CUSTOMER',
+            'PARTNER',
+            'WAREHOUSE_OPERATOR',
+            'CATALOG_EDITOR',
+          ],
+        },
+        example: ['ADMIN', 'PARTNER'],
+      },
+    },
+    required: ['profiles'],
+  },
+};
+
+export default usersDocs;
+export { usersSchemas };
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { passwordSchema } from '@/core/utils/passwordPolicy.util';
+import { ProfileName } from '@prisma/client';
+
+// Set of roles assigned to a user, at least one is required
+const profilesSchema = z
+  .array(z.nativeEnum(ProfileName))
+  .nonempty('At least one profile is required')
+  .transform((profiles) => [...new Set(profiles)]);
+
+// Payload accepted when an admin creates a user
+export const userCreateSchema = z.object({
+  username: z.string().trim().min(3).max(50),
+  email: z.string().trim().toLowerCase().email(),
+  password: passwordSchema,
+  profiles: profilesSchema,
+});
+
+export type UserCreate = z.infer<typeof userCreateSchema>;
+
+// Payload accepted when an admin edits the identity of a user
+export const userUpdateSchema = z
+  .object({
+    username: z.string().trim().min(3).max(50),
+    email: z.string().trim().toLowerCase().email(),
+  })
+  .partial();
+
+export type UserUpdate = z.infer<typeof userUpdateSchema>;
+
+// Payload accepted when an admin replaces the roles of a user
+export const userProfilesSchema = z.object({
+  profiles: profilesSchema,
+});
+
+export type UserProfiles = z.infer<typeof userProfilesSchema>;
+
+// Payload accepted when an admin erases the personal data of a user
+export const personalDataErasureSchema = z.object({
+  reason: z.string().trim().min(3).max(500),
+});
+
+export type PersonalDataErasure = z.infer<typeof personalDataErasureSchema>;
@@ -22,10 +22,14 @@ import { MailModule } from '@/integrations/nodemailer/nodemailer.module'; // Mod
 import { MailConfig } from '@/integrations/nodemailer'; // Configuration for the mail service
 import { Service } from 'typedi'; // Decorator to manage dependencies with Typedi
 import config from '@/config'; // General application configuration
+import mailConfig from '@/config/mail.config'; // Mail transport configuration
 import { generateSwaggerDocument } from './swaggerLoader'; // Swagger documentation generator
 import apiRouter from './routes'; // API routes handler
+import signingKeysModule from '@/modules/signingKeys/signingKeys.module'; // JWKS served at the root
 import { log } from 'console';
+import ApiUrlUtil from '@/core/utils/apiUrl.util'; // Paths of the API routes
 import { clientInfoMiddleware } from '@/core/middlewares/clientInfo.middleware'; // Middleware to capture client info
+import { requestContextMiddleware } from '@/core/middlewares/requestContext.middleware'; // Middleware exposing the request to the audit log
 
 /**
  * Main class that sets up and configures the Express application. It is configured
@@ -41,9 +45,10 @@ class App {
    */
   constructor() {
     // Set up the base API URL using the configuration's prefix
-    this.baseApiUrl = '/' + config.api.prefix.replace('/', '');
+    this.baseApiUrl = ApiUrlUtil.basePath() || '/';
     this.express = expressInstance(); // Initialize Express application
 
+    this.initializeModules(); // Initialize external modules (mail, ...)
     this.middleware(); // Set up application middlewares
     this.routes(); // Set up routes for the application
     this.express.use(errorHandler); // Add global error handler as the last middleware
@@ -69,6 +74,7 @@ class App {
       bodyParser.urlencoded({ extended: config.api.extUrlencoded })
     );
     this.express.use(cookieParser()); // Parse cookies from requests
+    this.express.use(requestContextMiddleware); // Keep the request available to the audit log, after the body parsers
   }
 
   /**
@@ -89,6 +95,9 @@ class App {
       swaggerUi.setup(swaggerDocs)
     );
 
+    // Publish the public keys verifying access tokens
+    this.express.use(signingKeysModule.wellKnown);
+
     // Log the base API URL and attach the API routes
     log(this.baseApiUrl); // Log the base API URL
     this.express.use(this.baseApiUrl, apiRouter); // Associate the routes with the base URL
@@ -100,10 +109,10 @@ class App {
   private initializeModules() {
     const smtpConfig: MailConfig = {
       service: 'smtp', // Type of mail service
-      host: 'smtp.gmail.com', // SMTP host
-      port: 587, // SMTP port
-      user: 'your_smtp_username', // SMTP username (to be replaced)
-      pass: 'your_smtp_password', // SMTP password (to be replaced)
+      host: mailConfig.smtp.host, // SMTP host
+      port: mailConfig.smtp.port, // SMTP port
+      user: mailConfig.smtp.user, // SMTP username
+      pass: mailConfig.smtp.password, // SMTP password
     };
 
     // Initialize the mail module with SMTP configuration
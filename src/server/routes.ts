@@ -4,6 +4,12 @@
  */
 
 import adminAuthModule from '@/modules/adminAuth/adminAuth.module'; // Admin authentication module
+import customerAuthModule from '@/modules/customerAuth/customerAuth.module'; // Customer self-registration module
+import usersModule from '@/modules/users/users.module'; // User administration module
+import permissionsModule from '@/modules/permissions/permissions.module'; // Role permissions module
+import apiKeysModule from '@/modules/apiKeys/apiKeys.module'; // Partner API keys module
+import signingKeysModule from '@/modules/signingKeys/signingKeys.module'; // JWT signing keys module
+import auditLogsModule from '@/modules/auditLogs/auditLogs.module'; // Audit log module
 import conversionModule from '@/modules/conversion/conversion.module';
 import filesModule from '@/modules/files/files.module'; // File handling module
 import catalogModule from '@/modules/catalog/catalog.module'; // Catalog management module
@@ -19,6 +25,42 @@ const apiRouter = express.Router();
  */
 apiRouter.use('/v1', adminAuthModule.controller);
 
+/**
+ * Route to handle customer self-registration and email verification under the `/v1` version.
+ * Delegates requests to the customerAuthModule controller.
+ */
+apiRouter.use('/v1', customerAuthModule.controller);
+
+/**
+ * Route to handle user administration requests (ADMIN only) under the `/v1` version.
+ * Delegates requests to the usersModule controller.
+ */
+apiRouter.use('/v1', usersModule.controller);
+
+/**
+ * Route to handle the role → permissions mapping under the `/v1` version.
+ * Delegates requests to the permissionsModule controller.
+ */
+apiRouter.use('/v1', permissionsModule.controller);
+
+/**
+ * Route to handle the API keys of partner integrations under the `/v1` version.
+ * Delegates requests to the apiKeysModule controller.
+ */
+apiRouter.use('/v1', apiKeysModule.controller);
+
+/**
+ * Route to handle the rotation of the JWT signing keys under the `/v1` version.
+ * Delegates requests to the signingKeysModule controller.
+ */
+apiRouter.use('/v1', signingKeysModule.controller);
+
+/**
+ * Route to handle the audit log of the changes made through the API under the `/v1` version.
+ * Delegates requests to the auditLogsModule controller.
+ */
+apiRouter.use('/v1', auditLogsModule.controller);
+
 /**
  * Route to handle all catalog management related requests under the `/v1` version.
  * Delegates requests to the catalogsModule controller.
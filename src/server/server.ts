@@ -17,6 +17,12 @@ import { Service } from 'typedi'; // Importing Typedi for dependency injection
 import App from './app'; // Importing the application instance
 import { PrismaService } from '@/database/prisma/prisma.service'; // Importing Prisma service for database interaction
 import config from '@/config'; // Importing the application configuration
+import SchedulerUtil from '@/core/utils/scheduler.util'; // Importing the scheduler for maintenance jobs
+import TokenRevocationService from '@/modules/adminAuth/tokenRevocation.service'; // Importing the access token revocation list
+import SigningKeysService from '@/modules/signingKeys/signingKeys.service'; // Importing the JWT key ring loader
+import AuditLogsService from '@/modules/auditLogs/auditLogs.service'; // Importing the audit log to purge
+import PriceHistoryService from '@/modules/catalog/productCatalog/priceHistory/priceHistory.service'; // Importing the scheduled price changes
+import PricingRulesService from '@/modules/catalog/productCatalog/pricing/pricingRules.service'; // Importing the pricing rules repricing
 
 @Service() // Typedi decorator to mark the class as a service
 class Server extends http.Server {
@@ -24,7 +30,12 @@ class Server extends http.Server {
 
   constructor(
     private readonly appInstance: App, // Application instance to wrap
-    public readonly prismaService: PrismaService // Prisma service for database connection
+    public readonly prismaService: PrismaService, // Prisma service for database connection
+    private readonly tokenRevocationService: TokenRevocationService, // Revoked access tokens to purge
+    private readonly signingKeysService: SigningKeysService, // JWT signing keys to load
+    private readonly auditLogsService: AuditLogsService, // Audit entries to purge
+    private readonly priceHistoryService: PriceHistoryService, // Scheduled price changes to apply
+    private readonly pricingRulesService: PricingRulesService // Pricing rules entering or leaving their validity period
   ) {
     super(appInstance.express); // Initialize the HTTP server with the Express app
     this.app = appInstance.express;
@@ -170,6 +181,34 @@ class Server extends http.Server {
     );
   };
 
+  /**
+   * Registers the maintenance jobs run periodically by the server.
+   */
+  private readonly startScheduledJobs = () => {
+    // Picks up the keys created by a rotation on another instance
+    SchedulerUtil.every('reload-key-ring', config.jwt.keyRingSyncInterval, () =>
+      this.signingKeysService.loadKeyRing()
+    );
+    SchedulerUtil.every(
+      'purge-revoked-access-tokens',
+      config.tokenRevocation.purgeInterval,
+      () => this.tokenRevocationService.purgeExpired()
+    );
+    SchedulerUtil.every('purge-audit-logs', config.audit.purgeInterval, () =>
+      this.auditLogsService.purgeExpired()
+    );
+    SchedulerUtil.every(
+      'apply-scheduled-prices',
+      config.priceSchedule.applyInterval,
+      () => this.priceHistoryService.applyDue()
+    );
+    SchedulerUtil.every(
+      'reprice-pricing-rules',
+      config.pricingRules.repriceInterval,
+      () => this.pricingRulesService.repriceAll()
+    );
+  };
+
   /**
    * Initializes and starts the server.
    * @param {boolean} silent - If true, suppress log output.
@@ -206,6 +245,8 @@ class Server extends http.Server {
       this.getServerConnections(); // Log connections if debug mode is enabled
     }
 
+    this.startScheduledJobs();
+
     // Handle system signals for graceful shutdown
     process.on('SIGTERM', () => this.shutDown(serverConnections));
     process.on('SIGINT', () => this.shutDown(serverConnections));
@@ -235,6 +276,25 @@ class Server extends http.Server {
     }
   }
 
+  /**
+   * Refuses to start without the secrets of the tokens signed with HS256, which would
+   * otherwise be signed with an empty secret.
+   */
+  private readonly checkJwtSecrets = () => {
+    const secrets = {
+      JWT_SECRET_USER: config.jwt.secretUser,
+      JWT_SECRET_ADMIN: config.jwt.secretAdmin,
+      JWT_ACCESS_TOKEN_SECRET: config.jwt.accessToken,
+      JWT_REFRESH_TOKEN_SECRET: config.jwt.refreshToken,
+    };
+    const missing = Object.keys(secrets).filter(
+      (name) => !secrets[name as keyof typeof secrets]
+    );
+    if (missing.length > 0) {
+      throw new Error(`Missing JWT secrets: ${missing.join(', ')}`);
+    }
+  };
+
   /**
    * Bootstraps the server by initializing necessary components and starting the server.
    * @param {boolean} silent - If true, suppress log output.
@@ -256,6 +316,17 @@ class Server extends http.Server {
       log(colorTxt.blue(`-> Started at ${dateTime}`));
     }
 
+    this.checkJwtSecrets();
+
+    // Load the JWT signing keys before serving, the scheduled reload retries on failure
+    try {
+      await this.signingKeysService.loadKeyRing();
+    } catch (error) {
+      logger.error(
+        `Unable to load the JWT key ring: ${(error as Error).message}`
+      );
+    }
+
     return this.runServer(silent); // Start the server
   }
 }
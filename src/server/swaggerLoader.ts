@@ -5,6 +5,18 @@
 
 import swaggerConfig from '@/config/swagger.config'; // Base Swagger configuration
 import authDocs, { authSchemas } from '@/modules/adminAuth/adminAuth.swagger'; // Authentication module documentation
+import customerAuthDocs, {
+  customerAuthSchemas,
+} from '@/modules/customerAuth/customerAuth.swagger'; // Customer registration documentation
+import usersDocs, { usersSchemas } from '@/modules/users/users.swagger'; // User administration documentation
+import permissionsDocs, {
+  permissionsSchemas,
+} from '@/modules/permissions/permissions.swagger'; // Role permissions documentation
+import apiKeysDocs, { apiKeysSchemas } from '@/modules/apiKeys/apiKeys.swagger'; // Partner API keys documentation
+import signingKeysDocs, {
+  signingKeysSchemas,
+} from '@/modules/signingKeys/signingKeys.swagger'; // JWT signing keys documentation
+import auditLogsDocs from '@/modules/auditLogs/auditLogs.swagger'; // Audit log documentation
 
 /**
  * Generates the complete Swagger documentation by merging the base config
@@ -15,12 +27,23 @@ export const generateSwaggerDocument = () => {
   swaggerConfig.paths = {
     ...swaggerConfig.paths, // Existing paths in the base Swagger config
     ...authDocs, // Add authentication routes
+    ...customerAuthDocs, // Add customer registration routes
+    ...usersDocs, // Add user administration routes
+    ...permissionsDocs, // Add role permissions routes
+    ...apiKeysDocs, // Add partner API keys routes
+    ...signingKeysDocs, // Add JWT signing keys routes
+    ...auditLogsDocs, // Add audit log routes
   };
 
   // Merge the schemas from each module into the base Swagger config schemas
   swaggerConfig.components.schemas = {
     ...swaggerConfig.components.schemas, // Existing schemas in the base Swagger config
     ...authSchemas, // Add authentication schemas
+    ...customerAuthSchemas, // Add customer registration schemas
+    ...usersSchemas, // Add user administration schemas
+    ...permissionsSchemas, // Add role permissions schemas
+    ...apiKeysSchemas, // Add partner API keys schemas
+    ...signingKeysSchemas, // Add JWT signing keys schemas
   };
 
   // Return the updated Swagger configuration
@@ -0,0 +1,122 @@
+/**
+ * Runs the S3 storage driver against a MinIO server, started as described in
+ * docs/setup.md, with:
+ *
+ *   STORAGE_S3_TEST_ENDPOINT=http://localhost:9000 npm run test:integration
+ *
+ * The bucket (`STORAGE_S3_TEST_BUCKET`, `storage-driver-test` by default) is created when
+ * missing. Without `STORAGE_S3_TEST_ENDPOINT`, the tests are skipped.
+ */
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import {
+  CreateBucketCommand,
+  HeadBucketCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import S3StorageDriver from '@/core/storage/s3Storage.driver';
+
+const endpoint = process.env.STORAGE_S3_TEST_ENDPOINT;
+const options = {
+  bucket: process.env.STORAGE_S3_TEST_BUCKET || 'storage-driver-test',
+  region: 'us-east-1',
+  endpoint: endpoint ?? '',
+  accessKeyId: process.env.STORAGE_S3_TEST_ACCESS_KEY_ID || 'minioadmin',
+  secretAccessKey:
+    process.env.STORAGE_S3_TEST_SECRET_ACCESS_KEY || 'minioadmin',
+  forcePathStyle: true,
+};
+
+// Keys of this run, so runs sharing the bucket do not see each other's files
+const prefix = `test-${Date.now()}/`;
+
+(endpoint ? describe : describe.skip)('S3StorageDriver (MinIO)', () => {
+  let driver: S3StorageDriver;
+
+  beforeAll(async () => {
+    const client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: true,
+      credentials: {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+      },
+    });
+    try {
+      await client.send(new HeadBucketCommand({ Bucket: options.bucket }));
+    } catch {
+      await client.send(new CreateBucketCommand({ Bucket: options.bucket }));
+    }
+    client.destroy();
+
+    driver = new S3StorageDriver(options);
+  });
+
+  afterAll(async () => {
+    for await (const key of driver.list(prefix)) {
+      await driver.delete(key);
+    }
+  });
+
+  it('requires a bucket', () => {
+    expect(() => new S3StorageDriver({ ...options, bucket: '' })).toThrow(
+      'The s3 storage driver requires STORAGE_S3_BUCKET'
+    );
+  });
+
+  it('stores, reads and deletes an object', async () => {
+    const key = `${prefix}products/photo.png`;
+    await driver.put(key, Buffer.from('content'));
+
+    expect(await driver.exists(key)).toBe(true);
+    expect((await driver.get(key)).toString()).toBe('content');
+
+    await driver.delete(key);
+    expect(await driver.exists(key)).toBe(false);
+  });
+
+  it('streams an object with the content type deduced from its key', async () => {
+    const key = `${prefix}products/photo.webp`;
+    await driver.put(key, Buffer.from('webp content'));
+
+    const file = await driver.stream(key);
+    const chunks: Buffer[] = [];
+    for await (const chunk of file.stream) {
+      chunks.push(chunk as Buffer);
+    }
+
+    expect(file.contentType).toBe('image/webp');
+    expect(file.size).toBe(12);
+    expect(Buffer.concat(chunks).toString()).toBe('webp content');
+  });
+
+  it('reports missing objects by their key', async () => {
+    const key = `${prefix}products/missing.png`;
+
+    await expect(driver.get(key)).rejects.toThrow(`File ${key} not found`);
+    await expect(driver.delete(key)).resolves.toBe(undefined);
+  });
+
+  it('lists the keys under a prefix', async () => {
+    await driver.put(`${prefix}categories/a.png`, Buffer.from('a'));
+    await driver.put(`${prefix}suppliers/b.png`, Buffer.from('b'));
+
+    const keys: string[] = [];
+    for await (const key of driver.list(`${prefix}categories/`)) {
+      keys.push(key);
+    }
+
+    expect(keys).toEqual([`${prefix}categories/a.png`]);
+  });
+
+  it('gives read access through presigned URLs', async () => {
+    const key = `${prefix}products/signed.png`;
+    await driver.put(key, Buffer.from('signed content'));
+
+    const response = await fetch(await driver.signedUrl(key, 60));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('image/png');
+    expect(await response.text()).toBe('signed content');
+  });
+});